@@ -0,0 +1,251 @@
+import {
+  Cluster,
+  type ClusteringAlgorithm,
+  DBSCAN,
+  Kmeans,
+  KmeansPlusPlusInitializer,
+  MedianCut,
+  Octree,
+  type Point3,
+  type Point5,
+  Wu,
+  WuInitializer,
+  squaredEuclidean,
+} from './math';
+import { assert, isString } from './utils';
+
+/**
+ * The built-in algorithm to use for palette extraction.
+ * dbscan: Density-based spatial clustering of applications with noise(DBSCAN) clustering.
+ * kmeans: K-means clustering.
+ * median-cut: Median cut color quantization, which is used by color-thief.
+ * octree: Octree color quantization.
+ * wu: Wu's color quantization, which minimizes the variance of the colors in each cluster.
+ * celebi: K-means clustering initialized with the centers of Wu's color quantization, as the QuantizerCelebi of
+ * Material Color Utilities, which gives stable results.
+ *
+ * @see [DBSCAN - Wikipedia](https://en.wikipedia.org/wiki/DBSCAN)
+ * @see [k-means clustering - Wikipedia](https://en.wikipedia.org/wiki/K-means_clustering)
+ * @see [Median cut - Wikipedia](https://en.wikipedia.org/wiki/Median_cut)
+ * @see [Octree - Wikipedia](https://en.wikipedia.org/wiki/Octree)
+ * @see [Material Color Utilities](https://github.com/material-foundation/material-color-utilities)
+ */
+export type Algorithm = 'dbscan' | 'kmeans' | 'median-cut' | 'octree' | 'wu' | 'celebi';
+
+/**
+ * AlgorithmParams interface represents the tunable parameters of the clustering algorithms.
+ * The parameters not used by the algorithm are ignored, and the missing parameters are the defaults of the algorithm.
+ */
+export interface AlgorithmParams {
+  /**
+   * The number of clusters of k-means. Default is 32.
+   */
+  readonly k?: number;
+
+  /**
+   * The maximum number of iterations of k-means and celebi. Default is 10.
+   */
+  readonly maxIterations?: number;
+
+  /**
+   * The tolerance of the centroid movement for the convergence of k-means and celebi. Default is 0.0001.
+   */
+  readonly tolerance?: number;
+
+  /**
+   * The minimum number of points required to form a cluster of DBSCAN. Default is 16.
+   */
+  readonly minPoints?: number;
+
+  /**
+   * The squared radius to search for the neighbors of DBSCAN in the normalized coordinates. Default is 0.0016.
+   */
+  readonly epsilon?: number;
+
+  /**
+   * The maximum number of colors of median cut, octree, wu and celebi. Default is 32.
+   */
+  readonly maxColors?: number;
+}
+
+/**
+ * AlgorithmConfig interface represents the named algorithm with its parameters.
+ */
+export interface AlgorithmConfig {
+  /**
+   * The name of the built-in or the registered algorithm.
+   */
+  readonly name: string;
+
+  /**
+   * The parameters of the algorithm.
+   */
+  readonly params?: AlgorithmParams;
+}
+
+/**
+ * The function to create a clustering algorithm from the parameters.
+ * The points to cluster are the normalized color coordinates followed by the normalized image coordinates.
+ *
+ * @see {@link registerAlgorithm}
+ */
+export type AlgorithmFactory = (params: AlgorithmParams) => ClusteringAlgorithm<Point5>;
+
+/**
+ * The algorithm to use for palette extraction, which is one of the followings:
+ * - The name of the built-in or the registered algorithm.
+ * - The name of the algorithm with its parameters.
+ * - The instance of the clustering algorithm.
+ *
+ * The names of the built-in algorithms are listed for the autocompletion, while any registered name is accepted.
+ */
+export type AlgorithmOption = Algorithm | (string & {}) | AlgorithmConfig | ClusteringAlgorithm<Point5>;
+
+/**
+ * The name recorded for the instances of the clustering algorithm, which have no name.
+ */
+const CUSTOM_ALGORITHM_NAME = 'custom';
+
+const BUILTIN_ALGORITHMS: Record<Algorithm, AlgorithmFactory> = {
+  dbscan: ({ minPoints = 16, epsilon = 0.0016 }: AlgorithmParams): ClusteringAlgorithm<Point5> => {
+    return new DBSCAN<Point5>(minPoints, epsilon, squaredEuclidean);
+  },
+  kmeans: ({ k = 32, maxIterations = 10, tolerance = 0.0001 }: AlgorithmParams): ClusteringAlgorithm<Point5> => {
+    const strategy = new KmeansPlusPlusInitializer<Point5>(squaredEuclidean);
+    return new Kmeans<Point5>(k, maxIterations, tolerance, squaredEuclidean, strategy);
+  },
+  // The quantizers split the colors only, since the points also have the image coordinates.
+  'median-cut': ({ maxColors = 32 }: AlgorithmParams): ClusteringAlgorithm<Point5> => {
+    return new MedianCut<Point5>(maxColors, 3);
+  },
+  octree: ({ maxColors = 32 }: AlgorithmParams): ClusteringAlgorithm<Point5> => {
+    return new Octree<Point5>(maxColors);
+  },
+  wu: ({ maxColors = 32 }: AlgorithmParams): ClusteringAlgorithm<Point5> => {
+    return new Wu<Point5>(maxColors);
+  },
+  // Each pixel is a point, so that the k-means is weighted by the population of the colors.
+  celebi: ({
+    maxColors = 32,
+    maxIterations = 10,
+    tolerance = 0.0001,
+  }: AlgorithmParams): ClusteringAlgorithm<Point5> => {
+    const strategy = new WuInitializer<Point3>();
+    return clusterColors(new Kmeans<Point3>(maxColors, maxIterations, tolerance, squaredEuclidean, strategy));
+  },
+};
+
+/**
+ * Adapt the clustering algorithm of the colors to the points with the image coordinates, so that the pixels are
+ * clustered by their colors regardless of their positions.
+ *
+ * @param algorithm - The clustering algorithm of the colors.
+ * @return The clustering algorithm of the points.
+ */
+function clusterColors(algorithm: ClusteringAlgorithm<Point3>): ClusteringAlgorithm<Point5> {
+  return {
+    fit(points: Point5[]): Cluster<Point5>[] {
+      const colors = points.map(([l, a, b]: Point5): Point3 => [l, a, b]);
+      return algorithm.fit(colors).reduce((clusters: Cluster<Point5>[], colorCluster: Cluster<Point3>) => {
+        const indices = colorCluster.getMemberships();
+        if (indices.size === 0) {
+          return clusters;
+        }
+        const [first] = indices;
+        const cluster = new Cluster<Point5>(points[first]);
+        for (const index of indices) {
+          cluster.addMember(index, points[index]);
+        }
+        clusters.push(cluster);
+        return clusters;
+      }, []);
+    },
+  };
+}
+
+const algorithms = new Map<string, AlgorithmFactory>();
+
+/**
+ * Register the clustering algorithm with the given name.
+ * The algorithm registered later replaces the algorithm registered earlier with the same name.
+ * The algorithms are registered per thread, so the registered algorithms are not available in Palette.extractAsync,
+ * which extracts the palette in a worker.
+ *
+ * @param name - The name of the algorithm.
+ * @param factory - The function to create the algorithm from the parameters.
+ * @throws {AssertionError} If the name is empty or the name of a built-in algorithm.
+ * @see {@link unregisterAlgorithm}
+ */
+export function registerAlgorithm(name: string, factory: AlgorithmFactory): void {
+  assert(isString(name) && name.length > 0, `The algorithm name must be a non-empty string: ${name}`);
+  assert(!Object.hasOwn(BUILTIN_ALGORITHMS, name), `The built-in algorithm(${name}) cannot be replaced`);
+  assert(name !== CUSTOM_ALGORITHM_NAME, `The algorithm name(${name}) is reserved`);
+  algorithms.set(name, factory);
+}
+
+/**
+ * Unregister the clustering algorithm with the given name.
+ *
+ * @param name - The name of the algorithm.
+ * @return True if the algorithm was registered, false otherwise.
+ * @see {@link registerAlgorithm}
+ */
+export function unregisterAlgorithm(name: string): boolean {
+  return algorithms.delete(name);
+}
+
+/**
+ * Create the clustering algorithm from the given option.
+ *
+ * @param option - The algorithm option.
+ * @return The clustering algorithm. The instance of the clustering algorithm is returned as it is.
+ * @throws {AssertionError} If the algorithm is neither built-in nor registered.
+ */
+export function createAlgorithm(option: AlgorithmOption): ClusteringAlgorithm<Point5> {
+  if (isClusteringAlgorithm(option)) {
+    return option;
+  }
+  const { name, params = {} } = isString(option) ? { name: option } : option;
+  const factory =
+    algorithms.get(name) ??
+    (Object.hasOwn(BUILTIN_ALGORITHMS, name) ? BUILTIN_ALGORITHMS[name as Algorithm] : undefined);
+  assert(factory !== undefined, `Unknown algorithm(${name})`);
+  return factory(params);
+}
+
+/**
+ * Return the name of the algorithm of the given option.
+ *
+ * @param option - The algorithm option.
+ * @return The name of the algorithm, or 'custom' for the instance of the clustering algorithm.
+ */
+export function resolveAlgorithmName(option: AlgorithmOption): string {
+  if (isClusteringAlgorithm(option)) {
+    return CUSTOM_ALGORITHM_NAME;
+  }
+  return isString(option) ? option : option.name;
+}
+
+/**
+ * Check whether the given option is a built-in algorithm.
+ *
+ * @param option - The algorithm option.
+ * @return True if the option is the name of a built-in algorithm or the built-in algorithm with its parameters, false
+ * otherwise.
+ */
+export function isBuiltinAlgorithm(option: AlgorithmOption): boolean {
+  if (isClusteringAlgorithm(option)) {
+    return false;
+  }
+  return Object.hasOwn(BUILTIN_ALGORITHMS, resolveAlgorithmName(option));
+}
+
+/**
+ * Check whether the given option is an instance of the clustering algorithm.
+ *
+ * @param option - The algorithm option.
+ * @return True if the option is an instance of the clustering algorithm, false otherwise.
+ */
+export function isClusteringAlgorithm(option: AlgorithmOption): option is ClusteringAlgorithm<Point5> {
+  return !isString(option) && typeof (option as Partial<ClusteringAlgorithm<Point5>>).fit === 'function';
+}
@@ -0,0 +1,82 @@
+import { type RGBColorSpace, RGBSpace, type XYZ, XYZSpace } from './color';
+import { assert } from './utils';
+
+/**
+ * The method to estimate the illuminant of the scene from the pixels of an image.
+ * gray-world: Assumes the average of the scene is achromatic, and estimates the illuminant from the mean of the pixels.
+ * white-patch: Assumes the brightest surface is white, and estimates the illuminant from the maximum of each channel.
+ * shades-of-gray: Generalizes the both with the Minkowski norm of p = 6, which is more robust than the both.
+ *
+ * @see [Finlayson and Trezzi, Shades of Gray and Colour Constancy](https://library.imaging.org/cic/articles/12/1/art00008)
+ */
+export type WhiteBalance = 'gray-world' | 'white-patch' | 'shades-of-gray';
+
+/**
+ * The order of the Minkowski norm used by the shades of gray method.
+ */
+const MINKOWSKI_NORM = 6;
+
+/**
+ * The estimators of the illuminant in the linear RGB color space.
+ * Each estimator accumulates the linear components of the pixels, and returns the estimated components.
+ */
+const ESTIMATORS: Record<
+  WhiteBalance,
+  { accumulate(total: number, value: number): number; finish(total: number, count: number): number }
+> = {
+  'gray-world': {
+    accumulate: (total: number, value: number): number => total + value,
+    finish: (total: number, count: number): number => total / count,
+  },
+  'white-patch': {
+    accumulate: (total: number, value: number): number => Math.max(total, value),
+    finish: (total: number): number => total,
+  },
+  'shades-of-gray': {
+    accumulate: (total: number, value: number): number => total + value ** MINKOWSKI_NORM,
+    finish: (total: number, count: number): number => (total / count) ** (1 / MINKOWSKI_NORM),
+  },
+};
+
+/**
+ * Estimate the white point of the illuminant the given image was captured under.
+ * The fully transparent pixels are ignored. The white point is D65 if the illuminant cannot be estimated, such as the
+ * image has no visible pixels or lacks any of the RGB channels.
+ *
+ * @param imageData - The image data to estimate the illuminant from.
+ * @param method - The method to estimate the illuminant.
+ * @param colorSpace - The RGB color space of the pixels.
+ * @returns The white point of the illuminant in the XYZ color space, normalized so that the y component is 1.0.
+ * @throws {AssertionError} If the method is unknown.
+ */
+export function estimateIlluminant(imageData: ImageData, method: WhiteBalance, colorSpace: RGBColorSpace): XYZ {
+  assert(Object.hasOwn(ESTIMATORS, method), `Unknown white balance method(${method})`);
+  const { accumulate, finish } = ESTIMATORS[method];
+
+  // Look up the linear components instead of decoding the transfer function for every pixel.
+  const linear = Array.from({ length: RGBSpace.MAX_RGB + 1 }, (_: unknown, value: number): number =>
+    XYZSpace.linearize(value / RGBSpace.MAX_RGB, colorSpace),
+  );
+
+  const { data, width, height } = imageData;
+  const size = width * height;
+  const channels = size === 0 ? 4 : Math.floor(data.length / size); // 4 for RGBA, 3 for RGB
+  const totals: [number, number, number] = [0, 0, 0];
+  let count = 0;
+  for (let i = 0; i < size * channels; i += channels) {
+    if (channels === 4 && data[i + 3] === 0) {
+      continue;
+    }
+    totals[0] = accumulate(totals[0], linear[data[i]]);
+    totals[1] = accumulate(totals[1], linear[data[i + 1]]);
+    totals[2] = accumulate(totals[2], linear[data[i + 2]]);
+    count++;
+  }
+
+  const components = totals.map((total: number): number => (count === 0 ? 0 : finish(total, count)));
+  if (components.some((component: number): boolean => component <= 0)) {
+    return XYZSpace.D65;
+  }
+  const { x, y, z } = XYZSpace.fromLinearRGB(components as [number, number, number], colorSpace);
+  return { x: x / y, y: 1.0, z: z / y };
+}
@@ -0,0 +1,152 @@
+import { assert, assertFiniteNumber, isString } from '../utils';
+import { XYZSpace } from './space';
+import type { XYZ } from './types';
+
+/**
+ * The CIE standard illuminants of the CIE 1931 2° standard observer.
+ * A: The incandescent tungsten light.
+ * C: The average daylight, deprecated in favor of D65.
+ * D50, D55, D65 and D75: The daylight of the correlated color temperatures of 5000K, 5500K, 6500K and 7500K.
+ * E: The equal energy radiator.
+ * F2, F7 and F11: The cool white, the broadband daylight and the narrow tri-band fluorescent lights.
+ *
+ * @see [Standard illuminant - Wikipedia](https://en.wikipedia.org/wiki/Standard_illuminant)
+ */
+export type Illuminant = 'A' | 'C' | 'D50' | 'D55' | 'D65' | 'D75' | 'E' | 'F2' | 'F7' | 'F11';
+
+/**
+ * The reference white of a color, as a standard illuminant or a custom white in the XYZ color space.
+ * The custom white is normalized so that the y component is 1.0.
+ */
+export type WhitePoint = Illuminant | XYZ;
+
+/**
+ * The chromatic adaptation transform(CAT) to adapt a color from a white point to another.
+ * bradford: The Bradford transform, which is used by the ICC profiles.
+ * cat02: The transform of the CIECAM02 color appearance model.
+ * von-kries: The von Kries transform with the Hunt-Pointer-Estevez cone responses.
+ *
+ * @see [Chromatic adaptation - Wikipedia](https://en.wikipedia.org/wiki/Chromatic_adaptation)
+ */
+export type AdaptationMethod = 'bradford' | 'cat02' | 'von-kries';
+
+type Matrix3 = [[number, number, number], [number, number, number], [number, number, number]];
+
+/**
+ * The white points of the standard illuminants in the XYZ color space.
+ *
+ * @see [Bruce Lindbloom - Reference White](http://www.brucelindbloom.com/index.html?Eqn_ChromAdapt.html)
+ */
+const ILLUMINANTS: Record<Illuminant, XYZ> = {
+  A: { x: 1.0985, y: 1.0, z: 0.35585 },
+  C: { x: 0.98074, y: 1.0, z: 1.18232 },
+  D50: { x: 0.96422, y: 1.0, z: 0.82521 },
+  D55: { x: 0.95682, y: 1.0, z: 0.92149 },
+  D65: XYZSpace.D65,
+  D75: { x: 0.94972, y: 1.0, z: 1.22638 },
+  E: { x: 1.0, y: 1.0, z: 1.0 },
+  F2: { x: 0.99187, y: 1.0, z: 0.67395 },
+  F7: { x: 0.95044, y: 1.0, z: 1.08755 },
+  F11: { x: 1.00966, y: 1.0, z: 0.6437 },
+};
+
+/**
+ * The matrices to convert the XYZ color space to the cone response domain of each method, and their inverses.
+ */
+const CONE_MATRICES: Record<AdaptationMethod, { forward: Matrix3; inverse: Matrix3 }> = {
+  bradford: {
+    forward: [
+      [0.8951, 0.2664, -0.1614],
+      [-0.7502, 1.7135, 0.0367],
+      [0.0389, -0.0685, 1.0296],
+    ],
+    inverse: [
+      [0.9869929, -0.1470543, 0.1599627],
+      [0.4323053, 0.5183603, 0.0492912],
+      [-0.0085287, 0.0400428, 0.9684867],
+    ],
+  },
+  cat02: {
+    forward: [
+      [0.7328, 0.4296, -0.1624],
+      [-0.7036, 1.6975, 0.0061],
+      [0.003, 0.0136, 0.9834],
+    ],
+    inverse: [
+      [1.0961238, -0.278869, 0.1827452],
+      [0.454369, 0.4735332, 0.0720978],
+      [-0.0096276, -0.005698, 1.0153256],
+    ],
+  },
+  'von-kries': {
+    forward: [
+      [0.40024, 0.7076, -0.08081],
+      [-0.2263, 1.16532, 0.0457],
+      [0.0, 0.0, 0.91822],
+    ],
+    inverse: [
+      [1.8599364, -1.1293816, 0.2198974],
+      [0.3611914, 0.6388125, -0.0000064],
+      [0.0, 0.0, 1.0890636],
+    ],
+  },
+};
+
+/**
+ * Resolve the given white point to the white in the XYZ color space.
+ *
+ * @param whitePoint - The standard illuminant or the custom white.
+ * @returns The white in the XYZ color space.
+ * @throws {AssertionError} If the illuminant is unknown or the custom white is not positive.
+ */
+export function resolveWhitePoint(whitePoint: WhitePoint): XYZ {
+  if (isString(whitePoint)) {
+    assert(Object.hasOwn(ILLUMINANTS, whitePoint), `Unknown illuminant(${whitePoint})`);
+    return ILLUMINANTS[whitePoint];
+  }
+
+  const { x, y, z } = whitePoint;
+  assertFiniteNumber(x, `The x(${x}) of the white point must be a finite number`);
+  assertFiniteNumber(y, `The y(${y}) of the white point must be a finite number`);
+  assertFiniteNumber(z, `The z(${z}) of the white point must be a finite number`);
+  assert(x > 0 && y > 0 && z > 0, `The white point(${x}, ${y}, ${z}) must be positive`);
+  return { x: x / y, y: 1.0, z: z / y };
+}
+
+/**
+ * Create a function to adapt a color from the source white to the destination white.
+ * The cone responses of the color are scaled by the ratios of the cone responses of the whites, so that the source
+ * white is adapted to the destination white.
+ *
+ * @param source - The white the color is seen under in the XYZ color space.
+ * @param destination - The white to adapt the color to in the XYZ color space.
+ * @param method - The chromatic adaptation transform.
+ * @returns The function to adapt a color in the XYZ color space.
+ * @throws {AssertionError} If the method is unknown.
+ */
+export function createAdaptation(source: XYZ, destination: XYZ, method: AdaptationMethod): (xyz: XYZ) => XYZ {
+  assert(Object.hasOwn(CONE_MATRICES, method), `Unknown chromatic adaptation method(${method})`);
+  const { forward, inverse } = CONE_MATRICES[method];
+  const sourceCone = multiply(forward, [source.x, source.y, source.z]);
+  const destinationCone = multiply(forward, [destination.x, destination.y, destination.z]);
+  const scales = destinationCone.map((value: number, index: number): number => value / sourceCone[index]);
+  // Combine the transforms into a single matrix, since the function is applied to every pixel of an image.
+  const matrix = inverse.map((row: [number, number, number]): [number, number, number] => {
+    const scaled = row.map((value: number, index: number): number => value * scales[index]);
+    return [0, 1, 2].map((column: number): number => {
+      return scaled[0] * forward[0][column] + scaled[1] * forward[1][column] + scaled[2] * forward[2][column];
+    }) as [number, number, number];
+  }) as Matrix3;
+  return ({ x, y, z }: XYZ): XYZ => {
+    const [x2, y2, z2] = multiply(matrix, [x, y, z]);
+    return { x: x2, y: y2, z: z2 };
+  };
+}
+
+function multiply(matrix: Matrix3, [x, y, z]: [number, number, number]): [number, number, number] {
+  return [
+    matrix[0][0] * x + matrix[0][1] * y + matrix[0][2] * z,
+    matrix[1][0] * x + matrix[1][1] * y + matrix[1][2] * z,
+    matrix[2][0] * x + matrix[2][1] * y + matrix[2][2] * z,
+  ];
+}
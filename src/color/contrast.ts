@@ -0,0 +1,110 @@
+import { RGBSpace, XYZSpace } from './space';
+import type { RGB } from './types';
+
+/**
+ * The measure of the contrast between colors.
+ * wcag: The WCAG 2.x contrast ratio in [1.0, 21.0].
+ * apca: The absolute value of the APCA lightness contrast(Lc) in [0, 108].
+ *
+ * @see {@link Color.ensureContrast}
+ */
+export type ContrastMeasure = 'wcag' | 'apca';
+
+/**
+ * The maximum contrast of each measure.
+ */
+export const MAX_CONTRASTS: Record<ContrastMeasure, number> = {
+  wcag: 21.0,
+  apca: 108.0,
+};
+
+/**
+ * The constants of the APCA-W3 0.0.98G-4g contrast algorithm.
+ *
+ * @see [APCA-W3](https://github.com/Myndex/apca-w3)
+ */
+const APCA_COEFFICIENTS = { r: 0.2126729, g: 0.7151522, b: 0.072175 };
+const APCA_MAIN_TRC = 2.4;
+const APCA_BLACK_THRESHOLD = 0.022;
+// The exponent blkClmp is defined as 1.414 by APCA-W3, which is not the square root of 2.
+const APCA_BLACK_CLAMP = 1414 / 1000;
+const APCA_DELTA_Y_MIN = 0.0005;
+const APCA_NORMAL_BACKGROUND = 0.56;
+const APCA_NORMAL_TEXT = 0.57;
+const APCA_REVERSE_BACKGROUND = 0.65;
+const APCA_REVERSE_TEXT = 0.62;
+const APCA_SCALE = 1.14;
+const APCA_OFFSET = 0.027;
+const APCA_CLIP = 0.1;
+
+/**
+ * Calculate the relative luminance of the given color.
+ * The components are linearized by the sRGB transfer function, whose threshold 0.04045 gives the same luminance as
+ * 0.03928 of WCAG 2.0 for the 8-bit components.
+ *
+ * @param rgb - The color in RGB color space.
+ * @returns The relative luminance in [0.0, 1.0].
+ * @see [WCAG 2.0 relative luminance](https://www.w3.org/TR/WCAG20-TECHS/G17.html#G17-tests)
+ */
+export function relativeLuminance({ r, g, b }: RGB): number {
+  const [linearR, linearG, linearB] = [r, g, b].map((value: number): number =>
+    XYZSpace.linearize(value / RGBSpace.MAX_RGB, 'srgb'),
+  );
+  return 0.2126 * linearR + 0.7152 * linearG + 0.0722 * linearB;
+}
+
+/**
+ * Calculate the WCAG 2.x contrast ratio between the given relative luminances.
+ * The ratio does not depend on the order of the luminances.
+ *
+ * @param luminance1 - The relative luminance of the first color.
+ * @param luminance2 - The relative luminance of the second color.
+ * @returns The contrast ratio in [1.0, 21.0].
+ * @see [WCAG 2.0 contrast ratio](https://www.w3.org/TR/WCAG20/#contrast-ratiodef)
+ */
+export function contrastRatio(luminance1: number, luminance2: number): number {
+  const lighter = Math.max(luminance1, luminance2);
+  const darker = Math.min(luminance1, luminance2);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Calculate the APCA lightness contrast(Lc) of the text color on the background color.
+ * The value is positive for dark text on light background, and negative for light text on dark background.
+ *
+ * @param text - The text color in RGB color space.
+ * @param background - The background color in RGB color space.
+ * @returns The lightness contrast in about [-108, 106].
+ * @see [APCA-W3](https://github.com/Myndex/apca-w3)
+ */
+export function apcaContrast(text: RGB, background: RGB): number {
+  const textY = clampBlack(apcaLuminance(text));
+  const backgroundY = clampBlack(apcaLuminance(background));
+  if (Math.abs(backgroundY - textY) < APCA_DELTA_Y_MIN) {
+    return 0;
+  }
+
+  if (backgroundY > textY) {
+    // Dark text on light background.
+    const contrast = (backgroundY ** APCA_NORMAL_BACKGROUND - textY ** APCA_NORMAL_TEXT) * APCA_SCALE;
+    return contrast < APCA_CLIP ? 0 : (contrast - APCA_OFFSET) * 100;
+  }
+  // Light text on dark background.
+  const contrast = (backgroundY ** APCA_REVERSE_BACKGROUND - textY ** APCA_REVERSE_TEXT) * APCA_SCALE;
+  return contrast > -APCA_CLIP ? 0 : (contrast + APCA_OFFSET) * 100;
+}
+
+function apcaLuminance({ r, g, b }: RGB): number {
+  return (
+    APCA_COEFFICIENTS.r * (r / RGBSpace.MAX_RGB) ** APCA_MAIN_TRC +
+    APCA_COEFFICIENTS.g * (g / RGBSpace.MAX_RGB) ** APCA_MAIN_TRC +
+    APCA_COEFFICIENTS.b * (b / RGBSpace.MAX_RGB) ** APCA_MAIN_TRC
+  );
+}
+
+function clampBlack(luminance: number): number {
+  // Soft clamp the luminance of the near black colors.
+  return luminance >= APCA_BLACK_THRESHOLD
+    ? luminance
+    : luminance + (APCA_BLACK_THRESHOLD - luminance) ** APCA_BLACK_CLAMP;
+}
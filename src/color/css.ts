@@ -0,0 +1,321 @@
+import { clamp } from '../math';
+import { assert } from '../utils';
+import { mapToGamut } from './gamut';
+import { COLORS } from './name/colors';
+import { CIELabSpace, HSLSpace, HWBSpace, LCHSpace, OKLCHSpace, OKLabSpace, RGBSpace, XYZSpace } from './space';
+import type { LAB, NamedColor, RGB, RGBColorSpace } from './types';
+
+/**
+ * The format of the color string.
+ * The formats named after the wide gamut RGB color spaces are formatted with the color() function such as
+ * 'color(display-p3 0.9168 0.2 0.1387)'.
+ *
+ * @see {@link Color.format}
+ */
+export type ColorFormat =
+  | 'hex'
+  | 'rgb'
+  | 'hsl'
+  | 'hwb'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch'
+  | 'display-p3'
+  | 'a98-rgb'
+  | 'rec2020';
+
+/**
+ * ParsedColor type represents a color parsed from a CSS color string.
+ */
+type ParsedColor = {
+  /**
+   * The color in CIELAB color space.
+   */
+  readonly lab: LAB;
+
+  /**
+   * The alpha value in [0.0, 1.0].
+   */
+  readonly alpha: number;
+};
+
+const HEX_PATTERN = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/;
+const FUNCTION_PATTERN = /^([a-z-]+)\((.*)\)$/;
+const NUMBER_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/;
+
+/**
+ * The reference values of the percentages for each color function.
+ * The components of 'rgb', 'hsl' and 'hwb' are converted to [0, 255], [0, 100] and [0, 100] respectively.
+ *
+ * @see [CSS Color Module Level 4](https://www.w3.org/TR/css-color-4/)
+ */
+const PERCENT_REFERENCES: Record<string, [number, number, number]> = {
+  rgb: [255, 255, 255],
+  hsl: [0, 100, 100],
+  hwb: [0, 100, 100],
+  lab: [100, 125, 125],
+  lch: [100, 150, 0],
+  oklab: [1, 0.4, 0.4],
+  oklch: [1, 0.4, 0],
+  srgb: [1, 1, 1],
+  'display-p3': [1, 1, 1],
+  'a98-rgb': [1, 1, 1],
+  rec2020: [1, 1, 1],
+};
+
+/**
+ * The RGB color spaces accepted in the color() function.
+ */
+const PREDEFINED_SPACES: RGBColorSpace[] = ['srgb', 'display-p3', 'a98-rgb', 'rec2020'];
+
+/**
+ * The indices of the hue component for each color function.
+ */
+const HUE_INDICES: Record<string, number> = {
+  hsl: 0,
+  hwb: 0,
+  lch: 2,
+  oklch: 2,
+};
+
+const ANGLE_UNITS: Record<string, number> = {
+  deg: 1,
+  rad: 180 / Math.PI,
+  grad: 0.9,
+  turn: 360,
+};
+
+let namedColors: Map<string, LAB> | null = null;
+
+/**
+ * Parse the given CSS color string.
+ *
+ * The hexadecimal notations, the named colors and the functions of CSS Color Module Level 4 are supported:
+ * rgb(), rgba(), hsl(), hsla(), hwb(), lab(), lch(), oklab(), oklch() and color() with srgb, display-p3, a98-rgb and
+ * rec2020.
+ *
+ * @param value - The CSS color string.
+ * @returns The parsed color.
+ * @throws {AssertionError} If the value is not a valid CSS color string.
+ * @see [CSS Color Module Level 4](https://www.w3.org/TR/css-color-4/)
+ */
+export function parseColor(value: string): ParsedColor {
+  const normalized = value.trim().toLowerCase();
+  if (normalized.startsWith('#')) {
+    assert(HEX_PATTERN.test(normalized), `The value(${value}) is not a valid hexadecimal color string`);
+    return parseHex(normalized);
+  }
+
+  if (normalized === 'transparent') {
+    return { lab: { l: 0, a: 0, b: 0 }, alpha: 0 };
+  }
+  const named = findNamedColor(normalized);
+  if (named) {
+    return { lab: named, alpha: 1 };
+  }
+
+  const match = FUNCTION_PATTERN.exec(normalized);
+  assert(match !== null, `The value(${value}) is not a valid CSS color string`);
+  const [, name, body] = match;
+  const { space, components, alpha } = parseArguments(name, body.trim(), value);
+  return { lab: convertToLAB(space, components), alpha: clamp(alpha, 0, 1) };
+}
+
+/**
+ * Format the given color as a CSS color string.
+ * The alpha is omitted if the color is fully opaque.
+ *
+ * @param lab - The color in CIELAB color space.
+ * @param format - The format of the color string.
+ * @param alpha - The alpha value in [0.0, 1.0]. Default is 1.0.
+ * @returns The CSS color string.
+ */
+export function formatColor(lab: LAB, format: ColorFormat, alpha = 1): string {
+  switch (format) {
+    case 'hex':
+      return formatHex(toRGB(lab), alpha);
+    case 'rgb': {
+      const { r, g, b } = toRGB(lab);
+      return `rgb(${r} ${g} ${b}${formatAlpha(alpha)})`;
+    }
+    case 'hsl': {
+      const { h, s, l } = HSLSpace.fromRGB(toRGB(lab));
+      return `hsl(${round(h, 2)} ${round(s * 100, 2)}% ${round(l * 100, 2)}%${formatAlpha(alpha)})`;
+    }
+    case 'hwb': {
+      const { h, w, b } = HWBSpace.fromRGB(toRGB(lab));
+      return `hwb(${round(h, 2)} ${round(w * 100, 2)}% ${round(b * 100, 2)}%${formatAlpha(alpha)})`;
+    }
+    case 'lab':
+      return `lab(${round(lab.l, 2)} ${round(lab.a, 2)} ${round(lab.b, 2)}${formatAlpha(alpha)})`;
+    case 'lch': {
+      const { l, c, h } = LCHSpace.fromLAB(lab);
+      return `lch(${round(l, 2)} ${round(c, 2)} ${round(h, 2)}${formatAlpha(alpha)})`;
+    }
+    case 'oklab': {
+      const { l, a, b } = OKLabSpace.fromXYZ(CIELabSpace.toXYZ(lab));
+      return `oklab(${round(l, 4)} ${round(a, 4)} ${round(b, 4)}${formatAlpha(alpha)})`;
+    }
+    case 'oklch': {
+      const { l, c, h } = OKLCHSpace.fromOKLab(OKLabSpace.fromXYZ(CIELabSpace.toXYZ(lab)));
+      return `oklch(${round(l, 4)} ${round(c, 4)} ${round(h, 2)}${formatAlpha(alpha)})`;
+    }
+    default: {
+      // The color out of the gamut of the RGB color space is mapped into the gamut as well as the sRGB formats.
+      const xyz = CIELabSpace.toXYZ(mapToGamut(lab, format));
+      const [r, g, b] = XYZSpace.toEncodedRGB(xyz, format).map((value: number): number => round(clamp(value, 0, 1), 4));
+      return `color(${format} ${r} ${g} ${b}${formatAlpha(alpha)})`;
+    }
+  }
+}
+
+function formatHex(rgb: RGB, alpha: number): string {
+  const hex = RGBSpace.toHexString(rgb);
+  const value = Math.round(alpha * RGBSpace.MAX_RGB);
+  if (value === RGBSpace.MAX_RGB) {
+    return hex;
+  }
+  return hex + value.toString(16).padStart(2, '0').toUpperCase();
+}
+
+function formatAlpha(alpha: number): string {
+  const rounded = round(alpha, 3);
+  return rounded === 1 ? '' : ` / ${rounded}`;
+}
+
+function parseHex(value: string): ParsedColor {
+  const digits = value.slice(1);
+  // Expand the short notations such as #rgb and #rgba.
+  const expanded = digits.length <= 4 ? [...digits].map((digit: string): string => digit + digit).join('') : digits;
+  const r = Number.parseInt(expanded.slice(0, 2), 16);
+  const g = Number.parseInt(expanded.slice(2, 4), 16);
+  const b = Number.parseInt(expanded.slice(4, 6), 16);
+  const alpha = expanded.length === 8 ? Number.parseInt(expanded.slice(6, 8), 16) / RGBSpace.MAX_RGB : 1;
+  return { lab: fromRGB({ r, g, b }), alpha };
+}
+
+function findNamedColor(name: string): LAB | undefined {
+  if (!namedColors) {
+    namedColors = new Map(
+      COLORS.map((namedColor: NamedColor<LAB>): [string, LAB] => [namedColor.name.toLowerCase(), namedColor.color]),
+    );
+  }
+  return namedColors.get(name);
+}
+
+function parseArguments(
+  name: string,
+  body: string,
+  value: string,
+): { space: string; components: [number, number, number]; alpha: number } {
+  // The legacy syntax separates the components with commas, and the alpha is the fourth component.
+  const legacy = body.includes(',');
+  let space = name.replace(/a$/, '');
+  assert(
+    name === space || name === 'rgba' || name === 'hsla',
+    `Unsupported color function(${name}) in the value(${value})`,
+  );
+
+  let tokens: string[];
+  let alphaToken: string | undefined;
+  if (legacy) {
+    assert(space === 'rgb' || space === 'hsl', `The function(${name}) does not accept commas in the value(${value})`);
+    tokens = body.split(',').map((token: string): string => token.trim());
+    alphaToken = tokens.length === 4 ? tokens.pop() : undefined;
+  } else {
+    const [main, alpha, ...rest] = body.split('/').map((token: string): string => token.trim());
+    assert(rest.length === 0 && alpha !== '', `The alpha is malformed in the value(${value})`);
+    tokens = main.split(/\s+/);
+    alphaToken = alpha;
+    if (space === 'color') {
+      space = tokens.shift() ?? '';
+      assert(
+        PREDEFINED_SPACES.some((candidate: string): boolean => candidate === space),
+        `Unsupported color space(${space}) in the value(${value})`,
+      );
+    }
+  }
+
+  assert(Object.hasOwn(PERCENT_REFERENCES, space), `Unsupported color function(${name}) in the value(${value})`);
+  const references = PERCENT_REFERENCES[space];
+  assert(tokens.length === 3, `The function(${name}) requires 3 components in the value(${value}): ${tokens.length}`);
+
+  const hueIndex = HUE_INDICES[space];
+  const components = tokens.map((token: string, index: number): number => {
+    if (index === hueIndex) {
+      return parseHue(token, value);
+    }
+    return parseComponent(token, references[index], value);
+  }) as [number, number, number];
+  const alpha = alphaToken === undefined ? 1 : parseComponent(alphaToken, 1, value);
+  return { space, components, alpha };
+}
+
+function parseComponent(token: string, reference: number, value: string): number {
+  if (token === 'none') {
+    return 0;
+  }
+  const match = NUMBER_PATTERN.exec(token);
+  assert(
+    match !== null && (match[2] === undefined || match[2] === '%'),
+    `Invalid component(${token}) in the value(${value})`,
+  );
+  const number = Number(match[1]);
+  return match[2] === '%' ? (number / 100) * reference : number;
+}
+
+function parseHue(token: string, value: string): number {
+  if (token === 'none') {
+    return 0;
+  }
+  const match = NUMBER_PATTERN.exec(token);
+  assert(match !== null && match[2] !== '%', `Invalid hue(${token}) in the value(${value})`);
+  return Number(match[1]) * ANGLE_UNITS[match[2] ?? 'deg'];
+}
+
+function convertToLAB(space: string, [x, y, z]: [number, number, number]): LAB {
+  switch (space) {
+    case 'rgb':
+      return fromRGB({ r: x, g: y, b: z });
+    case 'srgb':
+      return fromRGB({ r: x * RGBSpace.MAX_RGB, g: y * RGBSpace.MAX_RGB, b: z * RGBSpace.MAX_RGB });
+    case 'hsl':
+      return fromRGB(HSLSpace.toRGB({ h: x, s: y / 100, l: z / 100 }));
+    case 'hwb':
+      return fromRGB(HWBSpace.toRGB({ h: x, w: y / 100, b: z / 100 }));
+    case 'display-p3':
+    case 'a98-rgb':
+    case 'rec2020':
+      return CIELabSpace.fromXYZ(XYZSpace.fromEncodedRGB([x, y, z], space));
+    case 'lab':
+      return { l: CIELabSpace.clampL(x), a: CIELabSpace.clampA(y), b: CIELabSpace.clampB(z) };
+    case 'lch':
+      return LCHSpace.toLAB({ l: x, c: y, h: z });
+    case 'oklab':
+      return CIELabSpace.fromXYZ(OKLabSpace.toXYZ({ l: x, a: y, b: z }));
+    default:
+      return CIELabSpace.fromXYZ(OKLabSpace.toXYZ(OKLCHSpace.toOKLab({ l: x, c: y, h: z })));
+  }
+}
+
+function fromRGB({ r, g, b }: RGB): LAB {
+  // The components are rounded since the RGB color space accepts only integers.
+  const rgb = {
+    r: RGBSpace.clampValue(Math.round(r)),
+    g: RGBSpace.clampValue(Math.round(g)),
+    b: RGBSpace.clampValue(Math.round(b)),
+  };
+  return CIELabSpace.fromXYZ(XYZSpace.fromRGB(rgb));
+}
+
+function toRGB(lab: LAB): RGB {
+  // The color out of the sRGB gamut is mapped into the gamut instead of clipping the RGB components.
+  return XYZSpace.toRGB(CIELabSpace.toXYZ(mapToGamut(lab, 'srgb')));
+}
+
+function round(value: number, digits: number): number {
+  const scale = 10 ** digits;
+  // Add 0 to convert -0 to 0.
+  return Math.round(value * scale) / scale + 0;
+}
@@ -0,0 +1,125 @@
+import { clamp } from '../math';
+import type { Color } from './index';
+import { CIELabSpace, OKLCHSpace, OKLabSpace, XYZSpace } from './space';
+import type { LAB, OKLab, RGBColorSpace } from './types';
+
+/**
+ * The gamut of the RGB color space to display the color in.
+ *
+ * @see {@link RGBColorSpace}
+ */
+export type Gamut = RGBColorSpace;
+
+/**
+ * GamutMapping type represents the result of the gamut mapping.
+ *
+ * @see {@link Color.toGamut}
+ */
+export type GamutMapping = {
+  /**
+   * The color mapped into the gamut.
+   */
+  readonly color: Color;
+
+  /**
+   * The CIEDE2000 color difference between the original color and the mapped color. 0.0 means the color is not moved.
+   */
+  readonly difference: number;
+};
+
+/**
+ * The tolerance of the linear RGB components to absorb the rounding errors of the conversions.
+ */
+const GAMUT_EPSILON = 1e-3;
+
+/**
+ * The just noticeable difference(JND) in the OKLab color space used by the gamut mapping.
+ */
+const JND = 0.02;
+
+/**
+ * The precision of the chroma in the OKLCH color space to stop the binary search.
+ */
+const CHROMA_EPSILON = 1e-4;
+
+/**
+ * Check whether the given color is in the given gamut.
+ *
+ * @param lab - The color in CIELAB color space.
+ * @param gamut - The gamut to check.
+ * @returns True if the color is in the gamut, false otherwise.
+ * @throws {AssertionError} If the gamut is unknown.
+ */
+export function isInGamut(lab: LAB, gamut: Gamut): boolean {
+  return isLinearInGamut(XYZSpace.toLinearRGB(CIELabSpace.toXYZUnclamped(lab), gamut));
+}
+
+/**
+ * Map the given color into the given gamut with the CSS Color Module Level 4 gamut mapping algorithm.
+ * The chroma is reduced in the OKLCH color space until the clipped color is within the JND, so that the lightness and
+ * the hue are preserved.
+ *
+ * @param lab - The color in CIELAB color space.
+ * @param gamut - The gamut to map the color into.
+ * @returns The mapped color in CIELAB color space. The color is returned as it is if the color is in the gamut.
+ * @throws {AssertionError} If the gamut is unknown.
+ * @see [CSS Gamut Mapping to an RGB Destination](https://www.w3.org/TR/css-color-4/#binsearch)
+ */
+export function mapToGamut(lab: LAB, gamut: Gamut): LAB {
+  if (isInGamut(lab, gamut)) {
+    return lab;
+  }
+
+  const origin = OKLCHSpace.fromOKLab(OKLabSpace.fromXYZUnclamped(CIELabSpace.toXYZUnclamped(lab)));
+  if (origin.l >= 1.0) {
+    return { l: CIELabSpace.MAX_L, a: 0, b: 0 };
+  }
+  if (origin.l <= 0.0) {
+    return { l: CIELabSpace.MIN_L, a: 0, b: 0 };
+  }
+
+  let current = OKLCHSpace.toOKLab(origin);
+  if (deltaEOK(clip(current, gamut), current) < JND) {
+    return CIELabSpace.fromXYZ(OKLabSpace.toXYZUnclamped(clip(current, gamut)));
+  }
+
+  let min = 0.0;
+  let max = origin.c;
+  let minInGamut = true;
+  while (max - min > CHROMA_EPSILON) {
+    const chroma = (min + max) / 2;
+    current = OKLCHSpace.toOKLab({ ...origin, c: chroma });
+    if (minInGamut && isLinearInGamut(XYZSpace.toLinearRGB(OKLabSpace.toXYZUnclamped(current), gamut))) {
+      min = chroma;
+      continue;
+    }
+
+    const delta = deltaEOK(clip(current, gamut), current);
+    if (delta >= JND) {
+      max = chroma;
+      continue;
+    }
+    if (JND - delta < CHROMA_EPSILON) {
+      break;
+    }
+    minInGamut = false;
+    min = chroma;
+  }
+  return CIELabSpace.fromXYZ(OKLabSpace.toXYZUnclamped(clip(current, gamut)));
+}
+
+function isLinearInGamut(components: [number, number, number]): boolean {
+  return components.every((value: number): boolean => value >= -GAMUT_EPSILON && value <= 1 + GAMUT_EPSILON);
+}
+
+function clip(oklab: OKLab, gamut: Gamut): OKLab {
+  // The clipping in the linear RGB color space is the same as the clipping in the gamma encoded one.
+  const components = XYZSpace.toLinearRGB(OKLabSpace.toXYZUnclamped(oklab), gamut).map((value: number): number =>
+    clamp(value, 0, 1),
+  ) as [number, number, number];
+  return OKLabSpace.fromXYZUnclamped(XYZSpace.fromLinearRGB(components, gamut));
+}
+
+function deltaEOK(oklab1: OKLab, oklab2: OKLab): number {
+  return Math.sqrt((oklab1.l - oklab2.l) ** 2 + (oklab1.a - oklab2.a) ** 2 + (oklab1.b - oklab2.b) ** 2);
+}
@@ -0,0 +1,81 @@
+import { assert } from '../utils';
+import { CIELabSpace } from './space';
+import type { LCH } from './types';
+
+/**
+ * The scheme of the color harmony.
+ * complementary: The color and the opposite hue.
+ * split-complementary: The color and the two hues adjacent to the opposite hue.
+ * analogous: The color and the two adjacent hues.
+ * triadic: The color and the two hues evenly spaced around the hue circle.
+ * tetradic: The color and the three hues evenly spaced around the hue circle.
+ * monochromatic: The color and the four colors with the same hue and the different lightness.
+ *
+ * @see [Color scheme - Wikipedia](https://en.wikipedia.org/wiki/Color_scheme)
+ */
+export type HarmonyScheme =
+  | 'complementary'
+  | 'split-complementary'
+  | 'analogous'
+  | 'triadic'
+  | 'tetradic'
+  | 'monochromatic';
+
+/**
+ * The offsets of the hue in degrees for each scheme except monochromatic.
+ */
+const HUE_OFFSETS: Record<Exclude<HarmonyScheme, 'monochromatic'>, number[]> = {
+  complementary: [0, 180],
+  'split-complementary': [0, 150, 210],
+  analogous: [0, -30, 30],
+  triadic: [0, 120, 240],
+  tetradic: [0, 90, 180, 270],
+};
+
+/**
+ * The number of colors of the monochromatic scheme.
+ */
+const MONOCHROMATIC_SIZE = 5;
+
+/**
+ * The step of the lightness of the monochromatic scheme.
+ */
+const MONOCHROMATIC_STEP = 15;
+
+/**
+ * Generate the colors of the given harmony scheme in the CIELCh(ab) color space.
+ * The chroma is held, so that the generated colors may be out of the RGB color space.
+ *
+ * @param lch - The base color in the CIELCh(ab) color space.
+ * @param scheme - The scheme of the color harmony.
+ * @returns The colors of the scheme in the CIELCh(ab) color space. The first color is the base color.
+ * @throws {AssertionError} If the scheme is unknown.
+ */
+export function generateHarmony(lch: LCH, scheme: HarmonyScheme): LCH[] {
+  if (scheme === 'monochromatic') {
+    return [lch, ...spreadLightness(lch.l).map((l: number): LCH => ({ ...lch, l }))];
+  }
+
+  assert(Object.hasOwn(HUE_OFFSETS, scheme), `Unknown harmony scheme(${scheme})`);
+  return HUE_OFFSETS[scheme].map((offset: number): LCH => ({ ...lch, h: (lch.h + offset + 360) % 360 }));
+}
+
+/**
+ * Spread the lightness around the given lightness by the step.
+ * The closer lightness is taken first, and the lightness out of the range is skipped, so that the extreme lightness
+ * is spread to one side only.
+ *
+ * @param lightness - The lightness to spread around.
+ * @returns The spread lightness in ascending order.
+ */
+function spreadLightness(lightness: number): number[] {
+  const spread: number[] = [];
+  for (let step = MONOCHROMATIC_STEP; spread.length < MONOCHROMATIC_SIZE - 1; step += MONOCHROMATIC_STEP) {
+    for (const l of [lightness - step, lightness + step]) {
+      if (l >= CIELabSpace.MIN_L && l <= CIELabSpace.MAX_L && spread.length < MONOCHROMATIC_SIZE - 1) {
+        spread.push(l);
+      }
+    }
+  }
+  return spread.sort((l1: number, l2: number): number => l1 - l2);
+}
@@ -1,14 +1,58 @@
 import { radianToDegree } from '../math';
 
-import { assert, assertFiniteNumber } from '../utils';
+import { assertFiniteNumber, assertRange } from '../utils';
+import { type AdaptationMethod, type WhitePoint, createAdaptation, resolveWhitePoint } from './adaptation';
+import { type ContrastMeasure, MAX_CONTRASTS, apcaContrast, contrastRatio, relativeLuminance } from './contrast';
+import { type ColorFormat, formatColor, parseColor } from './css';
 import { type ColorDelta, type ColorDeltaMeasure, ciede2000 } from './difference';
-import { CIELabSpace, HSLSpace, RGBSpace, XYZSpace } from './space';
-import type { HSL, LAB, RGB } from './types';
+import { type Gamut, type GamutMapping, isInGamut, mapToGamut } from './gamut';
+import { type HarmonyScheme, generateHarmony } from './harmony';
+import { type InterpolationSpace, interpolate } from './mix';
+import {
+  CIELabSpace,
+  CMYKSpace,
+  HSLSpace,
+  HSVSpace,
+  HWBSpace,
+  LCHSpace,
+  OKLCHSpace,
+  OKLabSpace,
+  RGBSpace,
+  XYZSpace,
+} from './space';
+import { type TonalPaletteOptions, resolveTones } from './tonal';
+import type { CMYK, HSL, HSV, HWB, LAB, LCH, OKLCH, OKLab, RGB, RGBColorSpace } from './types';
+import { type VisionDeficiency, simulateDeficiency } from './vision';
 
+export {
+  type AdaptationMethod,
+  type Illuminant,
+  type WhitePoint,
+  createAdaptation,
+  resolveWhitePoint,
+} from './adaptation';
+export { type ContrastMeasure, relativeLuminance } from './contrast';
+export { type ColorFormat } from './css';
+export { type Gamut, type GamutMapping } from './gamut';
+export { type HarmonyScheme } from './harmony';
+export { type HuePath, type InterpolationSpace, bezier, interpolate } from './mix';
+export { type TonalPaletteOptions, type TonalScale } from './tonal';
 export * from './difference';
 export * from './name';
 export * from './space';
 export * from './types';
+export { type VisionDeficiency } from './vision';
+
+/**
+ * The number of iterations of the binary search for the lightness in {@link Color.ensureContrast}.
+ * The precision of the lightness is 100 / 2^16, which is finer than the RGB color space.
+ */
+const MAX_LIGHTNESS_SEARCH_ITERATIONS = 16;
+
+/**
+ * The number of iterations of the binary search for the chroma to fit the color in the RGB color space.
+ */
+const MAX_CHROMA_SEARCH_ITERATIONS = 10;
 
 /**
  * Color class represents a color in any color space.
@@ -21,15 +65,18 @@ export class Color {
    * @param l The lightness component of the color.
    * @param a The a component of the color.
    * @param b The b component of the color.
+   * @param opacity The alpha value of the color in [0.0, 1.0]. Default is 1.0.
    */
   private constructor(
     private readonly l: number,
     private readonly a: number,
     private readonly b: number,
+    private readonly opacity: number = 1,
   ) {
     assertFiniteNumber(l, `The l(${l}) must be a finite number`);
     assertFiniteNumber(a, `The a(${a}) must be a finite number`);
     assertFiniteNumber(b, `The b(${b}) must be a finite number`);
+    assertRange(opacity, 0, 1, `The alpha(${opacity}) must be in [0.0, 1.0]`);
     this.l = CIELabSpace.clampL(l);
     this.a = CIELabSpace.clampA(a);
     this.b = CIELabSpace.clampB(b);
@@ -41,7 +88,29 @@ export class Color {
    * @returns The cloned color.
    */
   clone(): Color {
-    return new Color(this.l, this.a, this.b);
+    return new Color(this.l, this.a, this.b, this.opacity);
+  }
+
+  /**
+   * Return the alpha value of the color.
+   *
+   * @returns The alpha value in [0.0, 1.0]. 1.0 means the color is fully opaque.
+   * @see {@link Color.withAlpha}
+   */
+  alpha(): number {
+    return this.opacity;
+  }
+
+  /**
+   * Return a new color with the given alpha value.
+   *
+   * @param alpha - The alpha value in [0.0, 1.0].
+   * @returns The new color with the alpha value.
+   * @throws {AssertionError} If the alpha value is not in [0.0, 1.0].
+   * @see {@link Color.alpha}
+   */
+  withAlpha(alpha: number): Color {
+    return new Color(this.l, this.a, this.b, alpha);
   }
 
   /**
@@ -108,26 +177,399 @@ export class Color {
     return formula({ l: this.l, a: this.a, b: this.b }, { l: other.l, a: other.a, b: other.b });
   }
 
+  /**
+   * Return a new color lightened by the given amount.
+   *
+   * @param amount - The amount to add to the CIELAB lightness in [0, 100].
+   * @returns The new lightened color.
+   * @throws {AssertionError} If the amount is not a finite number.
+   * @see {@link Color.darken}
+   */
+  lighten(amount: number): Color {
+    assertFiniteNumber(amount, `The amount(${amount}) must be a finite number`);
+    return new Color(this.l + amount, this.a, this.b, this.opacity);
+  }
+
+  /**
+   * Return a new color darkened by the given amount.
+   *
+   * @param amount - The amount to subtract from the CIELAB lightness in [0, 100].
+   * @returns The new darkened color.
+   * @throws {AssertionError} If the amount is not a finite number.
+   * @see {@link Color.lighten}
+   */
+  darken(amount: number): Color {
+    assertFiniteNumber(amount, `The amount(${amount}) must be a finite number`);
+    return this.lighten(-amount);
+  }
+
+  /**
+   * Return a new color saturated by the given amount.
+   *
+   * @param amount - The amount to add to the CIELCh(ab) chroma.
+   * @returns The new saturated color.
+   * @throws {AssertionError} If the amount is not a finite number.
+   * @see {@link Color.desaturate}
+   */
+  saturate(amount: number): Color {
+    assertFiniteNumber(amount, `The amount(${amount}) must be a finite number`);
+    const { l, c, h } = this.toLCH();
+    const lab = LCHSpace.toLAB({ l, c: LCHSpace.clampC(c + amount), h });
+    return new Color(lab.l, lab.a, lab.b, this.opacity);
+  }
+
+  /**
+   * Return a new color desaturated by the given amount.
+   *
+   * @param amount - The amount to subtract from the CIELCh(ab) chroma.
+   * @returns The new desaturated color.
+   * @throws {AssertionError} If the amount is not a finite number.
+   * @see {@link Color.saturate}
+   */
+  desaturate(amount: number): Color {
+    assertFiniteNumber(amount, `The amount(${amount}) must be a finite number`);
+    return this.saturate(-amount);
+  }
+
+  /**
+   * Return a new color with the hue rotated by the given degrees.
+   *
+   * @param degrees - The degrees to rotate the CIELCh(ab) hue by.
+   * @returns The new color with the rotated hue.
+   * @throws {AssertionError} If the degrees is not a finite number.
+   * @see {@link Color.complement}
+   */
+  rotateHue(degrees: number): Color {
+    assertFiniteNumber(degrees, `The degrees(${degrees}) must be a finite number`);
+    const { l, c, h } = this.toLCH();
+    const lab = LCHSpace.toLAB({ l, c, h: h + degrees });
+    return new Color(lab.l, lab.a, lab.b, this.opacity);
+  }
+
+  /**
+   * Return the complementary color, which has the opposite hue.
+   *
+   * @returns The complementary color.
+   * @see {@link Color.rotateHue}
+   */
+  complement(): Color {
+    return this.rotateHue(180);
+  }
+
+  /**
+   * Return a new color mixed with the other color.
+   * The alpha is interpolated linearly as well.
+   *
+   * @param other - The other color.
+   * @param ratio - The ratio of the other color in [0.0, 1.0]. Default is 0.5.
+   * @param space - The color space to interpolate the colors in. Default is lab.
+   * @returns The new mixed color.
+   * @throws {AssertionError} If the ratio is not in [0.0, 1.0] or the color space is unknown.
+   */
+  mix(other: Color, ratio = 0.5, space: InterpolationSpace = 'lab'): Color {
+    assertRange(ratio, 0, 1, `The ratio(${ratio}) must be in [0.0, 1.0]`);
+    const lab = interpolate(this.toLAB(), other.toLAB(), ratio, space);
+    const alpha = this.opacity + (other.opacity - this.opacity) * ratio;
+    return new Color(lab.l, lab.a, lab.b, alpha);
+  }
+
+  /**
+   * Generate the harmonious colors of the given scheme by rotating the hue or shifting the lightness in the CIELCh(ab)
+   * color space. The alpha of the color is preserved.
+   *
+   * @param scheme - The scheme of the color harmony.
+   * @returns The colors of the scheme. The first color is the same as this color.
+   * @throws {AssertionError} If the scheme is unknown.
+   * @see {@link Color.complement}
+   */
+  harmony(scheme: HarmonyScheme): Color[] {
+    return generateHarmony(this.toLCH(), scheme).map((lch: LCH): Color => {
+      const lab = LCHSpace.toLAB(lch);
+      return new Color(lab.l, lab.a, lab.b, this.opacity);
+    });
+  }
+
+  /**
+   * Return the inverted color in the RGB color space.
+   *
+   * @returns The inverted color.
+   */
+  invert(): Color {
+    const { r, g, b } = this.toRGB();
+    const inverted = Color.fromRGB({ r: RGBSpace.MAX_RGB - r, g: RGBSpace.MAX_RGB - g, b: RGBSpace.MAX_RGB - b });
+    return inverted.withAlpha(this.opacity);
+  }
+
+  /**
+   * Return the grayscale color with the same CIELAB lightness.
+   *
+   * @returns The grayscale color.
+   */
+  grayscale(): Color {
+    return new Color(this.l, 0, 0, this.opacity);
+  }
+
+  /**
+   * Generate the tonal palette, which varies the lightness of the color and holds the hue and the chroma.
+   * The chroma is reduced only if the tone does not fit in the RGB color space, so the lightest and the darkest tones
+   * tend to be white and black. The alpha of the color is preserved.
+   *
+   * @param options - The options of the tonal palette.
+   * @returns The colors keyed by the tones, such as 0, 10, ..., 100 or 50, 100, ..., 950.
+   * @throws {AssertionError} If the tones are unknown or any tone is not in [0, 100].
+   */
+  tonalPalette(options: TonalPaletteOptions = {}): Record<number, Color> {
+    const tones = resolveTones(options.tones ?? 'material');
+    const palette: Record<number, Color> = {};
+    for (const [key, lightness] of tones) {
+      palette[key] = this.fitLightness(lightness);
+    }
+    return palette;
+  }
+
+  /**
+   * Simulate how the color is perceived with the given color vision deficiency.
+   * The alpha of the color is preserved.
+   *
+   * @param deficiency - The color vision deficiency to simulate.
+   * @param severity - The severity in [0.0, 1.0]. Default is 1.0, which means the dichromacy such as protanopia, and
+   * the less severity means the anomalous trichromacy such as protanomaly.
+   * @returns The simulated color.
+   * @throws {AssertionError} If the deficiency is unknown or the severity is not in [0.0, 1.0].
+   * @see [Machado, Oliveira and Fernandes (2009)](https://www.inf.ufrgs.br/~oliveira/pubs_files/CVD_Simulation/CVD_Simulation.html)
+   */
+  simulateDeficiency(deficiency: VisionDeficiency, severity = 1.0): Color {
+    const simulated = simulateDeficiency(this.toRGB(), deficiency, severity);
+    return Color.fromRGB(simulated).withAlpha(this.opacity);
+  }
+
+  /**
+   * Adapt the color seen under the source white point to the destination white point, which gives the corresponding
+   * color that appears the same under the destination white point.
+   *
+   * @param source - The white point the color is seen under.
+   * @param destination - The white point to adapt the color to. Default is D65.
+   * @param method - The chromatic adaptation transform. Default is bradford.
+   * @returns The adapted color with the alpha of this color.
+   * @throws {AssertionError} If the white points or the method are unknown.
+   * @see [Chromatic adaptation - Wikipedia](https://en.wikipedia.org/wiki/Chromatic_adaptation)
+   */
+  adapt(source: WhitePoint, destination: WhitePoint = 'D65', method: AdaptationMethod = 'bradford'): Color {
+    const adaptation = createAdaptation(resolveWhitePoint(source), resolveWhitePoint(destination), method);
+    const { l, a, b } = CIELabSpace.fromXYZ(adaptation(CIELabSpace.toXYZ(this.toLAB())));
+    return new Color(l, a, b, this.opacity);
+  }
+
+  /**
+   * Calculate the relative luminance of the color as defined in WCAG 2.x.
+   * The alpha of the color is ignored.
+   *
+   * @returns The relative luminance in [0.0, 1.0].
+   * @see {@link Color.contrastRatio}
+   */
+  luminance(): number {
+    return relativeLuminance(this.toRGB());
+  }
+
+  /**
+   * Calculate the WCAG 2.x contrast ratio between this color and the other color.
+   * The alpha of the colors is ignored.
+   *
+   * @param other - The other color.
+   * @returns The contrast ratio in [1.0, 21.0]. 4.5 or more meets the level AA for normal text.
+   * @see [WCAG 2.1 contrast(minimum)](https://www.w3.org/TR/WCAG21/#contrast-minimum)
+   * @see {@link Color.apcaContrast}
+   */
+  contrastRatio(other: Color): number {
+    return contrastRatio(this.luminance(), other.luminance());
+  }
+
+  /**
+   * Calculate the APCA lightness contrast(Lc) of this color as text on the given background color.
+   * The alpha of the colors is ignored.
+   *
+   * @param background - The background color.
+   * @returns The lightness contrast, positive for dark text on light background and negative for light text on dark
+   * background. The absolute value 60 or more is recommended for body text.
+   * @see [APCA-W3](https://github.com/Myndex/apca-w3)
+   * @see {@link Color.contrastRatio}
+   */
+  apcaContrast(background: Color): number {
+    return apcaContrast(this.toRGB(), background.toRGB());
+  }
+
+  /**
+   * Return a new color with the contrast against the background color of at least the target contrast.
+   *
+   * The lightness is shifted to the lighter or the darker side whichever needs the smaller shift, and the chroma is
+   * reduced only if the color does not fit in the RGB color space, so that the hue is preserved. If the target contrast
+   * cannot be reached, the color with the highest contrast found is returned. The alpha of the color is preserved.
+   *
+   * @param background - The background color.
+   * @param target - The target contrast. The WCAG contrast ratio in [1.0, 21.0] or the absolute APCA Lc in [0, 108].
+   * @param measure - The measure of the contrast. Default is wcag.
+   * @returns The new color with the target contrast.
+   * @throws {AssertionError} If the target contrast is not in the range of the measure.
+   * @see {@link Color.contrastRatio}
+   * @see {@link Color.apcaContrast}
+   */
+  ensureContrast(background: Color, target: number, measure: ContrastMeasure = 'wcag'): Color {
+    const minContrast = measure === 'wcag' ? 1.0 : 0.0;
+    assertRange(
+      target,
+      minContrast,
+      MAX_CONTRASTS[measure],
+      `The target contrast(${target}) must be in [${minContrast}, ${MAX_CONTRASTS[measure]}] for ${measure}`,
+    );
+
+    const measureContrast = (color: Color): number => {
+      return measure === 'wcag' ? color.contrastRatio(background) : Math.abs(color.apcaContrast(background));
+    };
+    if (measureContrast(this) >= target) {
+      return this.clone();
+    }
+
+    const candidates = [
+      this.searchLightness(CIELabSpace.MAX_L, target, measureContrast),
+      this.searchLightness(CIELabSpace.MIN_L, target, measureContrast),
+    ];
+    const reached = candidates.filter((candidate: Color): boolean => measureContrast(candidate) >= target);
+    if (reached.length === 0) {
+      return candidates.reduce((best: Color, candidate: Color): Color => {
+        return measureContrast(candidate) > measureContrast(best) ? candidate : best;
+      });
+    }
+    return reached.reduce((best: Color, candidate: Color): Color => {
+      return Math.abs(candidate.l - this.l) < Math.abs(best.l - this.l) ? candidate : best;
+    });
+  }
+
+  /**
+   * Search the lightness between this color and the limit with the smallest shift reaching the target contrast.
+   *
+   * @param limit - The lightness limit to search toward.
+   * @param target - The target contrast.
+   * @param measureContrast - The function to measure the contrast of the color.
+   * @returns The color found, or the color at the limit if the target contrast is not reached.
+   */
+  private searchLightness(limit: number, target: number, measureContrast: (color: Color) => number): Color {
+    let found = this.fitLightness(limit);
+    if (measureContrast(found) < target) {
+      return found;
+    }
+
+    let lower = this.l;
+    let upper = limit;
+    for (let i = 0; i < MAX_LIGHTNESS_SEARCH_ITERATIONS; i++) {
+      const middle = (lower + upper) / 2;
+      const candidate = this.fitLightness(middle);
+      if (measureContrast(candidate) >= target) {
+        found = candidate;
+        upper = middle;
+      } else {
+        lower = middle;
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Return a new color with the given lightness, whose chroma is reduced until the color fits in the RGB color space.
+   * The clipped RGB color would have the different lightness and hue, so the chroma is reduced instead. The color is
+   * rounded to the RGB color space, so that the color is measured as displayed. The lightness 0 and 100 are black and
+   * white, since the gamut check tolerates a small chroma and would keep a tinted color at them.
+   *
+   * @param l - The CIELAB lightness of the new color.
+   * @returns The new color with the alpha of this color.
+   */
+  private fitLightness(l: number): Color {
+    if (l <= 0 || l >= 100) {
+      return Color.fromRGB(new Color(l, 0, 0).toRGB()).withAlpha(this.opacity);
+    }
+
+    let color = new Color(l, this.a, this.b);
+    if (!color.isInGamut()) {
+      let lower = 0.0;
+      let upper = 1.0;
+      for (let i = 0; i < MAX_CHROMA_SEARCH_ITERATIONS; i++) {
+        const middle = (lower + upper) / 2;
+        const candidate = new Color(l, this.a * middle, this.b * middle);
+        if (candidate.isInGamut()) {
+          lower = middle;
+        } else {
+          upper = middle;
+        }
+      }
+      color = new Color(l, this.a * lower, this.b * lower);
+    }
+    return Color.fromRGB(color.toRGB()).withAlpha(this.opacity);
+  }
+
+  /**
+   * Check whether the color is in the given gamut, and is displayed without the gamut mapping.
+   *
+   * @param gamut - The gamut to check. Default is srgb.
+   * @returns True if the color is in the gamut, false otherwise.
+   * @throws {AssertionError} If the gamut is unknown.
+   * @see {@link Color.toGamut}
+   */
+  isInGamut(gamut: Gamut = 'srgb'): boolean {
+    return isInGamut(this.toLAB(), gamut);
+  }
+
+  /**
+   * Map the color into the given gamut by reducing the chroma in the OKLCH color space, as the CSS Color Module Level 4
+   * does. The lightness and the hue are preserved, unlike the clipping of the RGB components.
+   * The color is mapped into the sRGB gamut implicitly when it is converted to RGB or formatted as a string.
+   *
+   * @param gamut - The gamut to map the color into. Default is srgb.
+   * @returns The mapped color with the alpha of this color, and the CIEDE2000 difference from this color.
+   * @throws {AssertionError} If the gamut is unknown.
+   * @see {@link Color.isInGamut}
+   * @see [CSS Color Module Level 4 gamut mapping](https://www.w3.org/TR/css-color-4/#gamut-mapping)
+   */
+  toGamut(gamut: Gamut = 'srgb'): GamutMapping {
+    const { l, a, b } = mapToGamut(this.toLAB(), gamut);
+    const color = new Color(l, a, b, this.opacity);
+    return { color, difference: this.differenceTo(color) };
+  }
+
   /**
    * Return the string representation of the color.
+   * The alpha is appended as the '#RRGGBBAA' notation if the color is not fully opaque.
    *
    * @returns The string representation of the color.
    * @see {@link Color.fromString}
    */
   toString(): string {
-    const rgb = this.toRGB();
-    return RGBSpace.toHexString(rgb);
+    return formatColor({ l: this.l, a: this.a, b: this.b }, 'hex', this.opacity);
+  }
+
+  /**
+   * Format the color as a CSS color string.
+   * The alpha is appended such as '#F4222280' or 'rgb(244 34 34 / 0.5)' if the color is not fully opaque.
+   *
+   * @param format - The format of the color string. Default is hex.
+   * @returns The CSS color string such as '#F42222', 'rgb(244 34 34)' or 'oklch(0.6271 0.2265 27.4)'.
+   * @see {@link Color.fromString}
+   */
+  format(format: ColorFormat = 'hex'): string {
+    return formatColor({ l: this.l, a: this.a, b: this.b }, format, this.opacity);
   }
 
   /**
    * Convert the color to RGB color space.
+   * The color out of the gamut of the RGB color space is mapped into the gamut by {@link Color.toGamut} instead of
+   * clipping.
    *
+   * @param space - The RGB color space to convert the color to. Default is srgb.
    * @returns The color in RGB color space.
+   * @throws {AssertionError} If the RGB color space is unknown.
    * @see {@link Color.fromRGB}
    */
-  toRGB(): RGB {
-    const xyz = CIELabSpace.toXYZ({ l: this.l, a: this.a, b: this.b });
-    return XYZSpace.toRGB(xyz);
+  toRGB(space: RGBColorSpace = 'srgb'): RGB {
+    const xyz = CIELabSpace.toXYZ(mapToGamut({ l: this.l, a: this.a, b: this.b }, space));
+    return XYZSpace.toRGB(xyz, space);
   }
 
   /**
@@ -141,14 +583,90 @@ export class Color {
     return HSLSpace.fromRGB(rgb);
   }
 
+  /**
+   * Convert the color to HSV color space.
+   *
+   * @returns The color in HSV color space.
+   * @see {@link Color.fromHSV}
+   */
+  toHSV(): HSV {
+    const rgb = this.toRGB();
+    return HSVSpace.fromRGB(rgb);
+  }
+
+  /**
+   * Convert the color to HWB color space.
+   *
+   * @returns The color in HWB color space.
+   * @see {@link Color.fromHWB}
+   */
+  toHWB(): HWB {
+    const rgb = this.toRGB();
+    return HWBSpace.fromRGB(rgb);
+  }
+
+  /**
+   * Convert the color to CMYK color space.
+   * The conversion is naive and does not take any printing profile into account.
+   *
+   * @returns The color in CMYK color space.
+   * @see {@link Color.fromCMYK}
+   */
+  toCMYK(): CMYK {
+    const rgb = this.toRGB();
+    return CMYKSpace.fromRGB(rgb);
+  }
+
   /**
    * Convert the color to CIELAB color space.
+   * The color is adapted from D65 to the white point if the white point is not D65.
    *
+   * @param whitePoint - The reference white of the CIELAB color space. Default is D65.
+   * @param method - The chromatic adaptation transform. Default is bradford.
    * @returns The color in CIELAB color space.
+   * @throws {AssertionError} If the white point or the method is unknown.
    * @see {@link Color.fromLAB}
    */
-  toLAB(): LAB {
-    return { l: this.l, a: this.a, b: this.b };
+  toLAB(whitePoint: WhitePoint = 'D65', method: AdaptationMethod = 'bradford'): LAB {
+    if (whitePoint === 'D65') {
+      return { l: this.l, a: this.a, b: this.b };
+    }
+
+    const white = resolveWhitePoint(whitePoint);
+    const adaptation = createAdaptation(XYZSpace.D65, white, method);
+    return CIELabSpace.fromXYZ(adaptation(CIELabSpace.toXYZ({ l: this.l, a: this.a, b: this.b })), white);
+  }
+
+  /**
+   * Convert the color to CIELCh(ab) color space.
+   *
+   * @returns The color in CIELCh(ab) color space.
+   * @see {@link Color.fromLCH}
+   */
+  toLCH(): LCH {
+    return LCHSpace.fromLAB({ l: this.l, a: this.a, b: this.b });
+  }
+
+  /**
+   * Convert the color to OKLab color space.
+   *
+   * @returns The color in OKLab color space.
+   * @see {@link Color.fromOKLab}
+   */
+  toOKLab(): OKLab {
+    const xyz = CIELabSpace.toXYZ({ l: this.l, a: this.a, b: this.b });
+    return OKLabSpace.fromXYZ(xyz);
+  }
+
+  /**
+   * Convert the color to OKLCH color space.
+   *
+   * @returns The color in OKLCH color space.
+   * @see {@link Color.fromOKLCH}
+   */
+  toOKLCH(): OKLCH {
+    const oklab = this.toOKLab();
+    return OKLCHSpace.fromOKLab(oklab);
   }
 
   /**
@@ -179,11 +697,13 @@ export class Color {
    * Create a new Color instance from the given RGB color.
    *
    * @param rgb - The RGB color.
+   * @param space - The RGB color space of the color. Default is srgb.
    * @returns The new Color instance.
+   * @throws {AssertionError} If the RGB color space is unknown.
    * @see {@link Color.toRGB}
    */
-  static fromRGB(rgb: RGB): Color {
-    const xyz = XYZSpace.fromRGB(rgb);
+  static fromRGB(rgb: RGB, space: RGBColorSpace = 'srgb'): Color {
+    const xyz = XYZSpace.fromRGB(rgb, space);
     const lab = CIELabSpace.fromXYZ(xyz);
     return new Color(lab.l, lab.a, lab.b);
   }
@@ -202,29 +722,124 @@ export class Color {
     return new Color(lab.l, lab.a, lab.b);
   }
 
+  /**
+   * Create a new Color instance from the given HSV color.
+   *
+   * @param hsv - The HSV color.
+   * @returns The new Color instance.
+   * @see {@link Color.toHSV}
+   */
+  static fromHSV(hsv: HSV): Color {
+    const rgb = HSVSpace.toRGB(hsv);
+    const xyz = XYZSpace.fromRGB(rgb);
+    const lab = CIELabSpace.fromXYZ(xyz);
+    return new Color(lab.l, lab.a, lab.b);
+  }
+
+  /**
+   * Create a new Color instance from the given HWB color.
+   *
+   * @param hwb - The HWB color.
+   * @returns The new Color instance.
+   * @see {@link Color.toHWB}
+   */
+  static fromHWB(hwb: HWB): Color {
+    const rgb = HWBSpace.toRGB(hwb);
+    const xyz = XYZSpace.fromRGB(rgb);
+    const lab = CIELabSpace.fromXYZ(xyz);
+    return new Color(lab.l, lab.a, lab.b);
+  }
+
+  /**
+   * Create a new Color instance from the given CMYK color.
+   * The conversion is naive and does not take any printing profile into account.
+   *
+   * @param cmyk - The CMYK color.
+   * @returns The new Color instance.
+   * @see {@link Color.toCMYK}
+   */
+  static fromCMYK(cmyk: CMYK): Color {
+    const rgb = CMYKSpace.toRGB(cmyk);
+    const xyz = XYZSpace.fromRGB(rgb);
+    const lab = CIELabSpace.fromXYZ(xyz);
+    return new Color(lab.l, lab.a, lab.b);
+  }
+
   /**
    * Create a new Color instance from the given CIELAB color.
+   * The color is adapted from the white point to D65 if the white point is not D65, such as the CIELAB colors of the
+   * ICC profiles relative to D50.
    *
    * @param lab - The CIELAB color.
+   * @param whitePoint - The reference white of the CIELAB color. Default is D65.
+   * @param method - The chromatic adaptation transform. Default is bradford.
    * @returns The new Color instance.
+   * @throws {AssertionError} If the white point or the method is unknown.
    * @see {@link Color.toLAB}
    */
-  static fromLAB(lab: LAB): Color {
+  static fromLAB(lab: LAB, whitePoint: WhitePoint = 'D65', method: AdaptationMethod = 'bradford'): Color {
+    if (whitePoint === 'D65') {
+      return new Color(lab.l, lab.a, lab.b);
+    }
+
+    const white = resolveWhitePoint(whitePoint);
+    const adaptation = createAdaptation(white, XYZSpace.D65, method);
+    const { l, a, b } = CIELabSpace.fromXYZ(adaptation(CIELabSpace.toXYZ(lab, white)));
+    return new Color(l, a, b);
+  }
+
+  /**
+   * Create a new Color instance from the given CIELCh(ab) color.
+   *
+   * @param lch - The CIELCh(ab) color.
+   * @returns The new Color instance.
+   * @see {@link Color.toLCH}
+   */
+  static fromLCH(lch: LCH): Color {
+    const lab = LCHSpace.toLAB(lch);
     return new Color(lab.l, lab.a, lab.b);
   }
 
   /**
-   * Create a new Color instance from the given string.
+   * Create a new Color instance from the given OKLab color.
+   *
+   * @param oklab - The OKLab color.
+   * @returns The new Color instance.
+   * @see {@link Color.toOKLab}
+   */
+  static fromOKLab(oklab: OKLab): Color {
+    const xyz = OKLabSpace.toXYZ(oklab);
+    const lab = CIELabSpace.fromXYZ(xyz);
+    return new Color(lab.l, lab.a, lab.b);
+  }
+
+  /**
+   * Create a new Color instance from the given OKLCH color.
+   *
+   * @param oklch - The OKLCH color.
+   * @returns The new Color instance.
+   * @see {@link Color.toOKLCH}
+   */
+  static fromOKLCH(oklch: OKLCH): Color {
+    const oklab = OKLCHSpace.toOKLab(oklch);
+    const xyz = OKLabSpace.toXYZ(oklab);
+    const lab = CIELabSpace.fromXYZ(xyz);
+    return new Color(lab.l, lab.a, lab.b);
+  }
+
+  /**
+   * Create a new Color instance from the given CSS color string.
+   * The hexadecimal notations, the named colors, rgb(), hsl(), hwb(), lab(), lch(), oklab(), oklch() and
+   * color(srgb ...) are supported. The alpha such as '#RRGGBBAA' or 'rgb(r g b / a)' is preserved.
    *
    * @param value - The string to parse.
    * @returns The new Color instance.
+   * @throws {AssertionError} If the value is not a valid CSS color string.
    * @see {@link Color.toString}
+   * @see {@link Color.format}
    */
   static fromString(value: string): Color {
-    assert(value.startsWith('#'), `The value(${value}) is not a valid hexadecimal color string`);
-    const rgb = RGBSpace.fromHexString(value);
-    const xyz = XYZSpace.fromRGB(rgb);
-    const lab = CIELabSpace.fromXYZ(xyz);
-    return new Color(lab.l, lab.a, lab.b);
+    const { lab, alpha } = parseColor(value);
+    return new Color(lab.l, lab.a, lab.b, alpha);
   }
 }
@@ -0,0 +1,175 @@
+import { AssertionError } from '../utils';
+import { CIELabSpace, LCHSpace, OKLabSpace, RGBSpace, XYZSpace } from './space';
+import type { LAB } from './types';
+
+/**
+ * The color space to interpolate the colors in.
+ * lab: CIELAB color space.
+ * oklab: OKLab color space, which keeps the blue and purple mixtures from shifting in hue.
+ * lch: CIELCh(ab) color space, which interpolates the hue along the hue path.
+ * srgb: The gamma-encoded sRGB color space, which matches the blending of most image editors.
+ *
+ * @see [CSS Color Module Level 5 color-mix()](https://www.w3.org/TR/css-color-5/#color-mix)
+ */
+export type InterpolationSpace = 'lab' | 'oklab' | 'lch' | 'srgb';
+
+/**
+ * The path to interpolate the hue along in the CIELCh(ab) color space.
+ * shorter: The shorter arc of the hue circle.
+ * longer: The longer arc of the hue circle.
+ *
+ * @see [CSS Color Module Level 4 hue interpolation](https://www.w3.org/TR/css-color-4/#hue-interpolation)
+ */
+export type HuePath = 'shorter' | 'longer';
+
+/**
+ * The chroma below which the hue of the color is ignored in the interpolation.
+ * The gray colors converted from RGB have the small chroma of about 0.01 due to the rounding errors.
+ */
+const ACHROMATIC_THRESHOLD = 0.5;
+
+/**
+ * Interpolate the given colors linearly in the given color space.
+ *
+ * @param from - The color at the ratio 0.0 in CIELAB color space.
+ * @param to - The color at the ratio 1.0 in CIELAB color space.
+ * @param ratio - The ratio of the interpolation in [0.0, 1.0].
+ * @param space - The color space to interpolate the colors in.
+ * @param path - The path to interpolate the hue along in lch. Default is shorter.
+ * @returns The interpolated color in CIELAB color space.
+ * @throws {AssertionError} If the color space is unknown.
+ */
+export function interpolate(
+  from: LAB,
+  to: LAB,
+  ratio: number,
+  space: InterpolationSpace,
+  path: HuePath = 'shorter',
+): LAB {
+  return bezier([from, to], ratio, space, path);
+}
+
+/**
+ * Interpolate the given colors along the Bezier curve whose control points are the colors.
+ * The curve passes through the first and the last colors only, and is linear if two colors are given.
+ *
+ * @param colors - The control points of the curve in CIELAB color space.
+ * @param ratio - The ratio of the interpolation in [0.0, 1.0].
+ * @param space - The color space to interpolate the colors in.
+ * @param path - The path to interpolate the hue along in lch. Default is shorter.
+ * @returns The interpolated color in CIELAB color space.
+ * @throws {AssertionError} If the color space is unknown.
+ * @see [Bezier curve - Wikipedia](https://en.wikipedia.org/wiki/B%C3%A9zier_curve)
+ */
+export function bezier(colors: LAB[], ratio: number, space: InterpolationSpace, path: HuePath = 'shorter'): LAB {
+  const components = colors.map((color: LAB): Components => encode(color, space));
+  if (space === 'lch') {
+    unwrapHues(components, path);
+  }
+
+  // De Casteljau's algorithm.
+  let points = components;
+  while (points.length > 1) {
+    const next: Components[] = [];
+    for (let i = 0; i < points.length - 1; i++) {
+      const [x1, y1, z1] = points[i];
+      const [x2, y2, z2] = points[i + 1];
+      next.push([lerp(x1, x2, ratio), lerp(y1, y2, ratio), lerp(z1, z2, ratio)]);
+    }
+    points = next;
+  }
+  return decode(points[0], space);
+}
+
+type Components = [number, number, number];
+
+function encode(lab: LAB, space: InterpolationSpace): Components {
+  switch (space) {
+    case 'lab':
+      return [lab.l, lab.a, lab.b];
+    case 'oklab': {
+      const { l, a, b } = OKLabSpace.fromXYZ(CIELabSpace.toXYZ(lab));
+      return [l, a, b];
+    }
+    case 'lch': {
+      const { l, c, h } = LCHSpace.fromLAB(lab);
+      // The hue of an achromatic color is undefined, and is filled by the hues of the adjacent colors.
+      return [l, c, c < ACHROMATIC_THRESHOLD ? Number.NaN : h];
+    }
+    case 'srgb': {
+      const { r, g, b } = XYZSpace.toRGB(CIELabSpace.toXYZ(lab));
+      return [r, g, b];
+    }
+    default:
+      throw new AssertionError(`Unknown interpolation space(${space})`);
+  }
+}
+
+function decode([x, y, z]: Components, space: InterpolationSpace): LAB {
+  switch (space) {
+    case 'lab':
+      return { l: x, a: y, b: z };
+    case 'oklab':
+      return CIELabSpace.fromXYZ(OKLabSpace.toXYZ({ l: x, a: y, b: z }));
+    case 'lch':
+      return LCHSpace.toLAB({ l: x, c: y, h: z });
+    case 'srgb': {
+      // The components are rounded since the RGB color space accepts only integers.
+      const xyz = XYZSpace.fromRGB({
+        r: RGBSpace.clampValue(Math.round(x)),
+        g: RGBSpace.clampValue(Math.round(y)),
+        b: RGBSpace.clampValue(Math.round(z)),
+      });
+      return CIELabSpace.fromXYZ(xyz);
+    }
+    default:
+      throw new AssertionError(`Unknown interpolation space(${space})`);
+  }
+}
+
+/**
+ * Fill the undefined hues and unwrap the hues, so that the hues are interpolated along the hue path.
+ *
+ * @param components - The components in the CIELCh(ab) color space, which are modified in place.
+ * @param path - The path to interpolate the hue along.
+ */
+function unwrapHues(components: Components[], path: HuePath): void {
+  const defined = components.findIndex(([, , h]: Components): boolean => !Number.isNaN(h));
+  if (defined < 0) {
+    for (const component of components) {
+      component[2] = 0;
+    }
+    return;
+  }
+
+  // The leading undefined hues are filled with the first defined hue, and the others with the previous hue.
+  let previous = components[defined][2];
+  for (const [index, component] of components.entries()) {
+    if (Number.isNaN(component[2])) {
+      component[2] = previous;
+      continue;
+    }
+    if (index === defined) {
+      continue;
+    }
+
+    let delta = component[2] - previous;
+    if (path === 'shorter') {
+      if (delta > 180) {
+        delta -= 360;
+      } else if (delta < -180) {
+        delta += 360;
+      }
+    } else if (delta > 0 && delta < 180) {
+      delta -= 360;
+    } else if (delta > -180 && delta <= 0) {
+      delta += 360;
+    }
+    component[2] = previous + delta;
+    previous = component[2];
+  }
+}
+
+function lerp(from: number, to: number, ratio: number): number {
+  return from + (to - from) * ratio;
+}
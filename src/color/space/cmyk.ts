@@ -0,0 +1,124 @@
+import { clamp } from '../../math';
+import type { CMYK, RGB } from '../types';
+
+import { assertFiniteNumber, assertInteger } from '../../utils';
+import { MAX_RGB, clampValue } from './rgb';
+
+/**
+ * The minimum value of the CMYK components.
+ *
+ * @see {@link MAX_VALUE}
+ */
+const MIN_VALUE = 0.0;
+
+/**
+ * The maximum value of the CMYK components.
+ *
+ * @see {@link MIN_VALUE}
+ */
+const MAX_VALUE = 1.0;
+
+/**
+ * Clamp the 'c' component of the color.
+ *
+ * @param value The 'c' component of the color.
+ * @returns The clamped 'c' component.
+ * @see {@link clampM}
+ * @see {@link clampY}
+ * @see {@link clampK}
+ */
+export function clampC(value: number): number {
+  return clamp(value, MIN_VALUE, MAX_VALUE);
+}
+
+/**
+ * Clamp the 'm' component of the color.
+ *
+ * @param value The 'm' component of the color.
+ * @returns The clamped 'm' component.
+ * @see {@link clampC}
+ * @see {@link clampY}
+ * @see {@link clampK}
+ */
+export function clampM(value: number): number {
+  return clamp(value, MIN_VALUE, MAX_VALUE);
+}
+
+/**
+ * Clamp the 'y' component of the color.
+ *
+ * @param value The 'y' component of the color.
+ * @returns The clamped 'y' component.
+ * @see {@link clampC}
+ * @see {@link clampM}
+ * @see {@link clampK}
+ */
+export function clampY(value: number): number {
+  return clamp(value, MIN_VALUE, MAX_VALUE);
+}
+
+/**
+ * Clamp the 'k' component of the color.
+ *
+ * @param value The 'k' component of the color.
+ * @returns The clamped 'k' component.
+ * @see {@link clampC}
+ * @see {@link clampM}
+ * @see {@link clampY}
+ */
+export function clampK(value: number): number {
+  return clamp(value, MIN_VALUE, MAX_VALUE);
+}
+
+/**
+ * Convert a color from the RGB color space to the CMYK color space.
+ * The conversion is naive and does not take any printing profile into account.
+ *
+ * @param rgb - The color in the RGB color space.
+ * @returns The converted color in the CMYK color space.
+ * @throws {TypeError} If the r, g, or b is not an integer.
+ * @see {@link toRGB}
+ */
+export function fromRGB(rgb: RGB): CMYK {
+  assertInteger(rgb.r, `The r(${rgb.r}) must be an integer`);
+  assertInteger(rgb.g, `The g(${rgb.g}) must be an integer`);
+  assertInteger(rgb.b, `The b(${rgb.b}) must be an integer`);
+
+  const r = clampValue(rgb.r) / MAX_RGB;
+  const g = clampValue(rgb.g) / MAX_RGB;
+  const b = clampValue(rgb.b) / MAX_RGB;
+
+  const k = 1 - Math.max(r, g, b);
+  if (k === 1) {
+    return { c: 0, m: 0, y: 0, k: 1 };
+  }
+  return {
+    c: clampC((1 - r - k) / (1 - k)),
+    m: clampM((1 - g - k) / (1 - k)),
+    y: clampY((1 - b - k) / (1 - k)),
+    k: clampK(k),
+  };
+}
+
+/**
+ * Convert a color from the CMYK color space to the RGB color space.
+ * The conversion is naive and does not take any printing profile into account.
+ *
+ * @param cmyk - The color in the CMYK color space.
+ * @returns The converted color in the RGB color space.
+ * @throws {TypeError} If the c, m, y, or k is not a finite number.
+ * @see {@link fromRGB}
+ */
+export function toRGB({ c, m, y, k }: CMYK): RGB {
+  assertFiniteNumber(c, `The c(${c}) must be a finite number`);
+  assertFiniteNumber(m, `The m(${m}) must be a finite number`);
+  assertFiniteNumber(y, `The y(${y}) must be a finite number`);
+  assertFiniteNumber(k, `The k(${k}) must be a finite number`);
+
+  const black = 1 - clampK(k);
+  return {
+    r: clampValue(Math.round(MAX_RGB * (1 - clampC(c)) * black)),
+    g: clampValue(Math.round(MAX_RGB * (1 - clampM(m)) * black)),
+    b: clampValue(Math.round(MAX_RGB * (1 - clampY(y)) * black)),
+  };
+}
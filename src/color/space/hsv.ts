@@ -0,0 +1,110 @@
+import { clamp } from '../../math';
+import type { HSV, RGB } from '../types';
+
+import { assertFiniteNumber, assertInteger } from '../../utils';
+import { normalizeHue } from './hsl';
+import { MAX_RGB, clampValue } from './rgb';
+
+/**
+ * The minimum value of the 's' and 'v' components.
+ *
+ * @see {@link MAX_VALUE}
+ * @see {@link clampS}
+ * @see {@link clampV}
+ */
+const MIN_VALUE = 0.0;
+
+/**
+ * The maximum value of the 's' and 'v' components.
+ *
+ * @see {@link MIN_VALUE}
+ * @see {@link clampS}
+ * @see {@link clampV}
+ */
+const MAX_VALUE = 1.0;
+
+/**
+ * Clamp the 's' component of the color.
+ *
+ * @param value The 's' component of the color.
+ * @returns The clamped 's' component.
+ * @see {@link clampV}
+ */
+export function clampS(value: number): number {
+  return clamp(value, MIN_VALUE, MAX_VALUE);
+}
+
+/**
+ * Clamp the 'v' component of the color.
+ *
+ * @param value The 'v' component of the color.
+ * @returns The clamped 'v' component.
+ * @see {@link clampS}
+ */
+export function clampV(value: number): number {
+  return clamp(value, MIN_VALUE, MAX_VALUE);
+}
+
+/**
+ * Convert a color from the RGB color space to the HSV color space.
+ *
+ * @param rgb - The color in the RGB color space.
+ * @returns The converted color in the HSV color space.
+ * @throws {TypeError} If the r, g, or b is not an integer.
+ * @see {@link toRGB}
+ */
+export function fromRGB(rgb: RGB): HSV {
+  assertInteger(rgb.r, `The r(${rgb.r}) must be an integer`);
+  assertInteger(rgb.g, `The g(${rgb.g}) must be an integer`);
+  assertInteger(rgb.b, `The b(${rgb.b}) must be an integer`);
+
+  const r = clampValue(rgb.r) / MAX_RGB;
+  const g = clampValue(rgb.g) / MAX_RGB;
+  const b = clampValue(rgb.b) / MAX_RGB;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+
+  let hue: number;
+  if (delta === 0) {
+    hue = 0;
+  } else if (max === r) {
+    hue = 60 * (((g - b) / delta) % 6);
+  } else if (max === g) {
+    hue = 60 * ((b - r) / delta + 2);
+  } else {
+    hue = 60 * ((r - g) / delta + 4);
+  }
+
+  return {
+    h: normalizeHue(hue),
+    s: clampS(max === 0 ? 0 : delta / max),
+    v: clampV(max),
+  };
+}
+
+/**
+ * Convert a color from the HSV color space to the RGB color space.
+ *
+ * @param hsv - The color in the HSV color space.
+ * @returns The converted color in the RGB color space.
+ * @throws {TypeError} If the h, s, or v is not a finite number.
+ * @see {@link fromRGB}
+ */
+export function toRGB({ h, s, v }: HSV): RGB {
+  assertFiniteNumber(h, `The h(${h}) must be a finite number`);
+  assertFiniteNumber(s, `The s(${s}) must be a finite number`);
+  assertFiniteNumber(v, `The v(${v}) must be a finite number`);
+
+  const hue = normalizeHue(h);
+  const saturation = clampS(s);
+  const value = clampV(v);
+
+  const f = (n: number): number => {
+    const k = (n + hue / 60) % 6;
+    const component = value - value * saturation * Math.max(0, Math.min(k, 4 - k, 1));
+    return clampValue(Math.round(component * MAX_RGB));
+  };
+  return { r: f(5), g: f(3), b: f(1) };
+}
@@ -0,0 +1,92 @@
+import { clamp } from '../../math';
+import type { HWB, RGB } from '../types';
+
+import { assertFiniteNumber } from '../../utils';
+import { normalizeHue } from './hsl';
+import * as HSVSpace from './hsv';
+
+/**
+ * The minimum value of the 'w' and 'b' components.
+ *
+ * @see {@link MAX_VALUE}
+ * @see {@link clampW}
+ * @see {@link clampB}
+ */
+const MIN_VALUE = 0.0;
+
+/**
+ * The maximum value of the 'w' and 'b' components.
+ *
+ * @see {@link MIN_VALUE}
+ * @see {@link clampW}
+ * @see {@link clampB}
+ */
+const MAX_VALUE = 1.0;
+
+/**
+ * Clamp the 'w' component of the color.
+ *
+ * @param value The 'w' component of the color.
+ * @returns The clamped 'w' component.
+ * @see {@link clampB}
+ */
+export function clampW(value: number): number {
+  return clamp(value, MIN_VALUE, MAX_VALUE);
+}
+
+/**
+ * Clamp the 'b' component of the color.
+ *
+ * @param value The 'b' component of the color.
+ * @returns The clamped 'b' component.
+ * @see {@link clampW}
+ */
+export function clampB(value: number): number {
+  return clamp(value, MIN_VALUE, MAX_VALUE);
+}
+
+/**
+ * Convert a color from the RGB color space to the HWB color space.
+ *
+ * @param rgb - The color in the RGB color space.
+ * @returns The converted color in the HWB color space.
+ * @throws {TypeError} If the r, g, or b is not an integer.
+ * @see {@link toRGB}
+ * @see [CSS Color Module Level 4 - HWB Colors](https://www.w3.org/TR/css-color-4/#the-hwb-notation)
+ */
+export function fromRGB(rgb: RGB): HWB {
+  const { h, s, v } = HSVSpace.fromRGB(rgb);
+  return {
+    h,
+    w: clampW((1 - s) * v),
+    b: clampB(1 - v),
+  };
+}
+
+/**
+ * Convert a color from the HWB color space to the RGB color space.
+ * The whiteness and the blackness are normalized if their sum exceeds 1, which results in a gray.
+ *
+ * @param hwb - The color in the HWB color space.
+ * @returns The converted color in the RGB color space.
+ * @throws {TypeError} If the h, w, or b is not a finite number.
+ * @see {@link fromRGB}
+ * @see [CSS Color Module Level 4 - HWB Colors](https://www.w3.org/TR/css-color-4/#the-hwb-notation)
+ */
+export function toRGB({ h, w, b }: HWB): RGB {
+  assertFiniteNumber(h, `The h(${h}) must be a finite number`);
+  assertFiniteNumber(w, `The w(${w}) must be a finite number`);
+  assertFiniteNumber(b, `The b(${b}) must be a finite number`);
+
+  let whiteness = clampW(w);
+  let blackness = clampB(b);
+  const sum = whiteness + blackness;
+  if (sum > 1) {
+    whiteness /= sum;
+    blackness /= sum;
+  }
+
+  const v = 1 - blackness;
+  const s = v === 0 ? 0 : 1 - whiteness / v;
+  return HSVSpace.toRGB({ h: normalizeHue(h), s, v });
+}
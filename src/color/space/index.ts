@@ -1,4 +1,10 @@
+export * as CMYKSpace from './cmyk';
 export * as HSLSpace from './hsl';
+export * as HSVSpace from './hsv';
+export * as HWBSpace from './hwb';
 export * as CIELabSpace from './lab';
+export * as LCHSpace from './lch';
+export * as OKLabSpace from './oklab';
+export * as OKLCHSpace from './oklch';
 export * as RGBSpace from './rgb';
 export * as XYZSpace from './xyz';
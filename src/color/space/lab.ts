@@ -24,12 +24,13 @@ export const MAX_L = 100;
 
 /**
  * The minimum value of the 'a' component.
+ * The range of the 'a' component covers the gamut of Rec. 2020, the widest of the supported RGB color spaces.
  *
  * @public
  * @see {@link MAX_A}
  * @see {@link clampA}
  */
-export const MIN_A = -128;
+export const MIN_A = -200;
 
 /**
  * The maximum value of the 'a' component.
@@ -38,16 +39,17 @@ export const MIN_A = -128;
  * @see {@link MIN_A}
  * @see {@link clampA}
  */
-export const MAX_A = 128;
+export const MAX_A = 200;
 
 /**
  * The minimum value of the 'b' component.
+ * The range of the 'b' component covers the gamut of Rec. 2020, the widest of the supported RGB color spaces.
  *
  * @public
  * @see {@link MAX_B}
  * @see {@link clampB}
  */
-export const MIN_B = -128;
+export const MIN_B = -150;
 
 /**
  * The maximum value of the 'b' component.
@@ -56,7 +58,7 @@ export const MIN_B = -128;
  * @see {@link MIN_B}
  * @see {@link clampB}
  */
-export const MAX_B = 128;
+export const MAX_B = 150;
 
 /**
  * Clamp the 'l' component of the color.
@@ -98,11 +100,12 @@ export function clampB(value: number): number {
  * Convert a color from the XYZ color space to the CIELab color space.
  *
  * @param xyz - The color in the XYZ color space.
+ * @param white - The reference white of the CIELab color space. Default is D65.
  * @returns The converted color in the CIELab color space.
  * @throws {TypeError} If any of the XYZ components is not a finite number.
  * @see {@link toXYZ}
  */
-export function fromXYZ({ x, y, z }: XYZ): LAB {
+export function fromXYZ({ x, y, z }: XYZ, white: XYZ = D65): LAB {
   assertFiniteNumber(x, `The x(${x}) must be a finite number`);
   assertFiniteNumber(y, `The y(${y}) must be a finite number`);
   assertFiniteNumber(z, `The z(${z}) must be a finite number`);
@@ -118,9 +121,9 @@ export function fromXYZ({ x, y, z }: XYZ): LAB {
     return kappa * t + delta;
   };
 
-  const fx = f(x / D65.x);
-  const fy = f(y / D65.y);
-  const fz = f(z / D65.z);
+  const fx = f(x / white.x);
+  const fy = f(y / white.y);
+  const fz = f(z / white.z);
 
   const l = clampL(116.0 * fy - 16.0);
   const a = clampA(500.0 * (fx - fy));
@@ -132,15 +135,36 @@ export function fromXYZ({ x, y, z }: XYZ): LAB {
  * Convert a color from CIELab color space to the RGB color space.
  *
  * @param lab - The color in the CIELab color space.
+ * @param white - The reference white of the CIELab color space. Default is D65.
  * @returns The converted color in the RGB color space.
  * @throws {TypeError} If any of the CIELab components is not a finite number.
  * @see {@link fromXYZ}
  */
-export function toXYZ({ l, a, b }: LAB): XYZ {
+export function toXYZ({ l, a, b }: LAB, white: XYZ = D65): XYZ {
   assertFiniteNumber(l, `The l(${l}) must be a finite number`);
   assertFiniteNumber(a, `The a(${a}) must be a finite number`);
   assertFiniteNumber(b, `The b(${b}) must be a finite number`);
 
+  // The components are clamped relative to D65 and scaled to the reference white, since the ranges of the components
+  // depend on the reference white.
+  const xyz = toXYZUnclamped({ l: clampL(l), a: clampA(a), b: clampB(b) });
+  const x = clampX(xyz.x) * (white.x / D65.x);
+  const y = clampY(xyz.y) * (white.y / D65.y);
+  const z = clampZ(xyz.z) * (white.z / D65.z);
+  return { x, y, z };
+}
+
+/**
+ * Convert a color from CIELab color space to the XYZ color space.
+ * Unlike {@link toXYZ}, neither the CIELab components nor the XYZ components are clamped, so that the colors out of the
+ * gamut are preserved.
+ *
+ * @param lab - The color in the CIELab color space.
+ * @param white - The reference white of the CIELab color space. Default is D65.
+ * @returns The converted color in the XYZ color space.
+ * @see {@link toXYZ}
+ */
+export function toXYZUnclamped({ l, a, b }: LAB, white: XYZ = D65): XYZ {
   // Function to covert a component of CIELab to XYZ.
   const epsilon = 6.0 / 29.0;
   const kappa = 108.0 / 841.0;
@@ -152,12 +176,10 @@ export function toXYZ({ l, a, b }: LAB): XYZ {
     return kappa * (t - delta);
   };
 
-  const l2 = (clampL(l) + 16.0) / 116.0;
-  const a2 = clampA(a) / 500.0;
-  const b2 = clampB(b) / 200.0;
-
-  const x = clampX(D65.x * f(l2 + a2));
-  const y = clampY(D65.y * f(l2));
-  const z = clampZ(D65.z * f(l2 - b2));
-  return { x, y, z };
+  const l2 = (l + 16.0) / 116.0;
+  return {
+    x: white.x * f(l2 + a / 500.0),
+    y: white.y * f(l2),
+    z: white.z * f(l2 - b / 200.0),
+  };
 }
@@ -0,0 +1,75 @@
+import { clamp, degreeToRadian, radianToDegree } from '../../math';
+import type { LAB, LCH } from '../types';
+
+import { assertFiniteNumber } from '../../utils';
+import { normalizeHue } from './hsl';
+import { clampL } from './lab';
+
+/**
+ * The minimum value of the 'c' component.
+ *
+ * @public
+ * @see {@link MAX_C}
+ * @see {@link clampC}
+ */
+export const MIN_C = 0;
+
+/**
+ * The maximum value of the 'c' component.
+ *
+ * @public
+ * @see {@link MIN_C}
+ * @see {@link clampC}
+ */
+export const MAX_C = 180;
+
+/**
+ * The chroma below which the color is regarded as achromatic and the hue is 0.
+ */
+const ACHROMATIC_THRESHOLD = 1e-4;
+
+/**
+ * Clamp the 'c' component of the color.
+ *
+ * @param value The 'c' component of the color.
+ * @returns The clamped 'c' component.
+ */
+export function clampC(value: number): number {
+  return clamp(value, MIN_C, MAX_C);
+}
+
+/**
+ * Convert a color from the CIELab color space to the CIELCh(ab) color space.
+ *
+ * @param lab - The color in the CIELab color space.
+ * @returns The converted color in the CIELCh(ab) color space.
+ * @throws {TypeError} If any of the CIELab components is not a finite number.
+ * @see {@link toLAB}
+ */
+export function fromLAB({ l, a, b }: LAB): LCH {
+  assertFiniteNumber(l, `The l(${l}) must be a finite number`);
+  assertFiniteNumber(a, `The a(${a}) must be a finite number`);
+  assertFiniteNumber(b, `The b(${b}) must be a finite number`);
+
+  const c = Math.sqrt(a ** 2 + b ** 2);
+  const h = c < ACHROMATIC_THRESHOLD ? 0 : normalizeHue(radianToDegree(Math.atan2(b, a)));
+  return { l: clampL(l), c: clampC(c), h };
+}
+
+/**
+ * Convert a color from the CIELCh(ab) color space to the CIELab color space.
+ *
+ * @param lch - The color in the CIELCh(ab) color space.
+ * @returns The converted color in the CIELab color space.
+ * @throws {TypeError} If any of the CIELCh(ab) components is not a finite number.
+ * @see {@link fromLAB}
+ */
+export function toLAB({ l, c, h }: LCH): LAB {
+  assertFiniteNumber(l, `The l(${l}) must be a finite number`);
+  assertFiniteNumber(c, `The c(${c}) must be a finite number`);
+  assertFiniteNumber(h, `The h(${h}) must be a finite number`);
+
+  const chroma = clampC(c);
+  const radian = degreeToRadian(normalizeHue(h));
+  return { l: clampL(l), a: chroma * Math.cos(radian), b: chroma * Math.sin(radian) };
+}
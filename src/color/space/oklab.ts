@@ -0,0 +1,172 @@
+import { clamp } from '../../math';
+import type { OKLab, XYZ } from '../types';
+
+import { assertFiniteNumber } from '../../utils';
+import { clampX, clampY, clampZ } from './xyz';
+
+/**
+ * The minimum value of the 'l' component.
+ *
+ * @public
+ * @see {@link MAX_L}
+ * @see {@link clampL}
+ */
+export const MIN_L = 0.0;
+
+/**
+ * The maximum value of the 'l' component.
+ *
+ * @public
+ * @see {@link MIN_L}
+ * @see {@link clampL}
+ */
+export const MAX_L = 1.0;
+
+/**
+ * The minimum value of the 'a' component.
+ *
+ * @public
+ * @see {@link MAX_A}
+ * @see {@link clampA}
+ */
+export const MIN_A = -0.4;
+
+/**
+ * The maximum value of the 'a' component.
+ *
+ * @public
+ * @see {@link MIN_A}
+ * @see {@link clampA}
+ */
+export const MAX_A = 0.4;
+
+/**
+ * The minimum value of the 'b' component.
+ *
+ * @public
+ * @see {@link MAX_B}
+ * @see {@link clampB}
+ */
+export const MIN_B = -0.4;
+
+/**
+ * The maximum value of the 'b' component.
+ *
+ * @public
+ * @see {@link MIN_B}
+ * @see {@link clampB}
+ */
+export const MAX_B = 0.4;
+
+/**
+ * Clamp the 'l' component of the color.
+ *
+ * @param value The 'l' component of the color.
+ * @returns The clamped 'l' component.
+ * @see {@link clampA}
+ * @see {@link clampB}
+ */
+export function clampL(value: number): number {
+  return clamp(value, MIN_L, MAX_L);
+}
+
+/**
+ * Clamp the 'a' component of the color.
+ *
+ * @param value The 'a' component of the color.
+ * @returns The clamped 'a' component.
+ * @see {@link clampL}
+ * @see {@link clampB}
+ */
+export function clampA(value: number): number {
+  return clamp(value, MIN_A, MAX_A);
+}
+
+/**
+ * Clamp the 'b' component of the color.
+ *
+ * @param value The 'b' component of the color.
+ * @returns The clamped 'b' component.
+ * @see {@link clampL}
+ * @see {@link clampA}
+ */
+export function clampB(value: number): number {
+  return clamp(value, MIN_B, MAX_B);
+}
+
+/**
+ * Convert a color from the XYZ color space to the OKLab color space.
+ *
+ * @param xyz - The color in the XYZ color space.
+ * @returns The converted color in the OKLab color space.
+ * @throws {TypeError} If any of the XYZ components is not a finite number.
+ * @see {@link toXYZ}
+ * @see [A perceptual color space for image processing](https://bottosson.github.io/posts/oklab/)
+ */
+export function fromXYZ({ x, y, z }: XYZ): OKLab {
+  assertFiniteNumber(x, `The x(${x}) must be a finite number`);
+  assertFiniteNumber(y, `The y(${y}) must be a finite number`);
+  assertFiniteNumber(z, `The z(${z}) must be a finite number`);
+
+  const { l, a, b } = fromXYZUnclamped({ x, y, z });
+  return { l: clampL(l), a: clampA(a), b: clampB(b) };
+}
+
+/**
+ * Convert a color from the XYZ color space to the OKLab color space.
+ * Unlike {@link fromXYZ}, the OKLab components are not clamped, so that the colors out of the gamut are preserved.
+ *
+ * @param xyz - The color in the XYZ color space.
+ * @returns The converted color in the OKLab color space.
+ * @see {@link toXYZUnclamped}
+ */
+export function fromXYZUnclamped({ x, y, z }: XYZ): OKLab {
+  // Convert XYZ to the cone responses and apply the cube root non-linearity.
+  const l = Math.cbrt(0.8189330101 * x + 0.3618667424 * y - 0.1288597137 * z);
+  const m = Math.cbrt(0.0329845436 * x + 0.9293118715 * y + 0.0361456387 * z);
+  const s = Math.cbrt(0.0482003018 * x + 0.2643662691 * y + 0.633851707 * z);
+
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  };
+}
+
+/**
+ * Convert a color from the OKLab color space to the XYZ color space.
+ *
+ * @param oklab - The color in the OKLab color space.
+ * @returns The converted color in the XYZ color space.
+ * @throws {TypeError} If any of the OKLab components is not a finite number.
+ * @see {@link fromXYZ}
+ * @see [A perceptual color space for image processing](https://bottosson.github.io/posts/oklab/)
+ */
+export function toXYZ({ l, a, b }: OKLab): XYZ {
+  assertFiniteNumber(l, `The l(${l}) must be a finite number`);
+  assertFiniteNumber(a, `The a(${a}) must be a finite number`);
+  assertFiniteNumber(b, `The b(${b}) must be a finite number`);
+
+  const { x, y, z } = toXYZUnclamped({ l: clampL(l), a: clampA(a), b: clampB(b) });
+  return { x: clampX(x), y: clampY(y), z: clampZ(z) };
+}
+
+/**
+ * Convert a color from the OKLab color space to the XYZ color space.
+ * Unlike {@link toXYZ}, neither the OKLab components nor the XYZ components are clamped.
+ *
+ * @param oklab - The color in the OKLab color space.
+ * @returns The converted color in the XYZ color space.
+ * @see {@link fromXYZUnclamped}
+ */
+export function toXYZUnclamped({ l, a, b }: OKLab): XYZ {
+  const l2 = (l + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m2 = (l - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s2 = (l - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+  return {
+    x: 1.2270138511 * l2 - 0.5577999807 * m2 + 0.281256149 * s2,
+    y: -0.0405801784 * l2 + 1.1122568696 * m2 - 0.0716766787 * s2,
+    z: -0.0763812845 * l2 - 0.4214819784 * m2 + 1.5861632204 * s2,
+  };
+}
@@ -0,0 +1,86 @@
+import { clamp, degreeToRadian, radianToDegree } from '../../math';
+import type { OKLCH, OKLab } from '../types';
+
+import { assertFiniteNumber } from '../../utils';
+
+/**
+ * The minimum value of the 'c' component.
+ *
+ * @public
+ * @see {@link MAX_C}
+ * @see {@link clampC}
+ */
+export const MIN_C = 0.0;
+
+/**
+ * The maximum value of the 'c' component.
+ *
+ * @public
+ * @see {@link MIN_C}
+ * @see {@link clampC}
+ */
+export const MAX_C = 0.4;
+
+/**
+ * The chroma below which the color is regarded as achromatic and the hue is 0.
+ */
+const ACHROMATIC_THRESHOLD = 1e-6;
+
+/**
+ * Clamp the 'c' component of the color.
+ *
+ * @param value The 'c' component of the color.
+ * @returns The clamped 'c' component.
+ * @see {@link normalizeH}
+ */
+export function clampC(value: number): number {
+  return clamp(value, MIN_C, MAX_C);
+}
+
+/**
+ * Normalize the 'h' component of the color to the range [0, 360).
+ *
+ * @param value The 'h' component of the color.
+ * @returns The normalized 'h' component.
+ * @see {@link clampC}
+ */
+export function normalizeH(value: number): number {
+  const normalized = value % 360;
+  return normalized < 0 ? normalized + 360 : normalized;
+}
+
+/**
+ * Convert a color from the OKLab color space to the OKLCH color space.
+ *
+ * @param oklab - The color in the OKLab color space.
+ * @returns The converted color in the OKLCH color space.
+ * @throws {TypeError} If any of the OKLab components is not a finite number.
+ * @see {@link toOKLab}
+ */
+export function fromOKLab({ l, a, b }: OKLab): OKLCH {
+  assertFiniteNumber(l, `The l(${l}) must be a finite number`);
+  assertFiniteNumber(a, `The a(${a}) must be a finite number`);
+  assertFiniteNumber(b, `The b(${b}) must be a finite number`);
+
+  const c = Math.sqrt(a ** 2 + b ** 2);
+  const h = c < ACHROMATIC_THRESHOLD ? 0 : normalizeH(radianToDegree(Math.atan2(b, a)));
+  return { l, c: clampC(c), h };
+}
+
+/**
+ * Convert a color from the OKLCH color space to the OKLab color space.
+ *
+ * @param oklch - The color in the OKLCH color space.
+ * @returns The converted color in the OKLab color space.
+ * @throws {TypeError} If any of the OKLCH components is not a finite number.
+ * @see {@link fromOKLab}
+ */
+export function toOKLab({ l, c, h }: OKLCH): OKLab {
+  assertFiniteNumber(l, `The l(${l}) must be a finite number`);
+  assertFiniteNumber(c, `The c(${c}) must be a finite number`);
+  assertFiniteNumber(h, `The h(${h}) must be a finite number`);
+
+  const chroma = clampC(c);
+  const radian = degreeToRadian(normalizeH(h));
+  return { l, a: chroma * Math.cos(radian), b: chroma * Math.sin(radian) };
+}
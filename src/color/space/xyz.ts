@@ -1,7 +1,7 @@
 import { clamp } from '../../math';
-import type { RGB, XYZ } from '../types';
+import type { RGB, RGBColorSpace, XYZ } from '../types';
 
-import { assertFiniteNumber, assertInteger } from '../../utils';
+import { assert, assertFiniteNumber, assertInteger } from '../../utils';
 import { MAX_RGB, clampValue } from './rgb';
 
 /**
@@ -99,61 +99,265 @@ export const D65: XYZ = {
   z: 1.08883,
 } as const;
 
+/**
+ * RGBProfile type represents the primaries and the transfer function of an RGB color space.
+ */
+type RGBProfile = {
+  /**
+   * The matrix to convert the linear RGB components to the XYZ(D65) color space.
+   */
+  readonly toXYZ: Matrix3;
+
+  /**
+   * The matrix to convert the XYZ(D65) color space to the linear RGB components.
+   */
+  readonly fromXYZ: Matrix3;
+
+  /**
+   * Convert the gamma encoded component to the linear one.
+   */
+  decode(value: number): number;
+
+  /**
+   * Convert the linear component to the gamma encoded one.
+   */
+  encode(value: number): number;
+};
+
+type Vector3 = [number, number, number];
+
+type Matrix3 = [Vector3, Vector3, Vector3];
+
+const SRGB_DECODE = (value: number): number => {
+  if (value <= 0.04045) {
+    return value / 12.92;
+  }
+  return ((value + 0.055) / 1.055) ** 2.4;
+};
+
+const SRGB_ENCODE = (value: number): number => {
+  if (value <= 0.0031308) {
+    return 12.92 * value;
+  }
+  return 1.055 * value ** (1.0 / 2.4) - 0.055;
+};
+
+const A98_GAMMA = 563 / 256;
+
+const REC2020_ALPHA = 1.09929682680944;
+const REC2020_BETA = 0.018053968510807;
+
+/**
+ * The RGB color spaces. The white points of all color spaces are D65, so that no chromatic adaptation is required.
+ * The negative components of the colors out of the gamut are handled by extending the transfer functions symmetrically.
+ *
+ * @see [CSS Color Module Level 4 predefined color spaces](https://www.w3.org/TR/css-color-4/#predefined)
+ */
+const PROFILES: Record<RGBColorSpace, RGBProfile> = {
+  srgb: {
+    toXYZ: [
+      [0.412391, 0.357584, 0.180481],
+      [0.212639, 0.715169, 0.072192],
+      [0.019331, 0.119195, 0.950532],
+    ],
+    fromXYZ: [
+      [3.24097, -1.537383, -0.498611],
+      [-0.969244, 1.875968, 0.041555],
+      [0.05563, -0.203977, 1.056972],
+    ],
+    decode: SRGB_DECODE,
+    encode: SRGB_ENCODE,
+  },
+  // Display P3 shares the transfer function with sRGB and has the DCI-P3 primaries.
+  'display-p3': {
+    toXYZ: [
+      [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+      [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+      [0.0, 0.04511338185890264, 1.043944368900976],
+    ],
+    fromXYZ: [
+      [2.493496911941425, -0.9313836179191239, -0.40271078445071684],
+      [-0.8294889695615747, 1.7626640603183463, 0.023624685841943577],
+      [0.03584583024378447, -0.07617238926804182, 0.9568845240076872],
+    ],
+    decode: SRGB_DECODE,
+    encode: SRGB_ENCODE,
+  },
+  'a98-rgb': {
+    toXYZ: [
+      [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+      [0.29734497525053605, 0.6273635662554661, 0.0752914584939978],
+      [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+    ],
+    fromXYZ: [
+      [2.0415879038107465, -0.5650069742788596, -0.34473135077832956],
+      [-0.9692436362808795, 1.8759675015077202, 0.04155505740717557],
+      [0.013444280632031142, -0.11836239223101838, 1.0151749943912054],
+    ],
+    decode: (value: number): number => value ** A98_GAMMA,
+    encode: (value: number): number => value ** (1.0 / A98_GAMMA),
+  },
+  rec2020: {
+    toXYZ: [
+      [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+      [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+      [0.0, 0.028072693049087428, 1.060985057710791],
+    ],
+    fromXYZ: [
+      [1.716651187971268, -0.355670783776392, -0.25336628137366],
+      [-0.666684351832489, 1.616481236634939, 0.0157685458139111],
+      [0.017639857445311, -0.042770613257809, 0.942103121235474],
+    ],
+    decode: (value: number): number => {
+      if (value < REC2020_BETA * 4.5) {
+        return value / 4.5;
+      }
+      return ((value + REC2020_ALPHA - 1) / REC2020_ALPHA) ** (1 / 0.45);
+    },
+    encode: (value: number): number => {
+      if (value < REC2020_BETA) {
+        return 4.5 * value;
+      }
+      return REC2020_ALPHA * value ** 0.45 - (REC2020_ALPHA - 1);
+    },
+  },
+};
+
 /**
  * Convert a color from the RGB color space to the XYZ color space.
  *
  * @param rgb - The color in the RGB color space.
+ * @param space - The RGB color space of the color. Default is srgb.
  * @returns The converted color in the XYZ color space.
+ * @throws {AssertionError} If the RGB color space is unknown.
  * @see {@link toRGB}
  */
-export function fromRGB({ r, g, b }: RGB): XYZ {
+export function fromRGB({ r, g, b }: RGB, space: RGBColorSpace = 'srgb'): XYZ {
   assertInteger(r, `The r(${r}) must be an integer`);
   assertInteger(g, `The g(${g}) must be an integer`);
   assertInteger(b, `The b(${b}) must be an integer`);
 
-  const f = (value: number): number => {
-    if (value <= 0.04045) {
-      return value / 12.92;
-    }
-    return ((value + 0.055) / 1.055) ** 2.4;
-  };
-
-  const fr = f(r / MAX_RGB);
-  const fg = f(g / MAX_RGB);
-  const fb = f(b / MAX_RGB);
-
-  const x = clampX(0.412391 * fr + 0.357584 * fg + 0.180481 * fb);
-  const y = clampY(0.212639 * fr + 0.715169 * fg + 0.072192 * fb);
-  const z = clampZ(0.019331 * fr + 0.119195 * fg + 0.950532 * fb);
-  return { x, y, z };
+  const { x, y, z } = fromEncodedRGB([r / MAX_RGB, g / MAX_RGB, b / MAX_RGB], space);
+  return { x: clampX(x), y: clampY(y), z: clampZ(z) };
 }
 
 /**
  * Convert a color from the XYZ color space to the RGB color space.
+ * The RGB components of the color out of the gamut of the RGB color space are clipped.
  *
  * @param xyz - The color in the XYZ color space.
+ * @param space - The RGB color space to convert the color to. Default is srgb.
  * @returns The converted color in the RGB color space.
  * @throws {TypeError} If any of the XYZ components is not a finite number.
+ * @throws {AssertionError} If the RGB color space is unknown.
  * @see {@link fromRGB}
  */
-export function toRGB({ x, y, z }: XYZ): RGB {
-  assertFiniteNumber(x, `The x(${x}) must be a finite number`);
-  assertFiniteNumber(y, `The y(${y}) must be a finite number`);
-  assertFiniteNumber(z, `The z(${z}) must be a finite number`);
-
-  const f = (value: number): number => {
-    if (value <= 0.0031308) {
-      return 12.92 * value;
-    }
-    return 1.055 * value ** (1.0 / 2.4) - 0.055;
-  };
-
-  const fr = f(3.24097 * x - 1.537383 * y - 0.498611 * z);
-  const fg = f(-0.969244 * x + 1.875968 * y + 0.041555 * z);
-  const fb = f(0.05563 * x - 0.203977 * y + 1.056972 * z);
+export function toRGB(xyz: XYZ, space: RGBColorSpace = 'srgb'): RGB {
+  assertFiniteNumber(xyz.x, `The x(${xyz.x}) must be a finite number`);
+  assertFiniteNumber(xyz.y, `The y(${xyz.y}) must be a finite number`);
+  assertFiniteNumber(xyz.z, `The z(${xyz.z}) must be a finite number`);
 
+  const [fr, fg, fb] = toEncodedRGB(xyz, space);
   const r = clampValue(Math.round(fr * MAX_RGB));
   const g = clampValue(Math.round(fg * MAX_RGB));
   const b = clampValue(Math.round(fb * MAX_RGB));
   return { r, g, b };
 }
+
+/**
+ * Convert a color from the gamma encoded RGB components to the XYZ color space.
+ * Unlike {@link fromRGB}, the components are not rounded and the XYZ components are not clamped.
+ *
+ * @param components - The gamma encoded RGB components in [0.0, 1.0].
+ * @param space - The RGB color space of the components.
+ * @returns The converted color in the XYZ color space.
+ * @throws {AssertionError} If the RGB color space is unknown.
+ * @see {@link toEncodedRGB}
+ */
+export function fromEncodedRGB(components: Vector3, space: RGBColorSpace): XYZ {
+  const linear = components.map((value: number): number => linearize(value, space)) as Vector3;
+  return fromLinearRGB(linear, space);
+}
+
+/**
+ * Convert the gamma encoded RGB component to the linear one with the transfer function of the RGB color space.
+ *
+ * @param value - The gamma encoded component in [0.0, 1.0].
+ * @param space - The RGB color space of the component.
+ * @returns The linear component.
+ * @throws {AssertionError} If the RGB color space is unknown.
+ * @see {@link fromEncodedRGB}
+ */
+export function linearize(value: number, space: RGBColorSpace): number {
+  const { decode } = findProfile(space);
+  return Math.sign(value) * decode(Math.abs(value));
+}
+
+/**
+ * Convert a color from the XYZ color space to the gamma encoded RGB components.
+ * Unlike {@link toRGB}, the components are neither rounded nor clipped.
+ *
+ * @param xyz - The color in the XYZ color space.
+ * @param space - The RGB color space to convert the color to.
+ * @returns The gamma encoded RGB components, which are in [0.0, 1.0] if the color is in the gamut.
+ * @throws {AssertionError} If the RGB color space is unknown.
+ * @see {@link fromEncodedRGB}
+ */
+export function toEncodedRGB(xyz: XYZ, space: RGBColorSpace): Vector3 {
+  return toLinearRGB(xyz, space).map((value: number): number => delinearize(value, space)) as Vector3;
+}
+
+/**
+ * Convert the linear RGB component to the gamma encoded one with the transfer function of the RGB color space.
+ *
+ * @param value - The linear component in [0.0, 1.0].
+ * @param space - The RGB color space of the component.
+ * @returns The gamma encoded component.
+ * @throws {AssertionError} If the RGB color space is unknown.
+ * @see {@link linearize}
+ */
+export function delinearize(value: number, space: RGBColorSpace): number {
+  const { encode } = findProfile(space);
+  return Math.sign(value) * encode(Math.abs(value));
+}
+
+/**
+ * Convert a color from the linear RGB components to the XYZ color space.
+ *
+ * @param components - The linear RGB components.
+ * @param space - The RGB color space of the components.
+ * @returns The converted color in the XYZ color space.
+ * @throws {AssertionError} If the RGB color space is unknown.
+ * @see {@link toLinearRGB}
+ */
+export function fromLinearRGB([r, g, b]: Vector3, space: RGBColorSpace): XYZ {
+  const [row1, row2, row3] = findProfile(space).toXYZ;
+  return {
+    x: row1[0] * r + row1[1] * g + row1[2] * b,
+    y: row2[0] * r + row2[1] * g + row2[2] * b,
+    z: row3[0] * r + row3[1] * g + row3[2] * b,
+  };
+}
+
+/**
+ * Convert a color from the XYZ color space to the linear RGB components.
+ *
+ * @param xyz - The color in the XYZ color space.
+ * @param space - The RGB color space to convert the color to.
+ * @returns The linear RGB components, which are in [0.0, 1.0] if the color is in the gamut.
+ * @throws {AssertionError} If the RGB color space is unknown.
+ * @see {@link fromLinearRGB}
+ */
+export function toLinearRGB({ x, y, z }: XYZ, space: RGBColorSpace): Vector3 {
+  const [row1, row2, row3] = findProfile(space).fromXYZ;
+  return [
+    row1[0] * x + row1[1] * y + row1[2] * z,
+    row2[0] * x + row2[1] * y + row2[2] * z,
+    row3[0] * x + row3[1] * y + row3[2] * z,
+  ];
+}
+
+function findProfile(space: RGBColorSpace): RGBProfile {
+  assert(Object.hasOwn(PROFILES, space), `Unknown RGB color space(${space})`);
+  return PROFILES[space];
+}
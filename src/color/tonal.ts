@@ -0,0 +1,54 @@
+import { assert, assertRange } from '../utils';
+
+/**
+ * The predefined tones of the tonal palette.
+ * material: The tones 0, 10, 20, ..., 90, 95, 99 and 100 of Material Design 3, whose keys are the CIELAB lightness.
+ * tailwind: The shades 50, 100, 200, ..., 900 and 950 of Tailwind CSS, whose lightness follows the default palette.
+ *
+ * @see [Material Design 3 color system](https://m3.material.io/styles/color/system/how-the-system-works)
+ * @see [Tailwind CSS colors](https://tailwindcss.com/docs/customizing-colors)
+ */
+export type TonalScale = 'material' | 'tailwind';
+
+/**
+ * TonalPaletteOptions type represents the options of the tonal palette.
+ *
+ * @see {@link Color.tonalPalette}
+ */
+export type TonalPaletteOptions = {
+  /**
+   * The predefined tones or the CIELAB lightness of each tone in [0, 100].
+   * Default is material.
+   */
+  readonly tones?: TonalScale | number[];
+};
+
+/**
+ * The CIELAB lightness of each tone of the predefined tones.
+ */
+const TONES: Record<TonalScale, Record<number, number>> = {
+  material: { 0: 0, 10: 10, 20: 20, 30: 30, 40: 40, 50: 50, 60: 60, 70: 70, 80: 80, 90: 90, 95: 95, 99: 99, 100: 100 },
+  tailwind: { 50: 97, 100: 93, 200: 86, 300: 77, 400: 66, 500: 55, 600: 45, 700: 37, 800: 29, 900: 22, 950: 14 },
+};
+
+/**
+ * Resolve the given tones to the pairs of the key and the CIELAB lightness.
+ *
+ * @param tones - The predefined tones or the CIELAB lightness of each tone.
+ * @returns The pairs of the key and the CIELAB lightness.
+ * @throws {AssertionError} If the predefined tones are unknown or any lightness is not in [0, 100].
+ */
+export function resolveTones(tones: TonalScale | number[]): [number, number][] {
+  if (typeof tones === 'string') {
+    assert(Object.hasOwn(TONES, tones), `Unknown tones(${tones})`);
+    return Object.entries(TONES[tones]).map(([key, lightness]: [string, number]): [number, number] => [
+      Number(key),
+      lightness,
+    ]);
+  }
+
+  return tones.map((tone: number): [number, number] => {
+    assertRange(tone, 0, 100, `The tone(${tone}) must be in [0, 100]`);
+    return [tone, tone];
+  });
+}
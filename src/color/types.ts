@@ -1,5 +1,30 @@
 import type { Named } from '../utils';
 
+/**
+ * CMYK type represents a color in CMYK color space.
+ */
+export type CMYK = {
+  /**
+   * The cyan value in [0.0, 1.0].
+   */
+  readonly c: number;
+
+  /**
+   * The magenta value in [0.0, 1.0].
+   */
+  readonly m: number;
+
+  /**
+   * The yellow value in [0.0, 1.0].
+   */
+  readonly y: number;
+
+  /**
+   * The black value in [0.0, 1.0].
+   */
+  readonly k: number;
+};
+
 /**
  * HSL type represents a color in HSL color space.
  */
@@ -20,6 +45,46 @@ export type HSL = {
   readonly l: number;
 };
 
+/**
+ * HSV type represents a color in HSV color space.
+ */
+export type HSV = {
+  /**
+   * The hue value in degrees [0, 360).
+   */
+  readonly h: number;
+
+  /**
+   * The saturation value in [0.0, 1.0].
+   */
+  readonly s: number;
+
+  /**
+   * The value(brightness) in [0.0, 1.0].
+   */
+  readonly v: number;
+};
+
+/**
+ * HWB type represents a color in HWB color space.
+ */
+export type HWB = {
+  /**
+   * The hue value in degrees [0, 360).
+   */
+  readonly h: number;
+
+  /**
+   * The whiteness value in [0.0, 1.0].
+   */
+  readonly w: number;
+
+  /**
+   * The blackness value in [0.0, 1.0].
+   */
+  readonly b: number;
+};
+
 /**
  * LAB type represents a color in CIELab color space.
  */
@@ -30,16 +95,76 @@ export type LAB = {
   readonly l: number;
 
   /**
-   * The a value in [-128, 128].
+   * The a value in [-200, 200].
+   */
+  readonly a: number;
+
+  /**
+   * The b value in [-150, 150].
+   */
+  readonly b: number;
+};
+
+/**
+ * LCH type represents a color in CIELCh(ab) color space, the cylindrical form of CIELab.
+ */
+export type LCH = {
+  /**
+   * The lightness value in [0, 100].
+   */
+  readonly l: number;
+
+  /**
+   * The chroma value in [0, 180].
+   */
+  readonly c: number;
+
+  /**
+   * The hue value in degrees [0, 360).
+   */
+  readonly h: number;
+};
+
+/**
+ * OKLab type represents a color in OKLab color space.
+ */
+export type OKLab = {
+  /**
+   * The lightness value in [0.0, 1.0].
+   */
+  readonly l: number;
+
+  /**
+   * The a value in [-0.4, 0.4].
    */
   readonly a: number;
 
   /**
-   * The b value in [-128, 128].
+   * The b value in [-0.4, 0.4].
    */
   readonly b: number;
 };
 
+/**
+ * OKLCH type represents a color in OKLCH color space, the cylindrical form of OKLab.
+ */
+export type OKLCH = {
+  /**
+   * The lightness value in [0.0, 1.0].
+   */
+  readonly l: number;
+
+  /**
+   * The chroma value in [0.0, 0.4].
+   */
+  readonly c: number;
+
+  /**
+   * The hue value in degrees [0, 360).
+   */
+  readonly h: number;
+};
+
 /**
  * RGB type represents a color in RGB color space.
  */
@@ -60,6 +185,17 @@ export type RGB = {
   readonly b: number;
 };
 
+/**
+ * RGBColorSpace type represents the RGB color space of the RGB components.
+ * srgb: The sRGB color space, which most displays and images use.
+ * display-p3: The Display P3 color space, which the wide gamut displays of Apple devices use.
+ * a98-rgb: The Adobe RGB (1998) color space, which the photo editing and printing use.
+ * rec2020: The ITU-R BT.2020 color space, which the UHDTV uses.
+ *
+ * @see [CSS Color Module Level 4 predefined color spaces](https://www.w3.org/TR/css-color-4/#predefined)
+ */
+export type RGBColorSpace = 'srgb' | 'display-p3' | 'a98-rgb' | 'rec2020';
+
 /**
  * XYZ type represents a color in XYZ color space.
  */
@@ -83,7 +219,7 @@ export type XYZ = {
 /**
  * Color type represents a color in any color space.
  */
-export type ColorType = RGB | HSL | LAB | XYZ;
+export type ColorType = RGB | HSL | HSV | HWB | CMYK | LAB | LCH | OKLab | OKLCH | XYZ;
 
 /**
  * NamedColor type represents a color with a name.
@@ -0,0 +1,66 @@
+import { assert, assertRange } from '../utils';
+import { RGBSpace, XYZSpace } from './space';
+import type { RGB } from './types';
+
+/**
+ * The color vision deficiency(CVD) to simulate.
+ * protanopia: The absence of the long-wavelength(red) cones.
+ * deuteranopia: The absence of the medium-wavelength(green) cones.
+ * tritanopia: The absence of the short-wavelength(blue) cones.
+ * The anomalous trichromacy such as protanomaly is simulated with the severity less than 1.0.
+ *
+ * @see [Color blindness - Wikipedia](https://en.wikipedia.org/wiki/Color_blindness)
+ */
+export type VisionDeficiency = 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+type Matrix3 = [[number, number, number], [number, number, number], [number, number, number]];
+
+/**
+ * The simulation matrices of the dichromacy in the linear RGB color space.
+ *
+ * @see [Machado, Oliveira and Fernandes (2009)](https://www.inf.ufrgs.br/~oliveira/pubs_files/CVD_Simulation/CVD_Simulation.html)
+ */
+const DICHROMACY_MATRICES: Record<VisionDeficiency, Matrix3> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+};
+
+/**
+ * Simulate how the given color is perceived with the given color vision deficiency.
+ * The anomalous trichromacy is approximated by interpolating the normal vision and the dichromacy linearly by the
+ * severity.
+ *
+ * @param rgb - The color in RGB color space.
+ * @param deficiency - The color vision deficiency to simulate.
+ * @param severity - The severity of the deficiency in [0.0, 1.0]. 1.0 means the dichromacy.
+ * @returns The simulated color in RGB color space. The components are rounded to integers.
+ * @throws {AssertionError} If the deficiency is unknown or the severity is not in [0.0, 1.0].
+ */
+export function simulateDeficiency(rgb: RGB, deficiency: VisionDeficiency, severity: number): RGB {
+  assert(Object.hasOwn(DICHROMACY_MATRICES, deficiency), `Unknown vision deficiency(${deficiency})`);
+  assertRange(severity, 0, 1, `The severity(${severity}) must be in [0.0, 1.0]`);
+
+  const matrix = DICHROMACY_MATRICES[deficiency];
+  const linear = [rgb.r, rgb.g, rgb.b].map((value: number): number => {
+    return XYZSpace.linearize(value / RGBSpace.MAX_RGB, 'srgb');
+  });
+  const [r, g, b] = matrix.map((row: [number, number, number], index: number): number => {
+    const simulated = row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2];
+    const encoded = XYZSpace.delinearize(linear[index] + (simulated - linear[index]) * severity, 'srgb');
+    return RGBSpace.clampValue(Math.round(encoded * RGBSpace.MAX_RGB));
+  });
+  return { r, g, b };
+}
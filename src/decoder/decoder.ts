@@ -0,0 +1,23 @@
+/**
+ * ImageDecoder interface decodes encoded image bytes such as PNG or JPEG into ImageData.
+ *
+ * @see {@link registerDecoder}
+ */
+export interface ImageDecoder {
+  /**
+   * Check whether the decoder supports the given bytes.
+   *
+   * @param bytes - The encoded image bytes.
+   * @returns True if the decoder supports the bytes, false otherwise.
+   */
+  canDecode(bytes: Uint8Array): boolean;
+
+  /**
+   * Decode the given bytes into ImageData.
+   *
+   * @param bytes - The encoded image bytes.
+   * @returns The decoded ImageData object, or a promise that resolves to it.
+   * @throws {Error} If the bytes cannot be decoded.
+   */
+  decode(bytes: Uint8Array): ImageData | Promise<ImageData>;
+}
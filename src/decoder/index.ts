@@ -0,0 +1,4 @@
+export type { ImageDecoder } from './decoder';
+export { JPEGDecoder, type JPEGDecoderOptions, type JPEGScale } from './jpeg';
+export { PNGDecoder } from './png';
+export { findDecoder, registerDecoder, unregisterDecoder } from './registry';
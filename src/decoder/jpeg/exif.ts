@@ -0,0 +1,120 @@
+/**
+ * The default orientation meaning that the image is not transformed.
+ */
+export const DEFAULT_ORIENTATION = 1;
+
+/**
+ * The tag of the orientation in the EXIF IFD0.
+ */
+const ORIENTATION_TAG = 0x0112;
+
+/**
+ * The identifier of the EXIF segment: "Exif\0\0".
+ */
+const EXIF_IDENTIFIER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00] as const;
+
+/**
+ * Read the orientation from the APP1 segment.
+ *
+ * @param segment - The data of the APP1 segment.
+ * @return The orientation in the range of [1, 8], or the default orientation if the segment is not valid EXIF.
+ * @see [EXIF Version 2.32 - 4.6.4 TIFF Rev. 6.0 Attribute Information](https://www.cipa.jp/std/documents/e/DC-X008-Translation-2019-E.pdf)
+ */
+export function readOrientation(segment: Uint8Array): number {
+  if (!EXIF_IDENTIFIER.every((value: number, index: number): boolean => segment[index] === value)) {
+    return DEFAULT_ORIENTATION;
+  }
+
+  const tiff = segment.subarray(EXIF_IDENTIFIER.length);
+  if (tiff.length < 8) {
+    return DEFAULT_ORIENTATION;
+  }
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  // The byte order is 'II' for little endian or 'MM' for big endian.
+  const byteOrder = view.getUint16(0);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) {
+    return DEFAULT_ORIENTATION;
+  }
+  const littleEndian = byteOrder === 0x4949;
+
+  const ifdOffset = view.getUint32(4, littleEndian);
+  if (ifdOffset + 2 > tiff.length) {
+    return DEFAULT_ORIENTATION;
+  }
+  const entryCount = view.getUint16(ifdOffset, littleEndian);
+  for (let i = 0; i < entryCount; i++) {
+    const entryOffset = ifdOffset + 2 + i * 12;
+    if (entryOffset + 12 > tiff.length) {
+      break;
+    }
+    if (view.getUint16(entryOffset, littleEndian) !== ORIENTATION_TAG) {
+      continue;
+    }
+    // The orientation is a SHORT value stored in the first 2 bytes of the value field.
+    const orientation = view.getUint16(entryOffset + 8, littleEndian);
+    return orientation >= 1 && orientation <= 8 ? orientation : DEFAULT_ORIENTATION;
+  }
+  return DEFAULT_ORIENTATION;
+}
+
+/**
+ * Transform the RGBA pixels according to the orientation.
+ *
+ * @param data - The RGBA pixels of the image.
+ * @param width - The width of the image.
+ * @param height - The height of the image.
+ * @param orientation - The EXIF orientation in the range of [1, 8].
+ * @return The transformed image.
+ */
+export function applyOrientation(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  orientation: number,
+): Pick<ImageData, 'width' | 'height' | 'data'> {
+  if (orientation === DEFAULT_ORIENTATION) {
+    return { width, height, data };
+  }
+
+  // The orientations from 5 to 8 swap the width and the height.
+  const transposed = orientation >= 5;
+  const outputWidth = transposed ? height : width;
+  const outputHeight = transposed ? width : height;
+  const output = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < outputHeight; y++) {
+    for (let x = 0; x < outputWidth; x++) {
+      const [sourceX, sourceY] = mapPosition(x, y, width, height, orientation);
+      const source = (sourceY * width + sourceX) * 4;
+      const target = (y * outputWidth + x) * 4;
+      output[target] = data[source];
+      output[target + 1] = data[source + 1];
+      output[target + 2] = data[source + 2];
+      output[target + 3] = data[source + 3];
+    }
+  }
+  return { width: outputWidth, height: outputHeight, data: output };
+}
+
+/**
+ * Map the position in the transformed image to the position in the source image.
+ */
+function mapPosition(x: number, y: number, width: number, height: number, orientation: number): [number, number] {
+  switch (orientation) {
+    case 2: // Mirror horizontally
+      return [width - 1 - x, y];
+    case 3: // Rotate 180 degrees
+      return [width - 1 - x, height - 1 - y];
+    case 4: // Mirror vertically
+      return [x, height - 1 - y];
+    case 5: // Transpose
+      return [y, x];
+    case 6: // Rotate 90 degrees clockwise
+      return [y, height - 1 - x];
+    case 7: // Transverse
+      return [width - 1 - y, height - 1 - x];
+    case 8: // Rotate 90 degrees counterclockwise
+      return [width - 1 - y, x];
+    default:
+      return [x, y];
+  }
+}
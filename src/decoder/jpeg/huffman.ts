@@ -0,0 +1,75 @@
+import { assert } from '../../utils';
+import type { BitReader } from './reader';
+
+/**
+ * The maximum length of the Huffman codes in bits.
+ */
+const MAX_CODE_LENGTH = 16;
+
+/**
+ * HuffmanTable class represents a canonical Huffman table defined by the DHT marker.
+ *
+ * @see [ITU T.81 - Annex C Huffman table specification](https://www.w3.org/Graphics/JPEG/itu-t81.pdf)
+ */
+export class HuffmanTable {
+  /**
+   * Create a new HuffmanTable instance.
+   *
+   * @param maxCodes - The largest code of each length, or -1 if there is no code of the length.
+   * @param valueOffsets - The offset to the symbol index from the code of each length.
+   * @param symbols - The symbols sorted by the code.
+   */
+  private constructor(
+    private readonly maxCodes: Int32Array,
+    private readonly valueOffsets: Int32Array,
+    private readonly symbols: Uint8Array,
+  ) {}
+
+  /**
+   * Create a new HuffmanTable instance from the number of codes of each length.
+   *
+   * @param counts - The number of codes of each length from 1 to 16 bits.
+   * @param symbols - The symbols sorted by the code.
+   * @return The new HuffmanTable instance.
+   * @throws {AssertionError} If the number of symbols does not match the counts.
+   */
+  static from(counts: Uint8Array, symbols: Uint8Array): HuffmanTable {
+    assert(counts.length === MAX_CODE_LENGTH, `The number of code lengths must be 16: ${counts.length}`);
+    const total = counts.reduce((sum: number, count: number): number => sum + count, 0);
+    assert(total === symbols.length, `The number of symbols(${symbols.length}) does not match the counts(${total})`);
+
+    const maxCodes = new Int32Array(MAX_CODE_LENGTH + 1).fill(-1);
+    const valueOffsets = new Int32Array(MAX_CODE_LENGTH + 1);
+    let code = 0;
+    let index = 0;
+    for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+      const count = counts[length - 1];
+      valueOffsets[length] = index - code;
+      if (count > 0) {
+        code += count;
+        index += count;
+        maxCodes[length] = code - 1;
+      }
+      code <<= 1;
+    }
+    return new HuffmanTable(maxCodes, valueOffsets, symbols.slice());
+  }
+
+  /**
+   * Decode the next symbol.
+   *
+   * @param reader - The reader of the entropy-coded data.
+   * @return The decoded symbol.
+   * @throws {Error} If the code is not defined in the table.
+   */
+  decode(reader: BitReader): number {
+    let code = 0;
+    for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+      code = (code << 1) | reader.readBit();
+      if (code <= this.maxCodes[length]) {
+        return this.symbols[this.valueOffsets[length] + code];
+      }
+    }
+    throw new Error('Invalid Huffman code in the JPEG image');
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * The level shift added to the samples after the inverse DCT.
+ */
+const LEVEL_SHIFT = 128;
+
+/**
+ * The cosine tables of the inverse DCT for each output size.
+ */
+const COSINE_TABLES = new Map<number, Float64Array>(
+  [1, 2, 4, 8].map((size: number): [number, Float64Array] => [size, createCosineTable(size)]),
+);
+
+// The intermediate buffer of the row transform.
+const workspace = new Float64Array(64);
+
+/**
+ * Create the cosine table of the inverse DCT producing the given number of samples per row.
+ *
+ * The reduced transform uses only the lowest size x size coefficients, so that the output is approximately the block
+ * downscaled by 8 / size without decoding the full resolution.
+ *
+ * @param size - The number of the output samples per row.
+ * @return The cosine table indexed by [sample * size + frequency].
+ */
+function createCosineTable(size: number): Float64Array {
+  const table = new Float64Array(size * size);
+  for (let n = 0; n < size; n++) {
+    for (let k = 0; k < size; k++) {
+      const scale = k === 0 ? Math.SQRT1_2 : 1;
+      table[n * size + k] = (scale * Math.cos(((2 * n + 1) * k * Math.PI) / (2 * size))) / 2;
+    }
+  }
+  return table;
+}
+
+/**
+ * Dequantize the coefficients of the block and compute the inverse DCT.
+ *
+ * @param coefficients - The coefficients of the blocks in the natural order.
+ * @param offset - The offset of the block in the coefficients.
+ * @param quantization - The quantization table in the natural order.
+ * @param size - The number of the output samples per row and column, which is 1, 2, 4 or 8.
+ * @param output - The output samples.
+ * @param outputOffset - The offset of the first output sample.
+ * @param stride - The number of samples per row of the output.
+ * @see [ITU T.81 - A.3.3 FDCT and IDCT](https://www.w3.org/Graphics/JPEG/itu-t81.pdf)
+ */
+export function inverseDCT(
+  coefficients: Int16Array,
+  offset: number,
+  quantization: Uint16Array,
+  size: number,
+  output: Uint8ClampedArray,
+  outputOffset: number,
+  stride: number,
+): void {
+  const table = COSINE_TABLES.get(size);
+  if (!table) {
+    throw new RangeError(`The size of the inverse DCT must be 1, 2, 4 or 8: ${size}`);
+  }
+
+  // Transform the rows first.
+  for (let v = 0; v < size; v++) {
+    for (let x = 0; x < size; x++) {
+      let sum = 0;
+      for (let u = 0; u < size; u++) {
+        const index = v * 8 + u;
+        sum += table[x * size + u] * coefficients[offset + index] * quantization[index];
+      }
+      workspace[v * size + x] = sum;
+    }
+  }
+
+  // Then transform the columns.
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let sum = 0;
+      for (let v = 0; v < size; v++) {
+        sum += table[y * size + v] * workspace[v * size + x];
+      }
+      output[outputOffset + y * stride + x] = sum + LEVEL_SHIFT;
+    }
+  }
+}
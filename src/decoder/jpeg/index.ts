@@ -0,0 +1,522 @@
+import { assert } from '../../utils';
+import type { ImageDecoder } from '../decoder';
+import { DEFAULT_ORIENTATION, applyOrientation, readOrientation } from './exif';
+import { HuffmanTable } from './huffman';
+import { inverseDCT } from './idct';
+import { findMarker } from './reader';
+import {
+  BLOCK_SIZE,
+  type Component,
+  type Frame,
+  type Scan,
+  type ScanComponent,
+  ZIGZAG,
+  blockOffset,
+  decodeScan,
+} from './scan';
+
+/**
+ * The markers of the JPEG image.
+ *
+ * @see [ITU T.81 - Table B.1 Marker code assignments](https://www.w3.org/Graphics/JPEG/itu-t81.pdf)
+ */
+const Marker = {
+  SOF0: 0xc0,
+  SOF1: 0xc1,
+  SOF2: 0xc2,
+  DHT: 0xc4,
+  SOI: 0xd8,
+  EOI: 0xd9,
+  SOS: 0xda,
+  DQT: 0xdb,
+  DRI: 0xdd,
+  APP1: 0xe1,
+  APP14: 0xee,
+} as const;
+
+/**
+ * The identifier of the Adobe APP14 segment: "Adobe".
+ */
+const ADOBE_IDENTIFIER = [0x41, 0x64, 0x6f, 0x62, 0x65] as const;
+
+/**
+ * The component identifiers of the image encoded in RGB: "R", "G" and "B".
+ */
+const RGB_IDENTIFIERS = [0x52, 0x47, 0x42] as const;
+
+const MAX_ALPHA = 0xff;
+
+/**
+ * The scale of the decoded image.
+ */
+export type JPEGScale = 1 | 0.5 | 0.25 | 0.125;
+
+/**
+ * Options interface for the JPEG decoder.
+ *
+ * @see {@link JPEGDecoder}
+ */
+export interface JPEGDecoderOptions {
+  /**
+   * The scale of the decoded image. Default is 1.
+   * The image is downscaled by the reduced inverse DCT, which is faster than decoding the full resolution image.
+   */
+  readonly scale?: JPEGScale;
+
+  /**
+   * Whether to rotate and flip the image according to the EXIF orientation. Default is true.
+   */
+  readonly orientation?: boolean;
+}
+
+/**
+ * Tables type represents the tables referenced by the frame and the scans.
+ */
+type Tables = {
+  readonly quantization: (Uint16Array | undefined)[];
+  readonly dc: (HuffmanTable | undefined)[];
+  readonly ac: (HuffmanTable | undefined)[];
+};
+
+/**
+ * JPEGDecoder class decodes baseline and progressive JPEG images without any native dependencies.
+ * The arithmetic coding, the lossless and the hierarchical modes are not supported.
+ *
+ * @see [ITU T.81 - Digital compression and coding of continuous-tone still images](https://www.w3.org/Graphics/JPEG/itu-t81.pdf)
+ */
+export class JPEGDecoder implements ImageDecoder {
+  private readonly scale: JPEGScale;
+  private readonly orientation: boolean;
+
+  /**
+   * Create a new JPEGDecoder instance.
+   *
+   * @param options - The options for the decoder.
+   * @throws {AssertionError} If the scale is not 1, 0.5, 0.25 or 0.125.
+   */
+  constructor(options: JPEGDecoderOptions = {}) {
+    const { scale = 1, orientation = true } = options;
+    assert([1, 0.5, 0.25, 0.125].includes(scale), `The scale must be 1, 0.5, 0.25 or 0.125: ${scale}`);
+    this.scale = scale;
+    this.orientation = orientation;
+  }
+
+  /**
+   * {@inheritDoc ImageDecoder.canDecode}
+   */
+  canDecode(bytes: Uint8Array): boolean {
+    return bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === Marker.SOI && bytes[2] === 0xff;
+  }
+
+  /**
+   * {@inheritDoc ImageDecoder.decode}
+   */
+  decode(bytes: Uint8Array): ImageData {
+    assert(this.canDecode(bytes), 'The bytes do not start with the JPEG SOI marker');
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const tables: Tables = { quantization: [], dc: [], ac: [] };
+    let frame: Frame | null = null;
+    let scanCount = 0;
+    let restartInterval = 0;
+    let orientation = DEFAULT_ORIENTATION;
+    let adobeTransform: number | null = null;
+
+    let position = 2;
+    while (position < bytes.length) {
+      position = findMarker(bytes, position);
+      if (position >= bytes.length) {
+        // Decode the image even if the EOI marker is missing.
+        break;
+      }
+      const marker = bytes[position + 1];
+      position += 2;
+      if (marker === Marker.EOI) {
+        break;
+      }
+      // The restart markers and TEM marker have no segment.
+      if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+        continue;
+      }
+
+      assert(position + 2 <= bytes.length, `Unexpected end of the JPEG image in the marker 0x${marker.toString(16)}`);
+      const length = view.getUint16(position);
+      assert(position + length <= bytes.length, `The segment 0x${marker.toString(16)} exceeds the end of the image`);
+      const segment = bytes.subarray(position + 2, position + length);
+      position += length;
+
+      switch (marker) {
+        case Marker.DQT:
+          JPEGDecoder.readQuantizationTables(segment, tables);
+          break;
+        case Marker.DHT:
+          JPEGDecoder.readHuffmanTables(segment, tables);
+          break;
+        case Marker.SOF0:
+        case Marker.SOF1:
+        case Marker.SOF2:
+          assert(frame === null, 'The JPEG image contains multiple frames');
+          frame = JPEGDecoder.readFrame(segment, marker === Marker.SOF2);
+          break;
+        case Marker.DRI:
+          assert(segment.length >= 2, 'The length of the DRI segment must be 4');
+          restartInterval = (segment[0] << 8) | segment[1];
+          break;
+        case Marker.SOS: {
+          assert(frame !== null, 'The SOS marker appears before the SOF marker');
+          const scan = JPEGDecoder.readScan(segment, frame, tables, restartInterval);
+          position = decodeScan(bytes, position, frame, scan);
+          scanCount++;
+          break;
+        }
+        case Marker.APP1:
+          if (orientation === DEFAULT_ORIENTATION) {
+            orientation = readOrientation(segment);
+          }
+          break;
+        case Marker.APP14:
+          if (segment.length >= 12 && ADOBE_IDENTIFIER.every((value, index) => segment[index] === value)) {
+            adobeTransform = segment[11];
+          }
+          break;
+        default:
+          // The other start of frame markers are for the unsupported coding processes.
+          if (marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            throw new Error(`Unsupported JPEG coding process: SOF${marker - Marker.SOF0}`);
+          }
+          break;
+      }
+    }
+
+    assert(frame !== null, 'The SOF marker is missing in the JPEG image');
+    assert(scanCount > 0, 'The SOS marker is missing in the JPEG image');
+    const { width, height, data } = this.render(frame, tables, adobeTransform);
+    if (!this.orientation) {
+      return { width, height, data, colorSpace: 'srgb' };
+    }
+    return { ...applyOrientation(data, width, height, orientation), colorSpace: 'srgb' };
+  }
+
+  /**
+   * Render the decoded coefficients to the RGBA pixels.
+   *
+   * @param frame - The decoded frame.
+   * @param tables - The tables of the image.
+   * @param adobeTransform - The color transform in the Adobe segment, or null if the segment is missing.
+   * @return The rendered image.
+   */
+  private render(
+    frame: Frame,
+    tables: Tables,
+    adobeTransform: number | null,
+  ): Pick<ImageData, 'width' | 'height' | 'data'> {
+    const width = Math.ceil(frame.width * this.scale);
+    const height = Math.ceil(frame.height * this.scale);
+    const size = 8 * this.scale;
+    const planes = frame.components.map((component: Component): Uint8ClampedArray => {
+      const quantization = tables.quantization[component.quantizationId];
+      assert(quantization !== undefined, `The quantization table ${component.quantizationId} is not defined`);
+
+      const stride = component.blocksPerLineForMcu * size;
+      const plane = new Uint8ClampedArray(stride * component.blocksPerColumnForMcu * size);
+      for (let row = 0; row < component.blocksPerColumn; row++) {
+        for (let col = 0; col < component.blocksPerLine; col++) {
+          const offset = blockOffset(component, row, col);
+          inverseDCT(component.coefficients, offset, quantization, size, plane, (row * stride + col) * size, stride);
+        }
+      }
+      return upsample(plane, stride, frame, component, width, height, this.scale);
+    });
+
+    const data = new Uint8ClampedArray(width * height * 4);
+    const count = width * height;
+    switch (planes.length) {
+      case 1: {
+        const [gray] = planes;
+        for (let i = 0; i < count; i++) {
+          data[i * 4] = gray[i];
+          data[i * 4 + 1] = gray[i];
+          data[i * 4 + 2] = gray[i];
+          data[i * 4 + 3] = MAX_ALPHA;
+        }
+        break;
+      }
+      case 3: {
+        const ids = frame.components.map((component: Component): number => component.id);
+        const transform =
+          adobeTransform !== null
+            ? adobeTransform !== 0
+            : !RGB_IDENTIFIERS.every((value: number, index: number): boolean => ids[index] === value);
+        for (let i = 0; i < count; i++) {
+          if (transform) {
+            toRGB(planes[0][i], planes[1][i], planes[2][i], data, i * 4);
+          } else {
+            data[i * 4] = planes[0][i];
+            data[i * 4 + 1] = planes[1][i];
+            data[i * 4 + 2] = planes[2][i];
+          }
+          data[i * 4 + 3] = MAX_ALPHA;
+        }
+        break;
+      }
+      default: {
+        // The CMYK images written by Adobe applications store the inverted values.
+        const inverted = adobeTransform !== null;
+        for (let i = 0; i < count; i++) {
+          let c = planes[0][i];
+          let m = planes[1][i];
+          let y = planes[2][i];
+          if (adobeTransform === 2) {
+            // The YCCK is converted to CMY by the inverted YCbCr to RGB conversion.
+            toRGB(c, m, y, data, i * 4);
+            c = 0xff - data[i * 4];
+            m = 0xff - data[i * 4 + 1];
+            y = 0xff - data[i * 4 + 2];
+          }
+          const k = inverted ? planes[3][i] : 0xff - planes[3][i];
+          data[i * 4] = ((inverted ? c : 0xff - c) * k) / 0xff;
+          data[i * 4 + 1] = ((inverted ? m : 0xff - m) * k) / 0xff;
+          data[i * 4 + 2] = ((inverted ? y : 0xff - y) * k) / 0xff;
+          data[i * 4 + 3] = MAX_ALPHA;
+        }
+        break;
+      }
+    }
+    return { width, height, data };
+  }
+
+  /**
+   * Read the quantization tables from the DQT segment.
+   *
+   * @param segment - The data of the DQT segment.
+   * @param tables - The tables to store the quantization tables.
+   * @throws {AssertionError} If the segment is invalid.
+   */
+  private static readQuantizationTables(segment: Uint8Array, tables: Tables): void {
+    let offset = 0;
+    while (offset < segment.length) {
+      const precision = segment[offset] >>> 4;
+      const id = segment[offset] & 0x0f;
+      assert(id < 4, `The quantization table id must be in the range of [0, 3]: ${id}`);
+      const valueSize = precision === 0 ? 1 : 2;
+      assert(offset + 1 + BLOCK_SIZE * valueSize <= segment.length, 'The DQT segment is too short');
+
+      const table = new Uint16Array(BLOCK_SIZE);
+      for (let i = 0; i < BLOCK_SIZE; i++) {
+        const position = offset + 1 + i * valueSize;
+        table[ZIGZAG[i]] = valueSize === 1 ? segment[position] : (segment[position] << 8) | segment[position + 1];
+      }
+      tables.quantization[id] = table;
+      offset += 1 + BLOCK_SIZE * valueSize;
+    }
+  }
+
+  /**
+   * Read the Huffman tables from the DHT segment.
+   *
+   * @param segment - The data of the DHT segment.
+   * @param tables - The tables to store the Huffman tables.
+   * @throws {AssertionError} If the segment is invalid.
+   */
+  private static readHuffmanTables(segment: Uint8Array, tables: Tables): void {
+    let offset = 0;
+    while (offset < segment.length) {
+      const tableClass = segment[offset] >>> 4;
+      const id = segment[offset] & 0x0f;
+      assert(tableClass < 2, `The Huffman table class must be 0 or 1: ${tableClass}`);
+      assert(id < 4, `The Huffman table id must be in the range of [0, 3]: ${id}`);
+      assert(offset + 17 <= segment.length, 'The DHT segment is too short');
+
+      const counts = segment.subarray(offset + 1, offset + 17);
+      const total = counts.reduce((sum: number, count: number): number => sum + count, 0);
+      assert(offset + 17 + total <= segment.length, 'The DHT segment is too short');
+      const table = HuffmanTable.from(counts, segment.subarray(offset + 17, offset + 17 + total));
+      if (tableClass === 0) {
+        tables.dc[id] = table;
+      } else {
+        tables.ac[id] = table;
+      }
+      offset += 17 + total;
+    }
+  }
+
+  /**
+   * Read the frame from the SOF segment.
+   *
+   * @param segment - The data of the SOF segment.
+   * @param progressive - Whether the frame is progressive.
+   * @return The frame.
+   * @throws {AssertionError} If the segment is invalid or unsupported.
+   */
+  private static readFrame(segment: Uint8Array, progressive: boolean): Frame {
+    assert(segment.length >= 6, 'The SOF segment is too short');
+    const precision = segment[0];
+    const height = (segment[1] << 8) | segment[2];
+    const width = (segment[3] << 8) | segment[4];
+    const componentCount = segment[5];
+    assert(precision === 8, `Unsupported sample precision of the JPEG image: ${precision}`);
+    assert(width > 0 && height > 0, `Unsupported size of the JPEG image: ${width}x${height}`);
+    assert([1, 3, 4].includes(componentCount), `Unsupported number of components: ${componentCount}`);
+    assert(segment.length >= 6 + componentCount * 3, 'The SOF segment is too short');
+
+    const specs = Array.from({ length: componentCount }, (_, index: number) => {
+      const offset = 6 + index * 3;
+      const h = segment[offset + 1] >>> 4;
+      const v = segment[offset + 1] & 0x0f;
+      assert(h >= 1 && h <= 4 && v >= 1 && v <= 4, `Invalid sampling factor of the component: ${h}x${v}`);
+      return { id: segment[offset], h, v, quantizationId: segment[offset + 2] };
+    });
+    const maxH = Math.max(...specs.map(({ h }) => h));
+    const maxV = Math.max(...specs.map(({ v }) => v));
+    const mcusPerLine = Math.ceil(width / (8 * maxH));
+    const mcusPerColumn = Math.ceil(height / (8 * maxV));
+
+    const components = specs.map(({ id, h, v, quantizationId }): Component => {
+      const blocksPerLineForMcu = mcusPerLine * h;
+      const blocksPerColumnForMcu = mcusPerColumn * v;
+      return {
+        id,
+        h,
+        v,
+        quantizationId,
+        blocksPerLine: Math.ceil(Math.ceil((width * h) / maxH) / 8),
+        blocksPerColumn: Math.ceil(Math.ceil((height * v) / maxV) / 8),
+        blocksPerLineForMcu,
+        blocksPerColumnForMcu,
+        coefficients: new Int16Array(blocksPerLineForMcu * blocksPerColumnForMcu * BLOCK_SIZE),
+      };
+    });
+    return { progressive, width, height, maxH, maxV, mcusPerLine, mcusPerColumn, components };
+  }
+
+  /**
+   * Read the scan from the SOS segment.
+   *
+   * @param segment - The data of the SOS segment.
+   * @param frame - The frame containing the scan.
+   * @param tables - The tables of the image.
+   * @param restartInterval - The restart interval defined by the DRI marker.
+   * @return The scan.
+   * @throws {AssertionError} If the segment is invalid.
+   */
+  private static readScan(segment: Uint8Array, frame: Frame, tables: Tables, restartInterval: number): Scan {
+    const componentCount = segment[0];
+    assert(componentCount >= 1 && componentCount <= 4, `Invalid number of components in the scan: ${componentCount}`);
+    assert(segment.length >= 4 + componentCount * 2, 'The SOS segment is too short');
+
+    const components = Array.from({ length: componentCount }, (_, index: number): ScanComponent => {
+      const offset = 1 + index * 2;
+      const id = segment[offset];
+      const component = frame.components.find((candidate: Component): boolean => candidate.id === id);
+      assert(component !== undefined, `The component ${id} in the scan is not defined in the frame`);
+      return {
+        component,
+        dcTable: tables.dc[segment[offset + 1] >>> 4],
+        acTable: tables.ac[segment[offset + 1] & 0x0f],
+      };
+    });
+    const offset = 1 + componentCount * 2;
+    return {
+      components,
+      spectralStart: segment[offset],
+      spectralEnd: segment[offset + 1],
+      successiveHigh: segment[offset + 2] >>> 4,
+      successiveLow: segment[offset + 2] & 0x0f,
+      restartInterval,
+    };
+  }
+}
+
+/**
+ * Upsample the component plane to the size of the image.
+ * The subsampled component is interpolated linearly between the centers of the samples.
+ *
+ * @param plane - The samples of the component.
+ * @param stride - The number of samples per row of the plane.
+ * @param frame - The frame containing the component.
+ * @param component - The component.
+ * @param width - The width of the image.
+ * @param height - The height of the image.
+ * @param scale - The scale of the image.
+ * @return The upsampled samples of the size of the image.
+ */
+function upsample(
+  plane: Uint8ClampedArray,
+  stride: number,
+  frame: Frame,
+  component: Component,
+  width: number,
+  height: number,
+  scale: number,
+): Uint8ClampedArray {
+  const ratioX = component.h / frame.maxH;
+  const ratioY = component.v / frame.maxV;
+  const output = new Uint8ClampedArray(width * height);
+  if (ratioX === 1 && ratioY === 1) {
+    for (let y = 0; y < height; y++) {
+      output.set(plane.subarray(y * stride, y * stride + width), y * width);
+    }
+    return output;
+  }
+
+  // The number of valid samples excluding the padding of the blocks.
+  const planeWidth = Math.ceil(frame.width * ratioX * scale);
+  const planeHeight = Math.ceil(frame.height * ratioY * scale);
+  const columns = interpolation(width, ratioX, planeWidth);
+  const rows = interpolation(height, ratioY, planeHeight);
+  for (let y = 0; y < height; y++) {
+    const row0 = rows.lower[y] * stride;
+    const row1 = rows.upper[y] * stride;
+    const weightY = rows.weights[y];
+    for (let x = 0; x < width; x++) {
+      const col0 = columns.lower[x];
+      const col1 = columns.upper[x];
+      const weightX = columns.weights[x];
+      const top = plane[row0 + col0] + (plane[row0 + col1] - plane[row0 + col0]) * weightX;
+      const bottom = plane[row1 + col0] + (plane[row1 + col1] - plane[row1 + col0]) * weightX;
+      output[y * width + x] = top + (bottom - top) * weightY;
+    }
+  }
+  return output;
+}
+
+/**
+ * Compute the indices and the weights of the linear interpolation along an axis.
+ *
+ * @param length - The number of the output samples.
+ * @param ratio - The ratio of the number of the source samples to the output samples.
+ * @param sourceLength - The number of the source samples.
+ * @return The lower and upper indices and the weights of the upper indices.
+ */
+function interpolation(
+  length: number,
+  ratio: number,
+  sourceLength: number,
+): { lower: Int32Array; upper: Int32Array; weights: Float32Array } {
+  const lower = new Int32Array(length);
+  const upper = new Int32Array(length);
+  const weights = new Float32Array(length);
+  const last = sourceLength - 1;
+  for (let i = 0; i < length; i++) {
+    const position = Math.min(Math.max((i + 0.5) * ratio - 0.5, 0), last);
+    lower[i] = Math.floor(position);
+    upper[i] = Math.min(lower[i] + 1, last);
+    weights[i] = position - lower[i];
+  }
+  return { lower, upper, weights };
+}
+
+/**
+ * Convert the YCbCr color to the RGB color.
+ *
+ * @param y - The luma.
+ * @param cb - The blue-difference chroma.
+ * @param cr - The red-difference chroma.
+ * @param output - The output pixels.
+ * @param offset - The offset of the output pixel.
+ * @see [JPEG File Interchange Format - Conversion to and from RGB](https://www.w3.org/Graphics/JPEG/jfif3.pdf)
+ */
+function toRGB(y: number, cb: number, cr: number, output: Uint8ClampedArray, offset: number): void {
+  output[offset] = y + 1.402 * (cr - 128);
+  output[offset + 1] = y - 0.344136 * (cb - 128) - 0.714136 * (cr - 128);
+  output[offset + 2] = y + 1.772 * (cb - 128);
+}
@@ -0,0 +1,123 @@
+/**
+ * BitReader class reads the entropy-coded data of the JPEG image bit by bit.
+ *
+ * The stuffed zero byte following 0xFF is skipped. Once a marker is reached, the reader returns zero bits
+ * and does not consume the marker.
+ */
+export class BitReader {
+  private buffer = 0;
+  private count = 0;
+  private markerReached = false;
+
+  /**
+   * Create a new BitReader instance.
+   *
+   * @param bytes - The bytes of the JPEG image.
+   * @param position - The position of the entropy-coded data.
+   */
+  constructor(
+    private readonly bytes: Uint8Array,
+    private position: number,
+  ) {}
+
+  /**
+   * Return the current position of the reader.
+   *
+   * @return The position of the next unread byte.
+   */
+  get offset(): number {
+    return this.position;
+  }
+
+  /**
+   * Read the next bit.
+   *
+   * @return The bit.
+   */
+  readBit(): number {
+    if (this.count === 0) {
+      this.buffer = this.readByte();
+      this.count = 8;
+    }
+    this.count--;
+    return (this.buffer >>> this.count) & 1;
+  }
+
+  /**
+   * Read the given number of bits as an unsigned integer.
+   *
+   * @param length - The number of bits to read.
+   * @return The unsigned integer.
+   */
+  readBits(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  /**
+   * Read the given number of bits and extend them to a signed integer.
+   *
+   * @param length - The number of bits to read.
+   * @return The signed integer.
+   * @see [ITU T.81 - F.2.2.1 Huffman decoding of DC coefficients](https://www.w3.org/Graphics/JPEG/itu-t81.pdf)
+   */
+  receiveExtend(length: number): number {
+    if (length === 0) {
+      return 0;
+    }
+    const value = this.readBits(length);
+    return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+  }
+
+  /**
+   * Discard the remaining bits and skip the restart marker if exists.
+   */
+  restart(): void {
+    this.buffer = 0;
+    this.count = 0;
+    this.markerReached = false;
+    this.position = findMarker(this.bytes, this.position);
+    const marker = this.bytes[this.position + 1];
+    if (marker >= 0xd0 && marker <= 0xd7) {
+      this.position += 2;
+    }
+  }
+
+  private readByte(): number {
+    if (this.markerReached || this.position >= this.bytes.length) {
+      return 0;
+    }
+    const byte = this.bytes[this.position];
+    if (byte === 0xff) {
+      const next = this.bytes[this.position + 1];
+      if (next !== 0x00) {
+        this.markerReached = true;
+        return 0;
+      }
+      this.position += 2;
+      return byte;
+    }
+    this.position++;
+    return byte;
+  }
+}
+
+/**
+ * Find the position of the next marker from the given position.
+ *
+ * @param bytes - The bytes of the JPEG image.
+ * @param position - The position to start searching from.
+ * @return The position of the next marker, or the length of the bytes if no marker is found.
+ */
+export function findMarker(bytes: Uint8Array, position: number): number {
+  for (let i = position; i < bytes.length - 1; i++) {
+    // The 0xFF followed by 0x00 is a stuffed byte and the consecutive 0xFF bytes are fill bytes.
+    if (bytes[i] === 0xff && bytes[i + 1] !== 0x00 && bytes[i + 1] !== 0xff) {
+      return i;
+    }
+  }
+  return bytes.length;
+}
@@ -0,0 +1,307 @@
+import type { HuffmanTable } from './huffman';
+import { BitReader, findMarker } from './reader';
+
+/**
+ * The mapping from the zigzag order to the natural order of the coefficients.
+ *
+ * @see [ITU T.81 - Figure A.6 Zig-zag sequence of quantized DCT coefficients](https://www.w3.org/Graphics/JPEG/itu-t81.pdf)
+ */
+// biome-ignore format: The table is aligned in rows of 8 coefficients.
+export const ZIGZAG = Uint8Array.of(
+   0,  1,  8, 16,  9,  2,  3, 10,
+  17, 24, 32, 25, 18, 11,  4,  5,
+  12, 19, 26, 33, 40, 48, 41, 34,
+  27, 20, 13,  6,  7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36,
+  29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46,
+  53, 60, 61, 54, 47, 55, 62, 63,
+);
+
+/**
+ * The number of coefficients in a block.
+ */
+export const BLOCK_SIZE = 64;
+
+/**
+ * Component type represents a color component of the frame.
+ */
+export type Component = {
+  readonly id: number;
+  // The horizontal sampling factor.
+  readonly h: number;
+  // The vertical sampling factor.
+  readonly v: number;
+  readonly quantizationId: number;
+  // The number of blocks covering the component.
+  readonly blocksPerLine: number;
+  readonly blocksPerColumn: number;
+  // The number of blocks covering the MCUs, which are larger than the component if the size is not a multiple of MCU.
+  readonly blocksPerLineForMcu: number;
+  readonly blocksPerColumnForMcu: number;
+  // The coefficients of the blocks in the natural order.
+  readonly coefficients: Int16Array;
+};
+
+/**
+ * Frame type represents the frame defined by the SOF marker.
+ */
+export type Frame = {
+  readonly progressive: boolean;
+  readonly width: number;
+  readonly height: number;
+  readonly maxH: number;
+  readonly maxV: number;
+  readonly mcusPerLine: number;
+  readonly mcusPerColumn: number;
+  readonly components: Component[];
+};
+
+/**
+ * Scan type represents the scan defined by the SOS marker.
+ */
+export type Scan = {
+  readonly components: ScanComponent[];
+  // The index of the first coefficient in the zigzag order.
+  readonly spectralStart: number;
+  // The index of the last coefficient in the zigzag order.
+  readonly spectralEnd: number;
+  // The point transform of the previous scan of the same band, or 0 if this is the first scan.
+  readonly successiveHigh: number;
+  // The point transform of the scan.
+  readonly successiveLow: number;
+  // The number of MCUs between the restart markers, or 0 if the restart is disabled.
+  readonly restartInterval: number;
+};
+
+/**
+ * ScanComponent type represents a component included in the scan.
+ */
+export type ScanComponent = {
+  readonly component: Component;
+  readonly dcTable: HuffmanTable | undefined;
+  readonly acTable: HuffmanTable | undefined;
+};
+
+type ComponentState = ScanComponent & {
+  prediction: number;
+};
+
+type BlockDecoder = (state: ComponentState, offset: number) => void;
+
+/**
+ * Decode the entropy-coded data of the scan into the coefficients of the components.
+ *
+ * @param bytes - The bytes of the JPEG image.
+ * @param position - The position of the entropy-coded data.
+ * @param frame - The frame containing the scan.
+ * @param scan - The scan to decode.
+ * @return The position of the marker following the entropy-coded data.
+ * @throws {Error} If the Huffman table is missing or the data is corrupted.
+ * @see [ITU T.81 - Annex F and G](https://www.w3.org/Graphics/JPEG/itu-t81.pdf)
+ */
+export function decodeScan(bytes: Uint8Array, position: number, frame: Frame, scan: Scan): number {
+  const reader = new BitReader(bytes, position);
+  const states = scan.components.map(
+    (scanComponent: ScanComponent): ComponentState => ({
+      ...scanComponent,
+      prediction: 0,
+    }),
+  );
+  // The number of remaining blocks with all zero coefficients in the band.
+  let eobRun = 0;
+
+  const { spectralStart, spectralEnd, successiveHigh, successiveLow } = scan;
+  const requireTable = (table: HuffmanTable | undefined): HuffmanTable => {
+    if (!table) {
+      throw new Error('The Huffman table referenced by the scan is not defined');
+    }
+    return table;
+  };
+
+  const decodeBaseline: BlockDecoder = (state, offset) => {
+    const coefficients = state.component.coefficients;
+    const dcTable = requireTable(state.dcTable);
+    const acTable = requireTable(state.acTable);
+    state.prediction += reader.receiveExtend(dcTable.decode(reader));
+    coefficients[offset] = state.prediction;
+    let k = 1;
+    while (k < BLOCK_SIZE) {
+      const rs = acTable.decode(reader);
+      const s = rs & 0x0f;
+      const r = rs >>> 4;
+      if (s === 0) {
+        if (r < 15) {
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k >= BLOCK_SIZE) {
+        break;
+      }
+      coefficients[offset + ZIGZAG[k]] = reader.receiveExtend(s);
+      k++;
+    }
+  };
+
+  const decodeDCFirst: BlockDecoder = (state, offset) => {
+    const dcTable = requireTable(state.dcTable);
+    state.prediction += reader.receiveExtend(dcTable.decode(reader));
+    state.component.coefficients[offset] = state.prediction * (1 << successiveLow);
+  };
+
+  const decodeDCRefine: BlockDecoder = (state, offset) => {
+    if (reader.readBit()) {
+      state.component.coefficients[offset] |= 1 << successiveLow;
+    }
+  };
+
+  const decodeACFirst: BlockDecoder = (state, offset) => {
+    if (eobRun > 0) {
+      eobRun--;
+      return;
+    }
+    const coefficients = state.component.coefficients;
+    const acTable = requireTable(state.acTable);
+    let k = spectralStart;
+    while (k <= spectralEnd) {
+      const rs = acTable.decode(reader);
+      const s = rs & 0x0f;
+      const r = rs >>> 4;
+      if (s === 0) {
+        if (r < 15) {
+          eobRun = (1 << r) + reader.readBits(r) - 1;
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > spectralEnd) {
+        break;
+      }
+      coefficients[offset + ZIGZAG[k]] = reader.receiveExtend(s) * (1 << successiveLow);
+      k++;
+    }
+  };
+
+  const decodeACRefine: BlockDecoder = (state, offset) => {
+    const coefficients = state.component.coefficients;
+    const positive = 1 << successiveLow;
+    const negative = -1 << successiveLow;
+    // Refine the nonzero coefficient with the correction bit.
+    const refine = (index: number): void => {
+      if (reader.readBit() && (coefficients[index] & positive) === 0) {
+        coefficients[index] += coefficients[index] >= 0 ? positive : negative;
+      }
+    };
+
+    let k = spectralStart;
+    if (eobRun === 0) {
+      const acTable = requireTable(state.acTable);
+      for (; k <= spectralEnd; k++) {
+        const rs = acTable.decode(reader);
+        let s = rs & 0x0f;
+        let r = rs >>> 4;
+        if (s !== 0) {
+          s = reader.readBit() ? positive : negative;
+        } else if (r !== 15) {
+          eobRun = (1 << r) + reader.readBits(r);
+          break;
+        }
+
+        // Skip r zero coefficients while refining the nonzero coefficients on the way.
+        while (k <= spectralEnd) {
+          const index = offset + ZIGZAG[k];
+          if (coefficients[index] !== 0) {
+            refine(index);
+          } else {
+            if (r === 0) {
+              break;
+            }
+            r--;
+          }
+          k++;
+        }
+        if (s !== 0 && k <= spectralEnd) {
+          coefficients[offset + ZIGZAG[k]] = s;
+        }
+      }
+    }
+
+    if (eobRun > 0) {
+      for (; k <= spectralEnd; k++) {
+        const index = offset + ZIGZAG[k];
+        if (coefficients[index] !== 0) {
+          refine(index);
+        }
+      }
+      eobRun--;
+    }
+  };
+
+  let decodeBlock: BlockDecoder;
+  if (!frame.progressive) {
+    decodeBlock = decodeBaseline;
+  } else if (spectralStart === 0) {
+    decodeBlock = successiveHigh === 0 ? decodeDCFirst : decodeDCRefine;
+  } else {
+    decodeBlock = successiveHigh === 0 ? decodeACFirst : decodeACRefine;
+  }
+
+  // The non-interleaved scan contains the blocks of the single component in raster order.
+  const single = states.length === 1;
+  const mcuCount = single
+    ? states[0].component.blocksPerLine * states[0].component.blocksPerColumn
+    : frame.mcusPerLine * frame.mcusPerColumn;
+  const interval = scan.restartInterval > 0 ? scan.restartInterval : mcuCount;
+
+  let mcu = 0;
+  while (mcu < mcuCount) {
+    for (const state of states) {
+      state.prediction = 0;
+    }
+    eobRun = 0;
+
+    const end = Math.min(mcu + interval, mcuCount);
+    for (; mcu < end; mcu++) {
+      if (single) {
+        const component = states[0].component;
+        const row = Math.floor(mcu / component.blocksPerLine);
+        const col = mcu % component.blocksPerLine;
+        decodeBlock(states[0], blockOffset(component, row, col));
+        continue;
+      }
+
+      const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+      const mcuCol = mcu % frame.mcusPerLine;
+      for (const state of states) {
+        const { component } = state;
+        for (let v = 0; v < component.v; v++) {
+          for (let h = 0; h < component.h; h++) {
+            decodeBlock(state, blockOffset(component, mcuRow * component.v + v, mcuCol * component.h + h));
+          }
+        }
+      }
+    }
+
+    if (mcu < mcuCount) {
+      reader.restart();
+    }
+  }
+  return findMarker(bytes, reader.offset);
+}
+
+/**
+ * Compute the offset of the block in the coefficients of the component.
+ *
+ * @param component - The component containing the block.
+ * @param row - The row of the block.
+ * @param col - The column of the block.
+ * @return The offset of the first coefficient of the block.
+ */
+export function blockOffset(component: Component, row: number, col: number): number {
+  return (row * component.blocksPerLineForMcu + col) * BLOCK_SIZE;
+}
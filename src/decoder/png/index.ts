@@ -0,0 +1,475 @@
+import { assert } from '../../utils';
+import type { ImageDecoder } from '../decoder';
+import { inflate } from './inflate';
+
+/**
+ * The signature of the PNG file.
+ *
+ * @see [PNG Specification - 5.2 PNG signature](https://www.w3.org/TR/png/#5PNG-file-signature)
+ */
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] as const;
+
+/**
+ * The color types of the PNG image.
+ *
+ * @see [PNG Specification - 11.2.1 IHDR Image header](https://www.w3.org/TR/png/#11IHDR)
+ */
+const ColorType = {
+  GRAYSCALE: 0,
+  TRUECOLOR: 2,
+  INDEXED: 3,
+  GRAYSCALE_ALPHA: 4,
+  TRUECOLOR_ALPHA: 6,
+} as const;
+
+// The number of channels and the allowed bit depths of each color type.
+const COLOR_TYPES: Record<number, { channels: number; bitDepths: number[] }> = {
+  [ColorType.GRAYSCALE]: { channels: 1, bitDepths: [1, 2, 4, 8, 16] },
+  [ColorType.TRUECOLOR]: { channels: 3, bitDepths: [8, 16] },
+  [ColorType.INDEXED]: { channels: 1, bitDepths: [1, 2, 4, 8] },
+  [ColorType.GRAYSCALE_ALPHA]: { channels: 2, bitDepths: [8, 16] },
+  [ColorType.TRUECOLOR_ALPHA]: { channels: 4, bitDepths: [8, 16] },
+};
+
+/**
+ * The Adam7 interlace passes represented by [xStart, yStart, xStep, yStep].
+ *
+ * @see [PNG Specification - 8.2 Interlace methods](https://www.w3.org/TR/png/#8Interlace)
+ */
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+] as const;
+
+const MAX_ALPHA = 0xff;
+
+/**
+ * The maximum width and height of the PNG image.
+ *
+ * @see [PNG Specification - 11.2.1 IHDR Image header](https://www.w3.org/TR/png/#11IHDR)
+ */
+const MAX_DIMENSION = 2 ** 31 - 1;
+
+/**
+ * The maximum number of bytes of the decoded RGBA pixels, which is the size of a 16384x16384 image, the maximum canvas
+ * size of most browsers.
+ */
+const MAX_PIXEL_BYTES = 16384 * 16384 * 4;
+
+/**
+ * The table of the CRC-32 of all 8-bit values, which is built on first use.
+ *
+ * @see [PNG Specification - D. Sample CRC implementation](https://www.w3.org/TR/png/#D-CRCAppendix)
+ */
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Header type represents the contents of the IHDR chunk.
+ */
+type Header = {
+  readonly width: number;
+  readonly height: number;
+  readonly bitDepth: number;
+  readonly colorType: number;
+  readonly interlaced: boolean;
+};
+
+/**
+ * PNGImage type represents the chunks of the PNG image required for decoding.
+ */
+type PNGImage = {
+  readonly header: Header;
+  readonly palette: Uint8Array | null;
+  readonly transparency: Uint8Array | null;
+  readonly data: Uint8Array;
+};
+
+/**
+ * PNGDecoder class decodes PNG images without any native dependencies.
+ * All color types, bit depths and the Adam7 interlace method are supported.
+ *
+ * @see [Portable Network Graphics (PNG) Specification](https://www.w3.org/TR/png/)
+ */
+export class PNGDecoder implements ImageDecoder {
+  /**
+   * {@inheritDoc ImageDecoder.canDecode}
+   */
+  canDecode(bytes: Uint8Array): boolean {
+    if (bytes.length < SIGNATURE.length) {
+      return false;
+    }
+    return SIGNATURE.every((value: number, index: number): boolean => bytes[index] === value);
+  }
+
+  /**
+   * {@inheritDoc ImageDecoder.decode}
+   */
+  decode(bytes: Uint8Array): ImageData {
+    assert(this.canDecode(bytes), 'The bytes do not start with the PNG signature');
+    const image = PNGDecoder.readChunks(bytes);
+    const { width, height, bitDepth, colorType, interlaced } = image.header;
+    const { channels } = COLOR_TYPES[colorType];
+    const bitsPerPixel = channels * bitDepth;
+
+    const passes = interlaced ? ADAM7_PASSES : ([[0, 0, 1, 1]] as const);
+    const expectedSize = passes.reduce((total: number, [xStart, yStart, xStep, yStep]): number => {
+      const passWidth = Math.ceil((width - xStart) / xStep);
+      const passHeight = Math.ceil((height - yStart) / yStep);
+      if (passWidth <= 0 || passHeight <= 0) {
+        return total;
+      }
+      return total + (Math.ceil((passWidth * bitsPerPixel) / 8) + 1) * passHeight;
+    }, 0);
+    const inflated = inflate(image.data, expectedSize);
+    assert(
+      inflated.length >= expectedSize,
+      `The image data is too short: expected ${expectedSize} bytes but got ${inflated.length} bytes`,
+    );
+
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    let offset = 0;
+    for (const [xStart, yStart, xStep, yStep] of passes) {
+      const passWidth = Math.ceil((width - xStart) / xStep);
+      const passHeight = Math.ceil((height - yStart) / yStep);
+      if (passWidth <= 0 || passHeight <= 0) {
+        continue;
+      }
+
+      const stride = Math.ceil((passWidth * bitsPerPixel) / 8);
+      const scanlines = PNGDecoder.unfilter(inflated, offset, stride, passHeight, Math.max(1, bitsPerPixel >> 3));
+      offset += (stride + 1) * passHeight;
+
+      for (let y = 0; y < passHeight; y++) {
+        const scanline = scanlines.subarray(y * stride, (y + 1) * stride);
+        for (let x = 0; x < passWidth; x++) {
+          const index = ((yStart + y * yStep) * width + xStart + x * xStep) * 4;
+          PNGDecoder.readPixel(image, scanline, x, pixels, index);
+        }
+      }
+    }
+    return { width, height, data: pixels, colorSpace: 'srgb' };
+  }
+
+  /**
+   * Read the chunks required for decoding.
+   *
+   * @param bytes - The bytes of the PNG image.
+   * @return The PNG image.
+   * @throws {AssertionError} If the chunks are invalid.
+   */
+  private static readChunks(bytes: Uint8Array): PNGImage {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let header: Header | null = null;
+    let palette: Uint8Array | null = null;
+    let transparency: Uint8Array | null = null;
+    const dataChunks: Uint8Array[] = [];
+
+    let offset = SIGNATURE.length;
+    let ended = false;
+    while (!ended) {
+      assert(offset + 8 <= bytes.length, 'Unexpected end of the PNG image before the IEND chunk');
+      const length = view.getUint32(offset);
+      const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+      const start = offset + 8;
+      const end = start + length;
+      assert(end + 4 <= bytes.length, `The ${type} chunk exceeds the end of the PNG image`);
+      const data = bytes.subarray(start, end);
+      assert(
+        crc32(bytes.subarray(offset + 4, end)) === view.getUint32(end),
+        `The CRC of the ${type} chunk does not match its contents`,
+      );
+
+      switch (type) {
+        case 'IHDR':
+          header = PNGDecoder.readHeader(data);
+          break;
+        case 'PLTE':
+          assert(length % 3 === 0, `The length of the PLTE chunk must be a multiple of 3: ${length}`);
+          palette = data;
+          break;
+        case 'tRNS':
+          transparency = data;
+          break;
+        case 'IDAT':
+          dataChunks.push(data);
+          break;
+        case 'IEND':
+          ended = true;
+          break;
+      }
+      assert(header !== null, 'The IHDR chunk must appear first in the PNG image');
+      offset = end + 4;
+    }
+
+    assert(header !== null, 'The IHDR chunk is missing in the PNG image');
+    assert(dataChunks.length > 0, 'The IDAT chunk is missing in the PNG image');
+    assert(header.colorType !== ColorType.INDEXED || palette !== null, 'The PLTE chunk is missing in the PNG image');
+
+    const size = dataChunks.reduce((total: number, chunk: Uint8Array): number => total + chunk.length, 0);
+    const data = new Uint8Array(size);
+    dataChunks.reduce((position: number, chunk: Uint8Array): number => {
+      data.set(chunk, position);
+      return position + chunk.length;
+    }, 0);
+    return { header, palette, transparency, data };
+  }
+
+  /**
+   * Read the IHDR chunk.
+   *
+   * @param data - The data of the IHDR chunk.
+   * @return The header of the PNG image.
+   * @throws {AssertionError} If the header is invalid or unsupported.
+   */
+  private static readHeader(data: Uint8Array): Header {
+    assert(data.length === 13, `The length of the IHDR chunk must be 13: ${data.length}`);
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const width = view.getUint32(0);
+    const height = view.getUint32(4);
+    const [bitDepth, colorType, compression, filter, interlace] = data.subarray(8);
+    assert(width > 0 && height > 0, `The size of the PNG image must be positive: ${width}x${height}`);
+    assert(
+      width <= MAX_DIMENSION && height <= MAX_DIMENSION && width * height * 4 <= MAX_PIXEL_BYTES,
+      `The size of the PNG image is too large: ${width}x${height}`,
+    );
+    assert(colorType in COLOR_TYPES, `Unsupported color type of the PNG image: ${colorType}`);
+    assert(
+      COLOR_TYPES[colorType].bitDepths.includes(bitDepth),
+      `Unsupported bit depth(${bitDepth}) for the color type(${colorType})`,
+    );
+    assert(compression === 0, `Unsupported compression method of the PNG image: ${compression}`);
+    assert(filter === 0, `Unsupported filter method of the PNG image: ${filter}`);
+    assert(interlace === 0 || interlace === 1, `Unsupported interlace method of the PNG image: ${interlace}`);
+    return { width, height, bitDepth, colorType, interlaced: interlace === 1 };
+  }
+
+  /**
+   * Reconstruct the filtered scanlines.
+   *
+   * @param data - The inflated image data.
+   * @param offset - The offset of the first scanline.
+   * @param stride - The number of bytes per scanline excluding the filter type.
+   * @param height - The number of scanlines.
+   * @param bytesPerPixel - The number of bytes per complete pixel, rounding up to one.
+   * @return The reconstructed scanlines.
+   * @throws {AssertionError} If the filter type is invalid.
+   * @see [PNG Specification - 9. Filtering](https://www.w3.org/TR/png/#9Filters)
+   */
+  private static unfilter(
+    data: Uint8Array,
+    offset: number,
+    stride: number,
+    height: number,
+    bytesPerPixel: number,
+  ): Uint8Array {
+    const output = new Uint8Array(stride * height);
+    for (let y = 0; y < height; y++) {
+      const filterType = data[offset + y * (stride + 1)];
+      assert(filterType >= 0 && filterType <= 4, `Invalid filter type of the scanline ${y}: ${filterType}`);
+      const source = offset + y * (stride + 1) + 1;
+      const current = y * stride;
+      const previous = current - stride;
+      for (let x = 0; x < stride; x++) {
+        const raw = data[source + x];
+        const a = x >= bytesPerPixel ? output[current + x - bytesPerPixel] : 0;
+        const b = y > 0 ? output[previous + x] : 0;
+        const c = x >= bytesPerPixel && y > 0 ? output[previous + x - bytesPerPixel] : 0;
+        let predictor: number;
+        switch (filterType) {
+          case 0:
+            predictor = 0;
+            break;
+          case 1:
+            predictor = a;
+            break;
+          case 2:
+            predictor = b;
+            break;
+          case 3:
+            predictor = (a + b) >>> 1;
+            break;
+          default:
+            predictor = paeth(a, b, c);
+            break;
+        }
+        output[current + x] = (raw + predictor) & 0xff;
+      }
+    }
+    return output;
+  }
+
+  /**
+   * Read the pixel at the given position of the scanline and write it to the RGBA pixels.
+   *
+   * @param image - The PNG image.
+   * @param scanline - The reconstructed scanline.
+   * @param x - The x-coordinate of the pixel in the scanline.
+   * @param pixels - The RGBA pixels to write to.
+   * @param index - The index of the pixel in the RGBA pixels.
+   */
+  private static readPixel(
+    image: PNGImage,
+    scanline: Uint8Array,
+    x: number,
+    pixels: Uint8ClampedArray,
+    index: number,
+  ): void {
+    const { bitDepth, colorType } = image.header;
+    const { channels } = COLOR_TYPES[colorType];
+    const sample = (channel: number): number => readSample(scanline, x * channels + channel, bitDepth);
+    const scale = (value: number): number => scaleSample(value, bitDepth);
+
+    switch (colorType) {
+      case ColorType.GRAYSCALE: {
+        const gray = sample(0);
+        const value = scale(gray);
+        pixels[index] = value;
+        pixels[index + 1] = value;
+        pixels[index + 2] = value;
+        pixels[index + 3] = matchesTransparency(image.transparency, [gray]) ? 0 : MAX_ALPHA;
+        break;
+      }
+      case ColorType.TRUECOLOR: {
+        const r = sample(0);
+        const g = sample(1);
+        const b = sample(2);
+        pixels[index] = scale(r);
+        pixels[index + 1] = scale(g);
+        pixels[index + 2] = scale(b);
+        pixels[index + 3] = matchesTransparency(image.transparency, [r, g, b]) ? 0 : MAX_ALPHA;
+        break;
+      }
+      case ColorType.INDEXED: {
+        const paletteIndex = sample(0);
+        const palette = image.palette as Uint8Array;
+        assert(paletteIndex * 3 < palette.length, `The palette index is out of range: ${paletteIndex}`);
+        pixels[index] = palette[paletteIndex * 3];
+        pixels[index + 1] = palette[paletteIndex * 3 + 1];
+        pixels[index + 2] = palette[paletteIndex * 3 + 2];
+        const transparency = image.transparency;
+        pixels[index + 3] = transparency && paletteIndex < transparency.length ? transparency[paletteIndex] : MAX_ALPHA;
+        break;
+      }
+      case ColorType.GRAYSCALE_ALPHA: {
+        const value = scale(sample(0));
+        pixels[index] = value;
+        pixels[index + 1] = value;
+        pixels[index + 2] = value;
+        pixels[index + 3] = scale(sample(1));
+        break;
+      }
+      default: {
+        pixels[index] = scale(sample(0));
+        pixels[index + 1] = scale(sample(1));
+        pixels[index + 2] = scale(sample(2));
+        pixels[index + 3] = scale(sample(3));
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Compute the Paeth predictor.
+ *
+ * @param a - The byte of the left pixel.
+ * @param b - The byte of the above pixel.
+ * @param c - The byte of the upper left pixel.
+ * @return The predictor.
+ */
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) {
+    return a;
+  }
+  if (pb <= pc) {
+    return b;
+  }
+  return c;
+}
+
+/**
+ * Read the sample at the given index from the scanline.
+ *
+ * @param scanline - The reconstructed scanline.
+ * @param index - The index of the sample in the scanline.
+ * @param bitDepth - The bit depth of the sample.
+ * @return The raw sample value.
+ */
+function readSample(scanline: Uint8Array, index: number, bitDepth: number): number {
+  if (bitDepth === 8) {
+    return scanline[index];
+  }
+  if (bitDepth === 16) {
+    return (scanline[index * 2] << 8) | scanline[index * 2 + 1];
+  }
+  // The samples less than 8 bits are packed with the leftmost sample in the high-order bits.
+  const bitOffset = index * bitDepth;
+  const shift = 8 - bitDepth - (bitOffset & 7);
+  return (scanline[bitOffset >>> 3] >>> shift) & ((1 << bitDepth) - 1);
+}
+
+/**
+ * Compute the CRC-32 of the given bytes.
+ *
+ * @param bytes - The bytes to compute the CRC of.
+ * @return The CRC-32 of the bytes.
+ * @see [PNG Specification - 5.5 Cyclic Redundancy Code algorithm](https://www.w3.org/TR/png/#5CRC-algorithm)
+ */
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Scale the sample value to the range [0, 255].
+ *
+ * @param value - The raw sample value.
+ * @param bitDepth - The bit depth of the sample.
+ * @return The scaled sample value.
+ */
+function scaleSample(value: number, bitDepth: number): number {
+  if (bitDepth === 8) {
+    return value;
+  }
+  return Math.round((value * 0xff) / ((1 << bitDepth) - 1));
+}
+
+/**
+ * Check whether the raw samples match the transparent color in the tRNS chunk.
+ *
+ * @param transparency - The data of the tRNS chunk.
+ * @param samples - The raw samples of the pixel.
+ * @return True if the samples match the transparent color, false otherwise.
+ */
+function matchesTransparency(transparency: Uint8Array | null, samples: number[]): boolean {
+  if (!transparency || transparency.length < samples.length * 2) {
+    return false;
+  }
+  return samples.every((sample: number, index: number): boolean => {
+    const transparent = (transparency[index * 2] << 8) | transparency[index * 2 + 1];
+    return sample === transparent;
+  });
+}
@@ -0,0 +1,374 @@
+import { assert } from '../../utils';
+
+/**
+ * The order of the code length codes in the dynamic Huffman block header.
+ *
+ * @see [RFC 1951 - 3.2.7](https://www.rfc-editor.org/rfc/rfc1951#section-3.2.7)
+ */
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15] as const;
+
+// The base lengths and the number of extra bits for the length codes 257..285.
+const LENGTH_BASES = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+] as const;
+const LENGTH_EXTRA_BITS = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+] as const;
+
+// The base distances and the number of extra bits for the distance codes 0..29.
+const DISTANCE_BASES = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+] as const;
+const DISTANCE_EXTRA_BITS = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+] as const;
+
+const MAX_CODE_LENGTH = 15;
+const END_OF_BLOCK = 256;
+
+/**
+ * Canonical Huffman code represented by the number of codes per length and the symbols ordered by their codes.
+ */
+type Huffman = {
+  readonly counts: Uint16Array;
+  readonly symbols: Uint16Array;
+};
+
+/**
+ * BitReader class reads bits from a byte array in the LSB-first order.
+ */
+class BitReader {
+  private position: number;
+  private buffer = 0;
+  private count = 0;
+
+  /**
+   * Create a new BitReader instance.
+   *
+   * @param bytes - The bytes to read.
+   * @param offset - The offset of the first byte to read.
+   */
+  constructor(
+    private readonly bytes: Uint8Array,
+    offset: number,
+  ) {
+    this.position = offset;
+  }
+
+  /**
+   * Read the given number of bits.
+   *
+   * @param n - The number of bits to read in [0, 16].
+   * @return The bits read.
+   * @throws {AssertionError} If the end of the data is reached.
+   */
+  readBits(n: number): number {
+    while (this.count < n) {
+      assert(this.position < this.bytes.length, 'Unexpected end of the deflate stream');
+      this.buffer |= this.bytes[this.position++] << this.count;
+      this.count += 8;
+    }
+    const bits = this.buffer & ((1 << n) - 1);
+    this.buffer >>>= n;
+    this.count -= n;
+    return bits;
+  }
+
+  /**
+   * Discard the remaining bits of the current byte and read the given number of bytes.
+   *
+   * @param n - The number of bytes to read.
+   * @return The bytes read.
+   * @throws {AssertionError} If the end of the data is reached.
+   */
+  readAlignedBytes(n: number): Uint8Array {
+    // Return the whole bytes buffered but not consumed yet.
+    this.position -= this.count >>> 3;
+    this.buffer = 0;
+    this.count = 0;
+    assert(this.position + n <= this.bytes.length, 'Unexpected end of the deflate stream');
+    const bytes = this.bytes.subarray(this.position, this.position + n);
+    this.position += n;
+    return bytes;
+  }
+}
+
+/**
+ * OutputBuffer class is a growable byte buffer.
+ */
+class OutputBuffer {
+  private bytes: Uint8Array;
+  private length = 0;
+
+  /**
+   * Create a new OutputBuffer instance.
+   *
+   * @param capacity - The initial capacity of the buffer.
+   */
+  constructor(capacity: number) {
+    this.bytes = new Uint8Array(Math.max(capacity, 1024));
+  }
+
+  push(value: number): void {
+    this.ensureCapacity(1);
+    this.bytes[this.length++] = value;
+  }
+
+  append(values: Uint8Array): void {
+    this.ensureCapacity(values.length);
+    this.bytes.set(values, this.length);
+    this.length += values.length;
+  }
+
+  /**
+   * Copy the bytes from the given distance back in the output.
+   *
+   * @param distance - The distance back from the current position.
+   * @param length - The number of bytes to copy.
+   * @throws {AssertionError} If the distance is too far back.
+   */
+  copy(distance: number, length: number): void {
+    assert(distance <= this.length, `Invalid distance too far back: ${distance}`);
+    this.ensureCapacity(length);
+    // The bytes are copied one by one because the source and the destination may overlap.
+    for (let i = 0; i < length; i++) {
+      this.bytes[this.length] = this.bytes[this.length - distance];
+      this.length++;
+    }
+  }
+
+  toArray(): Uint8Array {
+    return this.bytes.subarray(0, this.length);
+  }
+
+  private ensureCapacity(n: number): void {
+    if (this.length + n <= this.bytes.length) {
+      return;
+    }
+    const expanded = new Uint8Array(Math.max(this.bytes.length * 2, this.length + n));
+    expanded.set(this.bytes.subarray(0, this.length));
+    this.bytes = expanded;
+  }
+}
+
+/**
+ * Build the canonical Huffman code from the given code lengths.
+ *
+ * @param lengths - The code lengths of the symbols.
+ * @return The canonical Huffman code.
+ */
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(MAX_CODE_LENGTH + 1);
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]]++;
+  }
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(MAX_CODE_LENGTH + 1);
+  for (let i = 1; i < MAX_CODE_LENGTH; i++) {
+    offsets[i + 1] = offsets[i] + counts[i];
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i] !== 0) {
+      symbols[offsets[lengths[i]]++] = i;
+    }
+  }
+  return { counts, symbols };
+}
+
+/**
+ * Decode a symbol using the given Huffman code.
+ *
+ * @param reader - The bit reader.
+ * @param huffman - The Huffman code.
+ * @return The decoded symbol.
+ * @throws {AssertionError} If the code is invalid.
+ */
+function decodeSymbol(reader: BitReader, huffman: Huffman): number {
+  let code = 0;
+  let first = 0;
+  let index = 0;
+  let length = 1;
+  for (; length <= MAX_CODE_LENGTH; length++) {
+    code |= reader.readBits(1);
+    const count = huffman.counts[length];
+    if (code - first < count) {
+      break;
+    }
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  assert(length <= MAX_CODE_LENGTH, 'Invalid Huffman code in the deflate stream');
+  return huffman.symbols[index + code - first];
+}
+
+let fixedHuffman: [Huffman, Huffman] | null = null;
+
+/**
+ * Retrieve the fixed Huffman codes for the literal/length and distance alphabets.
+ *
+ * @return The fixed Huffman codes.
+ */
+function retrieveFixedHuffman(): [Huffman, Huffman] {
+  if (!fixedHuffman) {
+    const lengths = new Uint8Array(288);
+    lengths.fill(8, 0, 144);
+    lengths.fill(9, 144, 256);
+    lengths.fill(7, 256, 280);
+    lengths.fill(8, 280, 288);
+    fixedHuffman = [buildHuffman(lengths), buildHuffman(new Uint8Array(30).fill(5))];
+  }
+  return fixedHuffman;
+}
+
+/**
+ * Read the dynamic Huffman codes from the block header.
+ *
+ * @param reader - The bit reader.
+ * @return The literal/length and distance Huffman codes.
+ * @throws {AssertionError} If the code lengths are invalid.
+ */
+function readDynamicHuffman(reader: BitReader): [Huffman, Huffman] {
+  const literalCount = reader.readBits(5) + 257;
+  const distanceCount = reader.readBits(5) + 1;
+  const codeLengthCount = reader.readBits(4) + 4;
+
+  const codeLengthLengths = new Uint8Array(CODE_LENGTH_ORDER.length);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+  }
+  const codeLengthHuffman = buildHuffman(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  let index = 0;
+  while (index < lengths.length) {
+    const symbol = decodeSymbol(reader, codeLengthHuffman);
+    if (symbol < 16) {
+      lengths[index++] = symbol;
+      continue;
+    }
+
+    let value = 0;
+    let repeat: number;
+    if (symbol === 16) {
+      assert(index > 0, 'Invalid code length repeat without a previous length');
+      value = lengths[index - 1];
+      repeat = 3 + reader.readBits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + reader.readBits(3);
+    } else {
+      repeat = 11 + reader.readBits(7);
+    }
+    assert(index + repeat <= lengths.length, 'Invalid code length repeat exceeding the number of codes');
+    lengths.fill(value, index, index + repeat);
+    index += repeat;
+  }
+
+  assert(lengths[END_OF_BLOCK] !== 0, 'Missing end-of-block code in the dynamic Huffman codes');
+  return [buildHuffman(lengths.subarray(0, literalCount)), buildHuffman(lengths.subarray(literalCount))];
+}
+
+/**
+ * Inflate the compressed block with the given Huffman codes.
+ *
+ * @param reader - The bit reader.
+ * @param output - The output buffer.
+ * @param literalHuffman - The literal/length Huffman code.
+ * @param distanceHuffman - The distance Huffman code.
+ * @throws {AssertionError} If the block is invalid.
+ */
+function inflateBlock(reader: BitReader, output: OutputBuffer, literalHuffman: Huffman, distanceHuffman: Huffman) {
+  for (;;) {
+    const symbol = decodeSymbol(reader, literalHuffman);
+    if (symbol < END_OF_BLOCK) {
+      output.push(symbol);
+      continue;
+    }
+    if (symbol === END_OF_BLOCK) {
+      return;
+    }
+
+    const lengthIndex = symbol - 257;
+    assert(lengthIndex < LENGTH_BASES.length, `Invalid length code in the deflate stream: ${symbol}`);
+    const length = LENGTH_BASES[lengthIndex] + reader.readBits(LENGTH_EXTRA_BITS[lengthIndex]);
+
+    const distanceIndex = decodeSymbol(reader, distanceHuffman);
+    assert(distanceIndex < DISTANCE_BASES.length, `Invalid distance code in the deflate stream: ${distanceIndex}`);
+    const distance = DISTANCE_BASES[distanceIndex] + reader.readBits(DISTANCE_EXTRA_BITS[distanceIndex]);
+    output.copy(distance, length);
+  }
+}
+
+/**
+ * Inflate the given zlib stream.
+ *
+ * @param bytes - The zlib compressed bytes.
+ * @param sizeHint - The expected size of the inflated bytes.
+ * @return The inflated bytes.
+ * @throws {AssertionError} If the stream is invalid.
+ * @see [RFC 1950 - ZLIB Compressed Data Format](https://www.rfc-editor.org/rfc/rfc1950)
+ * @see [RFC 1951 - DEFLATE Compressed Data Format](https://www.rfc-editor.org/rfc/rfc1951)
+ */
+export function inflate(bytes: Uint8Array, sizeHint = 0): Uint8Array {
+  assert(bytes.length >= 2, 'The zlib stream is too short');
+  const cmf = bytes[0];
+  const flg = bytes[1];
+  assert((cmf & 0x0f) === 8, `Unsupported compression method in the zlib stream: ${cmf & 0x0f}`);
+  assert(((cmf << 8) | flg) % 31 === 0, 'Invalid header checksum in the zlib stream');
+  assert((flg & 0x20) === 0, 'Preset dictionary in the zlib stream is not supported');
+
+  const reader = new BitReader(bytes, 2);
+  const output = new OutputBuffer(sizeHint);
+  let isFinal = false;
+  while (!isFinal) {
+    isFinal = reader.readBits(1) === 1;
+    const type = reader.readBits(2);
+    assert(type !== 3, `Invalid block type in the deflate stream: ${type}`);
+    if (type === 0) {
+      // Stored block
+      const header = reader.readAlignedBytes(4);
+      const length = header[0] | (header[1] << 8);
+      const complement = header[2] | (header[3] << 8);
+      assert((length ^ 0xffff) === complement, 'Invalid length of the stored block in the deflate stream');
+      output.append(reader.readAlignedBytes(length));
+    } else if (type === 1) {
+      const [literalHuffman, distanceHuffman] = retrieveFixedHuffman();
+      inflateBlock(reader, output, literalHuffman, distanceHuffman);
+    } else {
+      const [literalHuffman, distanceHuffman] = readDynamicHuffman(reader);
+      inflateBlock(reader, output, literalHuffman, distanceHuffman);
+    }
+  }
+
+  const inflated = output.toArray();
+  const checksum = reader.readAlignedBytes(4);
+  const expected = ((checksum[0] << 24) | (checksum[1] << 16) | (checksum[2] << 8) | checksum[3]) >>> 0;
+  assert(adler32(inflated) === expected, 'The Adler-32 checksum of the zlib stream does not match the inflated bytes');
+  return inflated;
+}
+
+/**
+ * Compute the Adler-32 checksum of the given bytes.
+ *
+ * @param bytes - The bytes to compute the checksum of.
+ * @return The Adler-32 checksum of the bytes.
+ * @see [RFC 1950 - 8.2 Verification of the checksum](https://www.rfc-editor.org/rfc/rfc1950#section-8.2)
+ */
+function adler32(bytes: Uint8Array): number {
+  // The sums are reduced every 5552 bytes as zlib does, so that they stay within the 32-bit integers.
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a += bytes[i];
+    b += a;
+    if ((i + 1) % 5552 === 0) {
+      a %= 65521;
+      b %= 65521;
+    }
+  }
+  return ((b % 65521) * 65536 + (a % 65521)) >>> 0;
+}
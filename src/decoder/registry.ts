@@ -0,0 +1,50 @@
+import type { ImageDecoder } from './decoder';
+import { JPEGDecoder } from './jpeg';
+import { PNGDecoder } from './png';
+
+const decoders: ImageDecoder[] = [];
+
+// The built-in decoders are used only if no registered decoder supports the bytes.
+const builtinDecoders: ImageDecoder[] = [new PNGDecoder(), new JPEGDecoder()];
+
+/**
+ * Register the image decoder.
+ * The decoders registered later take precedence over the decoders registered earlier.
+ *
+ * @param decoder - The decoder to register.
+ * @see {@link unregisterDecoder}
+ */
+export function registerDecoder(decoder: ImageDecoder): void {
+  if (decoders.includes(decoder)) {
+    return;
+  }
+  decoders.unshift(decoder);
+}
+
+/**
+ * Unregister the image decoder.
+ *
+ * @param decoder - The decoder to unregister.
+ * @return True if the decoder was registered, false otherwise.
+ * @see {@link registerDecoder}
+ */
+export function unregisterDecoder(decoder: ImageDecoder): boolean {
+  const index = decoders.indexOf(decoder);
+  if (index < 0) {
+    return false;
+  }
+  decoders.splice(index, 1);
+  return true;
+}
+
+/**
+ * Find the decoder supporting the given bytes.
+ * The registered decoders are preferred over the built-in decoders.
+ *
+ * @param bytes - The encoded image bytes.
+ * @return The decoder supporting the bytes, or undefined if no decoder supports them.
+ */
+export function findDecoder(bytes: Uint8Array): ImageDecoder | undefined {
+  const canDecode = (decoder: ImageDecoder): boolean => decoder.canDecode(bytes);
+  return decoders.find(canDecode) ?? builtinDecoders.find(canDecode);
+}
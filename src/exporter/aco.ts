@@ -0,0 +1,53 @@
+import type { NamedSwatch } from '../swatch';
+import { type ExportSource, resolveSwatches } from './swatches';
+
+// The color space of the entry: 0 for RGB.
+const RGB_COLOR_SPACE = 0;
+
+/**
+ * Export the swatches to the Adobe Photoshop color swatch(.aco) format.
+ * The file contains both the version 1 section for compatibility and the version 2 section with the names.
+ *
+ * @param source - The palette or the swatches to export.
+ * @return The bytes of the .aco file.
+ * @see [Adobe Photoshop File Formats Specification - Color Swatches](https://www.adobe.com/devnet-apps/photoshop/fileformatashtml/#50577411_pgfId-1055819)
+ */
+export function exportACO(source: ExportSource): Uint8Array {
+  const swatches = resolveSwatches(source);
+  const nameSize = swatches.reduce((total: number, swatch: NamedSwatch): number => {
+    // The length prefix, the UTF-16 characters and the null terminator.
+    return total + 4 + (swatch.name.length + 1) * 2;
+  }, 0);
+  const bytes = new Uint8Array(4 + swatches.length * 10 + 4 + swatches.length * 10 + nameSize);
+  const view = new DataView(bytes.buffer);
+
+  let offset = 0;
+  for (const version of [1, 2]) {
+    view.setUint16(offset, version);
+    view.setUint16(offset + 2, swatches.length);
+    offset += 4;
+    for (const swatch of swatches) {
+      const { r, g, b } = swatch.color.toRGB();
+      view.setUint16(offset, RGB_COLOR_SPACE);
+      // The 8-bit components are scaled to 16-bit components.
+      view.setUint16(offset + 2, r * 257);
+      view.setUint16(offset + 4, g * 257);
+      view.setUint16(offset + 6, b * 257);
+      view.setUint16(offset + 8, 0);
+      offset += 10;
+      if (version === 1) {
+        continue;
+      }
+
+      view.setUint32(offset, swatch.name.length + 1);
+      offset += 4;
+      for (let i = 0; i < swatch.name.length; i++) {
+        view.setUint16(offset, swatch.name.charCodeAt(i));
+        offset += 2;
+      }
+      view.setUint16(offset, 0);
+      offset += 2;
+    }
+  }
+  return bytes;
+}
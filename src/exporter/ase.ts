@@ -0,0 +1,95 @@
+import type { NamedSwatch } from '../swatch';
+import { type ExportSource, resolveSwatches } from './swatches';
+
+/**
+ * The block types of the Adobe Swatch Exchange file.
+ */
+const BlockType = {
+  COLOR: 0x0001,
+  GROUP_START: 0xc001,
+  GROUP_END: 0xc002,
+} as const;
+
+// The color type of the entry: 0 for global, 1 for spot and 2 for normal.
+const NORMAL_COLOR_TYPE = 2;
+
+/**
+ * Options interface for the Adobe Swatch Exchange export.
+ */
+export interface ASEOptions {
+  /**
+   * The name of the group containing the swatches. The swatches are not grouped if the name is not given.
+   */
+  readonly name?: string;
+}
+
+/**
+ * Export the swatches to the Adobe Swatch Exchange(.ase) format.
+ *
+ * @param source - The palette or the swatches to export.
+ * @param options - The options for the export.
+ * @return The bytes of the .ase file.
+ * @see [Adobe Swatch Exchange - File Format Wiki](http://fileformats.archiveteam.org/wiki/Adobe_Swatch_Exchange)
+ */
+export function exportASE(source: ExportSource, options: ASEOptions = {}): Uint8Array {
+  const swatches = resolveSwatches(source);
+  const blocks = swatches.map(createColorBlock);
+  if (options.name !== undefined) {
+    blocks.unshift(createBlock(BlockType.GROUP_START, encodeName(options.name)));
+    blocks.push(createBlock(BlockType.GROUP_END, new Uint8Array(0)));
+  }
+
+  const header = new Uint8Array(12);
+  const view = new DataView(header.buffer);
+  header.set([0x41, 0x53, 0x45, 0x46]); // 'ASEF'
+  view.setUint16(4, 1); // The major version
+  view.setUint16(6, 0); // The minor version
+  view.setUint32(8, blocks.length);
+  return concat([header, ...blocks]);
+}
+
+function createColorBlock(swatch: NamedSwatch): Uint8Array {
+  const name = encodeName(swatch.name);
+  const color = new Uint8Array(4 + 3 * 4 + 2);
+  const view = new DataView(color.buffer);
+  color.set([0x52, 0x47, 0x42, 0x20]); // 'RGB '
+  const { r, g, b } = swatch.color.toRGB();
+  view.setFloat32(4, r / 255);
+  view.setFloat32(8, g / 255);
+  view.setFloat32(12, b / 255);
+  view.setUint16(16, NORMAL_COLOR_TYPE);
+  return createBlock(BlockType.COLOR, concat([name, color]));
+}
+
+function createBlock(type: number, body: Uint8Array): Uint8Array {
+  const block = new Uint8Array(6 + body.length);
+  const view = new DataView(block.buffer);
+  view.setUint16(0, type);
+  view.setUint32(2, body.length);
+  block.set(body, 6);
+  return block;
+}
+
+/**
+ * Encode the name as the length-prefixed and null-terminated UTF-16BE string.
+ */
+function encodeName(name: string): Uint8Array {
+  const length = name.length + 1;
+  const bytes = new Uint8Array(2 + length * 2);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, length);
+  for (let i = 0; i < name.length; i++) {
+    view.setUint16(2 + i * 2, name.charCodeAt(i));
+  }
+  return bytes;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const size = chunks.reduce((total: number, chunk: Uint8Array): number => total + chunk.length, 0);
+  const bytes = new Uint8Array(size);
+  chunks.reduce((offset: number, chunk: Uint8Array): number => {
+    bytes.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return bytes;
+}
@@ -0,0 +1,61 @@
+import { type ExportSource, createKeys, resolveSwatches } from './swatches';
+
+/**
+ * Options interface for the CSS custom properties export.
+ */
+export interface CSSOptions {
+  /**
+   * The selector of the rule declaring the custom properties. Default is ':root'.
+   */
+  readonly selector?: string;
+
+  /**
+   * The prefix of the property names. Default is 'color'.
+   */
+  readonly prefix?: string;
+}
+
+/**
+ * Options interface for the SCSS variables export.
+ */
+export interface SCSSOptions {
+  /**
+   * The prefix of the variable names. Default is 'color'.
+   */
+  readonly prefix?: string;
+}
+
+/**
+ * Export the swatches to the CSS custom properties.
+ *
+ * @param source - The palette or the swatches to export.
+ * @param options - The options for the export.
+ * @return The CSS rule declaring the custom properties such as `--color-red: #FF0000;`.
+ */
+export function exportCSS(source: ExportSource, options: CSSOptions = {}): string {
+  const { selector = ':root', prefix = 'color' } = options;
+  const declarations = createDeclarations(source, prefix).map(([name, value]) => `  --${name}: ${value};`);
+  return `${selector} {\n${declarations.join('\n')}\n}\n`;
+}
+
+/**
+ * Export the swatches to the SCSS variables.
+ *
+ * @param source - The palette or the swatches to export.
+ * @param options - The options for the export.
+ * @return The SCSS variables such as `$color-red: #FF0000;`.
+ */
+export function exportSCSS(source: ExportSource, options: SCSSOptions = {}): string {
+  const { prefix = 'color' } = options;
+  const declarations = createDeclarations(source, prefix).map(([name, value]) => `$${name}: ${value};`);
+  return declarations.length > 0 ? `${declarations.join('\n')}\n` : '';
+}
+
+function createDeclarations(source: ExportSource, prefix: string): [string, string][] {
+  const swatches = resolveSwatches(source);
+  const keys = createKeys(swatches);
+  return swatches.map((swatch, index): [string, string] => {
+    const name = prefix ? `${prefix}-${keys[index]}` : keys[index];
+    return [name, swatch.color.toString()];
+  });
+}
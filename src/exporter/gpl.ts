@@ -0,0 +1,40 @@
+import { assert } from '../utils';
+import { type ExportSource, resolveSwatches } from './swatches';
+
+/**
+ * Options interface for the GIMP palette export.
+ */
+export interface GPLOptions {
+  /**
+   * The name of the palette. Default is 'Auto Palette'.
+   */
+  readonly name?: string;
+
+  /**
+   * The number of columns to display the palette in GIMP. Default is 0, which lets GIMP decide.
+   */
+  readonly columns?: number;
+}
+
+/**
+ * Export the swatches to the GIMP palette(.gpl) format.
+ *
+ * @param source - The palette or the swatches to export.
+ * @param options - The options for the export.
+ * @return The contents of the .gpl file.
+ * @throws {AssertionError} If the name contains a line break or the columns is not a non-negative integer.
+ * @see [GIMP Palette - File Format Wiki](http://fileformats.archiveteam.org/wiki/GIMP_Palette)
+ */
+export function exportGPL(source: ExportSource, options: GPLOptions = {}): string {
+  const { name = 'Auto Palette', columns = 0 } = options;
+  assert(!/[\r\n]/.test(name), `The name must not contain line breaks: ${name}`);
+  assert(Number.isSafeInteger(columns) && columns >= 0, `The columns must be a non-negative integer: ${columns}`);
+
+  const lines = ['GIMP Palette', `Name: ${name}`, `Columns: ${columns}`, '#'];
+  for (const swatch of resolveSwatches(source)) {
+    const { r, g, b } = swatch.color.toRGB();
+    const values = [r, g, b].map((value: number): string => String(value).padStart(3, ' ')).join(' ');
+    lines.push(`${values}\t${swatch.name}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
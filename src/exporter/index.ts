@@ -0,0 +1,7 @@
+export { type ASEOptions, exportASE } from './ase';
+export { exportACO } from './aco';
+export { type CSSOptions, type SCSSOptions, exportCSS, exportSCSS } from './css';
+export { type GPLOptions, exportGPL } from './gpl';
+export { type ExportSource } from './swatches';
+export { exportTailwind } from './tailwind';
+export { type DesignToken, exportDesignTokens } from './tokens';
@@ -0,0 +1,49 @@
+import { Palette } from '../palette';
+import type { NamedSwatch } from '../swatch';
+
+/**
+ * ExportSource type represents the source of the swatches to export.
+ * - Palette: All swatches of the palette named by the CSS color names.
+ * - NamedSwatch[]: The swatches found by {@link Palette.findSwatches}.
+ */
+export type ExportSource = Palette | NamedSwatch[];
+
+/**
+ * Resolve the swatches to export from the given source.
+ *
+ * @param source - The source of the swatches.
+ * @return The named swatches.
+ */
+export function resolveSwatches(source: ExportSource): NamedSwatch[] {
+  if (source instanceof Palette) {
+    return source.isEmpty() ? [] : source.findSwatches(source.size());
+  }
+  return source;
+}
+
+/**
+ * Create the unique keys of the swatches from their names.
+ * The names are converted to kebab-case and a numeric suffix is appended to the duplicate names.
+ *
+ * @param swatches - The swatches to create the keys for.
+ * @return The keys of the swatches in the same order.
+ * @example
+ * createKeys([{ name: 'SeaGreen' }, { name: 'Red' }, { name: 'Red' }]); // ['sea-green', 'red', 'red-2']
+ */
+export function createKeys(swatches: NamedSwatch[]): string[] {
+  const counts = new Map<string, number>();
+  return swatches.map((swatch: NamedSwatch): string => {
+    const key = toKebabCase(swatch.name) || 'color';
+    const count = (counts.get(key) ?? 0) + 1;
+    counts.set(key, count);
+    return count === 1 ? key : `${key}-${count}`;
+  });
+}
+
+function toKebabCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+}
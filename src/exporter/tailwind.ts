@@ -0,0 +1,14 @@
+import { type ExportSource, createKeys, resolveSwatches } from './swatches';
+
+/**
+ * Export the swatches to the Tailwind CSS colors config object.
+ *
+ * @param source - The palette or the swatches to export.
+ * @return The colors keyed by the kebab-cased names, which can be assigned to `theme.extend.colors`.
+ * @see [Customizing Colors - Tailwind CSS](https://tailwindcss.com/docs/customizing-colors)
+ */
+export function exportTailwind(source: ExportSource): Record<string, string> {
+  const swatches = resolveSwatches(source);
+  const keys = createKeys(swatches);
+  return Object.fromEntries(swatches.map((swatch, index) => [keys[index], swatch.color.toString()]));
+}
@@ -0,0 +1,28 @@
+import { type ExportSource, createKeys, resolveSwatches } from './swatches';
+
+/**
+ * DesignToken type represents a color token in the W3C Design Tokens format.
+ */
+export type DesignToken = {
+  readonly $type: 'color';
+  readonly $value: string;
+  readonly $description?: string;
+};
+
+/**
+ * Export the swatches to the W3C Design Tokens format.
+ *
+ * @param source - The palette or the swatches to export.
+ * @return The color tokens keyed by the kebab-cased names, which can be serialized with JSON.stringify.
+ * @see [Design Tokens Format Module](https://tr.designtokens.org/format/)
+ */
+export function exportDesignTokens(source: ExportSource): Record<string, DesignToken> {
+  const swatches = resolveSwatches(source);
+  const keys = createKeys(swatches);
+  return Object.fromEntries(
+    swatches.map((swatch, index): [string, DesignToken] => [
+      keys[index],
+      { $type: 'color', $value: swatch.color.toString(), $description: swatch.name },
+    ]),
+  );
+}
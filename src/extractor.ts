@@ -1,4 +1,15 @@
-import { CIELabSpace, Color, type RGBA, RGBSpace, XYZSpace } from './color';
+import {
+  CIELabSpace,
+  Color,
+  OKLabSpace,
+  type RGB,
+  type RGBA,
+  type RGBColorSpace,
+  RGBSpace,
+  type XYZ,
+  XYZSpace,
+  createAdaptation,
+} from './color';
 import { type ColorFilter, composeFilters } from './filter';
 import {
   type Cluster,
@@ -19,27 +30,126 @@ import type { Swatch } from './swatch';
  */
 const COLOR_DIFFERENCE_THRESHOLD = 2.5;
 
+/**
+ * The maximum absolute value of the CIELab 'a' and 'b' components scaled to [0, 1] for clustering.
+ * The scale is fixed apart from the range of the CIELab color space, since the default parameters of the clustering
+ * algorithms such as the epsilon of DBSCAN are tuned for it.
+ */
+const LAB_CLUSTERING_RANGE = 128;
+
+/**
+ * The color space to cluster the pixels in.
+ * lab: CIELAB color space.
+ * oklab: OKLab color space, which gives more uniform hue clustering for saturated blues.
+ *
+ * @see [A perceptual color space for image processing](https://bottosson.github.io/posts/oklab/)
+ */
+export type ClusteringSpace = 'lab' | 'oklab';
+
+/**
+ * ClusteringCoordinates interface converts colors to and from the normalized coordinates of a color space.
+ */
+interface ClusteringCoordinates {
+  /**
+   * Convert the color to the coordinates normalized to [0, 1].
+   */
+  encode(xyz: XYZ): Point3;
+
+  /**
+   * Convert the normalized coordinates to the color.
+   */
+  decode(point: Point3): Color;
+}
+
+const COORDINATES: Record<ClusteringSpace, ClusteringCoordinates> = {
+  lab: {
+    encode(xyz: XYZ): Point3 {
+      const { l, a, b } = CIELabSpace.fromXYZ(xyz);
+      return [
+        normalize(l, CIELabSpace.MIN_L, CIELabSpace.MAX_L),
+        normalize(a, -LAB_CLUSTERING_RANGE, LAB_CLUSTERING_RANGE),
+        normalize(b, -LAB_CLUSTERING_RANGE, LAB_CLUSTERING_RANGE),
+      ];
+    },
+    decode([l, a, b]: Point3): Color {
+      return Color.fromLAB({
+        l: denormalize(l, CIELabSpace.MIN_L, CIELabSpace.MAX_L),
+        a: denormalize(a, -LAB_CLUSTERING_RANGE, LAB_CLUSTERING_RANGE),
+        b: denormalize(b, -LAB_CLUSTERING_RANGE, LAB_CLUSTERING_RANGE),
+      });
+    },
+  },
+  oklab: {
+    encode(xyz: XYZ): Point3 {
+      const { l, a, b } = OKLabSpace.fromXYZ(xyz);
+      return [
+        normalize(l, OKLabSpace.MIN_L, OKLabSpace.MAX_L),
+        normalize(a, OKLabSpace.MIN_A, OKLabSpace.MAX_A),
+        normalize(b, OKLabSpace.MIN_B, OKLabSpace.MAX_B),
+      ];
+    },
+    decode([l, a, b]: Point3): Color {
+      return Color.fromOKLab({
+        l: denormalize(l, OKLabSpace.MIN_L, OKLabSpace.MAX_L),
+        a: denormalize(a, OKLabSpace.MIN_A, OKLabSpace.MAX_A),
+        b: denormalize(b, OKLabSpace.MIN_B, OKLabSpace.MAX_B),
+      });
+    },
+  },
+};
+
+/**
+ * Pixels type represents the pixels sampled from an image.
+ */
+type Pixels = {
+  /**
+   * The points of the pixels in the normalized color coordinates and the normalized image coordinates.
+   */
+  readonly points: Point5[];
+
+  /**
+   * The alpha values of the pixels in [0.0, 1.0]. The values are 1.0 if the pixels are composited over the background.
+   */
+  readonly opacities: number[];
+};
+
 /**
  * SwatchExtractor class extracts swatches from an image.
  */
 export class SwatchExtractor {
   private readonly filter: ColorFilter;
+  private readonly coordinates: ClusteringCoordinates;
+  private readonly adaptation: ((xyz: XYZ) => XYZ) | null;
 
   /**
    * Create a new SwatchExtractor instance.
    *
    * @param algorithm - The clustering algorithm to use.
    * @param filters - The color filter functions to use.
+   * @param space - The color space to cluster the pixels in. Default is lab.
+   * @param background - The background color to composite the pixels over before clustering, or null to cluster the
+   * pixels as they are. The components are in the RGB color space of the pixels.
+   * @param colorSpace - The RGB color space of the pixels. Default is srgb.
+   * @param whitePoint - The white of the light the image was captured under, or null to use the pixels as they are.
+   * The pixels are adapted from the white to D65 with the Bradford transform.
    */
   constructor(
     private readonly algorithm: ClusteringAlgorithm<Point5>,
     filters: ColorFilter[],
+    space: ClusteringSpace = 'lab',
+    private readonly background: RGB | null = null,
+    private readonly colorSpace: RGBColorSpace = 'srgb',
+    whitePoint: XYZ | null = null,
   ) {
     this.filter = composeFilters(...filters);
+    this.coordinates = COORDINATES[space];
+    this.adaptation = whitePoint ? createAdaptation(whitePoint, XYZSpace.D65, 'bradford') : null;
   }
 
   /**
    * Extract swatches from the given image data.
+   * The alpha of the swatch color is the average opacity of the pixels in the swatch. If the pixels are composited over
+   * the background, the swatch colors are fully opaque.
    *
    * @param imageData - The image data to extract swatches from.
    * @param samplingRate - The sampling rate to sample pixels from the image.
@@ -52,11 +162,11 @@ export class SwatchExtractor {
     }
 
     const pixels = this.convertToPixels(imageData, samplingRate);
-    if (pixels.length === 0) {
+    if (pixels.points.length === 0) {
       return [];
     }
 
-    const pixelClusters = this.algorithm.fit(pixels);
+    const pixelClusters = this.algorithm.fit(pixels.points);
     if (pixelClusters.length === 0) {
       return [];
     }
@@ -65,7 +175,7 @@ export class SwatchExtractor {
     const dbscan = new DBSCAN<Point3>(1, COLOR_DIFFERENCE_THRESHOLD, euclidean);
     const colorClusters = dbscan.fit(colors);
     return colorClusters.reduce((swatches: Swatch[], cluster: Cluster<Point3>): Swatch[] => {
-      const swatch = SwatchExtractor.createSwatch(cluster, pixelClusters, width, height);
+      const swatch = this.createSwatch(cluster, pixelClusters, pixels.opacities, width, height);
       if (swatch.population !== 0) {
         swatches.push(swatch);
       }
@@ -73,10 +183,11 @@ export class SwatchExtractor {
     }, []);
   }
 
-  private convertToPixels(imageData: ImageData, samplingRate: number): Point5[] {
+  private convertToPixels(imageData: ImageData, samplingRate: number): Pixels {
     const { data, width, height } = imageData;
     const steps = Math.max(1, Math.floor(1 / samplingRate));
-    const pixels: Point5[] = [];
+    const points: Point5[] = [];
+    const opacities: number[] = [];
     const channels = Math.floor(data.length / (width * height)); // 4 for RGBA, 3 for RGB
     for (let i = 0; i < data.length; i += channels * steps) {
       const rgba: RGBA = {
@@ -91,20 +202,28 @@ export class SwatchExtractor {
         continue;
       }
 
-      const xyz = XYZSpace.fromRGB(rgba);
-      const lab = CIELabSpace.fromXYZ(xyz);
+      const opacity = rgba.a / RGBSpace.MAX_RGB;
+      const xyz = XYZSpace.fromRGB(this.composite(rgba, opacity), this.colorSpace);
+      const [l, a, b] = this.coordinates.encode(this.adaptation ? this.adaptation(xyz) : xyz);
       const x = Math.floor((i / 4) % width);
       const y = Math.floor((i / 4 / width) % height);
+      points.push([l, a, b, x / width, y / height]);
+      opacities.push(this.background ? 1.0 : opacity);
+    }
+    return { points, opacities };
+  }
 
-      pixels.push([
-        normalize(lab.l, CIELabSpace.MIN_L, CIELabSpace.MAX_L),
-        normalize(lab.a, CIELabSpace.MIN_A, CIELabSpace.MAX_A),
-        normalize(lab.b, CIELabSpace.MIN_B, CIELabSpace.MAX_B),
-        x / width,
-        y / height,
-      ]);
+  private composite(rgba: RGBA, opacity: number): RGB {
+    if (!this.background) {
+      return { r: rgba.r, g: rgba.g, b: rgba.b };
     }
-    return pixels;
+    // Alpha compositing with the 'source-over' operator over the opaque background.
+    const { r, g, b } = this.background;
+    return {
+      r: Math.round(rgba.r * opacity + r * (1 - opacity)),
+      g: Math.round(rgba.g * opacity + g * (1 - opacity)),
+      b: Math.round(rgba.b * opacity + b * (1 - opacity)),
+    };
   }
 
   private convertToColors(pixelClusters: Cluster<Point5>[]): Point3[] {
@@ -113,13 +232,10 @@ export class SwatchExtractor {
         return colors;
       }
 
-      const pixel = cluster.getCentroid();
-      const color: Point3 = [
-        denormalize(pixel[0], CIELabSpace.MIN_L, CIELabSpace.MAX_L), // L
-        denormalize(pixel[1], CIELabSpace.MIN_A, CIELabSpace.MAX_A), // a
-        denormalize(pixel[2], CIELabSpace.MIN_B, CIELabSpace.MAX_B), // b
-      ];
-      colors.push(color);
+      // The colors are deduplicated in CIELAB color space regardless of the clustering space.
+      const [l, a, b] = cluster.getCentroid();
+      const lab = this.coordinates.decode([l, a, b]).toLAB();
+      colors.push([lab.l, lab.a, lab.b]);
       return colors;
     }, []);
   }
@@ -129,13 +245,15 @@ export class SwatchExtractor {
    *
    * @param colorCluster - The color cluster to create a swatch from.
    * @param pixelClusters - The pixel clusters to create a swatch from.
+   * @param opacities - The alpha values of the pixels.
    * @param width - The width of the source image.
    * @param height - The height of the source image.
    * @returns The optimal swatch.
    */
-  private static createSwatch(
+  private createSwatch(
     colorCluster: Cluster<Point3>,
     pixelClusters: Cluster<Point5>[],
+    opacities: number[],
     width: number,
     height: number,
   ): Swatch {
@@ -147,6 +265,7 @@ export class SwatchExtractor {
       y: 0.0,
       size: 0,
       population: 0,
+      opacity: 0.0,
     };
     for (const index of colorCluster.getMemberships().values()) {
       const pixelCluster = pixelClusters[index];
@@ -166,13 +285,15 @@ export class SwatchExtractor {
         optimalSwatch.size = pixelCluster.size;
       }
       optimalSwatch.population += pixelCluster.size;
+      for (const member of pixelCluster.getMemberships()) {
+        optimalSwatch.opacity += opacities[member];
+      }
     }
 
-    const color = Color.fromLAB({
-      l: denormalize(optimalSwatch.l, CIELabSpace.MIN_L, CIELabSpace.MAX_L),
-      a: denormalize(optimalSwatch.a, CIELabSpace.MIN_A, CIELabSpace.MAX_A),
-      b: denormalize(optimalSwatch.b, CIELabSpace.MIN_B, CIELabSpace.MAX_B),
-    });
+    const opacity = optimalSwatch.population === 0 ? 1.0 : optimalSwatch.opacity / optimalSwatch.population;
+    const color = this.coordinates
+      .decode([optimalSwatch.l, optimalSwatch.a, optimalSwatch.b])
+      .withAlpha(Math.min(opacity, 1.0));
     const position = {
       x: Math.floor(optimalSwatch.x * width),
       y: Math.floor(optimalSwatch.y * height),
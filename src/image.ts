@@ -1,10 +1,23 @@
-import { assertDefined } from './utils';
+import { findDecoder } from './decoder';
+import { assertDefined, isString } from './utils';
 import { isBrowser, isWebWorker } from './utils/browser';
 
 /**
  * Image source represents the source of a supported image.
  */
-export type ImageSource = HTMLCanvasElement | HTMLImageElement | ImageData;
+export type ImageSource = HTMLCanvasElement | HTMLImageElement | ImageData | ImageBitmap | OffscreenCanvas;
+
+/**
+ * Async image source represents the source of a supported image that may need to be loaded or decoded.
+ * - Uint8Array, Buffer or ArrayBuffer: The encoded image bytes.
+ * - Blob or File: The encoded image file.
+ * - string: The path of the encoded image file. Supported only in Node.js.
+ *
+ * @see {@link registerDecoder}
+ */
+export type AsyncImageSource = ImageSource | Uint8Array | ArrayBuffer | Blob | string;
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
 
 /**
  * Check if the given value is a canvas element.
@@ -26,6 +39,26 @@ export function isImageElement(value: ImageSource): value is HTMLImageElement {
   return isBrowser() && !isWebWorker() && value instanceof HTMLImageElement;
 }
 
+/**
+ * Check if the given value is an ImageBitmap object.
+ *
+ * @param value - The value to check.
+ * @return True if the value is an ImageBitmap object, false otherwise.
+ */
+function isImageBitmap(value: ImageSource): value is ImageBitmap {
+  return typeof ImageBitmap !== 'undefined' && value instanceof ImageBitmap;
+}
+
+/**
+ * Check if the given value is an OffscreenCanvas object.
+ *
+ * @param value - The value to check.
+ * @return True if the value is an OffscreenCanvas object, false otherwise.
+ */
+function isOffscreenCanvas(value: ImageSource): value is OffscreenCanvas {
+  return typeof OffscreenCanvas !== 'undefined' && value instanceof OffscreenCanvas;
+}
+
 /**
  * Check if the given value is an ImageData object.
  *
@@ -37,12 +70,44 @@ export function isImageData(value: ImageSource): value is ImageData {
   return 'data' in value && 'width' in value && 'height' in value;
 }
 
+/**
+ * Check if the given value is a Uint8Array object including Buffer.
+ * The tag is checked instead of the prototype to support the objects created in other realms.
+ *
+ * @param value - The value to check.
+ * @return True if the value is a Uint8Array object, false otherwise.
+ */
+function isBytes(value: AsyncImageSource): value is Uint8Array {
+  return Object.prototype.toString.call(value) === '[object Uint8Array]';
+}
+
+/**
+ * Check if the given value is an ArrayBuffer object.
+ *
+ * @param value - The value to check.
+ * @return True if the value is an ArrayBuffer object, false otherwise.
+ */
+function isArrayBuffer(value: AsyncImageSource): value is ArrayBuffer {
+  return Object.prototype.toString.call(value) === '[object ArrayBuffer]';
+}
+
+/**
+ * Check if the given value is a Blob object including File.
+ *
+ * @param value - The value to check.
+ * @return True if the value is a Blob object, false otherwise.
+ */
+function isBlob(value: AsyncImageSource): value is Blob {
+  return typeof Blob !== 'undefined' && value instanceof Blob;
+}
+
 /**
  * Create an ImageData object from the given source.
  *
  * @param source - The source of the image.
  * @return The ImageData object.
  * @throws {TypeError} If the source is not supported.
+ * @see {@link createImageDataAsync}
  */
 export function createImageData(source: ImageSource): ImageData {
   if (isCanvasElement(source)) {
@@ -51,6 +116,12 @@ export function createImageData(source: ImageSource): ImageData {
   if (isImageElement(source)) {
     return fromImageElement(source);
   }
+  if (isImageBitmap(source)) {
+    return fromImageBitmap(source);
+  }
+  if (isOffscreenCanvas(source)) {
+    return fromOffscreenCanvas(source);
+  }
   if (isImageData(source)) {
     return source;
   }
@@ -58,18 +129,104 @@ export function createImageData(source: ImageSource): ImageData {
 }
 
 /**
- * Ensure a 2D context from the given canvas element.
+ * Create an ImageData object from the given source, loading and decoding it if necessary.
  *
- * @param canvas - The source canvas element.
+ * The encoded image bytes are decoded by the registered decoders. In browsers, the bytes are decoded by the browser
+ * if no registered decoder supports them.
+ *
+ * @param source - The source of the image.
+ * @return A promise that resolves to the ImageData object.
+ * @throws {TypeError} If the source is not supported.
+ * @throws {Error} If the source cannot be decoded.
+ * @see {@link createImageData}
+ */
+export async function createImageDataAsync(source: AsyncImageSource): Promise<ImageData> {
+  if (isString(source)) {
+    return decodeBytes(await readFile(source));
+  }
+  if (isBytes(source)) {
+    return decodeBytes(source);
+  }
+  if (isArrayBuffer(source)) {
+    return decodeBytes(new Uint8Array(source));
+  }
+  if (isBlob(source)) {
+    const buffer = await source.arrayBuffer();
+    return decodeBytes(new Uint8Array(buffer));
+  }
+  return createImageData(source);
+}
+
+/**
+ * Decode the given encoded image bytes.
+ *
+ * @param bytes - The encoded image bytes.
+ * @return A promise that resolves to the ImageData object.
+ * @throws {Error} If no decoder supports the bytes.
+ */
+async function decodeBytes(bytes: Uint8Array): Promise<ImageData> {
+  const decoder = findDecoder(bytes);
+  if (decoder) {
+    return decoder.decode(bytes);
+  }
+
+  if (typeof createImageBitmap !== 'undefined') {
+    const bitmap = await createImageBitmap(new Blob([bytes]));
+    try {
+      return fromImageBitmap(bitmap);
+    } finally {
+      bitmap.close();
+    }
+  }
+  throw new Error('No image decoder supports the given bytes. Register a decoder with registerDecoder');
+}
+
+/**
+ * Read the contents of the given file.
+ *
+ * @param path - The path of the file.
+ * @return A promise that resolves to the contents of the file.
+ * @throws {TypeError} If the current environment does not support file paths.
+ */
+async function readFile(path: string): Promise<Uint8Array> {
+  if (isBrowser() || isWebWorker()) {
+    throw new TypeError(`The file path is not supported in this environment: ${path}`);
+  }
+  const { readFile } = await import('node:fs/promises');
+  return readFile(path);
+}
+
+/**
+ * Ensure a 2D context from the given canvas.
+ *
+ * @param canvas - The source canvas.
  * @return The 2D rendering context.
  * @throws {Error} if the 2D context is not supported in the current environment.
  */
-function ensureContext2D(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
-  const context = canvas.getContext('2d');
+function ensureContext2D(canvas: HTMLCanvasElement | OffscreenCanvas): Context2D {
+  const context = canvas.getContext('2d') as Context2D | null;
   assertDefined(context, 'The 2D context might not supported in this environment');
   return context;
 }
 
+/**
+ * Create a new canvas with the given size.
+ * The OffscreenCanvas is preferred because it is available in both the main thread and web workers.
+ *
+ * @param width - The width of the canvas.
+ * @param height - The height of the canvas.
+ * @return The new canvas.
+ */
+function createCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvasElement = document.createElement('canvas');
+  canvasElement.width = width;
+  canvasElement.height = height;
+  return canvasElement;
+}
+
 /**
  * Create an ImageData object from the given canvas element.
  *
@@ -81,6 +238,30 @@ function fromCanvasElement(canvas: HTMLCanvasElement): ImageData {
   return context.getImageData(0, 0, canvas.width, canvas.height);
 }
 
+/**
+ * Create an ImageData object from the given OffscreenCanvas.
+ *
+ * @param canvas - The source OffscreenCanvas.
+ * @return The ImageData object.
+ */
+function fromOffscreenCanvas(canvas: OffscreenCanvas): ImageData {
+  const context = ensureContext2D(canvas);
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Create an ImageData object from the given ImageBitmap.
+ *
+ * @param bitmap - The source ImageBitmap.
+ * @return The ImageData object.
+ */
+function fromImageBitmap(bitmap: ImageBitmap): ImageData {
+  const canvas = createCanvas(bitmap.width, bitmap.height);
+  const context = ensureContext2D(canvas);
+  context.drawImage(bitmap, 0, 0);
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
 /**
  * Create an ImageData object from the given image element.
  *
@@ -0,0 +1,97 @@
+import { Color } from '../color';
+import type { NamedSwatch } from '../swatch';
+import { assert, AssertionError } from '../utils';
+import { createSwatch, toUint8Array } from './swatches';
+
+/**
+ * The color spaces of the ACO file.
+ */
+const ColorSpace = {
+  RGB: 0,
+  HSB: 1,
+  CMYK: 2,
+  LAB: 7,
+  GRAYSCALE: 8,
+} as const;
+
+const MAX_VALUE = 0xffff;
+
+/**
+ * Import the swatches from the Adobe Photoshop color swatch(.aco) file.
+ * The names in the version 2 section are used if present. The RGB, HSB, CMYK, Lab and Grayscale color spaces are
+ * supported.
+ *
+ * @param bytes - The bytes of the .aco file.
+ * @return The swatches named by the entry names, or by the hexadecimal strings if the file has no names.
+ * @throws {AssertionError} If the file is malformed or contains an unsupported color space.
+ * @see [Adobe Photoshop File Formats Specification - Color Swatches](https://www.adobe.com/devnet-apps/photoshop/fileformatashtml/#50577411_pgfId-1055819)
+ */
+export function importACO(bytes: Uint8Array | ArrayBuffer): NamedSwatch[] {
+  const data = toUint8Array(bytes);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  assert(data.length >= 4, `The ACO file is too short: ${data.length} bytes`);
+
+  let offset = 0;
+  let swatches: NamedSwatch[] = [];
+  while (offset < data.length) {
+    assert(offset + 4 <= data.length, `Unexpected end of the ACO file in the section header at offset ${offset}`);
+    const version = view.getUint16(offset);
+    const count = view.getUint16(offset + 2);
+    assert(version === 1 || version === 2, `Unsupported ACO version ${version} at offset ${offset}`);
+    offset += 4;
+
+    const section: NamedSwatch[] = [];
+    for (let index = 0; index < count; index++) {
+      const context = `the color ${index} of the version ${version} section at offset ${offset}`;
+      assert(offset + 10 <= data.length, `Unexpected end of the ACO file in ${context}`);
+      const color = readColor(view, offset, context);
+      offset += 10;
+
+      let name = color.toString();
+      if (version === 2) {
+        assert(offset + 4 <= data.length, `The name length is missing in ${context}`);
+        const length = view.getUint32(offset);
+        offset += 4;
+        assert(offset + length * 2 <= data.length, `The name is too long in ${context}: ${length} characters`);
+        const codes = Array.from({ length }, (_, i: number): number => view.getUint16(offset + i * 2));
+        name = String.fromCharCode(...codes).replace(/\0+$/, '');
+        offset += length * 2;
+      }
+      section.push(createSwatch(name, color));
+    }
+    // The version 2 section follows the version 1 section and contains the same colors with the names.
+    swatches = section;
+  }
+  return swatches;
+}
+
+function readColor(view: DataView, offset: number, context: string): Color {
+  const space = view.getUint16(offset);
+  const w = view.getUint16(offset + 2);
+  const x = view.getUint16(offset + 4);
+  const y = view.getUint16(offset + 6);
+  const z = view.getUint16(offset + 8);
+  switch (space) {
+    case ColorSpace.RGB:
+      return Color.fromRGB({ r: Math.round(w / 257), g: Math.round(x / 257), b: Math.round(y / 257) });
+    case ColorSpace.HSB:
+      return Color.fromHSV({ h: (w / MAX_VALUE) * 360, s: x / MAX_VALUE, v: y / MAX_VALUE });
+    case ColorSpace.CMYK:
+      // The values are inverted: 0 is 100% ink and 65535 is 0% ink.
+      return Color.fromCMYK({ c: 1 - w / MAX_VALUE, m: 1 - x / MAX_VALUE, y: 1 - y / MAX_VALUE, k: 1 - z / MAX_VALUE });
+    case ColorSpace.LAB: {
+      // The lightness is in [0, 10000] and a and b are signed in [-12800, 12700].
+      const l = w / 100;
+      const a = view.getInt16(offset + 4) / 100;
+      const b = view.getInt16(offset + 6) / 100;
+      return Color.fromLAB({ l, a, b });
+    }
+    case ColorSpace.GRAYSCALE: {
+      // The gray is the amount of black in [0, 10000].
+      const gray = Math.round(255 * (1 - w / 10000));
+      return Color.fromRGB({ r: gray, g: gray, b: gray });
+    }
+    default:
+      throw new AssertionError(`Unsupported color space ${space} in ${context}`);
+  }
+}
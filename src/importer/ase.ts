@@ -0,0 +1,100 @@
+import { Color } from '../color';
+import type { NamedSwatch } from '../swatch';
+import { assert } from '../utils';
+import { createSwatch, toUint8Array } from './swatches';
+
+const BlockType = {
+  COLOR: 0x0001,
+  GROUP_START: 0xc001,
+  GROUP_END: 0xc002,
+} as const;
+
+/**
+ * Import the swatches from the Adobe Swatch Exchange(.ase) file.
+ * The RGB, CMYK, LAB and Gray color models are supported. The groups are flattened.
+ *
+ * @param bytes - The bytes of the .ase file.
+ * @return The swatches named by the entry names.
+ * @throws {AssertionError} If the file is malformed or contains an unsupported color model.
+ * @see [Adobe Swatch Exchange - File Format Wiki](http://fileformats.archiveteam.org/wiki/Adobe_Swatch_Exchange)
+ */
+export function importASE(bytes: Uint8Array | ArrayBuffer): NamedSwatch[] {
+  const data = toUint8Array(bytes);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  assert(data.length >= 12, `The ASE file is too short: ${data.length} bytes`);
+  const signature = String.fromCharCode(...data.subarray(0, 4));
+  assert(signature === 'ASEF', `The ASE file must start with 'ASEF': '${signature}'`);
+  const version = view.getUint16(4);
+  assert(version === 1, `Unsupported ASE version: ${version}.${view.getUint16(6)}`);
+
+  const blockCount = view.getUint32(8);
+  const swatches: NamedSwatch[] = [];
+  let offset = 12;
+  for (let index = 0; index < blockCount; index++) {
+    assert(offset + 6 <= data.length, `Unexpected end of the ASE file in the block ${index} at offset ${offset}`);
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    const start = offset + 6;
+    const end = start + length;
+    assert(end <= data.length, `The block ${index} at offset ${offset} exceeds the end of the ASE file`);
+
+    if (type === BlockType.COLOR) {
+      swatches.push(readColorBlock(view, start, end, index));
+    } else {
+      assert(
+        type === BlockType.GROUP_START || type === BlockType.GROUP_END,
+        `Unknown block type 0x${type.toString(16)} of the block ${index} at offset ${offset}`,
+      );
+    }
+    offset = end;
+  }
+  return swatches;
+}
+
+function readColorBlock(view: DataView, start: number, end: number, index: number): NamedSwatch {
+  const context = `the color block ${index} at offset ${start - 6}`;
+  assert(start + 2 <= end, `The name length is missing in ${context}`);
+  const nameLength = view.getUint16(start);
+  let offset = start + 2;
+  assert(offset + nameLength * 2 + 4 <= end, `The name is too long in ${context}: ${nameLength} characters`);
+  const codes: number[] = [];
+  for (let i = 0; i < nameLength; i++) {
+    codes.push(view.getUint16(offset + i * 2));
+  }
+  // The name is terminated by the null character.
+  const name = String.fromCharCode(...codes).replace(/\0+$/, '');
+  offset += nameLength * 2;
+
+  const model = String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  );
+  offset += 4;
+  const valueCount = { 'RGB ': 3, CMYK: 4, 'LAB ': 3, Gray: 1 }[model];
+  assert(valueCount !== undefined, `Unsupported color model '${model}' in ${context}`);
+  assert(offset + valueCount * 4 <= end, `The color values are truncated in ${context}`);
+  const values = Array.from({ length: valueCount }, (_, i: number): number => view.getFloat32(offset + i * 4));
+  assert(values.every(Number.isFinite), `The color values must be finite numbers in ${context}: ${values.join(', ')}`);
+
+  switch (model) {
+    case 'RGB ': {
+      const [r, g, b] = values.map((value: number): number => Math.round(value * 255));
+      return createSwatch(name, Color.fromRGB({ r, g, b }));
+    }
+    case 'CMYK': {
+      const [c, m, y, k] = values;
+      return createSwatch(name, Color.fromCMYK({ c, m, y, k }));
+    }
+    case 'LAB ': {
+      // The lightness is stored in [0, 1] while a and b are stored as they are.
+      const [l, a, b] = values;
+      return createSwatch(name, Color.fromLAB({ l: l * 100, a, b }));
+    }
+    default: {
+      const gray = Math.round(values[0] * 255);
+      return createSwatch(name, Color.fromRGB({ r: gray, g: gray, b: gray }));
+    }
+  }
+}
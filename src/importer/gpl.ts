@@ -0,0 +1,42 @@
+import { Color } from '../color';
+import type { NamedSwatch } from '../swatch';
+import { assert } from '../utils';
+import { createSwatch } from './swatches';
+
+const HEADER = 'GIMP Palette';
+
+const COLOR_PATTERN = /^(\d+)\s+(\d+)\s+(\d+)(?:\s+(.*))?$/;
+
+/**
+ * Import the swatches from the GIMP palette(.gpl) file.
+ *
+ * @param text - The text of the .gpl file.
+ * @return The swatches named by the entry names, or by the hexadecimal strings if the entries have no names.
+ * @throws {AssertionError} If the file is malformed.
+ * @see [GIMP - Palettes](https://docs.gimp.org/en/gimp-concepts-palettes.html)
+ */
+export function importGPL(text: string): NamedSwatch[] {
+  const lines = text.split(/\r\n|\r|\n/);
+  assert(lines[0].trim() === HEADER, `The GPL file must start with '${HEADER}': '${lines[0]}'`);
+
+  const swatches: NamedSwatch[] = [];
+  lines.slice(1).forEach((line: string, index: number) => {
+    const trimmed = line.trim();
+    // The header lines such as 'Name:' and 'Columns:' are not needed to import the swatches.
+    if (trimmed === '' || trimmed.startsWith('#') || /^[A-Za-z]+:/.test(trimmed)) {
+      return;
+    }
+
+    const lineNumber = index + 2;
+    const match = COLOR_PATTERN.exec(trimmed);
+    assert(match !== null, `The line ${lineNumber} of the GPL file must be 'R G B [name]': '${line}'`);
+    const [r, g, b] = match.slice(1, 4).map((value: string): number => Number(value));
+    assert(
+      r <= 255 && g <= 255 && b <= 255,
+      `The line ${lineNumber} of the GPL file has a component out of the range of [0, 255]: '${line}'`,
+    );
+    const color = Color.fromRGB({ r, g, b });
+    swatches.push(createSwatch(match[4]?.trim() || color.toString(), color));
+  });
+  return swatches;
+}
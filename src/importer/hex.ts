@@ -0,0 +1,31 @@
+import { Color } from '../color';
+import type { NamedSwatch } from '../swatch';
+import { assert } from '../utils';
+import { createSwatch } from './swatches';
+
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})(?:\s+(.*))?$/i;
+
+/**
+ * Import the swatches from the text listing hexadecimal colors.
+ * Each line contains a color such as '#RRGGBB', 'RRGGBB' or '#RGB' optionally followed by the name.
+ * The empty lines and the comment lines starting with ';' or '//' are ignored.
+ *
+ * @param text - The text listing the colors.
+ * @return The swatches named by the names in the lines, or by the hexadecimal strings if the lines have no names.
+ * @throws {AssertionError} If a line is not a hexadecimal color.
+ */
+export function importHexList(text: string): NamedSwatch[] {
+  const swatches: NamedSwatch[] = [];
+  text.split(/\r\n|\r|\n/).forEach((line: string, index: number) => {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith(';') || trimmed.startsWith('//')) {
+      return;
+    }
+
+    const match = HEX_PATTERN.exec(trimmed);
+    assert(match !== null, `The line ${index + 1} is not a hexadecimal color: '${line}'`);
+    const color = Color.fromString(`#${match[1]}`);
+    swatches.push(createSwatch(match[2]?.trim() || color.toString(), color));
+  });
+  return swatches;
+}
@@ -0,0 +1,4 @@
+export { importACO } from './aco';
+export { importASE } from './ase';
+export { importGPL } from './gpl';
+export { importHexList } from './hex';
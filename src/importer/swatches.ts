@@ -0,0 +1,30 @@
+import type { Color } from '../color';
+import type { NamedSwatch } from '../swatch';
+
+/**
+ * The population of the imported swatches.
+ * All swatches have the same population since the palette files do not have the population.
+ */
+const DEFAULT_POPULATION = 1;
+
+/**
+ * Create a new swatch imported from a palette file.
+ * The position of the swatch is the origin since the palette files do not have the position.
+ *
+ * @param name - The name of the swatch.
+ * @param color - The color of the swatch.
+ * @return The new swatch.
+ */
+export function createSwatch(name: string, color: Color): NamedSwatch {
+  return { name, color, position: { x: 0, y: 0 }, population: DEFAULT_POPULATION };
+}
+
+/**
+ * Convert the given bytes to a Uint8Array.
+ *
+ * @param bytes - The bytes to convert.
+ * @return The Uint8Array.
+ */
+export function toUint8Array(bytes: Uint8Array | ArrayBuffer): Uint8Array {
+  return bytes instanceof ArrayBuffer ? new Uint8Array(bytes) : bytes;
+}
@@ -1,17 +1,85 @@
 export {
+  type Algorithm,
+  type AlgorithmConfig,
+  type AlgorithmFactory,
+  type AlgorithmOption,
+  type AlgorithmParams,
+  registerAlgorithm,
+  unregisterAlgorithm,
+} from './algorithm';
+export {
+  type AdaptationMethod,
   cie76,
   cie94,
   ciede2000,
   Color,
   type ColorDelta,
   type ColorDeltaMeasure,
+  type ColorFormat,
+  type ContrastMeasure,
+  type Gamut,
+  type GamutMapping,
+  type HarmonyScheme,
+  type HuePath,
+  type Illuminant,
+  type InterpolationSpace,
+  type TonalPaletteOptions,
+  type TonalScale,
+  type VisionDeficiency,
+  type WhitePoint,
   type RGB,
+  type RGBColorSpace,
   type HSL,
+  type HSV,
+  type HWB,
+  type CMYK,
   type XYZ,
   type LAB,
+  type LCH,
+  type OKLab,
+  type OKLCH,
 } from './color';
+export {
+  type ImageDecoder,
+  JPEGDecoder,
+  type JPEGDecoderOptions,
+  type JPEGScale,
+  PNGDecoder,
+  registerDecoder,
+  unregisterDecoder,
+} from './decoder';
+export {
+  type ASEOptions,
+  type CSSOptions,
+  type DesignToken,
+  type ExportSource,
+  type GPLOptions,
+  type SCSSOptions,
+  exportACO,
+  exportASE,
+  exportCSS,
+  exportDesignTokens,
+  exportGPL,
+  exportSCSS,
+  exportTailwind,
+} from './exporter';
+export { importACO, importASE, importGPL, importHexList } from './importer';
+export { type WhiteBalance } from './balance';
 export { type ColorFilter, opacityFilter, luminanceFilter } from './filter';
-export { type ImageSource } from './image';
-export { type Algorithm, type Options, Palette } from './palette';
-export { type NamedSwatch, type Swatch } from './swatch';
+export { type AsyncImageSource, type ImageSource } from './image';
+export { type ClusteringSpace } from './extractor';
+export { Cluster, type ClusteringAlgorithm, type Point5 } from './math';
+export {
+  type AccessiblePairOptions,
+  type AsyncOptions,
+  type ContrastLevel,
+  type Options,
+  Palette,
+  type PaletteMetadata,
+  type SwatchOptions,
+} from './palette';
+export { ColorScale, type Easing, type ScaleInterpolation, type ScaleOptions } from './scale';
+export { type PaletteJSON, type SwatchJSON } from './schema';
+export { type AccessiblePair, type NamedSwatch, type ReadableSwatch, type Swatch } from './swatch';
 export { type Theme } from './theme';
+export { type WorkerFactory, type WorkerHandle, WorkerPool } from './worker';
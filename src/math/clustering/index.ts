@@ -1,4 +1,7 @@
 export type { ClusteringAlgorithm } from './algorithm';
 export { Cluster } from './cluster';
 export { DBSCAN } from './dbscan';
-export { KmeansPlusPlusInitializer, Kmeans } from './kmeans';
+export { KmeansPlusPlusInitializer, Kmeans, WuInitializer } from './kmeans';
+export { MedianCut } from './mediancut';
+export { Octree } from './octree';
+export { Wu } from './wu';
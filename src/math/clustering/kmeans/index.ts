@@ -7,7 +7,7 @@ import { Cluster } from '../cluster';
 import { assert, assertPositiveInteger } from '../../../utils';
 import type { InitializationStrategy } from './strategy';
 
-export { KmeansPlusPlusInitializer } from './strategy';
+export { KmeansPlusPlusInitializer, WuInitializer } from './strategy';
 
 /**
  * Implementation of the k-means clustering algorithm.
@@ -1,5 +1,7 @@
 import { assertPositiveInteger } from '../../../utils';
 import type { Distance, DistanceMeasure, Point } from '../../index';
+import type { Cluster } from '../cluster';
+import { Wu } from '../wu';
 
 /**
  * Interface for initializing center points for Kmeans algorithm.
@@ -113,3 +115,23 @@ export class KmeansPlusPlusInitializer<P extends Point> implements Initializatio
     selected.set(index, data[index]);
   }
 }
+
+/**
+ * Center points initialization strategy with the centers of Wu's color quantization.
+ * The initialization is deterministic, so that k-means gives stable results for the same points.
+ *
+ * @typeParam P - The type of the point.
+ * @see {@link Wu}
+ */
+export class WuInitializer<P extends Point> implements InitializationStrategy<P> {
+  /**
+   * {@inheritDoc InitializationStrategy.initialize}
+   */
+  initialize(points: P[], k: number): P[] {
+    assertPositiveInteger(k, `The number of center points is not positive integer: ${k}`);
+    if (points.length <= k) {
+      return [...points];
+    }
+    return new Wu<P>(k).fit(points).map((cluster: Cluster<P>): P => cluster.getCentroid());
+  }
+}
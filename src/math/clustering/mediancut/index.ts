@@ -0,0 +1,120 @@
+import { assert, assertPositiveInteger } from '../../../utils';
+import type { Point } from '../../point';
+import type { ClusteringAlgorithm } from '../algorithm';
+import { Cluster } from '../cluster';
+
+/**
+ * Box type represents a box of points in the median cut algorithm.
+ */
+type Box = {
+  /**
+   * The indices of the points in the box.
+   */
+  readonly indices: number[];
+
+  /**
+   * The dimension of the widest range of the points.
+   */
+  readonly dimension: number;
+
+  /**
+   * The widest range of the points.
+   */
+  readonly range: number;
+};
+
+/**
+ * Implementation of the median cut color quantization algorithm.
+ * The box of the points with the largest product of the population and the widest range is repeatedly split at the
+ * median along the dimension of the widest range, until the number of boxes reaches the maximum number of colors.
+ *
+ * @typeParam P - The type of point.
+ * @see [Wikipedia - Median cut](https://en.wikipedia.org/wiki/Median_cut)
+ */
+export class MedianCut<P extends Point> implements ClusteringAlgorithm<P> {
+  /**
+   * Create a new MedianCut instance.
+   *
+   * @param maxColors - The maximum number of clusters.
+   * @param dimensions - The number of the leading components of the points to split the boxes along, such as 3 for
+   * the color components of the points that also have the image coordinates.
+   */
+  constructor(
+    private readonly maxColors: number,
+    private readonly dimensions: number,
+  ) {
+    assertPositiveInteger(maxColors, `The maximum number of colors must be a positive integer: ${maxColors}`);
+    assertPositiveInteger(dimensions, `The number of dimensions must be a positive integer: ${dimensions}`);
+  }
+
+  /**
+   * {@inheritDoc ClusteringAlgorithm.fit}
+   */
+  fit(points: P[]): Cluster<P>[] {
+    assert(points.length > 0, 'The points array is empty');
+    const dimensions = Math.min(this.dimensions, points[0].length);
+    const boxes = [this.createBox(points, Array.from(points.keys()), dimensions)];
+    while (boxes.length < this.maxColors) {
+      const index = MedianCut.findSplittableBox(boxes);
+      if (index < 0) {
+        break;
+      }
+
+      const [box] = boxes.splice(index, 1);
+      const { indices, dimension } = box;
+      indices.sort((index1: number, index2: number): number => points[index1][dimension] - points[index2][dimension]);
+      const median = Math.floor(indices.length / 2);
+      boxes.push(
+        this.createBox(points, indices.slice(0, median), dimensions),
+        this.createBox(points, indices.slice(median), dimensions),
+      );
+    }
+
+    return boxes.map((box: Box): Cluster<P> => {
+      const cluster = new Cluster<P>(points[box.indices[0]]);
+      for (const index of box.indices) {
+        cluster.addMember(index, points[index]);
+      }
+      return cluster;
+    });
+  }
+
+  private createBox(points: P[], indices: number[], dimensions: number): Box {
+    let dimension = 0;
+    let range = 0.0;
+    for (let d = 0; d < dimensions; d++) {
+      let min = Number.POSITIVE_INFINITY;
+      let max = Number.NEGATIVE_INFINITY;
+      for (const index of indices) {
+        const value = points[index][d];
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      }
+      if (max - min > range) {
+        dimension = d;
+        range = max - min;
+      }
+    }
+    return { indices, dimension, range };
+  }
+
+  /**
+   * Find the box to split next.
+   *
+   * @param boxes - The boxes to find from.
+   * @return The index of the box, or -1 if no box can be split.
+   */
+  private static findSplittableBox(boxes: Box[]): number {
+    let found = -1;
+    let maxPriority = 0.0;
+    for (let i = 0; i < boxes.length; i++) {
+      const { indices, range } = boxes[i];
+      const priority = indices.length * range;
+      if (indices.length > 1 && priority > maxPriority) {
+        found = i;
+        maxPriority = priority;
+      }
+    }
+    return found;
+  }
+}
@@ -0,0 +1,153 @@
+import { assert, assertPositiveInteger } from '../../../utils';
+import type { Point } from '../../point';
+import { clamp } from '../../utils';
+import type { ClusteringAlgorithm } from '../algorithm';
+import { Cluster } from '../cluster';
+
+/**
+ * OctreeNode type represents a node of the octree.
+ */
+type OctreeNode = {
+  /**
+   * The child nodes of the node. The array is empty if the node is a leaf.
+   */
+  readonly children: (OctreeNode | undefined)[];
+
+  /**
+   * The indices of the points in the node. The array is empty if the node is not a leaf.
+   */
+  indices: number[];
+
+  /**
+   * The number of the points in the node and its descendants.
+   */
+  count: number;
+};
+
+/**
+ * The number of the children of an octree node.
+ */
+const CHILDREN = 8;
+
+/**
+ * Implementation of the octree color quantization algorithm.
+ * The points are inserted into the octree of the first three components in [0, 1], and the leaves of the deepest nodes
+ * with the fewest points are repeatedly merged into their parents, until the number of leaves reaches the maximum
+ * number of colors.
+ *
+ * @typeParam P - The type of point.
+ * @see [Wikipedia - Octree](https://en.wikipedia.org/wiki/Octree)
+ */
+export class Octree<P extends Point> implements ClusteringAlgorithm<P> {
+  /**
+   * Create a new Octree instance.
+   *
+   * @param maxColors - The maximum number of clusters.
+   * @param maxDepth - The depth of the octree, which divides each component into 2^maxDepth levels.
+   */
+  constructor(
+    private readonly maxColors: number,
+    private readonly maxDepth: number = 8,
+  ) {
+    assertPositiveInteger(maxColors, `The maximum number of colors must be a positive integer: ${maxColors}`);
+    assertPositiveInteger(maxDepth, `The maximum depth must be a positive integer: ${maxDepth}`);
+  }
+
+  /**
+   * {@inheritDoc ClusteringAlgorithm.fit}
+   */
+  fit(points: P[]): Cluster<P>[] {
+    assert(points.length > 0, 'The points array is empty');
+    assert(points[0].length >= 3, `The points must have at least 3 components: ${points[0].length}`);
+
+    // The nodes other than the leaves at each level, which are the candidates to merge their children.
+    const levels: OctreeNode[][] = Array.from({ length: this.maxDepth }, (): OctreeNode[] => []);
+    const root = Octree.createNode(false);
+    levels[0].push(root);
+    let leaves = 0;
+    for (let i = 0; i < points.length; i++) {
+      let node = root;
+      node.count++;
+      for (let level = 0; level < this.maxDepth; level++) {
+        const index = this.childIndex(points[i], level);
+        let child = node.children[index];
+        if (!child) {
+          const leaf = level + 1 === this.maxDepth;
+          child = Octree.createNode(leaf);
+          node.children[index] = child;
+          if (leaf) {
+            leaves++;
+          } else {
+            levels[level + 1].push(child);
+          }
+        }
+        child.count++;
+        node = child;
+      }
+      node.indices.push(i);
+    }
+
+    for (let level = this.maxDepth - 1; level >= 0 && leaves > this.maxColors; level--) {
+      const nodes = levels[level].sort((node1: OctreeNode, node2: OctreeNode): number => node1.count - node2.count);
+      for (const node of nodes) {
+        if (leaves <= this.maxColors) {
+          break;
+        }
+        leaves -= Octree.merge(node) - 1;
+      }
+    }
+
+    const clusters: Cluster<P>[] = [];
+    Octree.collectLeaves(root, points, clusters);
+    return clusters;
+  }
+
+  private childIndex(point: P, level: number): number {
+    const size = 2 ** this.maxDepth;
+    const shift = this.maxDepth - 1 - level;
+    let index = 0;
+    for (let d = 0; d < 3; d++) {
+      const quantized = clamp(Math.floor(point[d] * size), 0, size - 1);
+      index = (index << 1) | ((quantized >> shift) & 1);
+    }
+    return index;
+  }
+
+  private static createNode(leaf: boolean): OctreeNode {
+    return { children: leaf ? [] : new Array(CHILDREN), indices: [], count: 0 };
+  }
+
+  /**
+   * Merge the children of the given node into the node, whose children must be leaves.
+   *
+   * @param node - The node to merge.
+   * @return The number of the merged children.
+   */
+  private static merge(node: OctreeNode): number {
+    let merged = 0;
+    for (const child of node.children) {
+      if (child) {
+        node.indices = node.indices.concat(child.indices);
+        merged++;
+      }
+    }
+    node.children.length = 0;
+    return merged;
+  }
+
+  private static collectLeaves<P extends Point>(node: OctreeNode, points: P[], clusters: Cluster<P>[]): void {
+    if (node.children.length === 0) {
+      const cluster = new Cluster<P>(points[node.indices[0]]);
+      for (const index of node.indices) {
+        cluster.addMember(index, points[index]);
+      }
+      clusters.push(cluster);
+      return;
+    }
+    for (const child of node.children) {
+      if (child) {
+        Octree.collectLeaves(child, points, clusters);
+      }
+    }
+  }
+}
@@ -0,0 +1,337 @@
+import { assert, assertPositiveInteger } from '../../../utils';
+import type { Point } from '../../point';
+import { clamp } from '../../utils';
+import type { ClusteringAlgorithm } from '../algorithm';
+import { Cluster } from '../cluster';
+
+/**
+ * The number of bits of the histogram index of each component.
+ */
+const INDEX_BITS = 5;
+
+/**
+ * The number of the histogram cells of each component. The first cell is reserved for the cumulative moments.
+ */
+const SIDE = (1 << INDEX_BITS) + 1;
+
+/**
+ * The direction to cut a box.
+ */
+type Direction = 0 | 1 | 2;
+
+/**
+ * Box type represents a box of the histogram. The lower bounds are exclusive and the upper bounds are inclusive.
+ */
+type Box = {
+  lower: [number, number, number];
+  upper: [number, number, number];
+  volume: number;
+};
+
+/**
+ * Moments type represents the cumulative moments of the histogram.
+ */
+type Moments = {
+  /**
+   * The number of the points.
+   */
+  readonly weights: Float64Array;
+
+  /**
+   * The sums of the components.
+   */
+  readonly sums: [Float64Array, Float64Array, Float64Array];
+
+  /**
+   * The sums of the squared norms.
+   */
+  readonly squares: Float64Array;
+};
+
+/**
+ * Implementation of Wu's color quantization algorithm.
+ * The first three components in [0, 1] are counted in the 3D histogram with the moments, and the box with the largest
+ * variance is repeatedly cut where the sum of the variances of the two boxes is minimized.
+ *
+ * @typeParam P - The type of point.
+ * @see [Xiaolin Wu, Efficient Statistical Computations for Optimal Color Quantization](https://doi.org/10.1016/B978-0-08-050754-5.50035-9)
+ */
+export class Wu<P extends Point> implements ClusteringAlgorithm<P> {
+  /**
+   * Create a new Wu instance.
+   *
+   * @param maxColors - The maximum number of clusters.
+   */
+  constructor(private readonly maxColors: number) {
+    assertPositiveInteger(maxColors, `The maximum number of colors must be a positive integer: ${maxColors}`);
+  }
+
+  /**
+   * {@inheritDoc ClusteringAlgorithm.fit}
+   */
+  fit(points: P[]): Cluster<P>[] {
+    assert(points.length > 0, 'The points array is empty');
+    assert(points[0].length >= 3, `The points must have at least 3 components: ${points[0].length}`);
+
+    const cells = points.map((point: P): number => Wu.cellIndex(point));
+    const moments = Wu.computeMoments(points, cells);
+    const boxes = this.createBoxes(moments);
+
+    const tags = new Int32Array(SIDE * SIDE * SIDE);
+    boxes.forEach((box: Box, tag: number) => {
+      for (let r = box.lower[0] + 1; r <= box.upper[0]; r++) {
+        for (let g = box.lower[1] + 1; g <= box.upper[1]; g++) {
+          for (let b = box.lower[2] + 1; b <= box.upper[2]; b++) {
+            tags[index(r, g, b)] = tag;
+          }
+        }
+      }
+    });
+
+    const clusters = new Array<Cluster<P> | undefined>(boxes.length);
+    for (let i = 0; i < points.length; i++) {
+      const tag = tags[cells[i]];
+      const cluster = clusters[tag] ?? new Cluster<P>(points[i]);
+      cluster.addMember(i, points[i]);
+      clusters[tag] = cluster;
+    }
+    return clusters.filter((cluster: Cluster<P> | undefined): cluster is Cluster<P> => cluster !== undefined);
+  }
+
+  private createBoxes(moments: Moments): Box[] {
+    const last = SIDE - 1;
+    const boxes: Box[] = [{ lower: [0, 0, 0], upper: [last, last, last], volume: last * last * last }];
+    const variances = [0.0];
+    let next = 0;
+    while (boxes.length < this.maxColors) {
+      const box = boxes[next];
+      const other = Wu.cut(box, moments);
+      if (other) {
+        boxes.push(other);
+        variances[next] = box.volume > 1 ? Wu.variance(box, moments) : 0.0;
+        variances.push(other.volume > 1 ? Wu.variance(other, moments) : 0.0);
+      } else {
+        variances[next] = 0.0;
+      }
+
+      next = variances.reduce((found: number, variance: number, i: number): number => {
+        return variance > variances[found] ? i : found;
+      }, 0);
+      if (variances[next] <= 0.0) {
+        break;
+      }
+    }
+    return boxes;
+  }
+
+  private static cellIndex(point: Point): number {
+    const [r, g, b] = [0, 1, 2].map((d: number): number => {
+      return clamp(Math.floor(point[d] * (SIDE - 1)), 0, SIDE - 2) + 1;
+    });
+    return index(r, g, b);
+  }
+
+  /**
+   * Compute the cumulative moments of the histogram, so that the moments of any box are computed in constant time.
+   *
+   * @param points - The points to count.
+   * @param cells - The histogram cell indices of the points.
+   * @return The cumulative moments.
+   */
+  private static computeMoments<P extends Point>(points: P[], cells: number[]): Moments {
+    const size = SIDE * SIDE * SIDE;
+    const moments: Moments = {
+      weights: new Float64Array(size),
+      sums: [new Float64Array(size), new Float64Array(size), new Float64Array(size)],
+      squares: new Float64Array(size),
+    };
+    const arrays = [moments.weights, ...moments.sums, moments.squares];
+    for (let i = 0; i < points.length; i++) {
+      const [r, g, b] = points[i];
+      const cell = cells[i];
+      moments.weights[cell]++;
+      moments.sums[0][cell] += r;
+      moments.sums[1][cell] += g;
+      moments.sums[2][cell] += b;
+      moments.squares[cell] += r * r + g * g + b * b;
+    }
+
+    for (const array of arrays) {
+      for (let r = 1; r < SIDE; r++) {
+        const area = new Float64Array(SIDE);
+        for (let g = 1; g < SIDE; g++) {
+          let line = 0.0;
+          for (let b = 1; b < SIDE; b++) {
+            const cell = index(r, g, b);
+            line += array[cell];
+            area[b] += line;
+            array[cell] = array[index(r - 1, g, b)] + area[b];
+          }
+        }
+      }
+    }
+    return moments;
+  }
+
+  /**
+   * Cut the given box into two boxes where the sum of the variances is minimized.
+   * The given box is shrunk to one of the boxes.
+   *
+   * @param box - The box to cut.
+   * @param moments - The cumulative moments.
+   * @return The other box, or null if the box cannot be cut.
+   */
+  private static cut(box: Box, moments: Moments): Box | null {
+    const whole = {
+      weight: volume(box, moments.weights),
+      sums: moments.sums.map((sum: Float64Array): number => volume(box, sum)),
+    };
+    const results = ([0, 1, 2] as const).map((direction: Direction) => {
+      return Wu.maximize(box, direction, whole.weight, whole.sums, moments);
+    });
+    const direction = results.reduce((found: number, result, i: number): number => {
+      return result.maximum > results[found].maximum ? i : found;
+    }, 0) as Direction;
+    const position = results[direction].position;
+    if (position < 0) {
+      return null;
+    }
+
+    const other: Box = { lower: [...box.lower], upper: [...box.upper], volume: 0 };
+    box.upper[direction] = position;
+    other.lower[direction] = position;
+    box.volume = Wu.computeVolume(box);
+    other.volume = Wu.computeVolume(other);
+    return other;
+  }
+
+  /**
+   * Find the position to cut the box along the given direction.
+   *
+   * @param box - The box to cut.
+   * @param direction - The direction to cut along.
+   * @param weight - The weight of the whole box.
+   * @param sums - The sums of the components of the whole box.
+   * @param moments - The cumulative moments.
+   * @return The position and the maximum of the sum of the squared means weighted by the weights of the two boxes. The
+   * position is -1 if the box cannot be cut.
+   */
+  private static maximize(
+    box: Box,
+    direction: Direction,
+    weight: number,
+    sums: number[],
+    moments: Moments,
+  ): { position: number; maximum: number } {
+    const bottomWeight = bottom(box, direction, moments.weights);
+    const bottomSums = moments.sums.map((sum: Float64Array): number => bottom(box, direction, sum));
+    let maximum = 0.0;
+    let position = -1;
+    for (let i = box.lower[direction] + 1; i < box.upper[direction]; i++) {
+      const halfWeight = bottomWeight + top(box, direction, i, moments.weights);
+      const otherWeight = weight - halfWeight;
+      if (halfWeight === 0 || otherWeight === 0) {
+        continue;
+      }
+
+      const halfSums = moments.sums.map((sum: Float64Array, d: number): number => {
+        return bottomSums[d] + top(box, direction, i, sum);
+      });
+      const otherSums = halfSums.map((half: number, d: number): number => sums[d] - half);
+      const temp = squaredNorm(halfSums) / halfWeight + squaredNorm(otherSums) / otherWeight;
+      if (temp > maximum) {
+        maximum = temp;
+        position = i;
+      }
+    }
+    return { position, maximum };
+  }
+
+  private static variance(box: Box, moments: Moments): number {
+    const sums = moments.sums.map((sum: Float64Array): number => volume(box, sum));
+    return volume(box, moments.squares) - squaredNorm(sums) / volume(box, moments.weights);
+  }
+
+  private static computeVolume({ lower, upper }: Box): number {
+    return (upper[0] - lower[0]) * (upper[1] - lower[1]) * (upper[2] - lower[2]);
+  }
+}
+
+function index(r: number, g: number, b: number): number {
+  return r * SIDE * SIDE + g * SIDE + b;
+}
+
+function squaredNorm(values: number[]): number {
+  return values.reduce((total: number, value: number): number => total + value * value, 0.0);
+}
+
+/**
+ * Compute the moment of the given box from the cumulative moments.
+ */
+function volume({ lower, upper }: Box, moment: Float64Array): number {
+  const [r0, g0, b0] = lower;
+  const [r1, g1, b1] = upper;
+  return (
+    moment[index(r1, g1, b1)] -
+    moment[index(r1, g1, b0)] -
+    moment[index(r1, g0, b1)] +
+    moment[index(r1, g0, b0)] -
+    moment[index(r0, g1, b1)] +
+    moment[index(r0, g1, b0)] +
+    moment[index(r0, g0, b1)] -
+    moment[index(r0, g0, b0)]
+  );
+}
+
+/**
+ * Compute the part of the moment of the given box below its lower bound along the direction, which is negated.
+ */
+function bottom({ lower, upper }: Box, direction: Direction, moment: Float64Array): number {
+  const [r0, g0, b0] = lower;
+  const [r1, g1, b1] = upper;
+  switch (direction) {
+    case 0:
+      return (
+        -moment[index(r0, g1, b1)] + moment[index(r0, g1, b0)] + moment[index(r0, g0, b1)] - moment[index(r0, g0, b0)]
+      );
+    case 1:
+      return (
+        -moment[index(r1, g0, b1)] + moment[index(r1, g0, b0)] + moment[index(r0, g0, b1)] - moment[index(r0, g0, b0)]
+      );
+    case 2:
+      return (
+        -moment[index(r1, g1, b0)] + moment[index(r1, g0, b0)] + moment[index(r0, g1, b0)] - moment[index(r0, g0, b0)]
+      );
+  }
+}
+
+/**
+ * Compute the moment of the given box up to the position along the direction, excluding the bottom part.
+ */
+function top({ lower, upper }: Box, direction: Direction, position: number, moment: Float64Array): number {
+  const [r0, g0, b0] = lower;
+  const [r1, g1, b1] = upper;
+  switch (direction) {
+    case 0:
+      return (
+        moment[index(position, g1, b1)] -
+        moment[index(position, g1, b0)] -
+        moment[index(position, g0, b1)] +
+        moment[index(position, g0, b0)]
+      );
+    case 1:
+      return (
+        moment[index(r1, position, b1)] -
+        moment[index(r1, position, b0)] -
+        moment[index(r0, position, b1)] +
+        moment[index(r0, position, b0)]
+      );
+    case 2:
+      return (
+        moment[index(r1, g1, position)] -
+        moment[index(r1, g0, position)] -
+        moment[index(r0, g1, position)] +
+        moment[index(r0, g0, position)]
+      );
+  }
+}
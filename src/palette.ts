@@ -1,22 +1,45 @@
-import { type Color, retrieveColorNames } from './color';
-import { SwatchExtractor } from './extractor';
-import { type ColorFilter, opacityFilter } from './filter';
-import { type ImageSource, createImageData } from './image';
 import {
-  DBSCAN,
+  type AlgorithmOption,
+  createAlgorithm,
+  isBuiltinAlgorithm,
+  isClusteringAlgorithm,
+  resolveAlgorithmName,
+} from './algorithm';
+import { type WhiteBalance, estimateIlluminant } from './balance';
+import {
+  Color,
+  type HarmonyScheme,
+  type RGB,
+  type RGBA,
+  type RGBColorSpace,
+  RGBSpace,
+  type VisionDeficiency,
+  type WhitePoint,
+  type XYZ,
+  resolveWhitePoint,
+  retrieveColorNames,
+} from './color';
+import { type ClusteringSpace, SwatchExtractor } from './extractor';
+import { type ColorFilter, composeFilters, opacityFilter } from './filter';
+import { type AsyncImageSource, type ImageSource, createImageData, createImageDataAsync } from './image';
+import {
   FarthestPointSampling,
   KDTreeSearch,
-  Kmeans,
-  KmeansPlusPlusInitializer,
   type Neighbor,
   type NeighborSearch,
   type Point3,
-  type Point5,
   type SamplingStrategy,
   euclidean,
-  squaredEuclidean,
 } from './math';
-import type { NamedSwatch, Swatch } from './swatch';
+import { ColorScale, type ScaleOptions } from './scale';
+import {
+  PALETTE_SCHEMA_VERSION,
+  type PaletteJSON,
+  assertPaletteJSON,
+  deserializeSwatch,
+  serializeSwatch,
+} from './schema';
+import type { AccessiblePair, NamedSwatch, ReadableSwatch, Swatch } from './swatch';
 import {
   BasicThemeStrategy,
   DarkThemeStrategy,
@@ -27,17 +50,8 @@ import {
   VividThemeStrategy,
   visit,
 } from './theme';
-import { assert, assertPositiveInteger } from './utils';
-
-/**
- * The algorithm to use for palette extraction.
- * dbscan: Density-based spatial clustering of applications with noise(DBSCAN) clustering.
- * kmeans: K-means clustering.
- *
- * @see [DBSCAN - Wikipedia](https://en.wikipedia.org/wiki/DBSCAN)
- * @see [k-means clustering - Wikipedia](https://en.wikipedia.org/wiki/K-means_clustering)
- */
-export type Algorithm = 'dbscan' | 'kmeans';
+import { assert, assertPositiveInteger, assertRange, isString } from './utils';
+import { type SwatchData, type WorkerPool, retrieveWorkerPool } from './worker';
 
 /**
  * Options interface for palette extraction.
@@ -47,8 +61,13 @@ export type Algorithm = 'dbscan' | 'kmeans';
 export interface Options {
   /**
    * The algorithm to use for palette extraction. Default is dbscan.
+   * The algorithm is the name of the built-in or the registered algorithm, the name with the parameters such as
+   * { name: 'kmeans', params: { k: 16 } }, or an instance of the clustering algorithm.
+   *
+   * @see {@link AlgorithmOption}
+   * @see {@link registerAlgorithm}
    */
-  readonly algorithm?: Algorithm;
+  readonly algorithm?: AlgorithmOption;
 
   /**
    * The sampling rate to sample pixels from the image in the range of (0, 1]. Default is 1.0.
@@ -60,6 +79,47 @@ export interface Options {
    */
   readonly maxSwatches?: number;
 
+  /**
+   * The color space to cluster the pixels in. Default is lab.
+   *
+   * @see {@link ClusteringSpace}
+   */
+  readonly clusteringSpace?: ClusteringSpace;
+
+  /**
+   * The background color to composite the semi-transparent pixels over before clustering, as a Color or a CSS color
+   * string. The alpha of the background is ignored. Default is undefined, which clusters the pixels as they are and
+   * gives the swatch colors the average opacity of their pixels.
+   */
+  readonly background?: Color | string;
+
+  /**
+   * The RGB color space of the image pixels. Default is the color space of the ImageData, which is 'display-p3' for
+   * the images drawn on a Display P3 canvas, or srgb.
+   *
+   * @see {@link RGBColorSpace}
+   */
+  readonly colorSpace?: RGBColorSpace;
+
+  /**
+   * The white point of the light the image was captured under, such as 'A' for the incandescent light. The pixels are
+   * adapted from the white point to D65 before clustering, so that the swatch colors appear as under the daylight.
+   * Default is undefined, which uses the pixels as they are.
+   *
+   * @see {@link WhitePoint}
+   */
+  readonly whitePoint?: WhitePoint;
+
+  /**
+   * The method to estimate the white point of the light from the image pixels, such as 'gray-world'. The pixels are
+   * adapted from the estimated white point to D65 before clustering, and the estimated white point is available from
+   * {@link Palette.illuminant}. Default is undefined, which uses the pixels as they are.
+   * The option cannot be combined with the whitePoint option.
+   *
+   * @see {@link WhiteBalance}
+   */
+  readonly whiteBalance?: WhiteBalance;
+
   /**
    * The color filter functions. Default is [opacityFilter()].
    *
@@ -68,19 +128,147 @@ export interface Options {
   readonly filters?: ColorFilter[];
 }
 
+/**
+ * AsyncOptions interface for asynchronous palette extraction.
+ *
+ * @see {@link Palette.extractAsync}
+ */
+export interface AsyncOptions extends Options {
+  /**
+   * The signal to abort the extraction.
+   */
+  readonly signal?: AbortSignal;
+
+  /**
+   * The worker pool to run the extraction on. Default is the shared worker pool.
+   */
+  readonly pool?: WorkerPool;
+}
+
+/**
+ * The WCAG 2.x conformance level of the contrast.
+ * AA: The contrast ratio of at least 4.5.
+ * AAA: The contrast ratio of at least 7.0.
+ *
+ * @see [WCAG 2.1 contrast(minimum)](https://www.w3.org/TR/WCAG21/#contrast-minimum)
+ * @see [WCAG 2.1 contrast(enhanced)](https://www.w3.org/TR/WCAG21/#contrast-enhanced)
+ */
+export type ContrastLevel = 'AA' | 'AAA';
+
+/**
+ * AccessiblePairOptions interface for finding accessible pairs of swatches.
+ *
+ * @see {@link Palette.findAccessiblePairs}
+ */
+export interface AccessiblePairOptions {
+  /**
+   * The minimum contrast ratio in [1.0, 21.0]. Default is the contrast ratio of the level.
+   */
+  readonly minRatio?: number;
+
+  /**
+   * The conformance level. Default is AA. The level is ignored if the minRatio is specified.
+   */
+  readonly level?: ContrastLevel;
+}
+
+/**
+ * SwatchOptions interface for finding swatches.
+ *
+ * @see {@link Palette.findSwatches}
+ */
+export interface SwatchOptions {
+  /**
+   * The color vision deficiencies under which the swatches must be distinguishable from each other. Default is [].
+   */
+  readonly deficiencies?: VisionDeficiency[];
+
+  /**
+   * The severity of the deficiencies in [0.0, 1.0]. Default is 1.0.
+   *
+   * @see {@link Color.simulateDeficiency}
+   */
+  readonly severity?: number;
+
+  /**
+   * The minimum CIEDE2000 difference between the simulated colors of the swatches. Default is 10.0.
+   */
+  readonly minDifference?: number;
+}
+
+/**
+ * PaletteMetadata interface represents how the palette was extracted.
+ *
+ * @see {@link Palette.toJSON}
+ */
+export interface PaletteMetadata {
+  /**
+   * The dimensions of the source image.
+   */
+  readonly source: {
+    readonly width: number;
+    readonly height: number;
+  };
+
+  /**
+   * The options used for the extraction excluding the background, the white point, the white balance and the color
+   * filters. The algorithm is recorded by its name without the parameters, and 'custom' for an instance of the
+   * clustering algorithm.
+   */
+  readonly options: Required<Omit<Options, 'algorithm' | 'background' | 'whitePoint' | 'whiteBalance' | 'filters'>> & {
+    readonly algorithm: string;
+  };
+
+  /**
+   * The white point of the light the pixels were adapted from, given by the whitePoint option or estimated by the
+   * whiteBalance option. Undefined if the pixels were used as they are.
+   */
+  readonly illuminant?: XYZ;
+}
+
+/**
+ * DistinguishabilityTracker type tracks the swatches found to keep them distinguishable from each other.
+ */
+type DistinguishabilityTracker = {
+  /**
+   * Check whether the swatch is distinguishable from all the accepted swatches.
+   */
+  isDistinguishable(swatch: Swatch): boolean;
+
+  /**
+   * Accept the swatch as found.
+   */
+  accept(swatch: Swatch): void;
+};
+
 const SIMILAR_COLOR_THRESHOLD = 20.0;
 
 const MIN_SCORE_COEFFICIENT = 0.0;
 const MAX_SCORE_COEFFICIENT = 1.0;
 const REDUCED_SCORE_COEFFICIENT = 0.5;
 
+const MIN_CONTRAST_RATIOS: Record<ContrastLevel, number> = {
+  AA: 4.5,
+  AAA: 7.0,
+};
+const MAX_SCALE_ANCHORS = 3;
+const DEFAULT_MIN_DIFFERENCE = 10.0;
+
+const TITLE_TEXT_CONTRAST_RATIO = 3.0;
+const BODY_TEXT_CONTRAST_RATIO = 4.5;
+const MIN_CONTRAST_RATIO = 1.0;
+const MAX_CONTRAST_RATIO = 21.0;
+
 const LOWER_SAMPLING_RATE = 0.0;
 const UPPER_SAMPLING_RATE = 1.0;
 
-const DEFAULT_OPTIONS: Required<Options> = {
+const DEFAULT_COLOR_SPACE: RGBColorSpace = 'srgb';
+
+const DEFAULT_OPTIONS: Required<Omit<Options, 'background' | 'colorSpace' | 'whitePoint' | 'whiteBalance'>> = {
   algorithm: 'dbscan',
   samplingRate: 1.0,
   maxSwatches: 256,
+  clusteringSpace: 'lab',
   filters: [opacityFilter()],
 };
 
@@ -89,16 +277,19 @@ const DEFAULT_OPTIONS: Required<Options> = {
  */
 export class Palette {
   private readonly swatches: Swatch[];
+  private readonly metadata: PaletteMetadata | null;
   private readonly samplingStrategy: SamplingStrategy<Point3>;
 
   /**
    * Create a new Palette instance.
    *
    * @param swatches - The swatches of the palette.
+   * @param metadata - The metadata of the extraction, or null if the palette is not extracted from an image.
    * @see {@link Palette.extract}
    */
-  constructor(swatches: Swatch[]) {
+  constructor(swatches: Swatch[], metadata: PaletteMetadata | null = null) {
     this.swatches = Array.from(swatches);
+    this.metadata = metadata;
     this.samplingStrategy = new FarthestPointSampling<Point3>(euclidean);
   }
 
@@ -122,21 +313,47 @@ export class Palette {
     return this.swatches.length === 0;
   }
 
+  /**
+   * Return the white point of the light the image pixels were adapted from during the extraction.
+   * The swatch colors are the colors of the objects as they would appear under D65.
+   *
+   * @return The white point in the XYZ color space, or null if the pixels were used as they are.
+   * @see {@link Options.whitePoint}
+   * @see {@link Options.whiteBalance}
+   */
+  illuminant(): XYZ | null {
+    const illuminant = this.metadata?.illuminant;
+    return illuminant ? { ...illuminant } : null;
+  }
+
   /**
    * Find the best swatches from the palette.
+   * If any color vision deficiency is given, the swatches whose simulated colors are too close to the simulated colors
+   * of the swatches already found are rejected, so that fewer swatches may be found.
    *
    * @param n The number of swatches to find.
    * @param theme The theme of the swatches. Default is basic.
+   * @param options The options for finding the swatches.
    * @return The best swatches. If the palette is empty, an empty array is returned.
    * @throws {TypeError} If the number of swatches to find is not an integer or less than 0.
+   * @throws {AssertionError} If the severity is not in [0.0, 1.0] or the minimum difference is negative.
    */
-  findSwatches(n: number, theme: Theme = 'basic'): NamedSwatch[] {
+  findSwatches(n: number, theme: Theme = 'basic', options: SwatchOptions = {}): NamedSwatch[] {
     assertPositiveInteger(n, `The number of swatches to find must be a positive integer: ${n}`);
+    const tracker = Palette.createDistinguishabilityTracker(options);
     if (n >= this.swatches.length) {
-      return this.swatches.map((swatch: Swatch): NamedSwatch => {
-        const name = Palette.findColorName(swatch.color);
-        return { name, ...swatch };
-      });
+      return this.swatches
+        .filter((swatch: Swatch): boolean => {
+          if (!tracker.isDistinguishable(swatch)) {
+            return false;
+          }
+          tracker.accept(swatch);
+          return true;
+        })
+        .map((swatch: Swatch): NamedSwatch => {
+          const name = Palette.findColorName(swatch.color);
+          return { name, ...swatch };
+        });
     }
 
     const themeStrategy = this.createThemeStrategy(theme);
@@ -153,13 +370,176 @@ export class Palette {
     const neighborSearch = KDTreeSearch.build(colors, 4, euclidean);
     const coefficients = new Array<number>(colors.length).fill(MAX_SCORE_COEFFICIENT);
     const sampledColors = this.samplingStrategy.sample(colors, n);
-    return sampledColors.map((color: Point3): NamedSwatch => {
-      const swatch = Palette.findOptimalSwatch(candidates, color, neighborSearch, coefficients, themeStrategy);
+    const found: NamedSwatch[] = [];
+    for (const color of sampledColors) {
+      const swatch = Palette.findOptimalSwatch(candidates, color, neighborSearch, coefficients, themeStrategy, tracker);
+      if (swatch) {
+        tracker.accept(swatch);
+        const name = Palette.findColorName(swatch.color);
+        found.push({ name, ...swatch });
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Create a color scale from the best swatches of the palette.
+   * At most 3 swatches are found by {@link Palette.findSwatches} as the anchors, which are ordered from dark to light.
+   *
+   * @param n The number of colors in the scale.
+   * @param theme The theme of the anchor swatches. Default is basic.
+   * @param options The options of the scale.
+   * @return The colors of the scale. If less than two anchor swatches are found, an empty array is returned.
+   * @throws {AssertionError} If the number of colors is not a positive integer.
+   * @see {@link ColorScale}
+   */
+  toScale(n: number, theme: Theme = 'basic', options: ScaleOptions = {}): Color[] {
+    assertPositiveInteger(n, `The number of colors must be a positive integer: ${n}`);
+    const anchors = this.findSwatches(Math.min(Math.max(n, 2), MAX_SCALE_ANCHORS), theme);
+    if (anchors.length < 2) {
+      return [];
+    }
+
+    anchors.sort((swatch1: Swatch, swatch2: Swatch): number => {
+      return swatch1.color.lightness() - swatch2.color.lightness();
+    });
+    return new ColorScale(anchors, options).steps(n);
+  }
+
+  /**
+   * Find the swatches matching the harmony scheme of the base color.
+   * The colors of the scheme are generated by {@link Color.harmony}, and each color is snapped to the closest swatch in
+   * the CIELAB color space.
+   *
+   * @param scheme The scheme of the color harmony.
+   * @param base The base color of the scheme. Default is the color of the swatch with the largest population.
+   * @return The closest swatches in the order of the scheme colors. The same swatch may appear more than once if the
+   * palette has no swatch close to some colors. If the palette is empty, an empty array is returned.
+   * @throws {AssertionError} If the scheme is unknown.
+   * @see {@link Color.harmony}
+   */
+  harmonize(scheme: HarmonyScheme, base?: Color): NamedSwatch[] {
+    if (this.swatches.length === 0) {
+      return [];
+    }
+
+    const baseColor =
+      base ??
+      this.swatches.reduce((dominant: Swatch, swatch: Swatch): Swatch => {
+        return swatch.population > dominant.population ? swatch : dominant;
+      }).color;
+    const colors = this.swatches.map((swatch: Swatch): Point3 => {
+      const { l, a, b } = swatch.color.toLAB();
+      return [l, a, b];
+    });
+    const neighborSearch = KDTreeSearch.build(colors, 4, euclidean);
+    return baseColor.harmony(scheme).map((color: Color): NamedSwatch => {
+      const { l, a, b } = color.toLAB();
+      const { index } = neighborSearch.searchNearest([l, a, b]);
+      const swatch = this.swatches[index];
       const name = Palette.findColorName(swatch.color);
       return { name, ...swatch };
     });
   }
 
+  /**
+   * Find the best swatches from the palette with the readable text colors on them.
+   * The text colors are derived from the swatch colors by shifting the lightness, like the on colors of Material
+   * Design.
+   *
+   * @param n The number of swatches to find.
+   * @param theme The theme of the swatches. Default is basic.
+   * @return The best swatches with the text colors. If the palette is empty, an empty array is returned.
+   * @throws {TypeError} If the number of swatches to find is not an integer or less than 0.
+   * @see {@link Palette.findSwatches}
+   */
+  findReadableSwatches(n: number, theme: Theme = 'basic'): ReadableSwatch[] {
+    return this.findSwatches(n, theme).map((swatch: NamedSwatch): ReadableSwatch => {
+      // The text colors are opaque regardless of the opacity of the swatch.
+      const color = swatch.color.withAlpha(1.0);
+      const onColor = {
+        title: color.ensureContrast(color, TITLE_TEXT_CONTRAST_RATIO),
+        body: color.ensureContrast(color, BODY_TEXT_CONTRAST_RATIO),
+      };
+      return { ...swatch, onColor };
+    });
+  }
+
+  /**
+   * Find the pairs of swatches whose contrast meets the given accessibility requirement.
+   *
+   * The swatch with the larger population in each pair is the background, since it is likely to cover the larger area.
+   * The score is the contrast ratio weighted by the geometric mean of the population shares of the swatches, so that
+   * the pairs of the dominant swatches with the higher contrast come first.
+   *
+   * @param options - The options for finding the pairs.
+   * @return The accessible pairs sorted by the score in descending order. If no pairs are found, an empty array is
+   * returned.
+   * @throws {AssertionError} If the minimum contrast ratio is not in [1.0, 21.0].
+   */
+  findAccessiblePairs(options: AccessiblePairOptions = {}): AccessiblePair[] {
+    const { minRatio = MIN_CONTRAST_RATIOS[options.level ?? 'AA'] } = options;
+    assertRange(
+      minRatio,
+      MIN_CONTRAST_RATIO,
+      MAX_CONTRAST_RATIO,
+      `The minimum contrast ratio must be in the range of [${MIN_CONTRAST_RATIO}, ${MAX_CONTRAST_RATIO}]: ${minRatio}`,
+    );
+
+    const totalPopulation = this.swatches.reduce(
+      (total: number, swatch: Swatch): number => total + swatch.population,
+      0,
+    );
+    // The color names are resolved only for the swatches in the pairs, and are shared between the pairs.
+    const namedSwatches = new Map<Swatch, NamedSwatch>();
+    const nameSwatch = (swatch: Swatch): NamedSwatch => {
+      const named = namedSwatches.get(swatch) ?? { name: Palette.findColorName(swatch.color), ...swatch };
+      namedSwatches.set(swatch, named);
+      return named;
+    };
+    const pairs: AccessiblePair[] = [];
+    for (let i = 0; i < this.swatches.length; i++) {
+      for (let j = i + 1; j < this.swatches.length; j++) {
+        const [background, foreground] =
+          this.swatches[i].population >= this.swatches[j].population
+            ? [this.swatches[i], this.swatches[j]]
+            : [this.swatches[j], this.swatches[i]];
+        const contrastRatio = foreground.color.contrastRatio(background.color);
+        if (contrastRatio < minRatio) {
+          continue;
+        }
+
+        const share =
+          totalPopulation === 0 ? 0 : Math.sqrt(foreground.population * background.population) / totalPopulation;
+        pairs.push({
+          foreground: nameSwatch(foreground),
+          background: nameSwatch(background),
+          contrastRatio,
+          apcaContrast: foreground.color.apcaContrast(background.color),
+          score: contrastRatio * share,
+        });
+      }
+    }
+    return pairs.sort((pair1: AccessiblePair, pair2: AccessiblePair): number => pair2.score - pair1.score);
+  }
+
+  /**
+   * Serialize the palette to a JSON-compatible object.
+   * The method is called by JSON.stringify, so the palette can be stringified directly.
+   *
+   * @return The serialized palette conforming to the current schema version.
+   * @see {@link Palette.fromJSON}
+   */
+  toJSON(): PaletteJSON {
+    return {
+      version: PALETTE_SCHEMA_VERSION,
+      source: this.metadata ? { ...this.metadata.source } : null,
+      options: this.metadata ? { ...this.metadata.options } : null,
+      ...(this.metadata?.illuminant ? { illuminant: { ...this.metadata.illuminant } } : {}),
+      swatches: this.swatches.map(serializeSwatch),
+    };
+  }
+
   private createThemeStrategy(theme: Theme): ThemeStrategy {
     return visit<Swatch, ThemeStrategy>(
       theme,
@@ -191,10 +571,16 @@ export class Palette {
     neighborSearch: NeighborSearch<Point3>,
     coefficients: number[],
     strategy: ThemeStrategy,
-  ): Swatch {
+    tracker: DistinguishabilityTracker,
+  ): Swatch | null {
     // Find the neighbors of the color within the radius of 20.0 in the LAB color space.
     // The radius is determined by the experiment.
-    const neighbors = neighborSearch.searchRadius(color, SIMILAR_COLOR_THRESHOLD);
+    const neighbors = neighborSearch
+      .searchRadius(color, SIMILAR_COLOR_THRESHOLD)
+      .filter((neighbor: Neighbor): boolean => tracker.isDistinguishable(swatches[neighbor.index]));
+    if (neighbors.length === 0) {
+      return null;
+    }
 
     // Find the best neighbor which has the largest score.
     const bestNeighbor = neighbors.reduce((optimal: Neighbor, neighbor: Neighbor): Neighbor => {
@@ -218,6 +604,75 @@ export class Palette {
     return swatches[bestNeighbor.index];
   }
 
+  /**
+   * Create the tracker of the swatches distinguishable from each other under the given color vision deficiencies.
+   *
+   * @param options - The options for finding the swatches.
+   * @return The tracker. Any swatch is distinguishable if no deficiency is given.
+   * @throws {AssertionError} If the severity is not in [0.0, 1.0] or the minimum difference is negative.
+   */
+  private static createDistinguishabilityTracker(options: SwatchOptions): DistinguishabilityTracker {
+    const { deficiencies = [], severity = 1.0, minDifference = DEFAULT_MIN_DIFFERENCE } = options;
+    assertRange(severity, 0, 1, `The severity must be in the range of [0.0, 1.0]: ${severity}`);
+    assertRange(
+      minDifference,
+      0,
+      Number.POSITIVE_INFINITY,
+      `The minimum difference must be a non-negative number: ${minDifference}`,
+    );
+
+    const simulations = new Map<Swatch, Color[]>();
+    const simulate = (swatch: Swatch): Color[] => {
+      const simulated =
+        simulations.get(swatch) ??
+        deficiencies.map((deficiency: VisionDeficiency): Color => {
+          return swatch.color.simulateDeficiency(deficiency, severity);
+        });
+      simulations.set(swatch, simulated);
+      return simulated;
+    };
+    const accepted: Swatch[] = [];
+    return {
+      isDistinguishable(swatch: Swatch): boolean {
+        const simulated = simulate(swatch);
+        return accepted.every((other: Swatch): boolean => {
+          const otherSimulated = simulate(other);
+          return simulated.every((color: Color, index: number): boolean => {
+            return color.differenceTo(otherSimulated[index]) >= minDifference;
+          });
+        });
+      },
+      accept(swatch: Swatch): void {
+        accepted.push(swatch);
+      },
+    };
+  }
+
+  /**
+   * Deserialize the palette from the given JSON.
+   *
+   * @param json - The serialized palette or its JSON string.
+   * @return A new Palette instance.
+   * @throws {SyntaxError} If the string is not valid JSON.
+   * @throws {AssertionError} If the JSON does not conform to the schema.
+   * @see {@link Palette.toJSON}
+   */
+  static fromJSON(json: PaletteJSON | string): Palette {
+    const value: unknown = isString(json) ? JSON.parse(json) : json;
+    assertPaletteJSON(value);
+    const swatches = value.swatches.map(deserializeSwatch);
+    if (value.source === null || value.options === null) {
+      return new Palette(swatches);
+    }
+    // The clustering space and the color space are missing in the palettes serialized before the options were
+    // introduced.
+    const clusteringSpace = value.options.clusteringSpace ?? DEFAULT_OPTIONS.clusteringSpace;
+    const colorSpace = value.options.colorSpace ?? DEFAULT_COLOR_SPACE;
+    const options = { ...value.options, clusteringSpace, colorSpace };
+    const illuminant = value.illuminant ? { ...value.illuminant } : undefined;
+    return new Palette(swatches, { source: { ...value.source }, options, ...(illuminant ? { illuminant } : {}) });
+  }
+
   /**
    * Extract a color palette from the given image source.
    *
@@ -226,37 +681,178 @@ export class Palette {
    * @return A new Palette instance containing the extracted swatches.
    */
   static extract(source: ImageSource, options: Partial<Options> = {}): Palette {
-    const { algorithm, samplingRate, maxSwatches, filters } = { ...DEFAULT_OPTIONS, ...options };
-    assert(
-      Number.isFinite(samplingRate) && samplingRate > LOWER_SAMPLING_RATE && samplingRate <= UPPER_SAMPLING_RATE,
-      `The sampling rate must be in the range of (${LOWER_SAMPLING_RATE}, ${UPPER_SAMPLING_RATE}]: ${samplingRate}`,
-    );
-    assertPositiveInteger(maxSwatches, `The maximum number of swatches must be a positive integer: ${maxSwatches}`);
+    const { algorithm, samplingRate, maxSwatches, clusteringSpace, filters } = { ...DEFAULT_OPTIONS, ...options };
+    Palette.validateOptions(samplingRate, maxSwatches);
 
-    const extractor = Palette.createExtractor(algorithm, filters);
     const imageData = createImageData(source);
+    const colorSpace = Palette.resolveColorSpace(options.colorSpace, imageData);
+    const background = Palette.resolveBackground(options.background, colorSpace);
+    const whitePoint = Palette.resolveIlluminant(options.whitePoint, options.whiteBalance, imageData, colorSpace);
+    const extractor = Palette.createExtractor(algorithm, filters, clusteringSpace, background, colorSpace, whitePoint);
     const swatches = extractor.extract(imageData, samplingRate);
     swatches.sort((swatch1: Swatch, swatch2: Swatch): number => {
       return swatch2.population - swatch1.population;
     });
-    return new Palette(swatches.slice(0, maxSwatches));
+    const { width, height } = imageData;
+    return new Palette(swatches.slice(0, maxSwatches), {
+      source: { width, height },
+      options: { algorithm: resolveAlgorithmName(algorithm), samplingRate, maxSwatches, clusteringSpace, colorSpace },
+      ...(whitePoint ? { illuminant: whitePoint } : {}),
+    });
+  }
+
+  /**
+   * Extract a color palette from the given image source in a worker.
+   *
+   * The pixels of the image are copied and transferred to a worker, so that the clustering does not block the calling
+   * thread. The color filters are applied on the calling thread before the transfer.
+   * The source may also be encoded image bytes, a Blob or a file path, which are decoded by the registered decoders.
+   *
+   * @param source The source of the image.
+   * @param options The options for palette extraction.
+   * @return A promise that resolves to a new Palette instance containing the extracted swatches.
+   * @throws {AssertionError} If the algorithm is not built-in, since neither the instances of the clustering algorithm
+   * nor the registered algorithms are available in a worker.
+   * @see {@link Palette.extract}
+   */
+  static async extractAsync(source: AsyncImageSource, options: Partial<AsyncOptions> = {}): Promise<Palette> {
+    const { algorithm, samplingRate, maxSwatches, clusteringSpace, filters } = { ...DEFAULT_OPTIONS, ...options };
+    Palette.validateOptions(samplingRate, maxSwatches);
+    assert(
+      !isClusteringAlgorithm(algorithm),
+      'The instance of the clustering algorithm cannot be transferred to a worker, use the name of the algorithm',
+    );
+    assert(
+      isBuiltinAlgorithm(algorithm),
+      `Only the built-in algorithms are available in a worker: ${resolveAlgorithmName(algorithm)}`,
+    );
+    options.signal?.throwIfAborted();
+
+    const imageData = await createImageDataAsync(source);
+    const colorSpace = Palette.resolveColorSpace(options.colorSpace, imageData);
+    const background = Palette.resolveBackground(options.background, colorSpace);
+    // The illuminant is estimated from all the pixels before the color filters reject any of them.
+    const whitePoint = Palette.resolveIlluminant(options.whitePoint, options.whiteBalance, imageData, colorSpace);
+    const data = Palette.applyFilters(imageData, filters);
+    const pool = options.pool ?? retrieveWorkerPool();
+    const { width, height } = imageData;
+    const results = await pool.run(
+      { width, height, data, algorithm, samplingRate, clusteringSpace, background, colorSpace, whitePoint },
+      options.signal,
+    );
+    const swatches = results.map((result: SwatchData): Swatch => {
+      const { color, alpha, position, population } = result;
+      return { color: Color.fromLAB(color).withAlpha(alpha), position, population };
+    });
+    swatches.sort((swatch1: Swatch, swatch2: Swatch): number => {
+      return swatch2.population - swatch1.population;
+    });
+    return new Palette(swatches.slice(0, maxSwatches), {
+      source: { width, height },
+      options: { algorithm: resolveAlgorithmName(algorithm), samplingRate, maxSwatches, clusteringSpace, colorSpace },
+      ...(whitePoint ? { illuminant: whitePoint } : {}),
+    });
+  }
+
+  private static validateOptions(samplingRate: number, maxSwatches: number): void {
+    assert(
+      Number.isFinite(samplingRate) && samplingRate > LOWER_SAMPLING_RATE && samplingRate <= UPPER_SAMPLING_RATE,
+      `The sampling rate must be in the range of (${LOWER_SAMPLING_RATE}, ${UPPER_SAMPLING_RATE}]: ${samplingRate}`,
+    );
+    assertPositiveInteger(maxSwatches, `The maximum number of swatches must be a positive integer: ${maxSwatches}`);
+  }
+
+  private static resolveColorSpace(colorSpace: RGBColorSpace | undefined, imageData: ImageData): RGBColorSpace {
+    // The ImageData-like objects created without the canvas may not have the color space.
+    return colorSpace ?? imageData.colorSpace ?? DEFAULT_COLOR_SPACE;
+  }
+
+  private static resolveIlluminant(
+    whitePoint: WhitePoint | undefined,
+    whiteBalance: WhiteBalance | undefined,
+    imageData: ImageData,
+    colorSpace: RGBColorSpace,
+  ): XYZ | null {
+    assert(
+      whitePoint === undefined || whiteBalance === undefined,
+      'The whitePoint and the whiteBalance options cannot be combined',
+    );
+    if (whitePoint !== undefined) {
+      return resolveWhitePoint(whitePoint);
+    }
+    if (whiteBalance !== undefined) {
+      return estimateIlluminant(imageData, whiteBalance, colorSpace);
+    }
+    return null;
+  }
+
+  private static resolveBackground(background: Color | string | undefined, colorSpace: RGBColorSpace): RGB | null {
+    if (background === undefined) {
+      return null;
+    }
+    const color = isString(background) ? Color.fromString(background) : background;
+    // The background is composited with the pixels in the RGB color space of the image.
+    return color.toRGB(colorSpace);
+  }
+
+  /**
+   * Copy the pixels of the given image data and mark the pixels rejected by the filters as fully transparent.
+   * The fully transparent pixels accepted by the filters are marked as the least opaque value to distinguish them.
+   *
+   * @param imageData - The image data to copy.
+   * @param filters - The color filter functions to apply.
+   * @return The copied RGBA pixels.
+   */
+  private static applyFilters(imageData: ImageData, filters: ColorFilter[]): Uint8ClampedArray {
+    const { data, width, height } = imageData;
+    const filter = composeFilters(...filters);
+    const size = width * height;
+    const channels = size === 0 ? 4 : Math.floor(data.length / size); // 4 for RGBA, 3 for RGB
+    const pixels = new Uint8ClampedArray(size * 4);
+    for (let i = 0; i < size; i++) {
+      const offset = i * channels;
+      const rgba: RGBA = {
+        r: data[offset],
+        g: data[offset + 1],
+        b: data[offset + 2],
+        a: channels === 4 ? data[offset + 3] : RGBSpace.MAX_RGB,
+      };
+      pixels[i * 4] = rgba.r;
+      pixels[i * 4 + 1] = rgba.g;
+      pixels[i * 4 + 2] = rgba.b;
+      pixels[i * 4 + 3] = filter(rgba) ? Math.max(rgba.a, 1) : 0;
+    }
+    return pixels;
   }
 
   /**
    * Create a new SwatchExtractor instance with the given algorithm and filters.
    *
-   * @param algorithm - The clustering algorithm to use.
+   * @param algorithm - The name of the algorithm, the name with the parameters or the instance of the algorithm.
    * @param filters - The color filter functions to use.
+   * @param clusteringSpace - The color space to cluster the pixels in.
+   * @param background - The background color to composite the pixels over, or null to cluster the pixels as they are.
+   * @param colorSpace - The RGB color space of the pixels.
+   * @param whitePoint - The white of the light the image was captured under, or null to use the pixels as they are.
    * @return A new SwatchExtractor instance.
+   * @internal
    */
-  private static createExtractor(algorithm: Algorithm, filters: ColorFilter[]): SwatchExtractor {
-    if (algorithm === 'kmeans') {
-      const strategy = new KmeansPlusPlusInitializer<Point5>(squaredEuclidean);
-      const kmeans = new Kmeans<Point5>(32, 10, 0.0001, squaredEuclidean, strategy);
-      return new SwatchExtractor(kmeans, [...filters]);
-    }
-    const dbscan = new DBSCAN<Point5>(16, 0.0016, squaredEuclidean);
-    return new SwatchExtractor(dbscan, [...filters]);
+  static createExtractor(
+    algorithm: AlgorithmOption,
+    filters: ColorFilter[],
+    clusteringSpace: ClusteringSpace = DEFAULT_OPTIONS.clusteringSpace,
+    background: RGB | null = null,
+    colorSpace: RGBColorSpace = DEFAULT_COLOR_SPACE,
+    whitePoint: XYZ | null = null,
+  ): SwatchExtractor {
+    return new SwatchExtractor(
+      createAlgorithm(algorithm),
+      [...filters],
+      clusteringSpace,
+      background,
+      colorSpace,
+      whitePoint,
+    );
   }
 
   /**
@@ -0,0 +1,30 @@
+import { clamp } from '../math';
+
+/**
+ * The easing function that maps the position in [0.0, 1.0] to the eased position.
+ * linear: No easing.
+ * ease-in: The quadratic easing that starts slowly.
+ * ease-out: The quadratic easing that ends slowly.
+ * ease-in-out: The quadratic easing that starts and ends slowly.
+ * The custom function may return the values out of [0.0, 1.0], which are clamped.
+ */
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | ((t: number) => number);
+
+const EASING_FUNCTIONS: Record<Exclude<Easing, (t: number) => number>, (t: number) => number> = {
+  linear: (t: number): number => t,
+  'ease-in': (t: number): number => t * t,
+  'ease-out': (t: number): number => t * (2 - t),
+  'ease-in-out': (t: number): number => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2),
+};
+
+/**
+ * Apply the given easing to the given position.
+ *
+ * @param easing - The easing to apply.
+ * @param t - The position in [0.0, 1.0].
+ * @returns The eased position clamped to [0.0, 1.0].
+ */
+export function ease(easing: Easing, t: number): number {
+  const fn = typeof easing === 'function' ? easing : EASING_FUNCTIONS[easing];
+  return clamp(fn(t), 0, 1);
+}
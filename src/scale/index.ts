@@ -0,0 +1,2 @@
+export { type Easing } from './easing';
+export { ColorScale, type ScaleInterpolation, type ScaleOptions } from './scale';
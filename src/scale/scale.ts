@@ -0,0 +1,114 @@
+import { Color, type HuePath, type InterpolationSpace, bezier, interpolate } from '../color';
+import type { Swatch } from '../swatch';
+import { assert, assertPositiveInteger, assertRange } from '../utils';
+import { type Easing, ease } from './easing';
+
+/**
+ * The interpolation between the anchor colors of the scale.
+ * linear: The piecewise linear interpolation, which passes through all the anchor colors.
+ * bezier: The Bezier interpolation whose control points are the anchor colors, which is smoother but passes through
+ * the first and the last anchor colors only.
+ */
+export type ScaleInterpolation = 'linear' | 'bezier';
+
+/**
+ * ScaleOptions interface for creating a color scale.
+ *
+ * @see {@link ColorScale}
+ */
+export interface ScaleOptions {
+  /**
+   * The color space to interpolate the colors in. Default is lab.
+   */
+  readonly space?: InterpolationSpace;
+
+  /**
+   * The path to interpolate the hue along in lch. Default is shorter.
+   */
+  readonly hue?: HuePath;
+
+  /**
+   * The easing of the position on the scale. Default is linear.
+   */
+  readonly easing?: Easing;
+
+  /**
+   * The interpolation between the anchor colors. Default is linear.
+   */
+  readonly interpolation?: ScaleInterpolation;
+}
+
+const DEFAULT_OPTIONS: Required<ScaleOptions> = {
+  space: 'lab',
+  hue: 'shorter',
+  easing: 'linear',
+  interpolation: 'linear',
+};
+
+/**
+ * ColorScale class represents a continuous color scale through the anchor colors.
+ */
+export class ColorScale {
+  private readonly anchors: Color[];
+  private readonly options: Required<ScaleOptions>;
+
+  /**
+   * Create a new ColorScale instance.
+   *
+   * @param anchors - The anchor colors or swatches of the scale in order. At least two anchors are required.
+   * @param options - The options of the scale.
+   * @throws {AssertionError} If less than two anchors are given.
+   */
+  constructor(anchors: (Color | Swatch)[], options: ScaleOptions = {}) {
+    assert(anchors.length >= 2, `The scale requires at least 2 anchors: ${anchors.length}`);
+    this.anchors = anchors.map((anchor: Color | Swatch): Color => (anchor instanceof Color ? anchor : anchor.color));
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Return the color at the given position on the scale.
+   * The alpha is interpolated linearly between the anchor colors.
+   *
+   * @param t - The position in [0.0, 1.0]. 0.0 is the first anchor and 1.0 is the last anchor.
+   * @returns The color at the position.
+   * @throws {AssertionError} If the position is not in [0.0, 1.0].
+   */
+  at(t: number): Color {
+    assertRange(t, 0, 1, `The position(${t}) must be in [0.0, 1.0]`);
+    const { space, hue, easing, interpolation } = this.options;
+    const position = ease(easing, t);
+
+    const segments = this.anchors.length - 1;
+    const index = Math.min(Math.floor(position * segments), segments - 1);
+    const ratio = position * segments - index;
+    const from = this.anchors[index];
+    const to = this.anchors[index + 1];
+    const alpha = from.alpha() + (to.alpha() - from.alpha()) * ratio;
+
+    const lab =
+      interpolation === 'bezier'
+        ? bezier(
+            this.anchors.map((anchor: Color) => anchor.toLAB()),
+            position,
+            space,
+            hue,
+          )
+        : interpolate(from.toLAB(), to.toLAB(), ratio, space, hue);
+    return Color.fromLAB(lab).withAlpha(alpha);
+  }
+
+  /**
+   * Return the colors at the evenly spaced positions on the scale.
+   *
+   * @param n - The number of colors.
+   * @returns The colors from the first anchor to the last anchor.
+   * @throws {AssertionError} If the number of colors is not a positive integer.
+   */
+  steps(n: number): Color[] {
+    assertPositiveInteger(n, `The number of colors must be a positive integer: ${n}`);
+    if (n === 1) {
+      return [this.at(0)];
+    }
+    return Array.from({ length: n }, (_: unknown, i: number): Color => this.at(i / (n - 1)));
+  }
+}
@@ -0,0 +1,241 @@
+import { CIELabSpace, Color, type RGBColorSpace } from './color';
+import type { ClusteringSpace } from './extractor';
+import type { PaletteMetadata } from './palette';
+import type { Swatch } from './swatch';
+import { assert, assertFiniteNumber, assertInteger, assertPositiveInteger, assertRange, isString } from './utils';
+
+/**
+ * The current version of the palette JSON schema.
+ * The version is incremented whenever the schema changes incompatibly.
+ */
+export const PALETTE_SCHEMA_VERSION = 1;
+
+/**
+ * The clustering spaces accepted in the extraction options of the palette JSON.
+ */
+const CLUSTERING_SPACES: ClusteringSpace[] = ['lab', 'oklab'];
+
+/**
+ * The RGB color spaces accepted in the extraction options of the palette JSON.
+ */
+const COLOR_SPACES: RGBColorSpace[] = ['srgb', 'display-p3', 'a98-rgb', 'rec2020'];
+
+const HEX_PATTERN = /^#[0-9a-f]{6}([0-9a-f]{2})?$/i;
+
+/**
+ * SwatchJSON type represents a serialized swatch.
+ */
+export type SwatchJSON = {
+  /**
+   * The color of the swatch in CIELAB color space with the alpha and the hexadecimal representation.
+   * The hexadecimal representation is informative and is not used for deserialization.
+   * The alpha is optional for the palettes serialized before the alpha was introduced, and defaults to 1.0.
+   */
+  readonly color: {
+    readonly l: number;
+    readonly a: number;
+    readonly b: number;
+    readonly alpha?: number;
+    readonly hex: string;
+  };
+
+  /**
+   * The position of the swatch in the source image.
+   */
+  readonly position: {
+    readonly x: number;
+    readonly y: number;
+  };
+
+  /**
+   * The population of the swatch.
+   */
+  readonly population: number;
+};
+
+/**
+ * PaletteJSON type represents a serialized palette.
+ *
+ * @see {@link Palette.toJSON}
+ * @see {@link Palette.fromJSON}
+ */
+export type PaletteJSON = {
+  /**
+   * The version of the schema.
+   */
+  readonly version: typeof PALETTE_SCHEMA_VERSION;
+
+  /**
+   * The dimensions of the source image, or null if the palette is not extracted from an image.
+   */
+  readonly source: PaletteMetadata['source'] | null;
+
+  /**
+   * The options used for the extraction, or null if the palette is not extracted from an image.
+   * The color filters are not serialized because they are functions.
+   */
+  readonly options: PaletteMetadata['options'] | null;
+
+  /**
+   * The white point of the light the pixels were adapted from during the extraction.
+   * The white point is omitted if the pixels were used as they are.
+   */
+  readonly illuminant?: PaletteMetadata['illuminant'];
+
+  /**
+   * The swatches of the palette.
+   */
+  readonly swatches: SwatchJSON[];
+};
+
+/**
+ * Serialize the given swatch.
+ *
+ * @param swatch - The swatch to serialize.
+ * @return The serialized swatch.
+ */
+export function serializeSwatch(swatch: Swatch): SwatchJSON {
+  const { l, a, b } = swatch.color.toLAB();
+  const { x, y } = swatch.position;
+  return {
+    color: { l, a, b, alpha: swatch.color.alpha(), hex: swatch.color.toString() },
+    position: { x, y },
+    population: swatch.population,
+  };
+}
+
+/**
+ * Deserialize the given swatch.
+ *
+ * @param json - The serialized swatch.
+ * @return The deserialized swatch.
+ */
+export function deserializeSwatch(json: SwatchJSON): Swatch {
+  const { l, a, b, alpha = 1.0 } = json.color;
+  const { x, y } = json.position;
+  return {
+    color: Color.fromLAB({ l, a, b }).withAlpha(alpha),
+    position: { x, y },
+    population: json.population,
+  };
+}
+
+/**
+ * Validate the given value against the palette JSON schema.
+ *
+ * @param value - The value to validate.
+ * @throws {AssertionError} If the value does not conform to the schema.
+ */
+export function assertPaletteJSON(value: unknown): asserts value is PaletteJSON {
+  assertObject(value, 'palette');
+  assert(
+    value.version === PALETTE_SCHEMA_VERSION,
+    `The palette schema version must be ${PALETTE_SCHEMA_VERSION}: ${String(value.version)}`,
+  );
+
+  if (value.source !== null) {
+    assertObject(value.source, 'source');
+    assertPositiveInteger(value.source.width, `The source.width must be a positive integer: ${value.source.width}`);
+    assertPositiveInteger(value.source.height, `The source.height must be a positive integer: ${value.source.height}`);
+  }
+
+  if (value.options !== null) {
+    assertObject(value.options, 'options');
+    const { algorithm, samplingRate, maxSwatches, clusteringSpace, colorSpace } = value.options;
+    // The algorithm is not restricted to the built-in algorithms, since the registered algorithms are recorded by name.
+    assert(
+      isString(algorithm) && algorithm.length > 0,
+      `The options.algorithm must be a non-empty string: ${String(algorithm)}`,
+    );
+    assert(
+      typeof samplingRate === 'number' && samplingRate > 0 && samplingRate <= 1,
+      `The options.samplingRate must be in the range of (0, 1]: ${samplingRate}`,
+    );
+    assertPositiveInteger(maxSwatches, `The options.maxSwatches must be a positive integer: ${maxSwatches}`);
+    // The clustering space is optional for the palettes serialized before the option was introduced.
+    assert(
+      clusteringSpace === undefined ||
+        CLUSTERING_SPACES.some((candidate: string): boolean => candidate === clusteringSpace),
+      `The options.clusteringSpace must be one of ${CLUSTERING_SPACES.join(', ')}: ${String(clusteringSpace)}`,
+    );
+    // The color space is optional for the palettes serialized before the option was introduced.
+    assert(
+      colorSpace === undefined || COLOR_SPACES.some((candidate: string): boolean => candidate === colorSpace),
+      `The options.colorSpace must be one of ${COLOR_SPACES.join(', ')}: ${String(colorSpace)}`,
+    );
+  }
+
+  assert(
+    (value.source === null) === (value.options === null),
+    'The source and the options must be both null or both non-null',
+  );
+
+  if (value.illuminant !== undefined) {
+    assert(value.source !== null, 'The illuminant must be omitted if the palette is not extracted from an image');
+    assertObject(value.illuminant, 'illuminant');
+    for (const key of ['x', 'y', 'z']) {
+      const component = value.illuminant[key];
+      assertFiniteNumber(component, `The illuminant.${key} must be a positive finite number: ${component}`);
+      assert(component > 0, `The illuminant.${key} must be a positive finite number: ${component}`);
+    }
+  }
+  assert(Array.isArray(value.swatches), 'The swatches must be an array');
+  value.swatches.forEach((swatch: unknown, index: number) => assertSwatchJSON(swatch, `swatches[${index}]`));
+}
+
+/**
+ * Validate the given value against the swatch JSON schema.
+ *
+ * @param value - The value to validate.
+ * @param path - The path of the value for the error messages.
+ * @throws {AssertionError} If the value does not conform to the schema.
+ */
+function assertSwatchJSON(value: unknown, path: string): asserts value is SwatchJSON {
+  assertObject(value, path);
+
+  assertObject(value.color, `${path}.color`);
+  const { l, a, b, alpha, hex } = value.color;
+  assertRange(
+    l,
+    CIELabSpace.MIN_L,
+    CIELabSpace.MAX_L,
+    `The ${path}.color.l must be in the range of [${CIELabSpace.MIN_L}, ${CIELabSpace.MAX_L}]: ${l}`,
+  );
+  assertRange(
+    a,
+    CIELabSpace.MIN_A,
+    CIELabSpace.MAX_A,
+    `The ${path}.color.a must be in the range of [${CIELabSpace.MIN_A}, ${CIELabSpace.MAX_A}]: ${a}`,
+  );
+  assertRange(
+    b,
+    CIELabSpace.MIN_B,
+    CIELabSpace.MAX_B,
+    `The ${path}.color.b must be in the range of [${CIELabSpace.MIN_B}, ${CIELabSpace.MAX_B}]: ${b}`,
+  );
+  assert(
+    alpha === undefined || (typeof alpha === 'number' && alpha >= 0 && alpha <= 1),
+    `The ${path}.color.alpha must be in the range of [0, 1]: ${alpha}`,
+  );
+  assert(isString(hex) && HEX_PATTERN.test(hex), `The ${path}.color.hex must be a hexadecimal color: ${hex}`);
+
+  assertObject(value.position, `${path}.position`);
+  const { x, y } = value.position;
+  assertFiniteNumber(x, `The ${path}.position.x must be a finite number: ${x}`);
+  assertFiniteNumber(y, `The ${path}.position.y must be a finite number: ${y}`);
+
+  const population = value.population;
+  assertInteger(population, `The ${path}.population must be a non-negative integer: ${population}`);
+  assert(population >= 0, `The ${path}.population must be a non-negative integer: ${population}`);
+}
+
+/**
+ * Assert the given value is a non-null object.
+ *
+ * @param value - The value to check.
+ * @param path - The path of the value for the error message.
+ * @throws {AssertionError} If the value is not a non-null object.
+ */
+function assertObject(value: unknown, path: string): asserts value is Record<string, unknown> {
+  assert(typeof value === 'object' && value !== null && !Array.isArray(value), `The ${path} must be an object`);
+}
@@ -6,7 +6,7 @@ import type { Named } from './utils';
  */
 export interface Swatch {
   /**
-   * The color of the swatch.
+   * The color of the swatch. The alpha of the color is the average opacity of the pixels in the swatch.
    */
   readonly color: Color;
 
@@ -35,3 +35,57 @@ export interface Swatch {
  * NamedSwatch type represents a swatch with a name.
  */
 export type NamedSwatch = Named<Swatch>;
+
+/**
+ * AccessiblePair type represents a pair of swatches with the contrast meeting the accessibility requirement.
+ *
+ * @see {@link Palette.findAccessiblePairs}
+ */
+export type AccessiblePair = {
+  /**
+   * The swatch for the foreground such as text.
+   */
+  readonly foreground: NamedSwatch;
+
+  /**
+   * The swatch for the background. The swatch has the larger population in the pair.
+   */
+  readonly background: NamedSwatch;
+
+  /**
+   * The WCAG 2.x contrast ratio between the foreground and the background.
+   */
+  readonly contrastRatio: number;
+
+  /**
+   * The APCA lightness contrast(Lc) of the foreground on the background.
+   */
+  readonly apcaContrast: number;
+
+  /**
+   * The score of the pair. The higher score means the better pair.
+   */
+  readonly score: number;
+};
+
+/**
+ * ReadableSwatch type represents a named swatch with the readable text colors on the swatch.
+ *
+ * @see {@link Palette.findReadableSwatches}
+ */
+export type ReadableSwatch = NamedSwatch & {
+  /**
+   * The text colors on the swatch color with the same hue as the swatch.
+   */
+  readonly onColor: {
+    /**
+     * The text color for titles, which meets the WCAG level AA for large text.
+     */
+    readonly title: Color;
+
+    /**
+     * The text color for body text, which meets the WCAG level AA for normal text.
+     */
+    readonly body: Color;
+  };
+};
@@ -0,0 +1,44 @@
+import type { RGBA } from '../color';
+import { Palette } from '../palette';
+import type { Swatch } from '../swatch';
+import type { ExtractionRequest, ExtractionResponse, SwatchData } from './message';
+
+/**
+ * Handle the given extraction request in a worker.
+ *
+ * The color filters are applied on the calling thread before the request is sent, and rejected pixels are marked as
+ * fully transparent. Therefore, only the fully transparent pixels are rejected here.
+ *
+ * @param request - The extraction request.
+ * @returns The extraction response.
+ */
+export function handleRequest(request: ExtractionRequest): ExtractionResponse {
+  const { id, width, height, data, algorithm, samplingRate, clusteringSpace, background, colorSpace, whitePoint } =
+    request;
+  try {
+    const extractor = Palette.createExtractor(
+      algorithm,
+      [isVisible],
+      clusteringSpace,
+      background,
+      colorSpace,
+      whitePoint,
+    );
+    const swatches = extractor.extract({ width, height, data, colorSpace: 'srgb' }, samplingRate);
+    return {
+      type: 'success',
+      id,
+      swatches: swatches.map((swatch: Swatch): SwatchData => {
+        const { color, position, population } = swatch;
+        return { color: color.toLAB(), alpha: color.alpha(), position, population };
+      }),
+    };
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return { type: 'failure', id, message };
+  }
+}
+
+function isVisible(color: RGBA): boolean {
+  return color.a > 0;
+}
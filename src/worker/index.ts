@@ -0,0 +1,2 @@
+export type { SwatchData } from './message';
+export { type WorkerFactory, type WorkerHandle, WorkerPool, retrieveWorkerPool } from './pool';
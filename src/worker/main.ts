@@ -0,0 +1,17 @@
+import { isWebWorker } from '../utils/browser';
+import { handleRequest } from './handler';
+import type { ExtractionRequest } from './message';
+
+// The entry point of the worker script.
+// The script runs in either a Web Worker or a Node.js worker thread.
+if (isWebWorker()) {
+  self.addEventListener('message', (event: MessageEvent<ExtractionRequest>) => {
+    self.postMessage(handleRequest(event.data));
+  });
+} else {
+  import('node:worker_threads').then(({ parentPort }) => {
+    parentPort?.on('message', (request: ExtractionRequest) => {
+      parentPort.postMessage(handleRequest(request));
+    });
+  });
+}
@@ -0,0 +1,103 @@
+import type { AlgorithmConfig } from '../algorithm';
+import type { LAB, RGB, RGBColorSpace, XYZ } from '../color';
+import type { ClusteringSpace } from '../extractor';
+
+/**
+ * ExtractionRequest type represents a message sent to a worker to extract swatches.
+ */
+export type ExtractionRequest = {
+  /**
+   * The identifier of the request.
+   */
+  readonly id: number;
+
+  /**
+   * The width of the image.
+   */
+  readonly width: number;
+
+  /**
+   * The height of the image.
+   */
+  readonly height: number;
+
+  /**
+   * The RGBA pixel data of the image. The buffer is transferred to the worker.
+   */
+  readonly data: Uint8ClampedArray;
+
+  /**
+   * The name of the algorithm to use for palette extraction, or the name with the parameters.
+   * The algorithm must be built-in or registered in the worker.
+   */
+  readonly algorithm: string | AlgorithmConfig;
+
+  /**
+   * The sampling rate to sample pixels from the image.
+   */
+  readonly samplingRate: number;
+
+  /**
+   * The color space to cluster the pixels in.
+   */
+  readonly clusteringSpace: ClusteringSpace;
+
+  /**
+   * The background color to composite the pixels over, or null to cluster the pixels as they are.
+   * The components are in the RGB color space of the pixels.
+   */
+  readonly background: RGB | null;
+
+  /**
+   * The RGB color space of the pixels.
+   */
+  readonly colorSpace: RGBColorSpace;
+
+  /**
+   * The white of the light the image was captured under, or null to use the pixels as they are.
+   */
+  readonly whitePoint: XYZ | null;
+};
+
+/**
+ * SwatchData type represents a swatch that can be transferred between threads.
+ */
+export type SwatchData = {
+  /**
+   * The color of the swatch in CIELAB color space.
+   */
+  readonly color: LAB;
+
+  /**
+   * The alpha value of the swatch color in [0.0, 1.0].
+   */
+  readonly alpha: number;
+
+  /**
+   * The position of the swatch in the image.
+   */
+  readonly position: {
+    readonly x: number;
+    readonly y: number;
+  };
+
+  /**
+   * The population of the swatch.
+   */
+  readonly population: number;
+};
+
+/**
+ * ExtractionResponse type represents a message sent from a worker after extracting swatches.
+ */
+export type ExtractionResponse =
+  | {
+      readonly type: 'success';
+      readonly id: number;
+      readonly swatches: SwatchData[];
+    }
+  | {
+      readonly type: 'failure';
+      readonly id: number;
+      readonly message: string;
+    };
@@ -0,0 +1,336 @@
+import { ArrayQueue, assertPositiveInteger } from '../utils';
+import { isBrowser, isWebWorker } from '../utils/browser';
+import type { ExtractionRequest, ExtractionResponse, SwatchData } from './message';
+
+/**
+ * WorkerHandle interface represents a worker running the extraction script.
+ *
+ * The interface abstracts the difference between the Web Worker API and the Node.js worker_threads API.
+ */
+export interface WorkerHandle {
+  /**
+   * Send the request to the worker.
+   *
+   * @param request - The request to send.
+   * @param transfer - The objects to transfer to the worker.
+   */
+  postMessage(request: ExtractionRequest, transfer: ArrayBuffer[]): void;
+
+  /**
+   * Set the listeners to receive the response or the error from the worker.
+   *
+   * @param onMessage - The listener to receive the response.
+   * @param onError - The listener to receive the error, including the exit of the worker.
+   */
+  listen(onMessage: (response: ExtractionResponse) => void, onError: (error: Error) => void): void;
+
+  /**
+   * Terminate the worker.
+   */
+  terminate(): void;
+}
+
+/**
+ * WorkerFactory type represents a function that creates a new worker.
+ *
+ * @returns A promise that resolves to the new worker.
+ */
+export type WorkerFactory = () => Promise<WorkerHandle>;
+
+/**
+ * The path of the worker script relative to the bundled library.
+ */
+const WORKER_SCRIPT = './palette.worker.mjs';
+
+/**
+ * The default maximum number of workers used when the hardware concurrency is unknown.
+ */
+const DEFAULT_MAX_WORKERS = 2;
+
+type Task = {
+  readonly request: Omit<ExtractionRequest, 'id'>;
+  readonly resolve: (swatches: SwatchData[]) => void;
+  readonly reject: (reason: unknown) => void;
+  readonly signal?: AbortSignal;
+  settled: boolean;
+};
+
+/**
+ * WorkerPool class manages reusable workers to extract swatches off the calling thread.
+ */
+export class WorkerPool {
+  private readonly idleWorkers: WorkerHandle[] = [];
+  private readonly busyWorkers = new Map<WorkerHandle, Task>();
+  private readonly pendingTasks = new ArrayQueue<Task>();
+  private workerCount = 0;
+  private nextId = 0;
+  private terminated = false;
+
+  /**
+   * Create a new WorkerPool instance.
+   *
+   * @param maxWorkers - The maximum number of workers. Default is the number of logical processors minus one.
+   * @param factory - The factory function to create a new worker.
+   * @throws {AssertionError} If the maximum number of workers is not a positive integer.
+   */
+  constructor(
+    private readonly maxWorkers: number = defaultMaxWorkers(),
+    private readonly factory: WorkerFactory = createWorker,
+  ) {
+    assertPositiveInteger(maxWorkers, `The maximum number of workers must be a positive integer: ${maxWorkers}`);
+  }
+
+  /**
+   * Run the extraction request on a worker in the pool.
+   *
+   * The buffer of the given data is transferred to the worker and is no longer usable on the calling thread.
+   *
+   * @param request - The extraction request.
+   * @param signal - The signal to abort the extraction.
+   * @returns A promise that resolves to the extracted swatches.
+   * @throws {Error} If the pool has been terminated.
+   */
+  run(request: Omit<ExtractionRequest, 'id'>, signal?: AbortSignal): Promise<SwatchData[]> {
+    if (this.terminated) {
+      return Promise.reject(new Error('The worker pool has been terminated'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    return new Promise<SwatchData[]>((resolve, reject) => {
+      // Reject the task immediately if it is aborted while waiting for an available worker.
+      const onAbort = () => WorkerPool.settle(task, () => reject(signal?.reason));
+      const task: Task = {
+        request,
+        resolve: (swatches: SwatchData[]) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(swatches);
+        },
+        reject: (reason: unknown) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(reason);
+        },
+        signal,
+        settled: false,
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pendingTasks.push(task);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Terminate all workers in the pool and reject running and pending tasks.
+   */
+  terminate(): void {
+    this.terminated = true;
+    const tasks = [...this.busyWorkers.values(), ...this.pendingTasks.toArray()];
+    for (const task of tasks) {
+      WorkerPool.settle(task, () => task.reject(new Error('The worker pool has been terminated')));
+    }
+    while (!this.pendingTasks.isEmpty()) {
+      this.pendingTasks.pop();
+    }
+
+    const workers = [...this.busyWorkers.keys(), ...this.idleWorkers.splice(0)];
+    this.busyWorkers.clear();
+    this.workerCount = 0;
+    for (const worker of workers) {
+      worker.terminate();
+    }
+  }
+
+  /**
+   * Dispatch pending tasks to available workers.
+   */
+  private dispatch(): void {
+    while (!this.pendingTasks.isEmpty()) {
+      const task = this.pendingTasks.peek();
+      if (task === undefined || task.settled) {
+        this.pendingTasks.pop();
+        continue;
+      }
+
+      const worker = this.idleWorkers.pop();
+      if (worker) {
+        this.pendingTasks.pop();
+        this.execute(worker, task);
+        continue;
+      }
+
+      if (this.workerCount >= this.maxWorkers) {
+        return;
+      }
+      this.workerCount++;
+      this.factory().then(
+        (created: WorkerHandle) => {
+          if (this.terminated) {
+            created.terminate();
+            return;
+          }
+          this.release(created);
+        },
+        (error: unknown) => {
+          this.workerCount--;
+          // Reject all the pending tasks, since the worker cannot be created for any of them.
+          while (!this.pendingTasks.isEmpty()) {
+            const pending = this.pendingTasks.pop();
+            if (pending) {
+              WorkerPool.settle(pending, () => pending.reject(error));
+            }
+          }
+        },
+      );
+      return;
+    }
+  }
+
+  /**
+   * Execute the task on the given worker.
+   *
+   * @param worker - The worker to execute the task on.
+   * @param task - The task to execute.
+   */
+  private execute(worker: WorkerHandle, task: Task): void {
+    const id = this.nextId++;
+    const onAbort = () => this.discard(worker);
+    this.busyWorkers.set(worker, task);
+    task.signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.listen(
+      (response: ExtractionResponse) => {
+        if (response.id !== id) {
+          return;
+        }
+        task.signal?.removeEventListener('abort', onAbort);
+        WorkerPool.settle(task, () => {
+          if (response.type === 'success') {
+            task.resolve(response.swatches);
+          } else {
+            task.reject(new Error(response.message));
+          }
+        });
+        this.release(worker);
+      },
+      (error: Error) => {
+        task.signal?.removeEventListener('abort', onAbort);
+        WorkerPool.settle(task, () => task.reject(error));
+        this.discard(worker);
+      },
+    );
+    worker.postMessage({ id, ...task.request }, [task.request.data.buffer]);
+  }
+
+  /**
+   * Return the given worker to the pool.
+   *
+   * @param worker - The worker to return.
+   */
+  private release(worker: WorkerHandle): void {
+    if (this.terminated) {
+      worker.terminate();
+      return;
+    }
+    this.busyWorkers.delete(worker);
+    this.idleWorkers.push(worker);
+    this.dispatch();
+  }
+
+  /**
+   * Terminate the given worker and remove it from the pool.
+   * The worker already removed is ignored, since a dead worker may report both an error and its exit.
+   *
+   * @param worker - The worker to terminate.
+   */
+  private discard(worker: WorkerHandle): void {
+    if (this.terminated) {
+      return;
+    }
+    const index = this.idleWorkers.indexOf(worker);
+    if (index >= 0) {
+      this.idleWorkers.splice(index, 1);
+    } else if (!this.busyWorkers.delete(worker)) {
+      return;
+    }
+    this.workerCount--;
+    worker.terminate();
+    this.dispatch();
+  }
+
+  private static settle(task: Task, callback: () => void): void {
+    if (task.settled) {
+      return;
+    }
+    task.settled = true;
+    callback();
+  }
+}
+
+let defaultWorkerPool: WorkerPool | null = null;
+
+/**
+ * Retrieve the default WorkerPool instance shared across extractions.
+ *
+ * @returns The default WorkerPool instance.
+ */
+export function retrieveWorkerPool(): WorkerPool {
+  if (!defaultWorkerPool) {
+    defaultWorkerPool = new WorkerPool();
+  }
+  return defaultWorkerPool;
+}
+
+function defaultMaxWorkers(): number {
+  const concurrency = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : undefined;
+  if (!concurrency) {
+    return DEFAULT_MAX_WORKERS;
+  }
+  return Math.max(1, concurrency - 1);
+}
+
+/**
+ * Create a new worker running the bundled worker script.
+ *
+ * @returns A promise that resolves to the new worker.
+ */
+async function createWorker(): Promise<WorkerHandle> {
+  const url = new URL(WORKER_SCRIPT, import.meta.url);
+  if (isBrowser() || isWebWorker()) {
+    const worker = new Worker(url, { type: 'module' });
+    return {
+      postMessage: (request, transfer) => worker.postMessage(request, transfer),
+      listen: (onMessage, onError) => {
+        worker.onmessage = (event: MessageEvent<ExtractionResponse>) => onMessage(event.data);
+        worker.onerror = (event: ErrorEvent) => onError(new Error(event.message));
+      },
+      terminate: () => worker.terminate(),
+    };
+  }
+
+  const { Worker: NodeWorker } = await import('node:worker_threads');
+  const worker = new NodeWorker(url);
+  // Allow the process to exit while the worker is idle.
+  worker.unref();
+  return {
+    postMessage: (request, transfer) => {
+      worker.ref();
+      worker.postMessage(request, transfer);
+    },
+    listen: (onMessage, onError) => {
+      worker.removeAllListeners('message');
+      worker.removeAllListeners('error');
+      worker.removeAllListeners('exit');
+      worker.on('message', (response: ExtractionResponse) => {
+        worker.unref();
+        onMessage(response);
+      });
+      worker.on('error', onError);
+      // The worker may exit without any error, such as process.exit() or running out of memory.
+      worker.on('exit', (code: number) => onError(new Error(`The worker exited with the code ${code}`)));
+    },
+    terminate: () => {
+      worker.terminate();
+    },
+  };
+}
@@ -0,0 +1,242 @@
+import {
+  createAlgorithm,
+  isBuiltinAlgorithm,
+  isClusteringAlgorithm,
+  registerAlgorithm,
+  resolveAlgorithmName,
+  unregisterAlgorithm,
+} from '@internal/algorithm';
+import { Cluster, type ClusteringAlgorithm, DBSCAN, Kmeans, MedianCut, Octree, type Point5, Wu } from '@internal/math';
+import { AssertionError } from '@internal/utils';
+import { afterEach, describe, expect, it } from 'vitest';
+
+class SingleClusterAlgorithm implements ClusteringAlgorithm<Point5> {
+  fit(points: Point5[]): Cluster<Point5>[] {
+    const cluster = new Cluster<Point5>(points[0]);
+    points.forEach((point, index) => cluster.addMember(index, point));
+    return [cluster];
+  }
+}
+
+const points: Point5[] = [
+  [0.1, 0.1, 0.1, 0.0, 0.0],
+  [0.1, 0.1, 0.2, 0.0, 0.1],
+  [0.5, 0.5, 0.5, 0.5, 0.5],
+  [0.5, 0.6, 0.5, 0.5, 0.6],
+  [0.9, 0.9, 0.9, 1.0, 1.0],
+  [0.9, 0.9, 0.8, 1.0, 0.9],
+];
+
+describe('algorithm', () => {
+  afterEach(() => {
+    unregisterAlgorithm('single');
+  });
+
+  describe('createAlgorithm', () => {
+    it.each([
+      { option: 'dbscan', expected: DBSCAN },
+      { option: 'kmeans', expected: Kmeans },
+      { option: 'median-cut', expected: MedianCut },
+      { option: 'octree', expected: Octree },
+      { option: 'wu', expected: Wu },
+      { option: { name: 'dbscan', params: { minPoints: 1, epsilon: 0.01 } }, expected: DBSCAN },
+      { option: { name: 'kmeans', params: { k: 2 } }, expected: Kmeans },
+      { option: { name: 'median-cut', params: { maxColors: 2 } }, expected: MedianCut },
+      { option: { name: 'octree', params: { maxColors: 2 } }, expected: Octree },
+      { option: { name: 'wu', params: { maxColors: 2 } }, expected: Wu },
+    ])('should create the built-in algorithm from the option($option)', ({ option, expected }) => {
+      // Act
+      const actual = createAlgorithm(option);
+
+      // Assert
+      expect(actual).toBeInstanceOf(expected);
+    });
+
+    it('should create the algorithm with the given parameters', () => {
+      // Act
+      const actual = createAlgorithm({ name: 'kmeans', params: { k: 3, maxIterations: 20, tolerance: 0.0 } });
+
+      // Assert
+      expect(actual.fit(points)).toBeArrayOfSize(3);
+    });
+
+    it.each(['median-cut', 'octree', 'wu', 'celebi'])(
+      'should create the quantizer(%s) with the maximum number of colors',
+      (name) => {
+        // Act
+        const actual = createAlgorithm({ name, params: { maxColors: 2 } });
+
+        // Assert
+        expect(actual.fit(points)).toBeArrayOfSize(2);
+      },
+    );
+
+    it('should create the Wu-seeded k-means that gives the same clusters for the same points', () => {
+      // Arrange
+      const algorithm = createAlgorithm({ name: 'celebi', params: { maxColors: 3, maxIterations: 5 } });
+
+      // Act
+      const actual = algorithm.fit(points);
+
+      // Assert
+      const memberships = actual.map((cluster) => [...cluster.getMemberships()].sort());
+      expect(memberships).toIncludeSameMembers([
+        [0, 1],
+        [2, 3],
+        [4, 5],
+      ]);
+      expect(algorithm.fit(points).map((cluster) => cluster.getCentroid())).toEqual(
+        actual.map((cluster) => cluster.getCentroid()),
+      );
+    });
+
+    it('should return the instance of the clustering algorithm as it is', () => {
+      // Arrange
+      const algorithm = new SingleClusterAlgorithm();
+
+      // Act
+      const actual = createAlgorithm(algorithm);
+
+      // Assert
+      expect(actual).toBe(algorithm);
+    });
+
+    it('should create the registered algorithm with the given parameters', () => {
+      // Arrange
+      const params: unknown[] = [];
+      registerAlgorithm('single', (value) => {
+        params.push(value);
+        return new SingleClusterAlgorithm();
+      });
+
+      // Act
+      const actual = createAlgorithm({ name: 'single', params: { k: 4 } });
+
+      // Assert
+      expect(actual).toBeInstanceOf(SingleClusterAlgorithm);
+      expect(params).toEqual([{ k: 4 }]);
+    });
+
+    it.each(['unknown', { name: 'toString' }])(
+      'should throw an AssertionError if the algorithm(%o) is unknown',
+      (option) => {
+        // Assert
+        expect(() => {
+          // Act
+          createAlgorithm(option);
+        }).toThrowError(AssertionError);
+      },
+    );
+
+    it.each([
+      { name: 'kmeans', params: { k: 0 } },
+      { name: 'kmeans', params: { maxIterations: Number.NaN } },
+      { name: 'dbscan', params: { minPoints: 0 } },
+      { name: 'dbscan', params: { epsilon: -1 } },
+      { name: 'median-cut', params: { maxColors: 0 } },
+      { name: 'octree', params: { maxColors: 1.5 } },
+      { name: 'wu', params: { maxColors: 0 } },
+      { name: 'celebi', params: { tolerance: -1 } },
+    ])('should throw an AssertionError if the parameters($params) are invalid', (option) => {
+      // Assert
+      expect(() => {
+        // Act
+        createAlgorithm(option);
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('registerAlgorithm', () => {
+    it('should replace the algorithm registered earlier with the same name', () => {
+      // Arrange
+      registerAlgorithm('single', () => createAlgorithm('dbscan'));
+
+      // Act
+      registerAlgorithm('single', () => new SingleClusterAlgorithm());
+
+      // Assert
+      expect(createAlgorithm('single')).toBeInstanceOf(SingleClusterAlgorithm);
+    });
+
+    it.each(['', 'dbscan', 'kmeans', 'median-cut', 'octree', 'wu', 'celebi', 'custom'])(
+      'should throw an AssertionError if the name(%s) is invalid',
+      (name) => {
+        // Assert
+        expect(() => {
+          // Act
+          registerAlgorithm(name, () => new SingleClusterAlgorithm());
+        }).toThrowError(AssertionError);
+      },
+    );
+  });
+
+  describe('unregisterAlgorithm', () => {
+    it('should unregister the registered algorithm', () => {
+      // Arrange
+      registerAlgorithm('single', () => new SingleClusterAlgorithm());
+
+      // Act
+      const actual = unregisterAlgorithm('single');
+
+      // Assert
+      expect(actual).toBeTruthy();
+      expect(() => createAlgorithm('single')).toThrowError(AssertionError);
+    });
+
+    it.each(['single', 'dbscan'])('should return false if the algorithm(%s) is not registered', (name) => {
+      // Act
+      const actual = unregisterAlgorithm(name);
+
+      // Assert
+      expect(actual).toBeFalsy();
+    });
+  });
+
+  describe('resolveAlgorithmName', () => {
+    it.each([
+      { option: 'dbscan', expected: 'dbscan' },
+      { option: { name: 'kmeans', params: { k: 8 } }, expected: 'kmeans' },
+      { option: new SingleClusterAlgorithm(), expected: 'custom' },
+    ])('should return $expected for the option($option)', ({ option, expected }) => {
+      // Act
+      const actual = resolveAlgorithmName(option);
+
+      // Assert
+      expect(actual).toBe(expected);
+    });
+  });
+
+  describe('isBuiltinAlgorithm', () => {
+    it.each([
+      { option: 'wu', expected: true },
+      { option: { name: 'kmeans', params: { k: 8 } }, expected: true },
+      { option: 'single', expected: false },
+      { option: 'unknown', expected: false },
+      { option: new SingleClusterAlgorithm(), expected: false },
+    ])('should return $expected for the option($option)', ({ option, expected }) => {
+      // Arrange
+      registerAlgorithm('single', () => new SingleClusterAlgorithm());
+
+      // Act
+      const actual = isBuiltinAlgorithm(option);
+
+      // Assert
+      expect(actual).toBe(expected);
+    });
+  });
+
+  describe('isClusteringAlgorithm', () => {
+    it.each([
+      { option: 'kmeans', expected: false },
+      { option: { name: 'kmeans' }, expected: false },
+      { option: new SingleClusterAlgorithm(), expected: true },
+      { option: { fit: () => [] }, expected: true },
+    ])('should return $expected for the option($option)', ({ option, expected }) => {
+      // Act
+      const actual = isClusteringAlgorithm(option);
+
+      // Assert
+      expect(actual).toBe(expected);
+    });
+  });
+});
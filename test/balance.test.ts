@@ -0,0 +1,115 @@
+import { estimateIlluminant } from '@internal/balance';
+import { resolveWhitePoint } from '@internal/color/adaptation';
+import { XYZSpace } from '@internal/color/space';
+import type { RGB } from '@internal/color/types';
+import { AssertionError } from '@internal/utils';
+import { Color } from 'auto-palette';
+import { describe, expect, it } from 'vitest';
+
+describe('balance', () => {
+  describe('estimateIlluminant', () => {
+    it.each(['gray-world', 'white-patch', 'shades-of-gray'] as const)(
+      'should estimate the illuminant of the gray tinted by the light(%s)',
+      (method) => {
+        // Arrange
+        const tinted = Color.fromString('#808080').adapt('D65', 'A').toRGB();
+        const imageData = createImageData([tinted, tinted, tinted, tinted]);
+
+        // Act
+        const actual = estimateIlluminant(imageData, method, 'srgb');
+
+        // Assert
+        const expected = resolveWhitePoint('A');
+        expect(actual.x).toBeCloseTo(expected.x, 2);
+        expect(actual.y).toBe(1.0);
+        expect(actual.z).toBeCloseTo(expected.z, 2);
+      },
+    );
+
+    it('should estimate the illuminant from the brightest components with the white patch method', () => {
+      // Arrange
+      const imageData = createImageData([
+        { r: 255, g: 0, b: 0 },
+        { r: 255, g: 0, b: 0 },
+        { r: 255, g: 0, b: 0 },
+        { r: 255, g: 255, b: 255 },
+      ]);
+
+      // Act
+      const whitePatch = estimateIlluminant(imageData, 'white-patch', 'srgb');
+      const grayWorld = estimateIlluminant(imageData, 'gray-world', 'srgb');
+      const shadesOfGray = estimateIlluminant(imageData, 'shades-of-gray', 'srgb');
+
+      // Assert
+      expect(whitePatch.x).toBeCloseTo(XYZSpace.D65.x, 3);
+      expect(whitePatch.z).toBeCloseTo(XYZSpace.D65.z, 3);
+      // The red pixels pull the average toward red, and the higher norm weights the white pixel more.
+      expect(grayWorld.x).toBeGreaterThan(shadesOfGray.x);
+      expect(shadesOfGray.x).toBeGreaterThan(whitePatch.x);
+    });
+
+    it('should ignore the fully transparent pixels', () => {
+      // Arrange
+      const imageData = createImageData([
+        { r: 128, g: 128, b: 128 },
+        { r: 255, g: 0, b: 0 },
+      ]);
+      imageData.data[7] = 0;
+
+      // Act
+      const actual = estimateIlluminant(imageData, 'gray-world', 'srgb');
+
+      // Assert
+      expect(actual.x).toBeCloseTo(XYZSpace.D65.x, 3);
+      expect(actual.z).toBeCloseTo(XYZSpace.D65.z, 3);
+    });
+
+    it.each([
+      { pixels: [], description: 'no pixels' },
+      { pixels: [{ r: 255, g: 0, b: 0 }], description: 'no green and blue components' },
+      { pixels: [{ r: 0, g: 0, b: 0 }], description: 'only black pixels' },
+    ])('should return D65 if the image has $description', ({ pixels }) => {
+      // Arrange
+      const imageData = createImageData(pixels);
+
+      // Act
+      const actual = estimateIlluminant(imageData, 'gray-world', 'srgb');
+
+      // Assert
+      expect(actual).toEqual(XYZSpace.D65);
+    });
+
+    it('should decode the pixels with the transfer function of the color space', () => {
+      // Arrange
+      const tinted = Color.fromString('#808080').adapt('D65', 'D50').toRGB('display-p3');
+      const imageData = createImageData([tinted]);
+
+      // Act
+      const actual = estimateIlluminant(imageData, 'gray-world', 'display-p3');
+
+      // Assert
+      const expected = resolveWhitePoint('D50');
+      expect(actual.x).toBeCloseTo(expected.x, 2);
+      expect(actual.z).toBeCloseTo(expected.z, 2);
+    });
+
+    it('should throw an AssertionError if the method is unknown', () => {
+      // Arrange
+      const imageData = createImageData([{ r: 128, g: 128, b: 128 }]);
+
+      // Assert
+      expect(() => {
+        // Act
+        estimateIlluminant(imageData, 'retinex' as 'gray-world', 'srgb');
+      }).toThrowError(AssertionError);
+    });
+  });
+});
+
+function createImageData(pixels: RGB[]): ImageData {
+  const data = new Uint8ClampedArray(pixels.length * 4);
+  pixels.forEach(({ r, g, b }, index) => {
+    data.set([r, g, b, 255], index * 4);
+  });
+  return { colorSpace: 'srgb', width: pixels.length, height: 1, data };
+}
@@ -0,0 +1,117 @@
+import { createAdaptation, resolveWhitePoint } from '@internal/color/adaptation';
+import { XYZSpace } from '@internal/color/space';
+import type { XYZ } from '@internal/color/types';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+describe('adaptation', () => {
+  describe('resolveWhitePoint', () => {
+    it.each([
+      { whitePoint: 'A', expected: { x: 1.0985, y: 1.0, z: 0.35585 } },
+      { whitePoint: 'D50', expected: { x: 0.96422, y: 1.0, z: 0.82521 } },
+      { whitePoint: 'D65', expected: { x: 0.95047, y: 1.0, z: 1.08883 } },
+      { whitePoint: 'E', expected: { x: 1.0, y: 1.0, z: 1.0 } },
+      { whitePoint: 'F11', expected: { x: 1.00966, y: 1.0, z: 0.6437 } },
+    ] as const)('should resolve the illuminant($whitePoint) to $expected', ({ whitePoint, expected }) => {
+      // Act
+      const actual = resolveWhitePoint(whitePoint);
+
+      // Assert
+      expect(actual).toEqual(expected);
+    });
+
+    it('should normalize the custom white point so that the y component is 1.0', () => {
+      // Act
+      const actual = resolveWhitePoint({ x: 95.047, y: 100, z: 108.883 });
+
+      // Assert
+      expect(actual.x).toBeCloseTo(0.95047, 6);
+      expect(actual.y).toBe(1.0);
+      expect(actual.z).toBeCloseTo(1.08883, 6);
+    });
+
+    it.each([
+      { whitePoint: 'D93' },
+      { whitePoint: { x: 0.95, y: 0.0, z: 1.08 } },
+      { whitePoint: { x: -0.95, y: 1.0, z: 1.08 } },
+      { whitePoint: { x: Number.NaN, y: 1.0, z: 1.08 } },
+    ])('should throw an AssertionError if the white point($whitePoint) is invalid', ({ whitePoint }) => {
+      // Assert
+      expect(() => {
+        // Act
+        resolveWhitePoint(whitePoint as XYZ);
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('createAdaptation', () => {
+    it.each(['bradford', 'cat02', 'von-kries'] as const)(
+      'should adapt the source white to the destination(%s)',
+      (method) => {
+        // Arrange
+        const source = resolveWhitePoint('A');
+        const destination = resolveWhitePoint('D65');
+
+        // Act
+        const actual = createAdaptation(source, destination, method)(source);
+
+        // Assert
+        expect(actual.x).toBeCloseTo(destination.x, 5);
+        expect(actual.y).toBeCloseTo(destination.y, 5);
+        expect(actual.z).toBeCloseTo(destination.z, 5);
+      },
+    );
+
+    it.each(['bradford', 'cat02', 'von-kries'] as const)(
+      'should not change the color between the same whites(%s)',
+      (method) => {
+        // Arrange
+        const xyz = { x: 0.4124, y: 0.2126, z: 0.0193 };
+
+        // Act
+        const actual = createAdaptation(XYZSpace.D65, XYZSpace.D65, method)(xyz);
+
+        // Assert
+        expect(actual.x).toBeCloseTo(xyz.x, 6);
+        expect(actual.y).toBeCloseTo(xyz.y, 6);
+        expect(actual.z).toBeCloseTo(xyz.z, 6);
+      },
+    );
+
+    it('should adapt the sRGB red from D65 to D50 with the Bradford transform', () => {
+      // Arrange
+      const adaptation = createAdaptation(resolveWhitePoint('D65'), resolveWhitePoint('D50'), 'bradford');
+
+      // Act
+      const actual = adaptation(XYZSpace.fromRGB({ r: 255, g: 0, b: 0 }));
+
+      // Assert
+      expect(actual.x).toBeCloseTo(0.4361, 3);
+      expect(actual.y).toBeCloseTo(0.2225, 3);
+      expect(actual.z).toBeCloseTo(0.0139, 3);
+    });
+
+    it('should be inverted by the adaptation in the opposite direction', () => {
+      // Arrange
+      const forward = createAdaptation(resolveWhitePoint('D65'), resolveWhitePoint('F2'), 'cat02');
+      const backward = createAdaptation(resolveWhitePoint('F2'), resolveWhitePoint('D65'), 'cat02');
+      const xyz = { x: 0.3, y: 0.5, z: 0.2 };
+
+      // Act
+      const actual = backward(forward(xyz));
+
+      // Assert
+      expect(actual.x).toBeCloseTo(xyz.x, 6);
+      expect(actual.y).toBeCloseTo(xyz.y, 6);
+      expect(actual.z).toBeCloseTo(xyz.z, 6);
+    });
+
+    it('should throw an AssertionError if the method is unknown', () => {
+      // Assert
+      expect(() => {
+        // Act
+        createAdaptation(XYZSpace.D65, XYZSpace.D65, 'cat16' as 'cat02');
+      }).toThrowError(AssertionError);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { apcaContrast, contrastRatio, relativeLuminance } from '@internal/color/contrast';
+import { describe, expect, it } from 'vitest';
+
+describe('contrast', () => {
+  describe('relativeLuminance', () => {
+    it.each([
+      { rgb: { r: 0, g: 0, b: 0 }, expected: 0.0 },
+      { rgb: { r: 255, g: 255, b: 255 }, expected: 1.0 },
+      { rgb: { r: 255, g: 0, b: 0 }, expected: 0.2126 },
+      { rgb: { r: 0, g: 255, b: 0 }, expected: 0.7152 },
+      { rgb: { r: 0, g: 0, b: 255 }, expected: 0.0722 },
+      { rgb: { r: 128, g: 128, b: 128 }, expected: 0.2159 },
+    ])('should calculate the relative luminance of $rgb', ({ rgb, expected }) => {
+      // Act
+      const actual = relativeLuminance(rgb);
+
+      // Assert
+      expect(actual).toBeCloseTo(expected, 4);
+    });
+  });
+
+  describe('contrastRatio', () => {
+    it.each([
+      { luminance1: 1.0, luminance2: 0.0, expected: 21.0 },
+      { luminance1: 0.0, luminance2: 1.0, expected: 21.0 },
+      { luminance1: 0.5, luminance2: 0.5, expected: 1.0 },
+      { luminance1: 0.2159, luminance2: 1.0, expected: 3.9489 },
+    ])(
+      'should calculate the contrast ratio between $luminance1 and $luminance2',
+      ({ luminance1, luminance2, expected }) => {
+        // Act
+        const actual = contrastRatio(luminance1, luminance2);
+
+        // Assert
+        expect(actual).toBeCloseTo(expected, 4);
+      },
+    );
+  });
+
+  describe('apcaContrast', () => {
+    it.each([
+      { text: { r: 0, g: 0, b: 0 }, background: { r: 255, g: 255, b: 255 }, expected: 106.04 },
+      { text: { r: 255, g: 255, b: 255 }, background: { r: 0, g: 0, b: 0 }, expected: -107.88 },
+      { text: { r: 136, g: 136, b: 136 }, background: { r: 255, g: 255, b: 255 }, expected: 63.06 },
+      { text: { r: 255, g: 255, b: 255 }, background: { r: 136, g: 136, b: 136 }, expected: -68.54 },
+    ])('should calculate the lightness contrast of $text on $background', ({ text, background, expected }) => {
+      // Act
+      const actual = apcaContrast(text, background);
+
+      // Assert
+      expect(actual).toBeCloseTo(expected, 1);
+    });
+
+    it.each([
+      { text: { r: 128, g: 128, b: 128 }, background: { r: 128, g: 128, b: 128 } },
+      { text: { r: 250, g: 250, b: 250 }, background: { r: 255, g: 255, b: 255 } },
+    ])('should return 0 if the contrast of $text on $background is too low', ({ text, background }) => {
+      // Act
+      const actual = apcaContrast(text, background);
+
+      // Assert
+      expect(actual).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { Color, type ColorFormat } from '@internal/color';
+import { formatColor, parseColor } from '@internal/color/css';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+describe('css', () => {
+  describe('parseColor', () => {
+    it.each([
+      { value: '#F42222', expected: '#F42222', alpha: 1 },
+      { value: '#f42222', expected: '#F42222', alpha: 1 },
+      { value: '#F00', expected: '#FF0000', alpha: 1 },
+      { value: '#F008', expected: '#FF0000', alpha: 0x88 / 255 },
+      { value: '#00794480', expected: '#007944', alpha: 0x80 / 255 },
+      { value: 'SeaGreen', expected: '#2E8B57', alpha: 1 },
+      { value: 'navy', expected: '#000080', alpha: 1 },
+      { value: 'transparent', expected: '#000000', alpha: 0 },
+      { value: 'rgb(244 34 34)', expected: '#F42222', alpha: 1 },
+      { value: 'rgb(244, 34, 34)', expected: '#F42222', alpha: 1 },
+      { value: 'rgba(244, 34, 34, 0.5)', expected: '#F42222', alpha: 0.5 },
+      { value: 'rgb(100% 0% 50% / 25%)', expected: '#FF0080', alpha: 0.25 },
+      { value: 'rgb(none 128 255)', expected: '#0080FF', alpha: 1 },
+      { value: '  RGB( 0 121 68 )  ', expected: '#007944', alpha: 1 },
+      { value: 'hsl(0 90.2% 54.5%)', expected: '#F42222', alpha: 1 },
+      { value: 'hsla(120, 100%, 25%, 0.3)', expected: '#008000', alpha: 0.3 },
+      { value: 'hsl(0.5turn 100% 50%)', expected: '#00FFFF', alpha: 1 },
+      { value: 'hsl(3.14159rad 100% 50%)', expected: '#00FFFF', alpha: 1 },
+      { value: 'hsl(200grad 100% 50%)', expected: '#00FFFF', alpha: 1 },
+      { value: 'hwb(240 0% 0%)', expected: '#0000FF', alpha: 1 },
+      { value: 'hwb(0 40% 60% / 0.8)', expected: '#666666', alpha: 0.8 },
+      { value: 'lab(53.24 80.09 67.2)', expected: '#FF0000', alpha: 1 },
+      { value: 'lab(53.24% 64.07% 53.76%)', expected: '#FF0000', alpha: 1 },
+      { value: 'lch(53.24 104.55 40)', expected: '#FF0000', alpha: 1 },
+      { value: 'lch(32.3 133.81 306.28deg)', expected: '#0000FF', alpha: 1 },
+      { value: 'oklab(0.628 0.2248 0.1258)', expected: '#FF0000', alpha: 1 },
+      { value: 'oklab(62.8% 56.2% 31.45%)', expected: '#FF0000', alpha: 1 },
+      { value: 'oklch(0.628 0.2577 29.23)', expected: '#FF0000', alpha: 1 },
+      { value: 'oklch(45.2% 0.3133 264.06 / 50%)', expected: '#0000FF', alpha: 0.5 },
+      { value: 'color(srgb 1 0 0)', expected: '#FF0000', alpha: 1 },
+      { value: 'color(srgb 0% 47.45% 26.67% / 0.5)', expected: '#007944', alpha: 0.5 },
+      { value: 'color(display-p3 0.9175 0.2003 0.1386)', expected: '#FF0000', alpha: 1 },
+      { value: 'color(display-p3 20.27% 46.71% 28.6% / 0.5)', expected: '#007944', alpha: 0.5 },
+      { value: 'color(a98-rgb 0.8587 0 0)', expected: '#FF0000', alpha: 1 },
+      { value: 'color(rec2020 0.792 0.231 0.0738)', expected: '#FF0000', alpha: 1 },
+    ])('should parse the CSS color string($value)', ({ value, expected, alpha }) => {
+      // Act
+      const actual = parseColor(value);
+
+      // Assert
+      expect(Color.fromLAB(actual.lab).toString()).toBe(expected);
+      expect(actual.alpha).toBeCloseTo(alpha, 6);
+    });
+
+    it.each([
+      { value: 'rgb(0 0 0 / 2)', alpha: 1 },
+      { value: 'rgb(0 0 0 / -1)', alpha: 0 },
+    ])('should clamp the alpha of the CSS color string($value)', ({ value, alpha }) => {
+      // Act
+      const actual = parseColor(value);
+
+      // Assert
+      expect(actual.alpha).toBe(alpha);
+    });
+
+    it.each([
+      { value: '#F4222', message: 'The value(#F4222) is not a valid hexadecimal color string' },
+      { value: '#GGGGGG', message: 'The value(#GGGGGG) is not a valid hexadecimal color string' },
+      { value: 'unknown', message: 'The value(unknown) is not a valid CSS color string' },
+      { value: '', message: 'The value() is not a valid CSS color string' },
+      { value: 'rgb(0 0 0', message: 'The value(rgb(0 0 0) is not a valid CSS color string' },
+      { value: 'cmyk(0 0 0)', message: 'Unsupported color function(cmyk) in the value(cmyk(0 0 0))' },
+      {
+        value: 'constructor(0 0 0)',
+        message: 'Unsupported color function(constructor) in the value(constructor(0 0 0))',
+      },
+      { value: 'lab(0, 0, 0)', message: 'The function(lab) does not accept commas in the value(lab(0, 0, 0))' },
+      { value: 'rgb(0 0)', message: 'The function(rgb) requires 3 components in the value(rgb(0 0)): 2' },
+      { value: 'rgb(0 0 0 0)', message: 'The function(rgb) requires 3 components in the value(rgb(0 0 0 0)): 4' },
+      { value: 'rgb(0 0 0 /)', message: 'The alpha is malformed in the value(rgb(0 0 0 /))' },
+      { value: 'rgb(0 0 0 / 1 / 1)', message: 'The alpha is malformed in the value(rgb(0 0 0 / 1 / 1))' },
+      { value: 'rgb(0 0 red)', message: 'Invalid component(red) in the value(rgb(0 0 red))' },
+      { value: 'rgb(0 0 1deg)', message: 'Invalid component(1deg) in the value(rgb(0 0 1deg))' },
+      { value: 'hsl(10% 50% 50%)', message: 'Invalid hue(10%) in the value(hsl(10% 50% 50%))' },
+      {
+        value: 'color(prophoto-rgb 1 0 0)',
+        message: 'Unsupported color space(prophoto-rgb) in the value(color(prophoto-rgb 1 0 0))',
+      },
+    ])('should throw an AssertionError if the value($value) is invalid', ({ value, message }) => {
+      // Act & Assert
+      expect(() => parseColor(value)).toThrowError(new AssertionError(message));
+    });
+  });
+
+  describe('formatColor', () => {
+    const lab = Color.fromString('#F42222').toLAB();
+
+    it.each([
+      { format: 'hex', expected: '#F42222' },
+      { format: 'rgb', expected: 'rgb(244 34 34)' },
+      { format: 'hsl', expected: 'hsl(0 90.52% 54.51%)' },
+      { format: 'hwb', expected: 'hwb(0 13.33% 4.31%)' },
+      { format: 'lab', expected: expect.stringMatching(/^lab\([\d.]+ [\d.]+ [\d.]+\)$/) },
+      { format: 'lch', expected: expect.stringMatching(/^lch\([\d.]+ [\d.]+ [\d.]+\)$/) },
+      { format: 'oklab', expected: expect.stringMatching(/^oklab\(0\.\d{1,4} 0\.\d{1,4} 0\.\d{1,4}\)$/) },
+      { format: 'oklch', expected: expect.stringMatching(/^oklch\(0\.\d{1,4} 0\.\d{1,4} [\d.]+\)$/) },
+      { format: 'display-p3', expected: 'color(display-p3 0.8792 0.2361 0.1937)' },
+      { format: 'a98-rgb', expected: 'color(a98-rgb 0.823 0.1525 0.1525)' },
+      { format: 'rec2020', expected: 'color(rec2020 0.7567 0.2483 0.1295)' },
+    ])('should format the color in the $format format', ({ format, expected }) => {
+      // Act
+      const actual = formatColor(lab, format as ColorFormat);
+
+      // Assert
+      expect(actual).toEqual(expected);
+    });
+
+    it.each([
+      { format: 'hex', expected: '#F4222280' },
+      { format: 'rgb', expected: 'rgb(244 34 34 / 0.502)' },
+      { format: 'hsl', expected: 'hsl(0 90.52% 54.51% / 0.502)' },
+      { format: 'lab', expected: expect.stringMatching(/^lab\([\d.]+ [\d.]+ [\d.]+ \/ 0\.502\)$/) },
+      { format: 'display-p3', expected: expect.stringMatching(/^color\(display-p3 [\d.]+ [\d.]+ [\d.]+ \/ 0\.502\)$/) },
+    ])('should format the color with the alpha in the $format format', ({ format, expected }) => {
+      // Act
+      const actual = formatColor(lab, format as ColorFormat, 128 / 255);
+
+      // Assert
+      expect(actual).toEqual(expected);
+    });
+
+    it('should omit the alpha if the color is fully opaque after rounding', () => {
+      // Act
+      const actual = formatColor(lab, 'hex', 0.9999);
+
+      // Assert
+      expect(actual).toBe('#F42222');
+    });
+
+    it.each(['hex', 'rgb', 'hsl', 'hwb', 'lab', 'lch', 'oklab', 'oklch', 'display-p3', 'a98-rgb', 'rec2020'])(
+      'should round-trip the colors through the %s format',
+      (format) => {
+        for (const hex of ['#000000', '#FFFFFF', '#F42222', '#007944', '#00158F', '#808080', '#FFB81C']) {
+          // Arrange
+          const source = Color.fromString(hex).toLAB();
+
+          // Act
+          const actual = parseColor(formatColor(source, format as ColorFormat));
+
+          // Assert
+          expect(Color.fromLAB(actual.lab).toString()).toBe(hex);
+        }
+      },
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { isInGamut, mapToGamut } from '@internal/color/gamut';
+import { CIELabSpace, OKLCHSpace, OKLabSpace, XYZSpace } from '@internal/color/space';
+import type { LAB, OKLCH } from '@internal/color/types';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+describe('gamut', () => {
+  describe('isInGamut', () => {
+    it.each([
+      { rgb: { r: 0, g: 0, b: 0 } },
+      { rgb: { r: 255, g: 255, b: 255 } },
+      { rgb: { r: 255, g: 0, b: 0 } },
+      { rgb: { r: 0, g: 255, b: 0 } },
+      { rgb: { r: 0, g: 0, b: 255 } },
+      { rgb: { r: 244, g: 34, b: 34 } },
+    ])('should return true for the sRGB color($rgb) in both gamuts', ({ rgb }) => {
+      // Arrange
+      const lab = CIELabSpace.fromXYZ(XYZSpace.fromRGB(rgb));
+
+      // Act
+      const srgb = isInGamut(lab, 'srgb');
+      const p3 = isInGamut(lab, 'display-p3');
+
+      // Assert
+      expect(srgb).toBeTruthy();
+      expect(p3).toBeTruthy();
+    });
+
+    it('should return false for the Display P3 color out of the sRGB gamut', () => {
+      // Arrange
+      const lab = fromOKLCH({ l: 0.64, c: 0.28, h: 29 });
+
+      // Act
+      const srgb = isInGamut(lab, 'srgb');
+      const p3 = isInGamut(lab, 'display-p3');
+
+      // Assert
+      expect(srgb).toBeFalsy();
+      expect(p3).toBeTruthy();
+    });
+
+    it('should return false for the color out of both gamuts', () => {
+      // Act
+      const actual = isInGamut({ l: 50, a: -128, b: -128 }, 'display-p3');
+
+      // Assert
+      expect(actual).toBeFalsy();
+    });
+
+    it('should throw an AssertionError if the gamut is unknown', () => {
+      // Assert
+      expect(() => {
+        // Act
+        isInGamut({ l: 50, a: 0, b: 0 }, 'rec2100' as 'srgb');
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('mapToGamut', () => {
+    it('should return the color as it is if the color is in the gamut', () => {
+      // Arrange
+      const lab = { l: 50, a: 20, b: -30 };
+
+      // Act
+      const actual = mapToGamut(lab, 'srgb');
+
+      // Assert
+      expect(actual).toBe(lab);
+    });
+
+    it.each([
+      { oklch: { l: 0.64, c: 0.28, h: 29 }, gamut: 'srgb' },
+      { oklch: { l: 0.7, c: 0.35, h: 145 }, gamut: 'srgb' },
+      { oklch: { l: 0.45, c: 0.35, h: 265 }, gamut: 'srgb' },
+      { oklch: { l: 0.7, c: 0.39, h: 145 }, gamut: 'display-p3' },
+    ] as const)(
+      'should map the color($oklch) into the $gamut gamut preserving the lightness and the hue',
+      ({ oklch, gamut }) => {
+        // Arrange
+        const lab = fromOKLCH(oklch);
+
+        // Act
+        const actual = mapToGamut(lab, gamut);
+
+        // Assert
+        expect(isInGamut(actual, gamut)).toBeTruthy();
+        const mapped = OKLCHSpace.fromOKLab(OKLabSpace.fromXYZ(CIELabSpace.toXYZ(actual)));
+        expect(mapped.l).toBeCloseTo(oklch.l, 1);
+        expect(Math.abs(mapped.h - oklch.h)).toBeLessThan(5);
+        expect(mapped.c).toBeLessThan(oklch.c);
+      },
+    );
+
+    it.each([{ lab: { l: 100, a: 0, b: -60 } }, { lab: { l: 2, a: 0, b: 60 } }])(
+      'should map the color($lab) hidden by the clamping of XYZ',
+      ({ lab }) => {
+        // Act
+        const actual = mapToGamut(lab, 'srgb');
+
+        // Assert
+        expect(isInGamut(lab, 'srgb')).toBeFalsy();
+        expect(isInGamut(actual, 'srgb')).toBeTruthy();
+        expect(actual.l).toBeCloseTo(lab.l, -1);
+        expect(Math.abs(actual.b)).toBeLessThan(Math.abs(lab.b));
+      },
+    );
+  });
+});
+
+function fromOKLCH(oklch: OKLCH): LAB {
+  return CIELabSpace.fromXYZ(OKLabSpace.toXYZ(OKLCHSpace.toOKLab(oklch)));
+}
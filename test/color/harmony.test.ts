@@ -0,0 +1,58 @@
+import { generateHarmony } from '@internal/color/harmony';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+describe('harmony', () => {
+  describe('generateHarmony', () => {
+    it.each([
+      { scheme: 'complementary', expected: [40, 220] },
+      { scheme: 'split-complementary', expected: [40, 190, 250] },
+      { scheme: 'analogous', expected: [40, 10, 70] },
+      { scheme: 'triadic', expected: [40, 160, 280] },
+      { scheme: 'tetradic', expected: [40, 130, 220, 310] },
+    ] as const)('should rotate the hue for the $scheme scheme', ({ scheme, expected }) => {
+      // Act
+      const actual = generateHarmony({ l: 50, c: 60, h: 40 }, scheme);
+
+      // Assert
+      expect(actual.map(({ h }) => h)).toEqual(expected);
+      for (const { l, c } of actual) {
+        expect(l).toBe(50);
+        expect(c).toBe(60);
+      }
+    });
+
+    it('should normalize the rotated hue to [0, 360)', () => {
+      // Act
+      const actual = generateHarmony({ l: 50, c: 60, h: 10 }, 'analogous');
+
+      // Assert
+      expect(actual.map(({ h }) => h)).toEqual([10, 340, 40]);
+    });
+
+    it.each([
+      { l: 50, expected: [50, 20, 35, 65, 80] },
+      { l: 90, expected: [90, 30, 45, 60, 75] },
+      { l: 100, expected: [100, 40, 55, 70, 85] },
+      { l: 0, expected: [0, 15, 30, 45, 60] },
+    ])('should shift the lightness of $l for the monochromatic scheme', ({ l, expected }) => {
+      // Act
+      const actual = generateHarmony({ l, c: 30, h: 120 }, 'monochromatic');
+
+      // Assert
+      expect(actual.map((lch) => lch.l)).toEqual(expected);
+      for (const { c, h } of actual) {
+        expect(c).toBe(30);
+        expect(h).toBe(120);
+      }
+    });
+
+    it('should throw an AssertionError if the scheme is unknown', () => {
+      // Assert
+      expect(() => {
+        // Act
+        generateHarmony({ l: 50, c: 60, h: 40 }, 'unknown' as 'triadic');
+      }).toThrowError(AssertionError);
+    });
+  });
+});
@@ -1,3 +1,4 @@
+import { AssertionError } from '@internal/utils';
 import { Color, cie94 } from 'auto-palette';
 import { describe, expect, it } from 'vitest';
 
@@ -12,6 +13,52 @@ describe('Color', () => {
       expect(actual).not.toBe(color);
       expect(actual).toMatchObject(color);
     });
+
+    it('should return a cloned color with the alpha', () => {
+      // Act
+      const color = Color.fromLAB({ l: 50, a: 0, b: 0 }).withAlpha(0.5);
+      const actual = color.clone();
+
+      // Assert
+      expect(actual.alpha()).toBe(0.5);
+    });
+  });
+
+  describe('alpha', () => {
+    it('should return 1.0 for the colors created without alpha', () => {
+      // Act
+      const actual = Color.fromRGB({ r: 255, g: 0, b: 0 }).alpha();
+
+      // Assert
+      expect(actual).toBe(1.0);
+    });
+  });
+
+  describe('withAlpha', () => {
+    it('should return a new color with the given alpha', () => {
+      // Arrange
+      const color = Color.fromString('#FF0000');
+
+      // Act
+      const actual = color.withAlpha(0.25);
+
+      // Assert
+      expect(actual).not.toBe(color);
+      expect(actual.alpha()).toBe(0.25);
+      expect(actual.toLAB()).toEqual(color.toLAB());
+      expect(color.alpha()).toBe(1.0);
+    });
+
+    it.each([-0.1, 1.1, Number.NaN])('should throw an AssertionError if the alpha(%d) is not in [0, 1]', (alpha) => {
+      // Arrange
+      const color = Color.fromString('#FF0000');
+
+      // Assert
+      expect(() => {
+        // Act
+        color.withAlpha(alpha);
+      }).toThrowError(AssertionError);
+    });
   });
 
   describe('isLight', () => {
@@ -86,6 +133,510 @@ describe('Color', () => {
     });
   });
 
+  describe('lighten', () => {
+    it('should return a new color with the increased lightness', () => {
+      // Arrange
+      const color = Color.fromLAB({ l: 50, a: 20, b: -30 }).withAlpha(0.5);
+
+      // Act
+      const actual = color.lighten(20);
+
+      // Assert
+      expect(actual.toLAB()).toEqual({ l: 70, a: 20, b: -30 });
+      expect(actual.alpha()).toBe(0.5);
+      expect(color.lightness()).toBe(50);
+    });
+
+    it('should clamp the lightness to 100', () => {
+      // Act
+      const actual = Color.fromLAB({ l: 90, a: 0, b: 0 }).lighten(20);
+
+      // Assert
+      expect(actual.lightness()).toBe(100);
+    });
+  });
+
+  describe('darken', () => {
+    it('should return a new color with the decreased lightness', () => {
+      // Act
+      const actual = Color.fromLAB({ l: 50, a: 20, b: -30 }).darken(20);
+
+      // Assert
+      expect(actual.toLAB()).toEqual({ l: 30, a: 20, b: -30 });
+    });
+
+    it('should clamp the lightness to 0', () => {
+      // Act
+      const actual = Color.fromLAB({ l: 10, a: 0, b: 0 }).darken(20);
+
+      // Assert
+      expect(actual.lightness()).toBe(0);
+    });
+  });
+
+  describe('saturate', () => {
+    it('should return a new color with the increased chroma and the same hue', () => {
+      // Arrange
+      const color = Color.fromLCH({ l: 50, c: 30, h: 120 });
+
+      // Act
+      const actual = color.saturate(20);
+
+      // Assert
+      expect(actual.chroma()).toBeCloseTo(50, 4);
+      expect(actual.toLCH().h).toBeCloseTo(120, 4);
+      expect(actual.lightness()).toBeCloseTo(50, 4);
+    });
+  });
+
+  describe('desaturate', () => {
+    it('should return a new color with the decreased chroma', () => {
+      // Act
+      const actual = Color.fromLCH({ l: 50, c: 30, h: 120 }).desaturate(20);
+
+      // Assert
+      expect(actual.chroma()).toBeCloseTo(10, 4);
+    });
+
+    it('should clamp the chroma to 0', () => {
+      // Act
+      const actual = Color.fromLCH({ l: 50, c: 30, h: 120 }).desaturate(50);
+
+      // Assert
+      expect(actual.chroma()).toBeCloseTo(0, 4);
+    });
+  });
+
+  describe('rotateHue', () => {
+    it.each([
+      { h: 120, degrees: 90, expected: 210 },
+      { h: 300, degrees: 90, expected: 30 },
+      { h: 30, degrees: -60, expected: 330 },
+    ])('should rotate the hue($h) by $degrees degrees', ({ h, degrees, expected }) => {
+      // Act
+      const actual = Color.fromLCH({ l: 50, c: 30, h }).rotateHue(degrees);
+
+      // Assert
+      expect(actual.toLCH().h).toBeCloseTo(expected, 4);
+      expect(actual.chroma()).toBeCloseTo(30, 4);
+    });
+  });
+
+  describe('complement', () => {
+    it('should return the color with the opposite hue', () => {
+      // Arrange
+      const color = Color.fromLAB({ l: 50, a: 20, b: -30 });
+
+      // Act
+      const actual = color.complement();
+
+      // Assert
+      const { l, a, b } = actual.toLAB();
+      expect(l).toBeCloseTo(50, 4);
+      expect(a).toBeCloseTo(-20, 4);
+      expect(b).toBeCloseTo(30, 4);
+    });
+  });
+
+  describe('mix', () => {
+    it('should mix the colors at the ratio 0.5 in LAB by default', () => {
+      // Arrange
+      const color1 = Color.fromLAB({ l: 20, a: 40, b: -20 });
+      const color2 = Color.fromLAB({ l: 60, a: 0, b: 20 });
+
+      // Act
+      const actual = color1.mix(color2);
+
+      // Assert
+      expect(actual.toLAB()).toEqual({ l: 40, a: 20, b: 0 });
+    });
+
+    it.each(['lab', 'oklab', 'lch', 'srgb'] as const)('should mix the colors in %s', (space) => {
+      // Arrange
+      const color1 = Color.fromString('#FF0000');
+      const color2 = Color.fromString('#0000FF');
+
+      // Act
+      const actual = color1.mix(color2, 0.25, space);
+
+      // Assert
+      expect(actual.differenceTo(color1)).toBeLessThan(actual.differenceTo(color2));
+    });
+
+    it('should interpolate the alpha', () => {
+      // Arrange
+      const color1 = Color.fromString('#FF0000');
+      const color2 = Color.fromString('#0000FF').withAlpha(0.0);
+
+      // Act
+      const actual = color1.mix(color2, 0.25);
+
+      // Assert
+      expect(actual.alpha()).toBeCloseTo(0.75);
+    });
+
+    it.each([-0.1, 1.1, Number.NaN])('should throw an AssertionError if the ratio(%d) is invalid', (ratio) => {
+      // Arrange
+      const color = Color.fromString('#FF0000');
+
+      // Assert
+      expect(() => {
+        // Act
+        color.mix(Color.fromString('#0000FF'), ratio);
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('harmony', () => {
+    it('should generate the triadic colors with the same lightness and chroma', () => {
+      // Arrange
+      const color = Color.fromLCH({ l: 50, c: 40, h: 30 }).withAlpha(0.5);
+
+      // Act
+      const actual = color.harmony('triadic');
+
+      // Assert
+      expect(actual).toBeArrayOfSize(3);
+      expect(actual.map((c) => c.toLCH().h)).toEqual([
+        expect.closeTo(30, 4),
+        expect.closeTo(150, 4),
+        expect.closeTo(270, 4),
+      ]);
+      for (const harmonious of actual) {
+        expect(harmonious.lightness()).toBeCloseTo(50, 4);
+        expect(harmonious.chroma()).toBeCloseTo(40, 4);
+        expect(harmonious.alpha()).toBe(0.5);
+      }
+    });
+
+    it('should generate the complementary color same as the complement', () => {
+      // Arrange
+      const color = Color.fromString('#F42222');
+
+      // Act
+      const actual = color.harmony('complementary');
+
+      // Assert
+      expect(actual[0]).toBeSimilarColor('#F42222');
+      expect(actual[1].toString()).toBe(color.complement().toString());
+    });
+  });
+
+  describe('adapt', () => {
+    it('should adapt the gray seen under the source white point to the destination white point', () => {
+      // Arrange
+      const tinted = Color.fromString('#808080').adapt('D65', 'A');
+
+      // Act
+      const actual = tinted.adapt('A');
+
+      // Assert
+      expect(tinted.toString()).not.toBe('#808080');
+      expect(tinted.hue()).toBeWithin(30, 90);
+      expect(actual.toString()).toBe('#808080');
+    });
+
+    it('should preserve the alpha', () => {
+      // Act
+      const actual = Color.fromString('#F4222280').adapt('D50', 'D65', 'cat02');
+
+      // Assert
+      expect(actual.alpha()).toBeCloseTo(0x80 / 0xff, 6);
+    });
+
+    it.each([
+      { source: 'D93', destination: 'D65', method: 'bradford' },
+      { source: 'D50', destination: 'D65', method: 'cat16' },
+    ] as const)(
+      'should throw an AssertionError if the arguments($source, $destination, $method) are invalid',
+      ({ source, destination, method }) => {
+        // Assert
+        expect(() => {
+          // Act
+          Color.fromString('#F42222').adapt(source as 'A', destination, method as 'cat02');
+        }).toThrowError(AssertionError);
+      },
+    );
+  });
+
+  describe('simulateDeficiency', () => {
+    it('should make red and green indistinguishable for deuteranopia', () => {
+      // Arrange
+      const red = Color.fromString('#D62728');
+      const green = Color.fromString('#2CA02C');
+
+      // Act
+      const actualRed = red.simulateDeficiency('deuteranopia');
+      const actualGreen = green.simulateDeficiency('deuteranopia');
+
+      // Assert
+      expect(red.differenceTo(green)).toBeGreaterThan(50);
+      expect(actualRed.differenceTo(actualGreen)).toBeLessThan(10);
+    });
+
+    it('should preserve the alpha of the color', () => {
+      // Arrange
+      const color = Color.fromString('#D62728').withAlpha(0.5);
+
+      // Act
+      const actual = color.simulateDeficiency('protanopia', 0.6);
+
+      // Assert
+      expect(actual.alpha()).toBe(0.5);
+    });
+
+    it('should return the same color for the severity 0', () => {
+      // Arrange
+      const color = Color.fromString('#D62728');
+
+      // Act
+      const actual = color.simulateDeficiency('tritanopia', 0.0);
+
+      // Assert
+      expect(actual.toString()).toBe('#D62728');
+    });
+  });
+
+  describe('invert', () => {
+    it.each([
+      { value: '#000000', expected: '#FFFFFF' },
+      { value: '#F42222', expected: '#0BDDDD' },
+      { value: '#007944', expected: '#FF86BB' },
+    ])('should invert the color($value) to $expected', ({ value, expected }) => {
+      // Act
+      const actual = Color.fromString(value).invert();
+
+      // Assert
+      expect(actual.toString()).toBe(expected);
+    });
+  });
+
+  describe('grayscale', () => {
+    it('should return the gray color with the same lightness', () => {
+      // Arrange
+      const color = Color.fromString('#F42222');
+
+      // Act
+      const actual = color.grayscale();
+
+      // Assert
+      expect(actual.chroma()).toBe(0);
+      expect(actual.lightness()).toBe(color.lightness());
+    });
+  });
+
+  describe('luminance', () => {
+    it.each([
+      { value: '#000000', expected: 0.0 },
+      { value: '#FFFFFF', expected: 1.0 },
+      { value: '#FF0000', expected: 0.2126 },
+    ])('should return the relative luminance($expected) of the color($value)', ({ value, expected }) => {
+      // Act
+      const actual = Color.fromString(value).luminance();
+
+      // Assert
+      expect(actual).toBeCloseTo(expected, 4);
+    });
+  });
+
+  describe('contrastRatio', () => {
+    it.each([
+      { value1: '#000000', value2: '#FFFFFF', expected: 21.0 },
+      { value1: '#FFFFFF', value2: '#000000', expected: 21.0 },
+      { value1: '#777777', value2: '#FFFFFF', expected: 4.48 },
+      { value1: '#FF0000', value2: '#FF0000', expected: 1.0 },
+    ])('should return the contrast ratio($expected) between $value1 and $value2', ({ value1, value2, expected }) => {
+      // Act
+      const actual = Color.fromString(value1).contrastRatio(Color.fromString(value2));
+
+      // Assert
+      expect(actual).toBeCloseTo(expected, 2);
+    });
+  });
+
+  describe('apcaContrast', () => {
+    it.each([
+      { text: '#000000', background: '#FFFFFF', expected: 106.04 },
+      { text: '#FFFFFF', background: '#000000', expected: -107.88 },
+      { text: '#888888', background: '#FFFFFF', expected: 63.06 },
+    ])('should return the lightness contrast($expected) of $text on $background', ({ text, background, expected }) => {
+      // Act
+      const actual = Color.fromString(text).apcaContrast(Color.fromString(background));
+
+      // Assert
+      expect(actual).toBeCloseTo(expected, 1);
+    });
+  });
+
+  describe('ensureContrast', () => {
+    it.each([
+      { value: '#F42222', background: '#FFFFFF', target: 4.5 },
+      { value: '#F42222', background: '#000000', target: 7.0 },
+      { value: '#007944', background: '#007944', target: 4.5 },
+      { value: '#FFB400', background: '#FFFFFF', target: 3.0 },
+    ])('should reach the contrast ratio($target) of $value on $background', ({ value, background, target }) => {
+      // Arrange
+      const color = Color.fromString(value);
+      const backgroundColor = Color.fromString(background);
+
+      // Act
+      const actual = color.ensureContrast(backgroundColor, target);
+
+      // Assert
+      expect(actual.contrastRatio(backgroundColor)).toBeGreaterThanOrEqual(target);
+      expect(Math.abs(actual.hue() - color.hue())).toBeLessThan(15);
+    });
+
+    it('should reach the APCA contrast', () => {
+      // Arrange
+      const color = Color.fromString('#F42222');
+      const background = Color.fromString('#FFFFFF');
+
+      // Act
+      const actual = color.ensureContrast(background, 75, 'apca');
+
+      // Assert
+      expect(actual.apcaContrast(background)).toBeGreaterThanOrEqual(75);
+      expect(actual.lightness()).toBeLessThan(color.lightness());
+    });
+
+    it('should shift the lightness to the side with the smaller shift', () => {
+      // Arrange
+      const color = Color.fromString('#BBBBBB');
+      const background = Color.fromString('#555555');
+
+      // Act
+      const actual = color.ensureContrast(background, 4.5);
+
+      // Assert
+      expect(actual.lightness()).toBeGreaterThan(color.lightness());
+      expect(actual.contrastRatio(background)).toBeGreaterThanOrEqual(4.5);
+    });
+
+    it('should return the same color if the contrast is already reached', () => {
+      // Arrange
+      const color = Color.fromString('#000000');
+
+      // Act
+      const actual = color.ensureContrast(Color.fromString('#FFFFFF'), 4.5);
+
+      // Assert
+      expect(actual).not.toBe(color);
+      expect(actual.toString()).toBe('#000000');
+    });
+
+    it('should return the color with the highest contrast if the target cannot be reached', () => {
+      // Arrange
+      const color = Color.fromString('#777777');
+
+      // Act
+      const actual = color.ensureContrast(Color.fromString('#777777'), 21);
+
+      // Assert
+      expect(actual.toString()).toBe('#000000');
+    });
+
+    it('should preserve the alpha of the color', () => {
+      // Arrange
+      const color = Color.fromString('#F4222280');
+
+      // Act
+      const actual = color.ensureContrast(Color.fromString('#FFFFFF'), 4.5);
+
+      // Assert
+      expect(actual.alpha()).toBe(color.alpha());
+    });
+
+    it.each([
+      { target: 0.5, measure: 'wcag' },
+      { target: 22, measure: 'wcag' },
+      { target: -1, measure: 'apca' },
+      { target: 110, measure: 'apca' },
+      { target: Number.NaN, measure: 'wcag' },
+    ] as const)(
+      'should throw an AssertionError if the target($target) is invalid for $measure',
+      ({ target, measure }) => {
+        // Arrange
+        const color = Color.fromString('#F42222');
+
+        // Assert
+        expect(() => {
+          // Act
+          color.ensureContrast(Color.fromString('#FFFFFF'), target, measure);
+        }).toThrowError(AssertionError);
+      },
+    );
+  });
+
+  describe('tonalPalette', () => {
+    it('should generate the material tones by default', () => {
+      // Arrange
+      const color = Color.fromString('#F42222');
+
+      // Act
+      const actual = color.tonalPalette();
+
+      // Assert
+      expect(Object.keys(actual).map(Number)).toEqual([0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 95, 99, 100]);
+      expect(actual[0].toString()).toBe('#000000');
+      expect(actual[100].toString()).toBe('#FFFFFF');
+      for (const tone of [10, 20, 30, 40, 50, 60, 70, 80, 90]) {
+        expect(Math.abs(actual[tone].lightness() - tone)).toBeLessThan(2.0);
+        expect(Math.abs(actual[tone].hue() - color.hue())).toBeLessThan(15);
+      }
+    });
+
+    it('should generate the tailwind shades from light to dark', () => {
+      // Arrange
+      const color = Color.fromString('#3B82F6');
+
+      // Act
+      const actual = color.tonalPalette({ tones: 'tailwind' });
+
+      // Assert
+      const keys = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+      expect(Object.keys(actual).map(Number)).toEqual(keys);
+      expect(actual[500]).toBeSimilarColor('#3B82F6', 10.0);
+      for (let i = 1; i < keys.length; i++) {
+        expect(actual[keys[i]].lightness()).toBeLessThan(actual[keys[i - 1]].lightness());
+      }
+    });
+
+    it('should reduce the chroma of the tones out of the RGB color space', () => {
+      // Arrange
+      const color = Color.fromString('#FFB400');
+
+      // Act
+      const actual = color.tonalPalette({ tones: [20, 75] });
+
+      // Assert
+      expect(actual[20].chroma()).toBeLessThan(color.chroma());
+      expect(actual[75].chroma()).toBeGreaterThan(actual[20].chroma());
+    });
+
+    it('should preserve the alpha of the color', () => {
+      // Arrange
+      const color = Color.fromString('#F42222').withAlpha(0.5);
+
+      // Act
+      const actual = color.tonalPalette({ tones: [50] });
+
+      // Assert
+      expect(actual[50].alpha()).toBe(0.5);
+    });
+
+    it('should throw an AssertionError if any tone is invalid', () => {
+      // Arrange
+      const color = Color.fromString('#F42222');
+
+      // Assert
+      expect(() => {
+        // Act
+        color.tonalPalette({ tones: [50, 120] });
+      }).toThrowError(AssertionError);
+    });
+  });
+
   describe('differenceTo', () => {
     it('should compute the color difference between two colors', () => {
       // Act
@@ -126,6 +677,14 @@ describe('Color', () => {
       // Assert
       expect(actual).toEqual(expected);
     });
+
+    it('should append the alpha to the hex decimal string if the color is not fully opaque', () => {
+      // Act
+      const actual = Color.fromString('#FF0000').withAlpha(0.5).toString();
+
+      // Assert
+      expect(actual).toBe('#FF000080');
+    });
   });
 
   describe('toRGB', () => {
@@ -146,6 +705,86 @@ describe('Color', () => {
       // Assert
       expect(actual).toMatchObject(expected);
     });
+
+    it('should map the color out of the sRGB gamut preserving the hue', () => {
+      // Arrange
+      const color = Color.fromOKLCH({ l: 0.45, c: 0.35, h: 265 });
+
+      // Act
+      const actual = Color.fromRGB(color.toRGB());
+
+      // Assert
+      expect(Math.abs(actual.toOKLCH().h - 265)).toBeLessThan(5);
+      expect(actual.toString()).toBe(color.toString());
+    });
+  });
+
+  describe('isInGamut', () => {
+    it.each([
+      { value: '#F42222', gamut: 'srgb', expected: true },
+      { value: '#F42222', gamut: 'display-p3', expected: true },
+      { value: 'color(srgb 1 1 1)', gamut: 'srgb', expected: true },
+      { value: 'oklch(0.64 0.28 29)', gamut: 'srgb', expected: false },
+      { value: 'oklch(0.64 0.28 29)', gamut: 'display-p3', expected: true },
+      { value: 'lab(50 -128 -128)', gamut: 'display-p3', expected: false },
+    ] as const)('should return $expected for $value in $gamut', ({ value, gamut, expected }) => {
+      // Act
+      const actual = Color.fromString(value).isInGamut(gamut);
+
+      // Assert
+      expect(actual).toBe(expected);
+    });
+
+    it('should check the sRGB gamut by default', () => {
+      // Act
+      const actual = Color.fromString('oklch(0.64 0.28 29)').isInGamut();
+
+      // Assert
+      expect(actual).toBeFalsy();
+    });
+  });
+
+  describe('toGamut', () => {
+    it('should return the same color with no difference if the color is in the gamut', () => {
+      // Arrange
+      const color = Color.fromString('#F42222');
+
+      // Act
+      const actual = color.toGamut();
+
+      // Assert
+      expect(actual.color.toLAB()).toEqual(color.toLAB());
+      expect(actual.difference).toBe(0);
+    });
+
+    it('should map the color into the gamut and report the difference', () => {
+      // Arrange
+      const color = Color.fromString('oklch(0.64 0.28 29 / 0.5)');
+
+      // Act
+      const srgb = color.toGamut('srgb');
+      const p3 = color.toGamut('display-p3');
+
+      // Assert
+      expect(srgb.color.isInGamut('srgb')).toBeTruthy();
+      expect(srgb.color.alpha()).toBe(0.5);
+      expect(srgb.difference).toBeGreaterThan(1);
+      expect(p3.difference).toBe(0);
+    });
+
+    it('should preserve the hue of the color beyond the range of the sRGB color space', () => {
+      // Arrange
+      const color = Color.fromLAB({ l: 60, a: -200, b: 100 });
+
+      // Act
+      const actual = color.toGamut('srgb');
+
+      // Assert
+      expect(color.toLCH().h).toBeCloseTo(153.43, 2);
+      expect(actual.color.isInGamut('srgb')).toBeTruthy();
+      // The hue of the original color is 157.1 in the OKLCH color space.
+      expect(Math.abs(actual.color.toOKLCH().h - 157.1)).toBeLessThan(5);
+    });
   });
 
   describe('toHSL', () => {
@@ -186,6 +825,125 @@ describe('Color', () => {
       // Assert
       expect(actual).toMatchObject({ l, a, b });
     });
+
+    it.each([
+      { value: '#FFFFFF', whitePoint: 'D50', expected: { l: 100, a: 0, b: 0 } },
+      { value: '#FF0000', whitePoint: 'D50', expected: { l: 54.29, a: 80.8, b: 69.89 } },
+      { value: '#808080', whitePoint: { x: 0.96422, y: 1.0, z: 0.82521 }, expected: { l: 53.59, a: 0, b: 0 } },
+    ] as const)(
+      'should return the color($value) in CIELAB color space relative to $whitePoint',
+      ({ value, whitePoint, expected }) => {
+        // Act
+        const actual = Color.fromString(value).toLAB(whitePoint);
+
+        // Assert
+        expect(actual.l).toBeCloseTo(expected.l, 1);
+        expect(Math.abs(actual.a - expected.a)).toBeLessThan(0.1);
+        expect(Math.abs(actual.b - expected.b)).toBeLessThan(0.1);
+      },
+    );
+
+    it('should throw an AssertionError if the white point is unknown', () => {
+      // Assert
+      expect(() => {
+        // Act
+        Color.fromString('#FF0000').toLAB('D93' as 'D50');
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('toOKLab', () => {
+    it.each([
+      { hex: '#000000', expected: { l: 0, a: 0, b: 0 } },
+      { hex: '#FFFFFF', expected: { l: 1, a: 0, b: 0 } },
+      { hex: '#FF0000', expected: { l: 0.628, a: 0.2248, b: 0.1258 } },
+      { hex: '#00FF00', expected: { l: 0.8664, a: -0.2339, b: 0.1794 } },
+      { hex: '#0000FF', expected: { l: 0.452, a: -0.0324, b: -0.3116 } },
+    ])('should return the color($hex) in OKLab color space', ({ hex, expected }) => {
+      // Act
+      const actual = Color.fromString(hex).toOKLab();
+
+      // Assert
+      expect(actual.l).toBeCloseTo(expected.l, 3);
+      expect(actual.a).toBeCloseTo(expected.a, 3);
+      expect(actual.b).toBeCloseTo(expected.b, 3);
+    });
+  });
+
+  describe('toOKLCH', () => {
+    it.each([
+      { hex: '#000000', expected: { l: 0, c: 0, h: 0 } },
+      { hex: '#FF0000', expected: { l: 0.628, c: 0.2576, h: 29.23 } },
+      { hex: '#00FF00', expected: { l: 0.8664, c: 0.2948, h: 142.51 } },
+      { hex: '#0000FF', expected: { l: 0.452, c: 0.3133, h: 264.06 } },
+    ])('should return the color($hex) in OKLCH color space', ({ hex, expected }) => {
+      // Act
+      const actual = Color.fromString(hex).toOKLCH();
+
+      // Assert
+      expect(actual.l).toBeCloseTo(expected.l, 3);
+      expect(actual.c).toBeCloseTo(expected.c, 3);
+      expect(actual.h).toBeCloseTo(expected.h, 1);
+    });
+  });
+
+  describe('toHSV', () => {
+    it.each([
+      { hex: '#000000', expected: { h: 0, s: 0, v: 0 } },
+      { hex: '#FFFFFF', expected: { h: 0, s: 0, v: 1 } },
+      { hex: '#FF0000', expected: { h: 0, s: 1, v: 1 } },
+      { hex: '#008000', expected: { h: 120, s: 1, v: 128 / 255 } },
+    ])('should return the color($hex) in HSV color space', ({ hex, expected }) => {
+      // Act
+      const actual = Color.fromString(hex).toHSV();
+
+      // Assert
+      expect(actual).toMatchObject(expected);
+    });
+  });
+
+  describe('toHWB', () => {
+    it.each([
+      { hex: '#000000', expected: { h: 0, w: 0, b: 1 } },
+      { hex: '#FFFFFF', expected: { h: 0, w: 1, b: 0 } },
+      { hex: '#0000FF', expected: { h: 240, w: 0, b: 0 } },
+    ])('should return the color($hex) in HWB color space', ({ hex, expected }) => {
+      // Act
+      const actual = Color.fromString(hex).toHWB();
+
+      // Assert
+      expect(actual).toMatchObject(expected);
+    });
+  });
+
+  describe('toCMYK', () => {
+    it.each([
+      { hex: '#000000', expected: { c: 0, m: 0, y: 0, k: 1 } },
+      { hex: '#FFFFFF', expected: { c: 0, m: 0, y: 0, k: 0 } },
+      { hex: '#FFFF00', expected: { c: 0, m: 0, y: 1, k: 0 } },
+    ])('should return the color($hex) in CMYK color space', ({ hex, expected }) => {
+      // Act
+      const actual = Color.fromString(hex).toCMYK();
+
+      // Assert
+      expect(actual).toMatchObject(expected);
+    });
+  });
+
+  describe('toLCH', () => {
+    it.each([
+      { lab: { l: 0, a: 0, b: 0 }, expected: { l: 0, c: 0, h: 0 } },
+      { lab: { l: 50, a: 0, b: 40 }, expected: { l: 50, c: 40, h: 90 } },
+      { lab: { l: 50, a: -30, b: -40 }, expected: { l: 50, c: 50, h: 233.1301 } },
+    ])('should return the color($lab) in CIELCh(ab) color space', ({ lab, expected }) => {
+      // Act
+      const actual = Color.fromLAB(lab).toLCH();
+
+      // Assert
+      expect(actual.l).toBeCloseTo(expected.l, 4);
+      expect(actual.c).toBeCloseTo(expected.c, 4);
+      expect(actual.h).toBeCloseTo(expected.h, 4);
+    });
   });
 
   describe('fromRGB', () => {
@@ -202,6 +960,23 @@ describe('Color', () => {
       // Assert
       expect(actual).toBeSimilarColor(Color.fromLAB(expected));
     });
+
+    it.each([
+      { space: 'display-p3', rgb: { r: 0, g: 255, b: 0 } },
+      { space: 'a98-rgb', rgb: { r: 0, g: 255, b: 255 } },
+      { space: 'rec2020', rgb: { r: 255, g: 0, b: 0 } },
+      { space: 'a98-rgb', rgb: { r: 0, g: 255, b: 0 } },
+      { space: 'rec2020', rgb: { r: 0, g: 255, b: 0 } },
+      { space: 'rec2020', rgb: { r: 255, g: 255, b: 0 } },
+    ] as const)('should create the Color out of the sRGB gamut from RGB($rgb) in $space', ({ space, rgb }) => {
+      // Act
+      const actual = Color.fromRGB(rgb, space);
+
+      // Assert
+      expect(actual.isInGamut('srgb')).toBeFalsy();
+      expect(actual.isInGamut(space)).toBeTruthy();
+      expect(actual.toRGB(space)).toEqual(rgb);
+    });
   });
 
   describe('fromHSL', () => {
@@ -232,7 +1007,79 @@ describe('Color', () => {
       const actual = Color.fromLAB(lab);
 
       // Assert
-      expect(actual).toEqual(expected);
+      expect(actual.toLAB()).toEqual(expected);
+      expect(actual.alpha()).toBe(1.0);
+    });
+
+    it.each(['bradford', 'cat02', 'von-kries'] as const)(
+      'should create Color from LAB relative to D50 with the %s transform',
+      (method) => {
+        // Arrange
+        const color = Color.fromString('#F42222');
+
+        // Act
+        const actual = Color.fromLAB(color.toLAB('D50', method), 'D50', method);
+
+        // Assert
+        expect(actual).toBeSimilarColor(color.toString());
+        expect(actual.toString()).toBe('#F42222');
+      },
+    );
+
+    it('should create the white from the white relative to any white point', () => {
+      // Act
+      const actual = Color.fromLAB({ l: 100, a: 0, b: 0 }, 'A');
+
+      // Assert
+      expect(actual.toString()).toBe('#FFFFFF');
+    });
+  });
+
+  describe.each([
+    { name: 'HSV', to: (color: Color) => Color.fromHSV(color.toHSV()) },
+    { name: 'HWB', to: (color: Color) => Color.fromHWB(color.toHWB()) },
+    { name: 'CMYK', to: (color: Color) => Color.fromCMYK(color.toCMYK()) },
+    { name: 'LCH', to: (color: Color) => Color.fromLCH(color.toLCH()) },
+  ])('from$name', ({ to }) => {
+    it.each(['#000000', '#FFFFFF', '#FF0000', '#00FF00', '#0000FF', '#808080', '#F42222', '#007944'])(
+      'should create the same color as %s from the converted color',
+      (hex) => {
+        // Act
+        const actual = to(Color.fromString(hex));
+
+        // Assert
+        expect(actual.toString()).toBe(hex);
+      },
+    );
+  });
+
+  describe('fromOKLab', () => {
+    it.each(['#000000', '#FFFFFF', '#FF0000', '#00FF00', '#0000FF', '#808080', '#F42222', '#007944'])(
+      'should create the same color as %s from the OKLab color',
+      (hex) => {
+        // Arrange
+        const oklab = Color.fromString(hex).toOKLab();
+
+        // Act
+        const actual = Color.fromOKLab(oklab);
+
+        // Assert
+        expect(actual.toString()).toBe(hex);
+      },
+    );
+  });
+
+  describe('fromOKLCH', () => {
+    it.each([
+      { oklch: { l: 0.628, c: 0.2577, h: 29.23 }, expected: '#FF0000' },
+      { oklch: { l: 0.452, c: 0.3133, h: 264.06 }, expected: '#0000FF' },
+      { oklch: { l: 0.6, c: 0, h: 120 }, expected: '#808080' },
+    ])('should create Color($expected) from OKLCH($oklch)', ({ oklch, expected }) => {
+      // Act
+      const actual = Color.fromOKLCH(oklch);
+
+      // Assert
+      expect(actual.toString()).toBe(expected);
     });
   });
 
@@ -250,5 +1097,96 @@ describe('Color', () => {
       // Assert
       expect(actual).toBeSimilarColor(Color.fromLAB(expected));
     });
+
+    it.each([
+      { value: 'red', expected: '#FF0000' },
+      { value: 'rgb(244 34 34)', expected: '#F42222' },
+      { value: 'hsl(120deg 100% 25%)', expected: '#008000' },
+      { value: 'oklch(0.452 0.3133 264.06)', expected: '#0000FF' },
+      { value: 'color(srgb 0 0.4745 0.2667)', expected: '#007944' },
+    ])('should create Color($expected) from CSS color string($value)', ({ value, expected }) => {
+      // Act
+      const actual = Color.fromString(value);
+
+      // Assert
+      expect(actual.toString()).toBe(expected);
+    });
+
+    it.each([
+      { value: '#FF000080', expected: 128 / 255 },
+      { value: '#F008', expected: 136 / 255 },
+      { value: 'rgb(255 0 0 / 50%)', expected: 0.5 },
+      { value: 'rgba(255, 0, 0, 0.25)', expected: 0.25 },
+      { value: 'transparent', expected: 0 },
+      { value: '#FF0000', expected: 1 },
+    ])('should create Color with the alpha($expected) from string($value)', ({ value, expected }) => {
+      // Act
+      const actual = Color.fromString(value);
+
+      // Assert
+      expect(actual.alpha()).toBeCloseTo(expected);
+    });
+
+    it('should throw an AssertionError if the value is not a valid CSS color string', () => {
+      // Assert
+      expect(() => {
+        // Act
+        Color.fromString('rgb(0 0)');
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('format', () => {
+    it.each([
+      { format: undefined, expected: '#007944' },
+      { format: 'hex', expected: '#007944' },
+      { format: 'rgb', expected: 'rgb(0 121 68)' },
+      { format: 'hsl', expected: 'hsl(153.72 100% 23.73%)' },
+      { format: 'hwb', expected: 'hwb(153.72 0% 52.55%)' },
+      { format: 'display-p3', expected: 'color(display-p3 0.2027 0.4671 0.286)' },
+    ] as const)('should format the color in the $format format', ({ format, expected }) => {
+      // Act
+      const actual = Color.fromString('#007944').format(format);
+
+      // Assert
+      expect(actual).toBe(expected);
+    });
+
+    it.each(['lab', 'lch', 'oklab', 'oklch', 'display-p3', 'a98-rgb', 'rec2020'] as const)(
+      'should format the color parsable by fromString(%s)',
+      (format) => {
+        // Arrange
+        const color = Color.fromString('#007944');
+
+        // Act
+        const actual = Color.fromString(color.format(format));
+
+        // Assert
+        expect(actual.toString()).toBe('#007944');
+      },
+    );
+
+    it.each([
+      { format: 'a98-rgb', value: 'color(a98-rgb 0 1 0)' },
+      { format: 'rec2020', value: 'color(rec2020 0 1 0)' },
+      { format: 'rec2020', value: 'color(rec2020 1 1 0)' },
+    ] as const)('should format the primary color($value) in the $format format', ({ format, value }) => {
+      // Act
+      const actual = Color.fromString(value).format(format);
+
+      // Assert
+      expect(actual).toBe(value);
+    });
+
+    it('should format the color with the alpha', () => {
+      // Arrange
+      const color = Color.fromString('rgb(0 121 68 / 0.5)');
+
+      // Act
+      const actual = color.format('rgb');
+
+      // Assert
+      expect(actual).toBe('rgb(0 121 68 / 0.5)');
+    });
   });
 });
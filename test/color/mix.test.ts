@@ -0,0 +1,113 @@
+import { Color } from '@internal/color';
+import { type InterpolationSpace, bezier, interpolate } from '@internal/color/mix';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+describe('mix', () => {
+  describe('interpolate', () => {
+    it.each(['lab', 'oklab', 'lch', 'srgb'] as InterpolationSpace[])(
+      'should return the end colors at the ratio 0 and 1 in %s',
+      (space) => {
+        // Arrange
+        const from = Color.fromString('#F42222').toLAB();
+        const to = Color.fromString('#00158F').toLAB();
+
+        // Act
+        const actual0 = interpolate(from, to, 0, space);
+        const actual1 = interpolate(from, to, 1, space);
+
+        // Assert
+        expect(Color.fromLAB(actual0).toString()).toBe('#F42222');
+        expect(Color.fromLAB(actual1).toString()).toBe('#00158F');
+      },
+    );
+
+    it.each([
+      { space: 'lab', expected: '#777777' },
+      { space: 'oklab', expected: '#636363' },
+      { space: 'lch', expected: '#777777' },
+      { space: 'srgb', expected: '#808080' },
+    ] as { space: InterpolationSpace; expected: string }[])(
+      'should interpolate black and white in $space',
+      ({ space, expected }) => {
+        // Arrange
+        const from = Color.fromString('#000000').toLAB();
+        const to = Color.fromString('#FFFFFF').toLAB();
+
+        // Act
+        const actual = interpolate(from, to, 0.5, space);
+
+        // Assert
+        expect(Color.fromLAB(actual)).toBeSimilarColor(expected, 1.0);
+      },
+    );
+
+    it('should interpolate the hue along the shorter arc in lch', () => {
+      // Arrange
+      const from = { l: 50, c: 50, h: 350 };
+      const to = { l: 50, c: 50, h: 30 };
+      const fromLAB = Color.fromLCH(from).toLAB();
+      const toLAB = Color.fromLCH(to).toLAB();
+
+      // Act
+      const actual = interpolate(fromLAB, toLAB, 0.5, 'lch');
+
+      // Assert
+      expect(Color.fromLAB(actual).toLCH().h).toBeCloseTo(10, 4);
+    });
+
+    it('should use the hue of the chromatic color if the other color is achromatic in lch', () => {
+      // Arrange
+      const from = Color.fromString('#FFFFFF').toLAB();
+      const to = Color.fromLCH({ l: 50, c: 60, h: 120 }).toLAB();
+
+      // Act
+      const actual = interpolate(from, to, 0.5, 'lch');
+
+      // Assert
+      expect(Color.fromLAB(actual).toLCH().h).toBeCloseTo(120, 4);
+    });
+
+    it.each(['xyz', 'hsl'])('should throw an AssertionError if the interpolation space(%s) is unknown', (space) => {
+      // Arrange
+      const from = Color.fromString('#000000').toLAB();
+      const to = Color.fromString('#FFFFFF').toLAB();
+
+      // Assert
+      expect(() => {
+        // Act
+        interpolate(from, to, 0.5, space as InterpolationSpace);
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('bezier', () => {
+    it('should pass through the first and the last colors', () => {
+      // Arrange
+      const colors = ['#000000', '#FF0000', '#FFFFFF'].map((hex) => Color.fromString(hex).toLAB());
+
+      // Act
+      const actual0 = bezier(colors, 0, 'lab');
+      const actual1 = bezier(colors, 1, 'lab');
+
+      // Assert
+      expect(Color.fromLAB(actual0).toString()).toBe('#000000');
+      expect(Color.fromLAB(actual1).toString()).toBe('#FFFFFF');
+    });
+
+    it('should interpolate the quadratic Bezier curve', () => {
+      // Arrange
+      const colors = [
+        { l: 0, a: 0, b: 0 },
+        { l: 40, a: 80, b: 0 },
+        { l: 100, a: 0, b: 0 },
+      ];
+
+      // Act
+      const actual = bezier(colors, 0.5, 'lab');
+
+      // Assert
+      expect(actual).toEqual({ l: 45, a: 40, b: 0 });
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { clampC, clampK, clampM, clampY, fromRGB, toRGB } from '@internal/color/space/cmyk';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+describe('CMYK', () => {
+  describe.each([
+    { name: 'clampC', clampFn: clampC },
+    { name: 'clampM', clampFn: clampM },
+    { name: 'clampY', clampFn: clampY },
+    { name: 'clampK', clampFn: clampK },
+  ])('$name', ({ clampFn }) => {
+    it.each([
+      { value: -0.1, expected: 0 },
+      { value: 0, expected: 0 },
+      { value: 0.5, expected: 0.5 },
+      { value: 1, expected: 1 },
+      { value: 1.1, expected: 1 },
+    ])('should return clamped value($expected) when the value is $value', ({ value, expected }) => {
+      // Act
+      const actual = clampFn(value);
+
+      // Assert
+      expect(actual).toEqual(expected);
+    });
+  });
+
+  describe('toRGB', () => {
+    it.each([
+      { cmyk: { c: 0, m: 0, y: 0, k: 1 }, expected: { r: 0, g: 0, b: 0 } }, // Black
+      { cmyk: { c: 0, m: 0, y: 0, k: 0 }, expected: { r: 255, g: 255, b: 255 } }, // White
+      { cmyk: { c: 0, m: 1, y: 1, k: 0 }, expected: { r: 255, g: 0, b: 0 } }, // Red
+      { cmyk: { c: 1, m: 0, y: 1, k: 0 }, expected: { r: 0, g: 255, b: 0 } }, // Green
+      { cmyk: { c: 1, m: 1, y: 0, k: 0 }, expected: { r: 0, g: 0, b: 255 } }, // Blue
+      { cmyk: { c: 0, m: 0, y: 0, k: 0.5 }, expected: { r: 128, g: 128, b: 128 } }, // Gray
+    ])('should convert CMYK($cmyk) to RGB($expected)', ({ cmyk, expected }) => {
+      // Act
+      const actual = toRGB(cmyk);
+
+      // Assert
+      expect(actual).toMatchObject(expected);
+    });
+
+    it.each([
+      { c: Number.NaN, m: 0, y: 0, k: 0 },
+      { c: 0, m: Number.POSITIVE_INFINITY, y: 0, k: 0 },
+      { c: 0, m: 0, y: Number.NEGATIVE_INFINITY, k: 0 },
+      { c: 0, m: 0, y: 0, k: Number.NaN },
+    ])('should throw an AssertionError if the c, m, y, or k component(%o) is not a finite number', (cmyk) => {
+      // Assert
+      expect(() => {
+        // Act
+        toRGB(cmyk);
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('fromRGB', () => {
+    it.each([
+      { rgb: { r: 0, g: 0, b: 0 }, expected: { c: 0, m: 0, y: 0, k: 1 } }, // Black
+      { rgb: { r: 255, g: 255, b: 255 }, expected: { c: 0, m: 0, y: 0, k: 0 } }, // White
+      { rgb: { r: 255, g: 0, b: 0 }, expected: { c: 0, m: 1, y: 1, k: 0 } }, // Red
+      { rgb: { r: 0, g: 255, b: 0 }, expected: { c: 1, m: 0, y: 1, k: 0 } }, // Green
+      { rgb: { r: 0, g: 0, b: 255 }, expected: { c: 1, m: 1, y: 0, k: 0 } }, // Blue
+    ])('should convert RGB($rgb) to CMYK($expected)', ({ rgb, expected }) => {
+      // Act
+      const actual = fromRGB(rgb);
+
+      // Assert
+      expect(actual).toMatchObject(expected);
+    });
+
+    it.each([
+      { r: 0, g: 0, b: 0 },
+      { r: 244, g: 34, b: 34 },
+      { r: 0, g: 121, b: 68 },
+      { r: 0, g: 21, b: 143 },
+      { r: 128, g: 128, b: 128 },
+    ])('should round-trip RGB(%o) through CMYK', (rgb) => {
+      // Act
+      const actual = toRGB(fromRGB(rgb));
+
+      // Assert
+      expect(actual).toEqual(rgb);
+    });
+
+    it('should throw an AssertionError if the component is not an integer', () => {
+      // Assert
+      expect(() => {
+        // Act
+        fromRGB({ r: 0, g: Number.NaN, b: 0 });
+      }).toThrowError(AssertionError);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { clampS, clampV, fromRGB, toRGB } from '@internal/color/space/hsv';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+describe('HSV', () => {
+  describe('clampS', () => {
+    it.each([
+      { value: -0.1, expected: 0 },
+      { value: 0, expected: 0 },
+      { value: 0.5, expected: 0.5 },
+      { value: 1, expected: 1 },
+      { value: 1.1, expected: 1 },
+    ])('should return clamped value($expected) when the value is $value', ({ value, expected }) => {
+      // Act
+      const actual = clampS(value);
+
+      // Assert
+      expect(actual).toEqual(expected);
+    });
+  });
+
+  describe('clampV', () => {
+    it.each([
+      { value: -0.1, expected: 0 },
+      { value: 0, expected: 0 },
+      { value: 0.5, expected: 0.5 },
+      { value: 1, expected: 1 },
+      { value: 1.1, expected: 1 },
+    ])('should return clamped value($expected) when the value is $value', ({ value, expected }) => {
+      // Act
+      const actual = clampV(value);
+
+      // Assert
+      expect(actual).toEqual(expected);
+    });
+  });
+
+  describe('toRGB', () => {
+    it.each([
+      { hsv: { h: 0, s: 0, v: 0 }, expected: { r: 0, g: 0, b: 0 } }, // Black
+      { hsv: { h: 0, s: 0, v: 1 }, expected: { r: 255, g: 255, b: 255 } }, // White
+      { hsv: { h: 0, s: 1, v: 1 }, expected: { r: 255, g: 0, b: 0 } }, // Red
+      { hsv: { h: 120, s: 1, v: 1 }, expected: { r: 0, g: 255, b: 0 } }, // Green
+      { hsv: { h: 240, s: 1, v: 1 }, expected: { r: 0, g: 0, b: 255 } }, // Blue
+      { hsv: { h: 180, s: 1, v: 1 }, expected: { r: 0, g: 255, b: 255 } }, // Cyan
+      { hsv: { h: 300, s: 1, v: 1 }, expected: { r: 255, g: 0, b: 255 } }, // Magenta
+      { hsv: { h: 60, s: 1, v: 1 }, expected: { r: 255, g: 255, b: 0 } }, // Yellow
+      { hsv: { h: 120, s: 1, v: 0.5 }, expected: { r: 0, g: 128, b: 0 } }, // Dark green
+      { hsv: { h: -240, s: 1, v: 1 }, expected: { r: 0, g: 255, b: 0 } }, // Green
+    ])('should convert HSV($hsv) to RGB($expected)', ({ hsv, expected }) => {
+      // Act
+      const actual = toRGB(hsv);
+
+      // Assert
+      expect(actual).toMatchObject(expected);
+    });
+
+    it.each([
+      { h: Number.NaN, s: 0, v: 0 },
+      { h: 0, s: Number.POSITIVE_INFINITY, v: 0 },
+      { h: 0, s: 0, v: Number.NEGATIVE_INFINITY },
+    ])('should throw an AssertionError if the h, s, or v component(%o) is not a finite number', (hsv) => {
+      // Assert
+      expect(() => {
+        // Act
+        toRGB(hsv);
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('fromRGB', () => {
+    it.each([
+      { rgb: { r: 0, g: 0, b: 0 }, expected: { h: 0, s: 0, v: 0 } }, // Black
+      { rgb: { r: 255, g: 255, b: 255 }, expected: { h: 0, s: 0, v: 1 } }, // White
+      { rgb: { r: 255, g: 0, b: 0 }, expected: { h: 0, s: 1, v: 1 } }, // Red
+      { rgb: { r: 0, g: 255, b: 0 }, expected: { h: 120, s: 1, v: 1 } }, // Green
+      { rgb: { r: 0, g: 0, b: 255 }, expected: { h: 240, s: 1, v: 1 } }, // Blue
+      { rgb: { r: 0, g: 255, b: 255 }, expected: { h: 180, s: 1, v: 1 } }, // Cyan
+      { rgb: { r: 255, g: 0, b: 255 }, expected: { h: 300, s: 1, v: 1 } }, // Magenta
+      { rgb: { r: 255, g: 255, b: 0 }, expected: { h: 60, s: 1, v: 1 } }, // Yellow
+    ])('should convert RGB($rgb) to HSV($expected)', ({ rgb, expected }) => {
+      // Act
+      const actual = fromRGB(rgb);
+
+      // Assert
+      expect(actual).toMatchObject(expected);
+    });
+
+    it.each([
+      { r: 0, g: 0, b: 0 },
+      { r: 244, g: 34, b: 34 },
+      { r: 0, g: 121, b: 68 },
+      { r: 0, g: 21, b: 143 },
+      { r: 128, g: 128, b: 128 },
+    ])('should round-trip RGB(%o) through HSV', (rgb) => {
+      // Act
+      const actual = toRGB(fromRGB(rgb));
+
+      // Assert
+      expect(actual).toEqual(rgb);
+    });
+
+    it.each([
+      { r: Number.NaN, g: 0, b: 0 },
+      { r: 0, g: 0.5, b: 0 },
+      { r: 0, g: 0, b: Number.POSITIVE_INFINITY },
+    ])('should throw an AssertionError if the r, g, or b component(%o) is not an integer', (rgb) => {
+      // Assert
+      expect(() => {
+        // Act
+        fromRGB(rgb);
+      }).toThrowError(AssertionError);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { clampB, clampW, fromRGB, toRGB } from '@internal/color/space/hwb';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+describe('HWB', () => {
+  describe('clampW', () => {
+    it.each([
+      { value: -0.1, expected: 0 },
+      { value: 0, expected: 0 },
+      { value: 0.5, expected: 0.5 },
+      { value: 1, expected: 1 },
+      { value: 1.1, expected: 1 },
+    ])('should return clamped value($expected) when the value is $value', ({ value, expected }) => {
+      // Act
+      const actual = clampW(value);
+
+      // Assert
+      expect(actual).toEqual(expected);
+    });
+  });
+
+  describe('clampB', () => {
+    it.each([
+      { value: -0.1, expected: 0 },
+      { value: 0, expected: 0 },
+      { value: 0.5, expected: 0.5 },
+      { value: 1, expected: 1 },
+      { value: 1.1, expected: 1 },
+    ])('should return clamped value($expected) when the value is $value', ({ value, expected }) => {
+      // Act
+      const actual = clampB(value);
+
+      // Assert
+      expect(actual).toEqual(expected);
+    });
+  });
+
+  describe('toRGB', () => {
+    it.each([
+      { hwb: { h: 0, w: 0, b: 1 }, expected: { r: 0, g: 0, b: 0 } }, // Black
+      { hwb: { h: 0, w: 1, b: 0 }, expected: { r: 255, g: 255, b: 255 } }, // White
+      { hwb: { h: 0, w: 0, b: 0 }, expected: { r: 255, g: 0, b: 0 } }, // Red
+      { hwb: { h: 120, w: 0, b: 0 }, expected: { r: 0, g: 255, b: 0 } }, // Green
+      { hwb: { h: 240, w: 0, b: 0 }, expected: { r: 0, g: 0, b: 255 } }, // Blue
+      { hwb: { h: 0, w: 0.4, b: 0.6 }, expected: { r: 102, g: 102, b: 102 } }, // Gray
+      { hwb: { h: 0, w: 0.8, b: 0.8 }, expected: { r: 128, g: 128, b: 128 } }, // Gray normalized
+    ])('should convert HWB($hwb) to RGB($expected)', ({ hwb, expected }) => {
+      // Act
+      const actual = toRGB(hwb);
+
+      // Assert
+      expect(actual).toMatchObject(expected);
+    });
+
+    it.each([
+      { h: Number.NaN, w: 0, b: 0 },
+      { h: 0, w: Number.POSITIVE_INFINITY, b: 0 },
+      { h: 0, w: 0, b: Number.NEGATIVE_INFINITY },
+    ])('should throw an AssertionError if the h, w, or b component(%o) is not a finite number', (hwb) => {
+      // Assert
+      expect(() => {
+        // Act
+        toRGB(hwb);
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('fromRGB', () => {
+    it.each([
+      { rgb: { r: 0, g: 0, b: 0 }, expected: { h: 0, w: 0, b: 1 } }, // Black
+      { rgb: { r: 255, g: 255, b: 255 }, expected: { h: 0, w: 1, b: 0 } }, // White
+      { rgb: { r: 255, g: 0, b: 0 }, expected: { h: 0, w: 0, b: 0 } }, // Red
+      { rgb: { r: 0, g: 255, b: 0 }, expected: { h: 120, w: 0, b: 0 } }, // Green
+      { rgb: { r: 0, g: 0, b: 255 }, expected: { h: 240, w: 0, b: 0 } }, // Blue
+    ])('should convert RGB($rgb) to HWB($expected)', ({ rgb, expected }) => {
+      // Act
+      const actual = fromRGB(rgb);
+
+      // Assert
+      expect(actual).toMatchObject(expected);
+    });
+
+    it.each([
+      { r: 0, g: 0, b: 0 },
+      { r: 244, g: 34, b: 34 },
+      { r: 0, g: 121, b: 68 },
+      { r: 0, g: 21, b: 143 },
+      { r: 128, g: 128, b: 128 },
+    ])('should round-trip RGB(%o) through HWB', (rgb) => {
+      // Act
+      const actual = toRGB(fromRGB(rgb));
+
+      // Assert
+      expect(actual).toEqual(rgb);
+    });
+
+    it('should throw an AssertionError if the component is not an integer', () => {
+      // Assert
+      expect(() => {
+        // Act
+        fromRGB({ r: 0.5, g: 0, b: 0 });
+      }).toThrowError(AssertionError);
+    });
+  });
+});
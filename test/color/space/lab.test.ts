@@ -1,4 +1,4 @@
-import { clampA, clampB, clampL, fromXYZ, toXYZ } from '@internal/color/space/lab';
+import { clampA, clampB, clampL, fromXYZ, toXYZ, toXYZUnclamped } from '@internal/color/space/lab';
 import { AssertionError } from '@internal/utils';
 import { describe, expect, it } from 'vitest';
 
@@ -21,11 +21,11 @@ describe('CIELab', () => {
 
   describe('clampA', () => {
     it.each([
-      { value: -129, expected: -128 },
-      { value: -128, expected: -128 },
+      { value: -201, expected: -200 },
+      { value: -200, expected: -200 },
       { value: 0, expected: 0 },
-      { value: 128, expected: 128 },
-      { value: 129, expected: 128 },
+      { value: 200, expected: 200 },
+      { value: 201, expected: 200 },
     ])('should return clamped value($expected) when the value is $value', ({ value, expected }) => {
       // Act
       const actual = clampA(value);
@@ -37,11 +37,11 @@ describe('CIELab', () => {
 
   describe('clampB', () => {
     it.each([
-      { value: -129, expected: -128 },
-      { value: -128, expected: -128 },
+      { value: -151, expected: -150 },
+      { value: -150, expected: -150 },
       { value: 0, expected: 0 },
-      { value: 128, expected: 128 },
-      { value: 129, expected: 128 },
+      { value: 150, expected: 150 },
+      { value: 151, expected: 150 },
     ])('should return clamped value($expected) when the value is $value', ({ value, expected }) => {
       // Act
       const actual = clampB(value);
@@ -71,6 +71,19 @@ describe('CIELab', () => {
       expect(actual.b).toBeCloseTo(expected.b, 4);
     });
 
+    it('should convert the reference white to the white of the CIELab color space', () => {
+      // Arrange
+      const white = { x: 0.96422, y: 1.0, z: 0.82521 };
+
+      // Act
+      const actual = fromXYZ(white, white);
+
+      // Assert
+      expect(actual.l).toBeCloseTo(100.0, 4);
+      expect(actual.a).toBeCloseTo(0.0, 4);
+      expect(actual.b).toBeCloseTo(0.0, 4);
+    });
+
     it.each([
       { x: Number.NaN, y: 0, z: 0 },
       { x: Number.POSITIVE_INFINITY, y: 0, z: 0 },
@@ -110,6 +123,19 @@ describe('CIELab', () => {
       expect(actual.z).toBeCloseTo(expected.z, 4);
     });
 
+    it('should convert the white of the CIELab color space to the reference white', () => {
+      // Arrange
+      const white = { x: 0.96422, y: 1.0, z: 0.82521 };
+
+      // Act
+      const actual = toXYZ({ l: 100.0, a: 0.0, b: 0.0 }, white);
+
+      // Assert
+      expect(actual.x).toBeCloseTo(white.x, 3);
+      expect(actual.y).toBeCloseTo(white.y, 3);
+      expect(actual.z).toBeCloseTo(white.z, 3);
+    });
+
     it.each([
       { l: Number.NaN, a: 0, b: 0 },
       { l: Number.POSITIVE_INFINITY, a: 0, b: 0 },
@@ -128,4 +154,18 @@ describe('CIELab', () => {
       }).toThrowError(AssertionError);
     });
   });
+
+  describe('toXYZUnclamped', () => {
+    it('should not clamp the components of the color out of the range', () => {
+      // Arrange
+      const lab = { l: 60, a: -250, b: 100 };
+
+      // Act
+      const actual = toXYZUnclamped(lab);
+
+      // Assert
+      expect(fromXYZ(actual).a).toBe(-200);
+      expect(actual.x).toBeLessThan(toXYZ(lab).x);
+    });
+  });
 });
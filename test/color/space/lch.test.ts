@@ -0,0 +1,81 @@
+import { clampC, fromLAB, toLAB } from '@internal/color/space/lch';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+describe('LCH', () => {
+  describe('clampC', () => {
+    it.each([
+      { value: -1, expected: 0 },
+      { value: 0, expected: 0 },
+      { value: 90, expected: 90 },
+      { value: 180, expected: 180 },
+      { value: 181, expected: 180 },
+    ])('should return clamped value($expected) when the value is $value', ({ value, expected }) => {
+      // Act
+      const actual = clampC(value);
+
+      // Assert
+      expect(actual).toEqual(expected);
+    });
+  });
+
+  describe('fromLAB', () => {
+    it.each([
+      { lab: { l: 0, a: 0, b: 0 }, expected: { l: 0, c: 0, h: 0 } }, // Black
+      { lab: { l: 100, a: 0, b: 0 }, expected: { l: 100, c: 0, h: 0 } }, // White
+      { lab: { l: 53.2408, a: 80.0925, b: 67.2032 }, expected: { l: 53.2408, c: 104.5518, h: 39.999 } }, // Red
+      { lab: { l: 87.7347, a: -86.1827, b: 83.1793 }, expected: { l: 87.7347, c: 119.7759, h: 136.016 } }, // Green
+      { lab: { l: 32.297, a: 79.1875, b: -107.8602 }, expected: { l: 32.297, c: 133.8076, h: 306.2849 } }, // Blue
+    ])('should convert LAB($lab) to LCH($expected)', ({ lab, expected }) => {
+      // Act
+      const actual = fromLAB(lab);
+
+      // Assert
+      expect(actual.l).toBeCloseTo(expected.l, 4);
+      expect(actual.c).toBeCloseTo(expected.c, 3);
+      expect(actual.h).toBeCloseTo(expected.h, 3);
+    });
+
+    it.each([
+      { l: Number.NaN, a: 0, b: 0 },
+      { l: 0, a: Number.POSITIVE_INFINITY, b: 0 },
+      { l: 0, a: 0, b: Number.NEGATIVE_INFINITY },
+    ])('should throw an AssertionError if the l, a, or b component(%o) is not a finite number', (lab) => {
+      // Assert
+      expect(() => {
+        // Act
+        fromLAB(lab);
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('toLAB', () => {
+    it.each([
+      { l: 0, a: 0, b: 0 },
+      { l: 100, a: 0, b: 0 },
+      { l: 53.2408, a: 80.0925, b: 67.2032 },
+      { l: 87.7347, a: -86.1827, b: 83.1793 },
+      { l: 32.297, a: 79.1875, b: -107.8602 },
+    ])('should round-trip LAB(%o) through LCH', (lab) => {
+      // Act
+      const actual = toLAB(fromLAB(lab));
+
+      // Assert
+      expect(actual.l).toBeCloseTo(lab.l, 4);
+      expect(actual.a).toBeCloseTo(lab.a, 4);
+      expect(actual.b).toBeCloseTo(lab.b, 4);
+    });
+
+    it.each([
+      { l: Number.NaN, c: 0, h: 0 },
+      { l: 0, c: Number.POSITIVE_INFINITY, h: 0 },
+      { l: 0, c: 0, h: Number.NEGATIVE_INFINITY },
+    ])('should throw an AssertionError if the l, c, or h component(%o) is not a finite number', (lch) => {
+      // Assert
+      expect(() => {
+        // Act
+        toLAB(lch);
+      }).toThrowError(AssertionError);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { clampA, clampB, clampL, fromXYZ, fromXYZUnclamped, toXYZ, toXYZUnclamped } from '@internal/color/space/oklab';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+describe('OKLab', () => {
+  describe('clampL', () => {
+    it.each([
+      { value: -0.1, expected: 0 },
+      { value: 0, expected: 0 },
+      { value: 0.5, expected: 0.5 },
+      { value: 1, expected: 1 },
+      { value: 1.1, expected: 1 },
+    ])('should return clamped value($expected) when the value is $value', ({ value, expected }) => {
+      // Act
+      const actual = clampL(value);
+
+      // Assert
+      expect(actual).toEqual(expected);
+    });
+  });
+
+  describe('clampA', () => {
+    it.each([
+      { value: -0.5, expected: -0.4 },
+      { value: -0.4, expected: -0.4 },
+      { value: 0, expected: 0 },
+      { value: 0.4, expected: 0.4 },
+      { value: 0.5, expected: 0.4 },
+    ])('should return clamped value($expected) when the value is $value', ({ value, expected }) => {
+      // Act
+      const actual = clampA(value);
+
+      // Assert
+      expect(actual).toEqual(expected);
+    });
+  });
+
+  describe('clampB', () => {
+    it.each([
+      { value: -0.5, expected: -0.4 },
+      { value: -0.4, expected: -0.4 },
+      { value: 0, expected: 0 },
+      { value: 0.4, expected: 0.4 },
+      { value: 0.5, expected: 0.4 },
+    ])('should return clamped value($expected) when the value is $value', ({ value, expected }) => {
+      // Act
+      const actual = clampB(value);
+
+      // Assert
+      expect(actual).toEqual(expected);
+    });
+  });
+
+  describe('fromXYZ', () => {
+    it.each([
+      { xyz: { x: 0.0, y: 0.0, z: 0.0 }, expected: { l: 0.0, a: 0.0, b: 0.0 } }, // Black
+      { xyz: { x: 0.95047, y: 1.0, z: 1.08883 }, expected: { l: 1.0, a: 0.0, b: 0.0 } }, // White
+      { xyz: { x: 0.4124, y: 0.2126, z: 0.0193 }, expected: { l: 0.6279, a: 0.2249, b: 0.1258 } }, // Red
+      { xyz: { x: 0.3576, y: 0.7152, z: 0.1192 }, expected: { l: 0.8665, a: -0.2339, b: 0.1794 } }, // Green
+      { xyz: { x: 0.1805, y: 0.0722, z: 0.9505 }, expected: { l: 0.452, a: -0.0324, b: -0.3116 } }, // Blue
+    ])('should convert XYZ(%o) to OKLab(%o)', ({ xyz, expected }) => {
+      // Act
+      const actual = fromXYZ(xyz);
+
+      // Assert
+      expect(actual.l).toBeCloseTo(expected.l, 3);
+      expect(actual.a).toBeCloseTo(expected.a, 3);
+      expect(actual.b).toBeCloseTo(expected.b, 3);
+    });
+
+    it.each([
+      { x: Number.NaN, y: 0, z: 0 },
+      { x: 0, y: Number.POSITIVE_INFINITY, z: 0 },
+      { x: 0, y: 0, z: Number.NEGATIVE_INFINITY },
+    ])('should throw an AssertionError if the x, y, or z component(%o) is not a finite number', (xyz) => {
+      // Assert
+      expect(() => {
+        // Act
+        fromXYZ(xyz);
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('toXYZ', () => {
+    it.each([
+      { x: 0.0, y: 0.0, z: 0.0 }, // Black
+      { x: 0.95047, y: 1.0, z: 1.0886 }, // White
+      { x: 0.4124, y: 0.2126, z: 0.0193 }, // Red
+      { x: 0.3576, y: 0.7152, z: 0.1192 }, // Green
+      { x: 0.1805, y: 0.0722, z: 0.9505 }, // Blue
+    ])('should convert OKLab back to XYZ(%o)', (xyz) => {
+      // Act
+      const actual = toXYZ(fromXYZ(xyz));
+
+      // Assert
+      expect(actual.x).toBeCloseTo(xyz.x, 4);
+      expect(actual.y).toBeCloseTo(xyz.y, 4);
+      expect(actual.z).toBeCloseTo(xyz.z, 4);
+    });
+
+    it.each([
+      { l: Number.NaN, a: 0, b: 0 },
+      { l: 0, a: Number.POSITIVE_INFINITY, b: 0 },
+      { l: 0, a: 0, b: Number.NEGATIVE_INFINITY },
+    ])('should throw an AssertionError if the l, a, or b component(%o) is not a finite number', (oklab) => {
+      // Assert
+      expect(() => {
+        // Act
+        toXYZ(oklab);
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('fromXYZUnclamped', () => {
+    it('should not clamp the components of the color out of the range', () => {
+      // Arrange
+      const xyz = { x: 0.1446, y: 0.678, z: 0.0281 }; // Green of Rec. 2020
+
+      // Act
+      const actual = fromXYZUnclamped(xyz);
+
+      // Assert
+      expect(actual.a).toBeLessThan(-0.4);
+      expect(fromXYZ(xyz).a).toBe(-0.4);
+    });
+  });
+
+  describe('toXYZUnclamped', () => {
+    it('should be the inverse of fromXYZUnclamped', () => {
+      // Arrange
+      const xyz = { x: 0.1446, y: 0.678, z: 0.0281 }; // Green of Rec. 2020
+
+      // Act
+      const actual = toXYZUnclamped(fromXYZUnclamped(xyz));
+
+      // Assert
+      expect(actual.x).toBeCloseTo(xyz.x, 4);
+      expect(actual.y).toBeCloseTo(xyz.y, 4);
+      expect(actual.z).toBeCloseTo(xyz.z, 4);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { clampC, fromOKLab, normalizeH, toOKLab } from '@internal/color/space/oklch';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+describe('OKLCH', () => {
+  describe('clampC', () => {
+    it.each([
+      { value: -0.1, expected: 0 },
+      { value: 0, expected: 0 },
+      { value: 0.2, expected: 0.2 },
+      { value: 0.4, expected: 0.4 },
+      { value: 0.5, expected: 0.4 },
+    ])('should return clamped value($expected) when the value is $value', ({ value, expected }) => {
+      // Act
+      const actual = clampC(value);
+
+      // Assert
+      expect(actual).toEqual(expected);
+    });
+  });
+
+  describe('normalizeH', () => {
+    it.each([
+      { value: -90, expected: 270 },
+      { value: 0, expected: 0 },
+      { value: 180, expected: 180 },
+      { value: 360, expected: 0 },
+      { value: 450, expected: 90 },
+    ])('should return normalized value($expected) when the value is $value', ({ value, expected }) => {
+      // Act
+      const actual = normalizeH(value);
+
+      // Assert
+      expect(actual).toEqual(expected);
+    });
+  });
+
+  describe('fromOKLab', () => {
+    it.each([
+      { oklab: { l: 0, a: 0, b: 0 }, expected: { l: 0, c: 0, h: 0 } }, // Black
+      { oklab: { l: 1, a: 0, b: 0 }, expected: { l: 1, c: 0, h: 0 } }, // White
+      { oklab: { l: 0.628, a: 0.2249, b: 0.1258 }, expected: { l: 0.628, c: 0.2577, h: 29.2209 } }, // Red
+      { oklab: { l: 0.452, a: -0.0324, b: -0.3116 }, expected: { l: 0.452, c: 0.3133, h: 264.0637 } }, // Blue
+    ])('should convert OKLab(%o) to OKLCH(%o)', ({ oklab, expected }) => {
+      // Act
+      const actual = fromOKLab(oklab);
+
+      // Assert
+      expect(actual.l).toBeCloseTo(expected.l, 4);
+      expect(actual.c).toBeCloseTo(expected.c, 4);
+      expect(actual.h).toBeCloseTo(expected.h, 3);
+    });
+
+    it('should throw an AssertionError if the component is not a finite number', () => {
+      // Assert
+      expect(() => {
+        // Act
+        fromOKLab({ l: Number.NaN, a: 0, b: 0 });
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('toOKLab', () => {
+    it.each([
+      { oklch: { l: 0.628, c: 0.2577, h: 29.2209 }, expected: { l: 0.628, a: 0.2249, b: 0.1258 } }, // Red
+      { oklch: { l: 0.452, c: 0.3133, h: 264.0637 }, expected: { l: 0.452, a: -0.0324, b: -0.3116 } }, // Blue
+      { oklch: { l: 0.452, c: 0.3133, h: -95.9363 }, expected: { l: 0.452, a: -0.0324, b: -0.3116 } }, // Blue
+    ])('should convert OKLCH(%o) to OKLab(%o)', ({ oklch, expected }) => {
+      // Act
+      const actual = toOKLab(oklch);
+
+      // Assert
+      expect(actual.l).toBeCloseTo(expected.l, 4);
+      expect(actual.a).toBeCloseTo(expected.a, 4);
+      expect(actual.b).toBeCloseTo(expected.b, 4);
+    });
+
+    it('should throw an AssertionError if the component is not a finite number', () => {
+      // Assert
+      expect(() => {
+        // Act
+        toOKLab({ l: 0.5, c: 0.1, h: Number.POSITIVE_INFINITY });
+      }).toThrowError(AssertionError);
+    });
+  });
+});
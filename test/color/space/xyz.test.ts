@@ -1,4 +1,16 @@
-import { clampX, clampY, clampZ, fromRGB, toRGB } from '@internal/color/space/xyz';
+import {
+  clampX,
+  clampY,
+  clampZ,
+  delinearize,
+  fromEncodedRGB,
+  fromLinearRGB,
+  fromRGB,
+  linearize,
+  toEncodedRGB,
+  toLinearRGB,
+  toRGB,
+} from '@internal/color/space/xyz';
 import { AssertionError } from '@internal/utils';
 import { describe, expect, it } from 'vitest';
 
@@ -78,6 +90,40 @@ describe('XYZ', () => {
       expect(actual.z).toBeCloseTo(expected.z, 4);
     });
 
+    it.each([
+      { space: 'display-p3', rgb: { r: 255, g: 0, b: 0 }, expected: { x: 0.4866, y: 0.229, z: 0.0 } },
+      { space: 'display-p3', rgb: { r: 0, g: 255, b: 0 }, expected: { x: 0.2657, y: 0.6917, z: 0.0451 } },
+      { space: 'a98-rgb', rgb: { r: 0, g: 255, b: 0 }, expected: { x: 0.1856, y: 0.6274, z: 0.0707 } },
+      { space: 'rec2020', rgb: { r: 255, g: 0, b: 0 }, expected: { x: 0.637, y: 0.2627, z: 0.0 } },
+      { space: 'rec2020', rgb: { r: 0, g: 0, b: 255 }, expected: { x: 0.1689, y: 0.0593, z: 1.061 } },
+    ] as const)('should convert RGB($rgb) in $space to XYZ($expected)', ({ space, rgb, expected }) => {
+      // Act
+      const actual = fromRGB(rgb, space);
+
+      // Assert
+      expect(actual.x).toBeCloseTo(expected.x, 4);
+      expect(actual.y).toBeCloseTo(expected.y, 4);
+      expect(actual.z).toBeCloseTo(expected.z, 4);
+    });
+
+    it.each(['srgb', 'display-p3', 'a98-rgb', 'rec2020'] as const)('should convert the white in %s to D65', (space) => {
+      // Act
+      const actual = fromRGB({ r: 255, g: 255, b: 255 }, space);
+
+      // Assert
+      expect(actual.x).toBeCloseTo(0.9505, 4);
+      expect(actual.y).toBeCloseTo(1.0, 4);
+      expect(actual.z).toBeCloseTo(1.0886, 3);
+    });
+
+    it('should throw an AssertionError if the RGB color space is unknown', () => {
+      // Assert
+      expect(() => {
+        // Act
+        fromRGB({ r: 0, g: 0, b: 0 }, 'prophoto-rgb' as 'srgb');
+      }).toThrowError(AssertionError);
+    });
+
     it.each([
       { r: Number.NaN, g: 0, b: 0 },
       { r: Number.POSITIVE_INFINITY, g: 0, b: 0 },
@@ -117,6 +163,37 @@ describe('XYZ', () => {
       expect(actual.b).toBe(expected.b);
     });
 
+    it.each(['srgb', 'display-p3', 'a98-rgb', 'rec2020'] as const)(
+      'should round-trip the RGB colors in %s',
+      (space) => {
+        for (const rgb of [
+          { r: 0, g: 0, b: 0 },
+          { r: 255, g: 255, b: 255 },
+          { r: 244, g: 34, b: 34 },
+          { r: 0, g: 121, b: 68 },
+          { r: 1, g: 2, b: 3 },
+          { r: 128, g: 128, b: 128 },
+        ]) {
+          // Act
+          const actual = toRGB(fromRGB(rgb, space), space);
+
+          // Assert
+          expect(actual).toEqual(rgb);
+        }
+      },
+    );
+
+    it('should clip the RGB components of the color out of the gamut', () => {
+      // Arrange
+      const xyz = fromRGB({ r: 255, g: 0, b: 0 }, 'rec2020');
+
+      // Act
+      const actual = toRGB(xyz, 'srgb');
+
+      // Assert
+      expect(actual).toEqual({ r: 255, g: 0, b: 0 });
+    });
+
     it.each([
       { x: Number.NaN, y: 0, z: 0 },
       { x: Number.POSITIVE_INFINITY, y: 0, z: 0 },
@@ -135,4 +212,65 @@ describe('XYZ', () => {
       }).toThrowError(AssertionError);
     });
   });
+
+  describe('fromEncodedRGB', () => {
+    it('should convert the components out of [0, 1] without clamping', () => {
+      // Arrange
+      const components = toEncodedRGB(fromRGB({ r: 255, g: 0, b: 0 }, 'display-p3'), 'srgb');
+
+      // Act
+      const actual = fromEncodedRGB(components, 'srgb');
+
+      // Assert
+      expect(components[0]).toBeGreaterThan(1);
+      expect(components[1]).toBeLessThan(0);
+      expect(actual.x).toBeCloseTo(0.4866, 4);
+      expect(actual.y).toBeCloseTo(0.229, 4);
+      expect(actual.z).toBeCloseTo(0.0, 4);
+    });
+  });
+
+  describe('toEncodedRGB', () => {
+    it.each(['srgb', 'display-p3', 'a98-rgb', 'rec2020'] as const)('should convert D65 to the white in %s', (space) => {
+      // Act
+      const actual = toEncodedRGB({ x: 0.950456, y: 1.0, z: 1.089058 }, space);
+
+      // Assert
+      for (const value of actual) {
+        expect(value).toBeCloseTo(1.0, 4);
+      }
+    });
+  });
+
+  describe('delinearize', () => {
+    it.each(['srgb', 'display-p3', 'a98-rgb', 'rec2020'] as const)(
+      'should be the inverse of linearize in %s',
+      (space) => {
+        // Arrange
+        const components = [0.0, 0.02, 0.5, 1.0, -0.5];
+
+        // Act
+        const actual = components.map((value: number): number => delinearize(linearize(value, space), space));
+
+        // Assert
+        actual.forEach((value: number, index: number) => expect(value).toBeCloseTo(components[index], 5));
+      },
+    );
+  });
+
+  describe('toLinearRGB', () => {
+    it.each(['srgb', 'display-p3', 'a98-rgb', 'rec2020'] as const)(
+      'should be the inverse of fromLinearRGB in %s',
+      (space) => {
+        // Arrange
+        const components: [number, number, number] = [0.25, -0.1, 1.2];
+
+        // Act
+        const actual = toLinearRGB(fromLinearRGB(components, space), space);
+
+        // Assert
+        actual.forEach((value: number, index: number) => expect(value).toBeCloseTo(components[index], 5));
+      },
+    );
+  });
 });
@@ -0,0 +1,56 @@
+import { resolveTones } from '@internal/color/tonal';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+describe('tonal', () => {
+  describe('resolveTones', () => {
+    it('should resolve the material tones', () => {
+      // Act
+      const actual = resolveTones('material');
+
+      // Assert
+      expect(actual).toHaveLength(13);
+      expect(actual[0]).toEqual([0, 0]);
+      expect(actual[11]).toEqual([99, 99]);
+      expect(actual[12]).toEqual([100, 100]);
+    });
+
+    it('should resolve the tailwind tones in descending order of the lightness', () => {
+      // Act
+      const actual = resolveTones('tailwind');
+
+      // Assert
+      expect(actual.map(([key]) => key)).toEqual([50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950]);
+      const lightness = actual.map(([, l]) => l);
+      expect(lightness).toEqual([...lightness].sort((a, b) => b - a));
+    });
+
+    it('should resolve the custom tones as the lightness', () => {
+      // Act
+      const actual = resolveTones([25, 50, 75]);
+
+      // Assert
+      expect(actual).toEqual([
+        [25, 25],
+        [50, 50],
+        [75, 75],
+      ]);
+    });
+
+    it.each([-1, 101, Number.NaN])('should throw an AssertionError if the tone(%d) is invalid', (tone) => {
+      // Assert
+      expect(() => {
+        // Act
+        resolveTones([50, tone]);
+      }).toThrowError(AssertionError);
+    });
+
+    it('should throw an AssertionError if the tones are unknown', () => {
+      // Assert
+      expect(() => {
+        // Act
+        resolveTones('unknown' as 'material');
+      }).toThrowError(AssertionError);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { simulateDeficiency } from '@internal/color/vision';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+describe('vision', () => {
+  describe('simulateDeficiency', () => {
+    it.each([
+      { deficiency: 'protanopia', rgb: { r: 255, g: 0, b: 0 }, expected: { r: 109, g: 95, b: 0 } },
+      { deficiency: 'protanopia', rgb: { r: 0, g: 0, b: 255 }, expected: { r: 0, g: 89, b: 255 } },
+      { deficiency: 'deuteranopia', rgb: { r: 255, g: 0, b: 0 }, expected: { r: 163, g: 144, b: 0 } },
+      { deficiency: 'deuteranopia', rgb: { r: 0, g: 255, b: 0 }, expected: { r: 239, g: 214, b: 58 } },
+      { deficiency: 'tritanopia', rgb: { r: 0, g: 255, b: 0 }, expected: { r: 0, g: 247, b: 217 } },
+      { deficiency: 'tritanopia', rgb: { r: 0, g: 0, b: 255 }, expected: { r: 0, g: 107, b: 150 } },
+    ] as const)('should simulate $deficiency for $rgb', ({ deficiency, rgb, expected }) => {
+      // Act
+      const actual = simulateDeficiency(rgb, deficiency, 1.0);
+
+      // Assert
+      expect(actual).toEqual(expected);
+    });
+
+    it.each(['protanopia', 'deuteranopia', 'tritanopia'] as const)(
+      'should preserve the gray colors for %s',
+      (deficiency) => {
+        // Act
+        const actual = simulateDeficiency({ r: 128, g: 128, b: 128 }, deficiency, 1.0);
+
+        // Assert
+        expect(actual).toEqual({ r: 128, g: 128, b: 128 });
+      },
+    );
+
+    it('should interpolate the anomalous trichromacy by the severity', () => {
+      // Arrange
+      const rgb = { r: 255, g: 0, b: 0 };
+
+      // Act
+      const none = simulateDeficiency(rgb, 'protanopia', 0.0);
+      const half = simulateDeficiency(rgb, 'protanopia', 0.5);
+
+      // Assert
+      expect(none).toEqual(rgb);
+      expect(half.r).toBeLessThan(255);
+      expect(half.r).toBeGreaterThan(109);
+      expect(half.g).toBeGreaterThan(0);
+      expect(half.g).toBeLessThan(95);
+    });
+
+    it.each([-0.1, 1.1, Number.NaN])('should throw an AssertionError if the severity(%d) is invalid', (severity) => {
+      // Assert
+      expect(() => {
+        // Act
+        simulateDeficiency({ r: 255, g: 0, b: 0 }, 'protanopia', severity);
+      }).toThrowError(AssertionError);
+    });
+
+    it('should throw an AssertionError if the deficiency is unknown', () => {
+      // Assert
+      expect(() => {
+        // Act
+        simulateDeficiency({ r: 255, g: 0, b: 0 }, 'achromatopsia' as 'protanopia', 1.0);
+      }).toThrowError(AssertionError);
+    });
+  });
+});
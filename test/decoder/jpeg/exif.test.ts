@@ -0,0 +1,86 @@
+import { applyOrientation, readOrientation } from '@internal/decoder/jpeg/exif';
+import { describe, expect, it } from 'vitest';
+
+function createSegment(littleEndian: boolean, orientation: number): Uint8Array {
+  const bytes = new Uint8Array(6 + 8 + 2 + 12 + 4);
+  bytes.set([0x45, 0x78, 0x69, 0x66, 0x00, 0x00]);
+  const view = new DataView(bytes.buffer, 6);
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, 8, littleEndian);
+  view.setUint16(8, 1, littleEndian);
+  view.setUint16(10, 0x0112, littleEndian);
+  view.setUint16(12, 3, littleEndian);
+  view.setUint32(14, 1, littleEndian);
+  view.setUint16(18, orientation, littleEndian);
+  return bytes;
+}
+
+describe('exif', () => {
+  describe('readOrientation', () => {
+    it.each([
+      { littleEndian: true, orientation: 6 },
+      { littleEndian: false, orientation: 8 },
+      { littleEndian: true, orientation: 1 },
+    ])('should read the orientation $orientation (little endian: $littleEndian)', ({ littleEndian, orientation }) => {
+      // Act
+      const actual = readOrientation(createSegment(littleEndian, orientation));
+
+      // Assert
+      expect(actual).toBe(orientation);
+    });
+
+    it('should return 1 if the orientation is out of range', () => {
+      // Act
+      const actual = readOrientation(createSegment(true, 9));
+
+      // Assert
+      expect(actual).toBe(1);
+    });
+
+    it('should return 1 if the segment is not EXIF', () => {
+      // Arrange
+      const segment = new TextEncoder().encode('http://ns.adobe.com/xap/1.0/\0');
+
+      // Act
+      const actual = readOrientation(segment);
+
+      // Assert
+      expect(actual).toBe(1);
+    });
+
+    it('should return 1 if the segment is truncated', () => {
+      // Act
+      const actual = readOrientation(createSegment(true, 6).subarray(0, 20));
+
+      // Assert
+      expect(actual).toBe(1);
+    });
+  });
+
+  describe('applyOrientation', () => {
+    // The 3x2 image whose red channel is the index of the pixel:
+    // 0 1 2
+    // 3 4 5
+    const data = Uint8ClampedArray.from({ length: 6 * 4 }, (_, index) => (index % 4 === 0 ? index / 4 : 255));
+
+    it.each([
+      { orientation: 1, width: 3, height: 2, expected: [0, 1, 2, 3, 4, 5] },
+      { orientation: 2, width: 3, height: 2, expected: [2, 1, 0, 5, 4, 3] },
+      { orientation: 3, width: 3, height: 2, expected: [5, 4, 3, 2, 1, 0] },
+      { orientation: 4, width: 3, height: 2, expected: [3, 4, 5, 0, 1, 2] },
+      { orientation: 5, width: 2, height: 3, expected: [0, 3, 1, 4, 2, 5] },
+      { orientation: 6, width: 2, height: 3, expected: [3, 0, 4, 1, 5, 2] },
+      { orientation: 7, width: 2, height: 3, expected: [5, 2, 4, 1, 3, 0] },
+      { orientation: 8, width: 2, height: 3, expected: [2, 5, 1, 4, 0, 3] },
+    ])('should transform the image with the orientation $orientation', ({ orientation, width, height, expected }) => {
+      // Act
+      const actual = applyOrientation(data, 3, 2, orientation);
+
+      // Assert
+      expect(actual.width).toBe(width);
+      expect(actual.height).toBe(height);
+      expect(Array.from(actual.data).filter((_, index) => index % 4 === 0)).toEqual(expected);
+    });
+  });
+});
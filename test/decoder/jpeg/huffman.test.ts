@@ -0,0 +1,40 @@
+import { HuffmanTable } from '@internal/decoder/jpeg/huffman';
+import { BitReader } from '@internal/decoder/jpeg/reader';
+import { describe, expect, it } from 'vitest';
+
+describe('HuffmanTable', () => {
+  // The codes: 0x01 => 00, 0x02 => 01, 0x03 => 100, 0x04 => 101, 0x05 => 1100
+  const counts = Uint8Array.of(0, 2, 2, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0);
+  const symbols = Uint8Array.of(0x01, 0x02, 0x03, 0x04, 0x05);
+
+  describe('from', () => {
+    it('should throw an AssertionError if the number of symbols does not match the counts', () => {
+      // Act & Assert
+      expect(() => HuffmanTable.from(counts, symbols.subarray(0, 4))).toThrowError(/symbols/);
+    });
+  });
+
+  describe('decode', () => {
+    it('should decode the symbols', () => {
+      // Arrange
+      const table = HuffmanTable.from(counts, symbols);
+      // 00 01 100 101 1100 000 => 0b00011001_01110000
+      const reader = new BitReader(Uint8Array.of(0b00011001, 0b01110000), 0);
+
+      // Act
+      const actual = [1, 2, 3, 4, 5].map(() => table.decode(reader));
+
+      // Assert
+      expect(actual).toEqual([0x01, 0x02, 0x03, 0x04, 0x05]);
+    });
+
+    it('should throw an Error if the code is not defined', () => {
+      // Arrange
+      const table = HuffmanTable.from(counts, symbols);
+      const reader = new BitReader(Uint8Array.of(0xff, 0x00, 0xff, 0x00), 0);
+
+      // Act & Assert
+      expect(() => table.decode(reader)).toThrowError(/Huffman/);
+    });
+  });
+});
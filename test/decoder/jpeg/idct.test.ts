@@ -0,0 +1,60 @@
+import { inverseDCT } from '@internal/decoder/jpeg/idct';
+import { describe, expect, it } from 'vitest';
+
+describe('idct', () => {
+  describe('inverseDCT', () => {
+    const quantization = new Uint16Array(64).fill(2);
+
+    it.each([1, 2, 4, 8])('should produce the flat block from the DC coefficient with the size %i', (size) => {
+      // Arrange
+      const coefficients = new Int16Array(64);
+      // The DC coefficient is 8 times the average of the samples after the level shift.
+      coefficients[0] = 40;
+      const output = new Uint8ClampedArray(size * size);
+
+      // Act
+      inverseDCT(coefficients, 0, quantization, size, output, 0, size);
+
+      // Assert
+      expect(Array.from(output)).toEqual(new Array(size * size).fill(128 + 10));
+    });
+
+    it('should produce the horizontal cosine wave from the AC coefficient', () => {
+      // Arrange
+      const coefficients = new Int16Array(64);
+      coefficients[1] = 50;
+      const output = new Uint8ClampedArray(64);
+
+      // Act
+      inverseDCT(coefficients, 0, quantization, 8, output, 0, 8);
+
+      // Assert
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          const expected = 128 + (Math.SQRT1_2 * 100 * Math.cos(((2 * x + 1) * Math.PI) / 16)) / 4;
+          expect(output[y * 8 + x]).toBeCloseTo(expected, -0.5);
+        }
+      }
+    });
+
+    it('should write the samples with the given offset and stride', () => {
+      // Arrange
+      const coefficients = new Int16Array(128);
+      coefficients[64] = -64;
+      const output = new Uint8ClampedArray(4 * 3);
+
+      // Act
+      inverseDCT(coefficients, 64, quantization, 2, output, 5, 4);
+
+      // Assert
+      expect(Array.from(output)).toEqual([0, 0, 0, 0, 0, 112, 112, 0, 0, 112, 112, 0]);
+    });
+
+    it('should throw a RangeError if the size is not supported', () => {
+      // Act & Assert
+      expect(() => inverseDCT(new Int16Array(64), 0, quantization, 3, new Uint8ClampedArray(9), 0, 3)).toThrowError(
+        RangeError,
+      );
+    });
+  });
+});
@@ -0,0 +1,221 @@
+// @vitest-environment node
+import { readFile } from 'node:fs/promises';
+
+import { JPEGDecoder } from '@internal/decoder';
+import { Image, createCanvas } from '@napi-rs/canvas';
+import { describe, expect, it } from 'vitest';
+
+import fixtures from '../../fixtures';
+import { loadImageData } from '../../utils';
+
+/**
+ * Encode the given image as a baseline JPEG image using the canvas.
+ */
+async function encodeBaseline(source: string): Promise<Buffer> {
+  const imageData = await loadImageData(source);
+  const canvas = createCanvas(imageData.width, imageData.height);
+  canvas.getContext('2d').putImageData(imageData, 0, 0);
+  return canvas.toBuffer('image/jpeg', 90);
+}
+
+/**
+ * Decode the given JPEG image using the canvas.
+ */
+function decodeWithCanvas(bytes: Uint8Array): ImageData {
+  const image = new Image();
+  image.src = Buffer.from(bytes);
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0);
+  return context.getImageData(0, 0, image.width, image.height);
+}
+
+/**
+ * Insert the APP1 segment containing the EXIF orientation after the SOI marker.
+ */
+function withOrientation(bytes: Uint8Array, orientation: number): Uint8Array {
+  const tiff = [0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08];
+  const ifd = [0x00, 0x01, 0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00];
+  const data = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00, ...tiff, ...ifd, 0x00, 0x00, 0x00, 0x00];
+  const segment = [0xff, 0xe1, (data.length + 2) >> 8, (data.length + 2) & 0xff, ...data];
+  return Uint8Array.from([...bytes.subarray(0, 2), ...segment, ...bytes.subarray(2)]);
+}
+
+function maxDifference(actual: Uint8ClampedArray, expected: Uint8ClampedArray): number {
+  return actual.reduce(
+    (max: number, value: number, index: number) => Math.max(max, Math.abs(value - expected[index])),
+    0,
+  );
+}
+
+describe('JPEGDecoder', () => {
+  describe('constructor', () => {
+    it.each([0, 0.3, 2])('should throw an AssertionError if the scale is %d', (scale) => {
+      // Act & Assert
+      expect(() => new JPEGDecoder({ scale: scale as 1 })).toThrowError(/scale/);
+    });
+  });
+
+  describe('canDecode', () => {
+    it('should return true if the bytes start with the SOI marker', async () => {
+      // Arrange
+      const decoder = new JPEGDecoder();
+      const bytes = await readFile(fixtures.photos.tulips);
+
+      // Act
+      const actual = decoder.canDecode(bytes);
+
+      // Assert
+      expect(actual).toBeTruthy();
+    });
+
+    it('should return false if the bytes do not start with the SOI marker', async () => {
+      // Arrange
+      const decoder = new JPEGDecoder();
+      const bytes = await readFile(fixtures.flags.de);
+
+      // Act
+      const actual = decoder.canDecode(bytes);
+
+      // Assert
+      expect(actual).toBeFalsy();
+    });
+  });
+
+  describe('decode', () => {
+    it.each([
+      { source: fixtures.photos.tulips },
+      { source: fixtures.photos.chalks },
+      { source: fixtures.photos.donuts },
+    ])('should decode the progressive JPEG image as the canvas from $source', async ({ source }) => {
+      // Arrange
+      const decoder = new JPEGDecoder();
+      const bytes = await readFile(source);
+      const expected = await loadImageData(source);
+
+      // Act
+      const actual = decoder.decode(bytes);
+
+      // Assert
+      expect(actual.width).toBe(expected.width);
+      expect(actual.height).toBe(expected.height);
+      expect(actual.colorSpace).toBe('srgb');
+      expect(maxDifference(actual.data, expected.data)).toBeLessThanOrEqual(4);
+    });
+
+    it('should decode the baseline JPEG image as the canvas', async () => {
+      // Arrange
+      const decoder = new JPEGDecoder();
+      const bytes = await encodeBaseline(fixtures.photos.chalks);
+      const expected = decodeWithCanvas(bytes);
+
+      // Act
+      const actual = decoder.decode(bytes);
+
+      // Assert
+      expect(actual.width).toBe(expected.width);
+      expect(actual.height).toBe(expected.height);
+      expect(maxDifference(actual.data, expected.data)).toBeLessThanOrEqual(4);
+    });
+
+    it.each([
+      { scale: 0.5, expected: { width: 320, height: 259 } },
+      { scale: 0.25, expected: { width: 160, height: 130 } },
+      { scale: 0.125, expected: { width: 80, height: 65 } },
+    ] as const)('should decode the JPEG image at the scale $scale', async ({ scale, expected }) => {
+      // Arrange
+      const decoder = new JPEGDecoder({ scale });
+      const bytes = await readFile(fixtures.photos.tulips);
+      const original = new JPEGDecoder().decode(bytes);
+
+      // Act
+      const actual = decoder.decode(bytes);
+
+      // Assert
+      expect(actual.width).toBe(expected.width);
+      expect(actual.height).toBe(expected.height);
+      // The downscaled pixel is close to the average of the corresponding pixels in the original image.
+      const factor = 1 / scale;
+      const x = Math.floor(actual.width / 2);
+      const y = Math.floor(actual.height / 2);
+      for (let channel = 0; channel < 3; channel++) {
+        let sum = 0;
+        for (let dy = 0; dy < factor; dy++) {
+          for (let dx = 0; dx < factor; dx++) {
+            sum += original.data[((y * factor + dy) * original.width + x * factor + dx) * 4 + channel];
+          }
+        }
+        expect(actual.data[(y * actual.width + x) * 4 + channel]).toBeCloseTo(sum / (factor * factor), -1.5);
+      }
+    });
+
+    it.each([
+      { orientation: 3, width: 640, height: 427, map: (x: number, y: number) => [639 - x, 426 - y] },
+      { orientation: 6, width: 427, height: 640, map: (x: number, y: number) => [y, 426 - x] },
+      { orientation: 8, width: 427, height: 640, map: (x: number, y: number) => [639 - y, x] },
+    ])('should apply the EXIF orientation $orientation', async ({ orientation, width, height, map }) => {
+      // Arrange
+      const decoder = new JPEGDecoder();
+      const bytes = await readFile(fixtures.photos.donuts);
+      const original = decoder.decode(bytes);
+
+      // Act
+      const actual = decoder.decode(withOrientation(bytes, orientation));
+
+      // Assert
+      expect(actual.width).toBe(width);
+      expect(actual.height).toBe(height);
+      for (const [x, y] of [
+        [0, 0],
+        [10, 20],
+        [width - 1, height - 1],
+      ]) {
+        const [sourceX, sourceY] = map(x, y);
+        const index = (y * width + x) * 4;
+        const sourceIndex = (sourceY * original.width + sourceX) * 4;
+        expect(actual.data.subarray(index, index + 4)).toEqual(original.data.subarray(sourceIndex, sourceIndex + 4));
+      }
+    });
+
+    it('should ignore the EXIF orientation if the orientation option is false', async () => {
+      // Arrange
+      const decoder = new JPEGDecoder({ orientation: false });
+      const bytes = await readFile(fixtures.photos.donuts);
+
+      // Act
+      const actual = decoder.decode(withOrientation(bytes, 6));
+
+      // Assert
+      expect(actual.width).toBe(640);
+      expect(actual.height).toBe(427);
+    });
+
+    it('should throw an AssertionError if the bytes are not a JPEG image', async () => {
+      // Arrange
+      const decoder = new JPEGDecoder();
+      const bytes = await readFile(fixtures.flags.de);
+
+      // Act & Assert
+      expect(() => decoder.decode(bytes)).toThrowError(/SOI/);
+    });
+
+    it('should throw an AssertionError if the SOF marker is missing', () => {
+      // Arrange
+      const decoder = new JPEGDecoder();
+      const bytes = Uint8Array.of(0xff, 0xd8, 0xff, 0xd9);
+
+      // Act & Assert
+      expect(() => decoder.decode(bytes)).toThrowError(/SOF/);
+    });
+
+    it('should throw an Error if the coding process is not supported', () => {
+      // Arrange
+      const decoder = new JPEGDecoder();
+      // SOF3 marker for the lossless coding process.
+      const bytes = Uint8Array.of(0xff, 0xd8, 0xff, 0xc3, 0x00, 0x0b, 8, 0, 1, 0, 1, 1, 1, 0x11, 0, 0xff, 0xd9);
+
+      // Act & Assert
+      expect(() => decoder.decode(bytes)).toThrowError(/Unsupported/);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { BitReader, findMarker } from '@internal/decoder/jpeg/reader';
+import { describe, expect, it } from 'vitest';
+
+describe('reader', () => {
+  describe('BitReader', () => {
+    it('should read the bits from the most significant bit', () => {
+      // Arrange
+      const reader = new BitReader(Uint8Array.of(0b10110010, 0b01000000), 0);
+
+      // Act
+      const actual = [reader.readBit(), reader.readBits(3), reader.readBits(6)];
+
+      // Assert
+      expect(actual).toEqual([1, 0b011, 0b001001]);
+    });
+
+    it('should skip the stuffed zero byte following 0xFF', () => {
+      // Arrange
+      const reader = new BitReader(Uint8Array.of(0xff, 0x00, 0x80), 0);
+
+      // Act
+      const actual = [reader.readBits(8), reader.readBit()];
+
+      // Assert
+      expect(actual).toEqual([0xff, 1]);
+      expect(reader.offset).toBe(3);
+    });
+
+    it('should return zero bits without consuming the marker', () => {
+      // Arrange
+      const reader = new BitReader(Uint8Array.of(0xaa, 0xff, 0xd9), 0);
+
+      // Act
+      const actual = reader.readBits(16);
+
+      // Assert
+      expect(actual).toBe(0xaa00);
+      expect(reader.offset).toBe(1);
+    });
+
+    it.each([
+      { bits: 0b0, length: 1, expected: -1 },
+      { bits: 0b1, length: 1, expected: 1 },
+      { bits: 0b010, length: 3, expected: -5 },
+      { bits: 0b110, length: 3, expected: 6 },
+    ])('should extend the $length bits $bits to $expected', ({ bits, length, expected }) => {
+      // Arrange
+      const reader = new BitReader(Uint8Array.of(bits << (8 - length)), 0);
+
+      // Act
+      const actual = reader.receiveExtend(length);
+
+      // Assert
+      expect(actual).toBe(expected);
+    });
+
+    it('should skip the restart marker', () => {
+      // Arrange
+      const reader = new BitReader(Uint8Array.of(0x80, 0xff, 0xd0, 0x40), 0);
+      reader.readBit();
+
+      // Act
+      reader.restart();
+
+      // Assert
+      expect(reader.readBits(2)).toBe(0b01);
+    });
+  });
+
+  describe('findMarker', () => {
+    it.each([
+      { bytes: [0x00, 0xff, 0xd9], expected: 1 },
+      { bytes: [0xff, 0x00, 0xff, 0xff, 0xda], expected: 3 },
+      { bytes: [0x00, 0xff, 0x00], expected: 3 },
+    ])('should return $expected for $bytes', ({ bytes, expected }) => {
+      // Act
+      const actual = findMarker(Uint8Array.from(bytes), 0);
+
+      // Assert
+      expect(actual).toBe(expected);
+    });
+  });
+});
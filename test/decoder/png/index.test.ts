@@ -0,0 +1,379 @@
+// @vitest-environment node
+import { readFile } from 'node:fs/promises';
+import { deflateSync } from 'node:zlib';
+
+import { PNGDecoder } from '@internal/decoder';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+import fixtures from '../../fixtures';
+import { loadImageData } from '../../utils';
+
+type Chunk = {
+  readonly type: string;
+  readonly data: Uint8Array;
+};
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function encodeChunks(chunks: Chunk[]): Uint8Array {
+  const parts = chunks.map(({ type, data }): Uint8Array => {
+    const bytes = new Uint8Array(data.length + 12);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(0, data.length);
+    bytes.set(Buffer.from(type, 'latin1'), 4);
+    bytes.set(data, 8);
+    view.setUint32(data.length + 8, crc32(bytes.subarray(4, data.length + 8)));
+    return bytes;
+  });
+  return Buffer.concat([Uint8Array.from(SIGNATURE), ...parts]);
+}
+
+function header(width: number, height: number, bitDepth: number, colorType: number, interlace = 0): Chunk {
+  const data = new Uint8Array(13);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  data.set([bitDepth, colorType, 0, 0, interlace], 8);
+  return { type: 'IHDR', data };
+}
+
+/**
+ * Encode the scanlines with the given filter type. The scanlines must be unfiltered and packed.
+ */
+function imageData(scanlines: Uint8Array[], filterType: number, bytesPerPixel: number): Chunk {
+  const filtered = scanlines.map((scanline: Uint8Array, y: number): Uint8Array => {
+    const previous = y > 0 ? scanlines[y - 1] : new Uint8Array(scanline.length);
+    const output = new Uint8Array(scanline.length + 1);
+    output[0] = filterType;
+    for (let x = 0; x < scanline.length; x++) {
+      const a = x >= bytesPerPixel ? scanline[x - bytesPerPixel] : 0;
+      const b = previous[x];
+      const c = x >= bytesPerPixel ? previous[x - bytesPerPixel] : 0;
+      const predictors = [0, a, b, (a + b) >>> 1, paeth(a, b, c)];
+      output[x + 1] = (scanline[x] - predictors[filterType]) & 0xff;
+    }
+    return output;
+  });
+  return { type: 'IDAT', data: deflateSync(Buffer.concat(filtered)) };
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) {
+    return a;
+  }
+  return pb <= pc ? b : c;
+}
+
+const END: Chunk = { type: 'IEND', data: new Uint8Array(0) };
+
+describe('PNGDecoder', () => {
+  const decoder = new PNGDecoder();
+
+  describe('canDecode', () => {
+    it('should return true if the bytes start with the PNG signature', async () => {
+      // Arrange
+      const bytes = await readFile(fixtures.flags.de);
+
+      // Act
+      const actual = decoder.canDecode(bytes);
+
+      // Assert
+      expect(actual).toBeTruthy();
+    });
+
+    it.each([
+      { bytes: Uint8Array.of(0x89, 0x50, 0x4e, 0x47) },
+      { bytes: Uint8Array.of(0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46) },
+    ])('should return false if the bytes do not start with the PNG signature', ({ bytes }) => {
+      // Act
+      const actual = decoder.canDecode(bytes);
+
+      // Assert
+      expect(actual).toBeFalsy();
+    });
+  });
+
+  describe('decode', () => {
+    it.each([
+      { source: fixtures.flags.ae },
+      { source: fixtures.flags.de },
+      { source: fixtures.flags.gr },
+      { source: fixtures.flags.sc },
+      { source: fixtures.flags.za },
+    ])('should decode the same pixels as the canvas from $source', async ({ source }) => {
+      // Arrange
+      const bytes = await readFile(source);
+      const expected = await loadImageData(source);
+
+      // Act
+      const actual = decoder.decode(bytes);
+
+      // Assert
+      expect(actual.width).toBe(expected.width);
+      expect(actual.height).toBe(expected.height);
+      expect(actual.colorSpace).toBe('srgb');
+      expect(Buffer.from(actual.data.buffer).equals(Buffer.from(expected.data.buffer))).toBeTruthy();
+    });
+
+    it.each([0, 1, 2, 3, 4])('should reconstruct the scanlines filtered with the filter type %i', (filterType) => {
+      // Arrange
+      const scanlines = [Uint8Array.of(10, 20, 30, 200, 100, 50), Uint8Array.of(0, 255, 128, 64, 32, 16)];
+      const bytes = encodeChunks([header(2, 2, 8, 2), imageData(scanlines, filterType, 3), END]);
+
+      // Act
+      const actual = decoder.decode(bytes);
+
+      // Assert
+      expect(Array.from(actual.data)).toEqual([10, 20, 30, 255, 200, 100, 50, 255, 0, 255, 128, 255, 64, 32, 16, 255]);
+    });
+
+    it.each([
+      { bitDepth: 1, scanline: Uint8Array.of(0b10100000), expected: [255, 0, 255] },
+      { bitDepth: 2, scanline: Uint8Array.of(0b00011011), expected: [0, 85, 170] },
+      { bitDepth: 4, scanline: Uint8Array.of(0x0f, 0x70), expected: [0, 255, 119] },
+      { bitDepth: 8, scanline: Uint8Array.of(0, 128, 255), expected: [0, 128, 255] },
+      { bitDepth: 16, scanline: Uint8Array.of(0x00, 0x00, 0x80, 0x80, 0xff, 0xff), expected: [0, 128, 255] },
+    ])('should decode the grayscale image with the bit depth $bitDepth', ({ bitDepth, scanline, expected }) => {
+      // Arrange
+      const bytes = encodeChunks([header(3, 1, bitDepth, 0), imageData([scanline], 1, bitDepth >> 3 || 1), END]);
+
+      // Act
+      const actual = decoder.decode(bytes);
+
+      // Assert
+      expect(Array.from(actual.data)).toEqual(expected.flatMap((value: number) => [value, value, value, 255]));
+    });
+
+    it('should decode the grayscale image with the transparent color', () => {
+      // Arrange
+      const bytes = encodeChunks([
+        header(2, 1, 8, 0),
+        { type: 'tRNS', data: Uint8Array.of(0x00, 0x80) },
+        imageData([Uint8Array.of(0x80, 0x40)], 0, 1),
+        END,
+      ]);
+
+      // Act
+      const actual = decoder.decode(bytes);
+
+      // Assert
+      expect(Array.from(actual.data)).toEqual([128, 128, 128, 0, 64, 64, 64, 255]);
+    });
+
+    it('should decode the grayscale image with alpha', () => {
+      // Arrange
+      const bytes = encodeChunks([header(2, 1, 8, 4), imageData([Uint8Array.of(0x80, 0x40, 0x20, 0xff)], 2, 2), END]);
+
+      // Act
+      const actual = decoder.decode(bytes);
+
+      // Assert
+      expect(Array.from(actual.data)).toEqual([128, 128, 128, 64, 32, 32, 32, 255]);
+    });
+
+    it('should decode the truecolor image with the transparent color', () => {
+      // Arrange
+      const bytes = encodeChunks([
+        header(2, 1, 8, 2),
+        { type: 'tRNS', data: Uint8Array.of(0x00, 0xff, 0x00, 0x00, 0x00, 0x00) },
+        imageData([Uint8Array.of(0xff, 0x00, 0x00, 0x00, 0xff, 0x00)], 0, 3),
+        END,
+      ]);
+
+      // Act
+      const actual = decoder.decode(bytes);
+
+      // Assert
+      expect(Array.from(actual.data)).toEqual([255, 0, 0, 0, 0, 255, 0, 255]);
+    });
+
+    it('should decode the 16-bit truecolor image with alpha', () => {
+      // Arrange
+      const scanline = Uint8Array.of(0xff, 0xff, 0x80, 0x00, 0x00, 0x00, 0x7f, 0xff);
+      const bytes = encodeChunks([header(1, 1, 16, 6), imageData([scanline], 4, 8), END]);
+
+      // Act
+      const actual = decoder.decode(bytes);
+
+      // Assert
+      expect(Array.from(actual.data)).toEqual([255, 128, 0, 127]);
+    });
+
+    it('should decode the indexed image with the palette and the transparency', () => {
+      // Arrange
+      const bytes = encodeChunks([
+        header(4, 1, 2, 3),
+        { type: 'PLTE', data: Uint8Array.of(255, 0, 0, 0, 255, 0, 0, 0, 255) },
+        { type: 'tRNS', data: Uint8Array.of(0, 128) },
+        imageData([Uint8Array.of(0b00011000)], 0, 1),
+        END,
+      ]);
+
+      // Act
+      const actual = decoder.decode(bytes);
+
+      // Assert
+      expect(Array.from(actual.data)).toEqual([255, 0, 0, 0, 0, 255, 0, 128, 0, 0, 255, 255, 255, 0, 0, 0]);
+    });
+
+    it('should decode the interlaced image', () => {
+      // Arrange
+      const width = 5;
+      const height = 5;
+      const gray = (x: number, y: number): number => (y * width + x) * 10;
+      const passes = [
+        [0, 0, 8, 8],
+        [4, 0, 8, 8],
+        [0, 4, 4, 8],
+        [2, 0, 4, 4],
+        [0, 2, 2, 4],
+        [1, 0, 2, 2],
+        [0, 1, 1, 2],
+      ];
+      const chunks = passes.flatMap(([xStart, yStart, xStep, yStep]): Uint8Array[] => {
+        const scanlines: Uint8Array[] = [];
+        for (let y = yStart; y < height; y += yStep) {
+          const scanline: number[] = [];
+          for (let x = xStart; x < width; x += xStep) {
+            scanline.push(gray(x, y));
+          }
+          scanlines.push(Uint8Array.of(...scanline));
+        }
+        return scanlines.length > 0 && scanlines[0].length > 0 ? scanlines : [];
+      });
+      // The filter type 0 keeps the scanlines as is, so the passes can be concatenated in a single IDAT chunk.
+      const bytes = encodeChunks([header(width, height, 8, 0, 1), imageData(chunks, 0, 1), END]);
+
+      // Act
+      const actual = decoder.decode(bytes);
+
+      // Assert
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          expect(actual.data[(y * width + x) * 4]).toBe(gray(x, y));
+        }
+      }
+    });
+
+    it('should decode the image data split into multiple IDAT chunks', () => {
+      // Arrange
+      const { data } = imageData([Uint8Array.of(1, 2, 3, 4, 5, 6)], 0, 3);
+      const bytes = encodeChunks([
+        header(2, 1, 8, 2),
+        { type: 'IDAT', data: data.subarray(0, 4) },
+        { type: 'tEXt', data: Buffer.from('Comment\0Split', 'latin1') },
+        { type: 'IDAT', data: data.subarray(4) },
+        END,
+      ]);
+
+      // Act
+      const actual = decoder.decode(bytes);
+
+      // Assert
+      expect(Array.from(actual.data)).toEqual([1, 2, 3, 255, 4, 5, 6, 255]);
+    });
+
+    it('should throw an Error if the bytes are not a PNG image', () => {
+      // Act & Assert
+      expect(() => decoder.decode(Uint8Array.of(0xff, 0xd8, 0xff))).toThrowError(/PNG signature/);
+    });
+
+    it.each([
+      { bitDepth: 4, colorType: 2 },
+      { bitDepth: 16, colorType: 3 },
+      { bitDepth: 8, colorType: 5 },
+    ])(
+      'should throw an Error if the bit depth $bitDepth is not allowed for the color type $colorType',
+      ({ bitDepth, colorType }) => {
+        // Arrange
+        const bytes = encodeChunks([header(1, 1, bitDepth, colorType), imageData([Uint8Array.of(0)], 0, 1), END]);
+
+        // Act & Assert
+        expect(() => decoder.decode(bytes)).toThrowError(/Unsupported/);
+      },
+    );
+
+    it('should throw an Error if the PLTE chunk is missing for the indexed image', () => {
+      // Arrange
+      const bytes = encodeChunks([header(1, 1, 8, 3), imageData([Uint8Array.of(0)], 0, 1), END]);
+
+      // Act & Assert
+      expect(() => decoder.decode(bytes)).toThrowError(/PLTE/);
+    });
+
+    it('should throw an Error if the IEND chunk is missing', () => {
+      // Arrange
+      const bytes = encodeChunks([header(1, 1, 8, 0), imageData([Uint8Array.of(0)], 0, 1)]);
+
+      // Act & Assert
+      expect(() => decoder.decode(bytes)).toThrowError(/IEND/);
+    });
+
+    it.each([
+      { width: 0x80000000, height: 1 },
+      { width: 100_000, height: 100_000 },
+    ])('should throw an Error if the size($width x $height) is too large', ({ width, height }) => {
+      // Arrange
+      const bytes = encodeChunks([header(width, height, 8, 0), imageData([Uint8Array.of(0)], 0, 1), END]);
+
+      // Act & Assert
+      expect(() => decoder.decode(bytes)).toThrowError(/too large/);
+    });
+
+    it('should throw an Error if the CRC of a chunk does not match', () => {
+      // Arrange
+      const bytes = encodeChunks([header(1, 1, 8, 0), imageData([Uint8Array.of(0)], 0, 1), END]);
+      // Corrupt the last byte of the IHDR data, which is the interlace method.
+      bytes[SIGNATURE.length + 8 + 12] ^= 0x01;
+
+      // Act & Assert
+      expect(() => decoder.decode(bytes)).toThrowError(/CRC of the IHDR chunk/);
+    });
+
+    it('should throw an Error if the Adler-32 checksum of the image data does not match', () => {
+      // Arrange
+      const data = deflateSync(Uint8Array.of(0, 0));
+      data[data.length - 1] ^= 0x01;
+      const bytes = encodeChunks([header(1, 1, 8, 0), { type: 'IDAT', data }, END]);
+
+      // Act & Assert
+      expect(() => decoder.decode(bytes)).toThrowError(/Adler-32/);
+    });
+
+    it('should throw an Error if the filter type is invalid', () => {
+      // Arrange
+      const bytes = encodeChunks([header(1, 1, 8, 0), { type: 'IDAT', data: deflateSync(Uint8Array.of(5, 0)) }, END]);
+
+      // Act & Assert
+      expect(() => decoder.decode(bytes)).toThrowError(/filter type/);
+      expect(() => decoder.decode(bytes)).toThrowError(AssertionError);
+    });
+
+    it.each([
+      { name: 'the block type is invalid', data: Uint8Array.of(0x78, 0x9c, 0x07) },
+      { name: 'the deflate stream is truncated', data: deflateSync(Uint8Array.of(0, 0)).subarray(0, 3) },
+    ])('should throw an AssertionError if $name', ({ data }) => {
+      // Arrange
+      const bytes = encodeChunks([header(1, 1, 8, 0), { type: 'IDAT', data }, END]);
+
+      // Act & Assert
+      expect(() => decoder.decode(bytes)).toThrowError(AssertionError);
+    });
+  });
+});
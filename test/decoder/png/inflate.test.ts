@@ -0,0 +1,99 @@
+// @vitest-environment node
+import { deflateSync } from 'node:zlib';
+
+import { inflate } from '@internal/decoder/png/inflate';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+function createBytes(size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    // Repeat short patterns with some noise to produce both literals and back-references.
+    bytes[i] = (i % 7) * 31 + (i % 13 === 0 ? (i * 17) % 251 : 0);
+  }
+  return bytes;
+}
+
+describe('inflate', () => {
+  it.each([
+    { level: 0, strategy: 0 },
+    { level: 1, strategy: 0 },
+    { level: 6, strategy: 0 },
+    { level: 9, strategy: 0 },
+    { level: 9, strategy: 4 }, // Z_FIXED
+    { level: 9, strategy: 2 }, // Z_HUFFMAN_ONLY
+  ])('should inflate the bytes deflated with level $level and strategy $strategy', ({ level, strategy }) => {
+    // Arrange
+    const expected = createBytes(100_000);
+    const deflated = deflateSync(expected, { level, strategy });
+
+    // Act
+    const actual = inflate(deflated);
+
+    // Assert
+    expect(actual).toEqual(expected);
+  });
+
+  it('should inflate the empty bytes', () => {
+    // Arrange
+    const deflated = deflateSync(new Uint8Array(0));
+
+    // Act
+    const actual = inflate(deflated);
+
+    // Assert
+    expect(actual).toBeEmpty();
+  });
+
+  it('should throw an Error if the compression method is not deflate', () => {
+    // Arrange
+    const deflated = deflateSync(createBytes(16));
+    deflated[0] = 0x79;
+
+    // Act & Assert
+    expect(() => inflate(deflated)).toThrowError();
+  });
+
+  it('should throw an Error if the bytes are truncated', () => {
+    // Arrange
+    const deflated = deflateSync(createBytes(1024));
+
+    // Act & Assert
+    expect(() => inflate(deflated.subarray(0, deflated.length / 2))).toThrowError();
+  });
+
+  it('should throw an Error if the Adler-32 checksum does not match', () => {
+    // Arrange
+    const deflated = deflateSync(createBytes(1024));
+    deflated[deflated.length - 1] ^= 0x01;
+
+    // Act & Assert
+    expect(() => inflate(deflated)).toThrowError(/Adler-32/);
+  });
+
+  it('should throw an Error if the Adler-32 checksum is missing', () => {
+    // Arrange
+    const deflated = deflateSync(createBytes(1024));
+
+    // Act & Assert
+    expect(() => inflate(deflated.subarray(0, deflated.length - 4))).toThrowError();
+  });
+
+  it.each([
+    // The final block of the reserved block type 3.
+    { name: 'the block type is invalid', bytes: Uint8Array.of(0x78, 0x9c, 0x07) },
+    // The dynamic block whose code length code has the single code '0', followed by the unassigned code '1...'.
+    { name: 'the Huffman code is invalid', bytes: Uint8Array.of(0x78, 0x9c, 0x05, 0x00, 0x00, 0xe4, 0xff, 0xff, 0xff) },
+  ])('should throw an AssertionError if $name', ({ bytes }) => {
+    // Act & Assert
+    expect(() => inflate(bytes)).toThrowError(AssertionError);
+  });
+
+  it('should throw an Error if the preset dictionary is required', () => {
+    // Arrange
+    const deflated = deflateSync(createBytes(16), { dictionary: Buffer.from('dictionary') });
+
+    // Act & Assert
+    expect(() => inflate(deflated)).toThrowError();
+  });
+});
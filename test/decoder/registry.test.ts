@@ -0,0 +1,113 @@
+import {
+  type ImageDecoder,
+  JPEGDecoder,
+  PNGDecoder,
+  findDecoder,
+  registerDecoder,
+  unregisterDecoder,
+} from '@internal/decoder';
+import { afterEach, describe, expect, it } from 'vitest';
+
+function createDecoder(signature: number): ImageDecoder {
+  return {
+    canDecode: (bytes: Uint8Array): boolean => bytes[0] === signature,
+    decode: (): ImageData => ({ width: 1, height: 1, data: new Uint8ClampedArray(4), colorSpace: 'srgb' }),
+  };
+}
+
+describe('registry', () => {
+  const decoder1 = createDecoder(0x01);
+  const decoder2 = createDecoder(0x01);
+  const decoder3 = createDecoder(0x02);
+  const decoder4 = createDecoder(0x89);
+
+  afterEach(() => {
+    unregisterDecoder(decoder1);
+    unregisterDecoder(decoder2);
+    unregisterDecoder(decoder3);
+    unregisterDecoder(decoder4);
+  });
+
+  describe('registerDecoder', () => {
+    it('should register the decoder', () => {
+      // Act
+      registerDecoder(decoder1);
+      registerDecoder(decoder3);
+
+      // Assert
+      expect(findDecoder(Uint8Array.of(0x01))).toBe(decoder1);
+      expect(findDecoder(Uint8Array.of(0x02))).toBe(decoder3);
+    });
+
+    it('should prefer the decoder registered later', () => {
+      // Act
+      registerDecoder(decoder1);
+      registerDecoder(decoder2);
+
+      // Assert
+      expect(findDecoder(Uint8Array.of(0x01))).toBe(decoder2);
+    });
+  });
+
+  describe('unregisterDecoder', () => {
+    it('should unregister the decoder', () => {
+      // Arrange
+      registerDecoder(decoder1);
+
+      // Act
+      const actual = unregisterDecoder(decoder1);
+
+      // Assert
+      expect(actual).toBeTruthy();
+      expect(findDecoder(Uint8Array.of(0x01))).toBeUndefined();
+    });
+
+    it('should return false if the decoder is not registered', () => {
+      // Act
+      const actual = unregisterDecoder(decoder1);
+
+      // Assert
+      expect(actual).toBeFalsy();
+    });
+  });
+
+  describe('findDecoder', () => {
+    const png = Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a);
+
+    it.each([
+      { bytes: png, expected: PNGDecoder },
+      { bytes: Uint8Array.of(0xff, 0xd8, 0xff, 0xe0), expected: JPEGDecoder },
+    ])(
+      'should return the built-in $expected.name if no registered decoder supports the bytes',
+      ({ bytes, expected }) => {
+        // Act
+        const actual = findDecoder(bytes);
+
+        // Assert
+        expect(actual).toBeInstanceOf(expected);
+      },
+    );
+
+    it('should prefer the registered decoder over the built-in decoder', () => {
+      // Arrange
+      registerDecoder(decoder4);
+
+      // Act
+      const actual = findDecoder(png);
+
+      // Assert
+      expect(actual).toBe(decoder4);
+    });
+
+    it('should return undefined if no decoder supports the bytes', () => {
+      // Arrange
+      registerDecoder(decoder1);
+
+      // Act
+      const actual = findDecoder(Uint8Array.of(0x03));
+
+      // Assert
+      expect(actual).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { Color } from '@internal/color';
+import { exportACO } from '@internal/exporter';
+import type { NamedSwatch } from '@internal/swatch';
+import { describe, expect, it } from 'vitest';
+
+const swatches: NamedSwatch[] = [
+  { name: 'Red', color: Color.fromString('#F42222'), position: { x: 107, y: 15 }, population: 3529 },
+  { name: 'SeaGreen', color: Color.fromString('#007944'), position: { x: 65, y: 53 }, population: 5147 },
+  { name: 'Navy', color: Color.fromString('#00158F'), position: { x: 107, y: 90 }, population: 3528 },
+];
+
+describe('exportACO', () => {
+  it('should export the swatches to the ACO format with the version 1 and 2 sections', () => {
+    // Act
+    const actual = exportACO(swatches);
+
+    // Assert
+    const view = new DataView(actual.buffer);
+    expect(view.getUint16(0)).toBe(1);
+    expect(view.getUint16(2)).toBe(3);
+    expect([0, 1, 2, 3, 4].map((index) => view.getUint16(4 + index * 2))).toEqual([0, 0xf4f4, 0x2222, 0x2222, 0]);
+
+    const version2 = 4 + 3 * 10;
+    expect(view.getUint16(version2)).toBe(2);
+    expect(view.getUint16(version2 + 2)).toBe(3);
+    expect([0, 1, 2, 3, 4].map((index) => view.getUint16(version2 + 4 + index * 2))).toEqual([
+      0, 0xf4f4, 0x2222, 0x2222, 0,
+    ]);
+    expect(view.getUint32(version2 + 14)).toBe(4);
+    const name = [0, 1, 2].map((index) => view.getUint16(version2 + 18 + index * 2));
+    expect(String.fromCharCode(...name)).toBe('Red');
+    expect(view.getUint16(version2 + 24)).toBe(0);
+    expect(actual).toHaveLength(version2 + 4 + 3 * 10 + 3 * 4 + (4 + 9 + 5) * 2);
+  });
+});
@@ -0,0 +1,59 @@
+import { Color } from '@internal/color';
+import { exportASE } from '@internal/exporter';
+import type { NamedSwatch } from '@internal/swatch';
+import { describe, expect, it } from 'vitest';
+
+const swatches: NamedSwatch[] = [
+  { name: 'Red', color: Color.fromString('#F42222'), position: { x: 107, y: 15 }, population: 3529 },
+  { name: 'SeaGreen', color: Color.fromString('#007944'), position: { x: 65, y: 53 }, population: 5147 },
+  { name: 'Navy', color: Color.fromString('#00158F'), position: { x: 107, y: 90 }, population: 3528 },
+];
+
+describe('exportASE', () => {
+  it('should export the swatches to the ASE format', () => {
+    // Act
+    const actual = exportASE(swatches);
+
+    // Assert
+    const view = new DataView(actual.buffer);
+    expect(new TextDecoder().decode(actual.subarray(0, 4))).toBe('ASEF');
+    expect(view.getUint16(4)).toBe(1);
+    expect(view.getUint16(6)).toBe(0);
+    expect(view.getUint32(8)).toBe(3);
+
+    // The first color block: type, length, name length, 'Red\0', 'RGB ', r, g, b and color type.
+    expect(view.getUint16(12)).toBe(0x0001);
+    expect(view.getUint32(14)).toBe(2 + 4 * 2 + 4 + 12 + 2);
+    expect(view.getUint16(18)).toBe(4);
+    expect(String.fromCharCode(view.getUint16(20), view.getUint16(22), view.getUint16(24))).toBe('Red');
+    expect(view.getUint16(26)).toBe(0);
+    expect(new TextDecoder().decode(actual.subarray(28, 32))).toBe('RGB ');
+    expect(view.getFloat32(32)).toBeCloseTo(0xf4 / 255);
+    expect(view.getFloat32(36)).toBeCloseTo(0x22 / 255);
+    expect(view.getFloat32(40)).toBeCloseTo(0x22 / 255);
+    expect(view.getUint16(44)).toBe(2);
+    expect(actual).toHaveLength(12 + 3 * 6 + (2 + 4 * 2 + 18) + (2 + 9 * 2 + 18) + (2 + 5 * 2 + 18));
+  });
+
+  it('should wrap the swatches in a group if the name is given', () => {
+    // Act
+    const actual = exportASE(swatches, { name: 'Flag' });
+
+    // Assert
+    const view = new DataView(actual.buffer);
+    expect(view.getUint32(8)).toBe(5);
+    expect(view.getUint16(12)).toBe(0xc001);
+    expect(view.getUint32(14)).toBe(2 + 5 * 2);
+    expect(view.getUint16(actual.length - 6)).toBe(0xc002);
+    expect(view.getUint32(actual.length - 4)).toBe(0);
+  });
+
+  it('should export the empty file if no swatches are given', () => {
+    // Act
+    const actual = exportASE([]);
+
+    // Assert
+    expect(actual).toHaveLength(12);
+    expect(new DataView(actual.buffer).getUint32(8)).toBe(0);
+  });
+});
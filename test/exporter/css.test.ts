@@ -0,0 +1,58 @@
+import { Color } from '@internal/color';
+import { exportCSS, exportSCSS } from '@internal/exporter';
+import type { NamedSwatch } from '@internal/swatch';
+import { describe, expect, it } from 'vitest';
+
+const swatches: NamedSwatch[] = [
+  { name: 'Red', color: Color.fromString('#F42222'), position: { x: 107, y: 15 }, population: 3529 },
+  { name: 'SeaGreen', color: Color.fromString('#007944'), position: { x: 65, y: 53 }, population: 5147 },
+  { name: 'Navy', color: Color.fromString('#00158F'), position: { x: 107, y: 90 }, population: 3528 },
+];
+
+describe('css', () => {
+  describe('exportCSS', () => {
+    it('should export the swatches to the CSS custom properties', () => {
+      // Act
+      const actual = exportCSS(swatches);
+
+      // Assert
+      expect(actual).toBe(
+        ':root {\n  --color-red: #F42222;\n  --color-sea-green: #007944;\n  --color-navy: #00158F;\n}\n',
+      );
+    });
+
+    it('should export the swatches with the given selector and prefix', () => {
+      // Act
+      const actual = exportCSS(swatches.slice(0, 1), { selector: '.theme', prefix: 'palette' });
+
+      // Assert
+      expect(actual).toBe('.theme {\n  --palette-red: #F42222;\n}\n');
+    });
+
+    it('should export the swatches without the prefix if the prefix is empty', () => {
+      // Act
+      const actual = exportCSS(swatches.slice(0, 1), { prefix: '' });
+
+      // Assert
+      expect(actual).toBe(':root {\n  --red: #F42222;\n}\n');
+    });
+  });
+
+  describe('exportSCSS', () => {
+    it('should export the swatches to the SCSS variables', () => {
+      // Act
+      const actual = exportSCSS(swatches);
+
+      // Assert
+      expect(actual).toBe('$color-red: #F42222;\n$color-sea-green: #007944;\n$color-navy: #00158F;\n');
+    });
+
+    it('should export the empty string if no swatches are given', () => {
+      // Act
+      const actual = exportSCSS([]);
+
+      // Assert
+      expect(actual).toBe('');
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { Color } from '@internal/color';
+import { exportGPL } from '@internal/exporter';
+import type { NamedSwatch } from '@internal/swatch';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+const swatches: NamedSwatch[] = [
+  { name: 'Red', color: Color.fromString('#F42222'), position: { x: 107, y: 15 }, population: 3529 },
+  { name: 'SeaGreen', color: Color.fromString('#007944'), position: { x: 65, y: 53 }, population: 5147 },
+  { name: 'Navy', color: Color.fromString('#00158F'), position: { x: 107, y: 90 }, population: 3528 },
+];
+
+describe('exportGPL', () => {
+  it('should export the swatches to the GPL format', () => {
+    // Act
+    const actual = exportGPL(swatches);
+
+    // Assert
+    expect(actual).toBe(
+      [
+        'GIMP Palette',
+        'Name: Auto Palette',
+        'Columns: 0',
+        '#',
+        '244  34  34\tRed',
+        '  0 121  68\tSeaGreen',
+        '  0  21 143\tNavy',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should export the swatches with the given name and columns', () => {
+    // Act
+    const actual = exportGPL(swatches, { name: 'Flag', columns: 3 });
+
+    // Assert
+    expect(actual).toStartWith('GIMP Palette\nName: Flag\nColumns: 3\n#\n');
+  });
+
+  it.each([{ name: 'Line\nBreak' }, { columns: -1 }, { columns: 1.5 }])(
+    'should throw an AssertionError if the options(%o) are invalid',
+    (options) => {
+      // Assert
+      expect(() => {
+        // Act
+        exportGPL(swatches, options);
+      }).toThrowError(AssertionError);
+    },
+  );
+});
@@ -0,0 +1,65 @@
+import { Color } from '@internal/color';
+import { createKeys, resolveSwatches } from '@internal/exporter/swatches';
+import { Palette } from '@internal/palette';
+import type { NamedSwatch } from '@internal/swatch';
+import { describe, expect, it } from 'vitest';
+
+function createSwatch(name: string, hex: string): NamedSwatch {
+  return { name, color: Color.fromString(hex), position: { x: 0, y: 0 }, population: 1 };
+}
+
+describe('swatches', () => {
+  describe('resolveSwatches', () => {
+    it('should return all swatches of the palette with the names', () => {
+      // Arrange
+      const palette = new Palette([
+        { color: Color.fromString('#FF0000'), position: { x: 0, y: 0 }, population: 2 },
+        { color: Color.fromString('#0000FF'), position: { x: 1, y: 0 }, population: 1 },
+      ]);
+
+      // Act
+      const actual = resolveSwatches(palette);
+
+      // Assert
+      expect(actual.map(({ name }) => name)).toEqual(['Red', 'Blue']);
+    });
+
+    it('should return an empty array if the palette is empty', () => {
+      // Act
+      const actual = resolveSwatches(new Palette([]));
+
+      // Assert
+      expect(actual).toBeEmpty();
+    });
+
+    it('should return the given swatches as they are', () => {
+      // Arrange
+      const swatches = [createSwatch('Red', '#FF0000')];
+
+      // Act
+      const actual = resolveSwatches(swatches);
+
+      // Assert
+      expect(actual).toBe(swatches);
+    });
+  });
+
+  describe('createKeys', () => {
+    it('should create the unique kebab-cased keys', () => {
+      // Arrange
+      const swatches = [
+        createSwatch('SeaGreen', '#2E8B57'),
+        createSwatch('Red', '#FF0000'),
+        createSwatch('Red', '#FE0000'),
+        createSwatch('Light Blue 2', '#ADD8E6'),
+        createSwatch('***', '#000000'),
+      ];
+
+      // Act
+      const actual = createKeys(swatches);
+
+      // Assert
+      expect(actual).toEqual(['sea-green', 'red', 'red-2', 'light-blue-2', 'color']);
+    });
+  });
+});
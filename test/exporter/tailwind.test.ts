@@ -0,0 +1,20 @@
+import { Color } from '@internal/color';
+import { exportTailwind } from '@internal/exporter';
+import type { NamedSwatch } from '@internal/swatch';
+import { describe, expect, it } from 'vitest';
+
+const swatches: NamedSwatch[] = [
+  { name: 'Red', color: Color.fromString('#F42222'), position: { x: 107, y: 15 }, population: 3529 },
+  { name: 'SeaGreen', color: Color.fromString('#007944'), position: { x: 65, y: 53 }, population: 5147 },
+  { name: 'Navy', color: Color.fromString('#00158F'), position: { x: 107, y: 90 }, population: 3528 },
+];
+
+describe('exportTailwind', () => {
+  it('should export the swatches to the Tailwind colors config object', () => {
+    // Act
+    const actual = exportTailwind(swatches);
+
+    // Assert
+    expect(actual).toEqual({ red: '#F42222', 'sea-green': '#007944', navy: '#00158F' });
+  });
+});
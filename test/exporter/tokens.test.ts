@@ -0,0 +1,24 @@
+import { Color } from '@internal/color';
+import { exportDesignTokens } from '@internal/exporter';
+import type { NamedSwatch } from '@internal/swatch';
+import { describe, expect, it } from 'vitest';
+
+const swatches: NamedSwatch[] = [
+  { name: 'Red', color: Color.fromString('#F42222'), position: { x: 107, y: 15 }, population: 3529 },
+  { name: 'SeaGreen', color: Color.fromString('#007944'), position: { x: 65, y: 53 }, population: 5147 },
+  { name: 'Navy', color: Color.fromString('#00158F'), position: { x: 107, y: 90 }, population: 3528 },
+];
+
+describe('exportDesignTokens', () => {
+  it('should export the swatches to the W3C Design Tokens format', () => {
+    // Act
+    const actual = exportDesignTokens(swatches);
+
+    // Assert
+    expect(actual).toEqual({
+      red: { $type: 'color', $value: '#F42222', $description: 'Red' },
+      'sea-green': { $type: 'color', $value: '#007944', $description: 'SeaGreen' },
+      navy: { $type: 'color', $value: '#00158F', $description: 'Navy' },
+    });
+  });
+});
@@ -101,6 +101,69 @@ describe('SwatchExtractor', () => {
       { retry: 3 },
     );
 
+    it('should extract swatches in OKLab color space', async () => {
+      // Arrange
+      const imageData = await loadImageData(fixtures.flags.za);
+      const algorithm = new DBSCAN<Point5>(16, 0.0016, squaredEuclidean);
+      const extractor = new SwatchExtractor(algorithm, [], 'oklab');
+
+      // Act
+      const actual = extractor.extract(imageData, 0.5);
+
+      // Assert
+      expect(actual).not.toBeEmpty();
+      for (const expected of ['#007749', '#FFFFFF', '#E03C31', '#FFB81C', '#000000', '#001489']) {
+        expect(actual).toSatisfyAny((swatch: Swatch): boolean => {
+          return swatch.color.differenceTo(Color.fromString(expected), ciede2000) < 10.0;
+        });
+      }
+    });
+
+    it('should extract swatches with the average opacity of the pixels', () => {
+      // Arrange
+      const pixels = [0xff, 0x00, 0x00, 0x80, 0xff, 0x00, 0x00, 0xff, 0x00, 0x00, 0xff, 0x40, 0x00, 0x00, 0xff, 0x40];
+      const imageData: ImageData = {
+        colorSpace: 'srgb',
+        width: 2,
+        height: 2,
+        data: Uint8ClampedArray.from(pixels),
+      };
+
+      // Act
+      const algorithm = new DBSCAN<Point5>(1, 0.0016, squaredEuclidean);
+      const extractor = new SwatchExtractor(algorithm, []);
+      const actual = extractor.extract(imageData, 1.0);
+
+      // Assert
+      expect(actual).toBeArrayOfSize(2);
+      const red = actual.find((swatch: Swatch): boolean => swatch.color.differenceTo(Color.fromString('#FF0000')) < 1);
+      const blue = actual.find((swatch: Swatch): boolean => swatch.color.differenceTo(Color.fromString('#0000FF')) < 1);
+      expect(red?.color.alpha()).toBeCloseTo((0x80 + 0xff) / 2 / 0xff);
+      expect(blue?.color.alpha()).toBeCloseTo(0x40 / 0xff);
+    });
+
+    it('should composite the pixels over the background before clustering', () => {
+      // Arrange
+      const pixels = [0xff, 0x00, 0x00, 0x80, 0xff, 0x00, 0x00, 0x80, 0xff, 0x00, 0x00, 0xff, 0xff, 0x00, 0x00, 0xff];
+      const imageData: ImageData = {
+        colorSpace: 'srgb',
+        width: 2,
+        height: 2,
+        data: Uint8ClampedArray.from(pixels),
+      };
+
+      // Act
+      const algorithm = new DBSCAN<Point5>(1, 0.0016, squaredEuclidean);
+      const extractor = new SwatchExtractor(algorithm, [], 'lab', { r: 255, g: 255, b: 255 });
+      const actual = extractor.extract(imageData, 1.0);
+
+      // Assert
+      expect(actual).toBeArrayOfSize(2);
+      expect(actual).toSatisfyAny((swatch: Swatch): boolean => swatch.color.toString() === '#FF7F7F');
+      expect(actual).toSatisfyAny((swatch: Swatch): boolean => swatch.color.toString() === '#FF0000');
+      expect(actual).toSatisfyAll((swatch: Swatch): boolean => swatch.color.alpha() === 1.0);
+    });
+
     it('should ignore colors filtered out', () => {
       // Arrange
       const pixels = [0x00, 0x00, 0x00, 0x00, 0xff, 0x00, 0x00, 0x00, 0x00, 0xff, 0x00, 0x00, 0x00, 0x00, 0xff, 0x00];
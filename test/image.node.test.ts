@@ -0,0 +1,64 @@
+import { readFile } from 'node:fs/promises';
+
+import { type ImageDecoder, registerDecoder, unregisterDecoder } from '@internal/decoder';
+import { createImageDataAsync } from '@internal/image';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import fixtures from './fixtures';
+import { loadImageData } from './utils';
+
+// @vitest-environment node
+describe('image', () => {
+  describe('createImageDataAsync', () => {
+    const decoder: ImageDecoder = {
+      canDecode: (bytes: Uint8Array): boolean => bytes[0] === 0x89 && bytes[1] === 0x50,
+      decode: vi.fn((): Promise<ImageData> => loadImageData(fixtures.flags.gr)),
+    };
+
+    afterEach(() => {
+      unregisterDecoder(decoder);
+    });
+
+    it('should read and decode the file at the given path', async () => {
+      // Arrange
+      registerDecoder(decoder);
+
+      // Act
+      const actual = await createImageDataAsync(fixtures.flags.gr);
+
+      // Assert
+      expect(actual.width).toBeGreaterThan(0);
+      expect(decoder.decode).toHaveBeenCalledWith(expect.any(Uint8Array));
+    });
+
+    it('should decode the Blob using the registered decoder', async () => {
+      // Arrange
+      registerDecoder(decoder);
+      const bytes = await readFile(fixtures.flags.gr);
+
+      // Act
+      const actual = await createImageDataAsync(new Blob([bytes]));
+
+      // Assert
+      expect(actual.width).toBeGreaterThan(0);
+    });
+
+    it('should decode the PNG file using the built-in decoder', async () => {
+      // Arrange
+      const expected = await loadImageData(fixtures.flags.za);
+
+      // Act
+      const actual = await createImageDataAsync(fixtures.flags.za);
+
+      // Assert
+      expect(actual.width).toBe(expected.width);
+      expect(actual.height).toBe(expected.height);
+      expect(Array.from(actual.data)).toEqual(Array.from(expected.data));
+    });
+
+    it('should throw an Error if the file does not exist', async () => {
+      // Act & Assert
+      await expect(createImageDataAsync('not-found.png')).rejects.toThrowError(Error);
+    });
+  });
+});
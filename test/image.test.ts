@@ -1,5 +1,24 @@
-import { type ImageSource, createImageData, isCanvasElement, isImageData, isImageElement } from '@internal/image';
-import { describe, expect, it, vi } from 'vitest';
+import { readFile } from 'node:fs/promises';
+
+import { type ImageDecoder, registerDecoder, unregisterDecoder } from '@internal/decoder';
+import {
+  type ImageSource,
+  createImageData,
+  createImageDataAsync,
+  isCanvasElement,
+  isImageData,
+  isImageElement,
+} from '@internal/image';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import fixtures from './fixtures';
+import { loadImageData } from './utils';
+
+// The decoder decodes PNG images using the @napi-rs/canvas package.
+const pngDecoder: ImageDecoder = {
+  canDecode: (bytes: Uint8Array): boolean => bytes[0] === 0x89 && bytes[1] === 0x50,
+  decode: (): Promise<ImageData> => loadImageData(fixtures.flags.de),
+};
 
 describe('image', () => {
   describe('isCanvasElement', () => {
@@ -140,4 +159,77 @@ describe('image', () => {
       }).toThrowError(TypeError);
     });
   });
+
+  describe('createImageDataAsync', () => {
+    afterEach(() => {
+      unregisterDecoder(pngDecoder);
+      vi.unstubAllGlobals();
+    });
+
+    it('should decode the bytes using the registered decoder', async () => {
+      // Arrange
+      registerDecoder(pngDecoder);
+      const bytes = await readFile(fixtures.flags.de);
+
+      // Act
+      const actual = await createImageDataAsync(bytes);
+
+      // Assert
+      expect(actual.width).toBe(160);
+      expect(actual.height).toBe(96);
+    });
+
+    it('should decode the ArrayBuffer using the registered decoder', async () => {
+      // Arrange
+      registerDecoder(pngDecoder);
+      const bytes = await readFile(fixtures.flags.de);
+      const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+
+      // Act
+      const actual = await createImageDataAsync(buffer);
+
+      // Assert
+      expect(actual.width).toBe(160);
+    });
+
+    it('should return the ImageData as it is', async () => {
+      // Arrange
+      const imageData = new ImageData(new Uint8ClampedArray(4 * 4 * 4), 4, 4);
+
+      // Act
+      const actual = await createImageDataAsync(imageData);
+
+      // Assert
+      expect(actual).toBe(imageData);
+    });
+
+    it('should create a image from OffscreenCanvas', async () => {
+      // Arrange
+      const imageData = new ImageData(new Uint8ClampedArray(4 * 4 * 4), 4, 4);
+      class FakeOffscreenCanvas {
+        readonly width = 4;
+        readonly height = 4;
+        getContext() {
+          return { getImageData: () => imageData };
+        }
+      }
+      vi.stubGlobal('OffscreenCanvas', FakeOffscreenCanvas);
+
+      // Act
+      const actual = await createImageDataAsync(new FakeOffscreenCanvas() as unknown as OffscreenCanvas);
+
+      // Assert
+      expect(actual).toBe(imageData);
+    });
+
+    it('should throw an Error if no decoder supports the bytes', async () => {
+      // Act & Assert
+      await expect(createImageDataAsync(Uint8Array.of(0x00, 0x01))).rejects.toThrowError(Error);
+    });
+
+    it('should throw a TypeError if the file path is given in a browser', async () => {
+      // Act & Assert
+      await expect(createImageDataAsync(fixtures.flags.de)).rejects.toThrowError(TypeError);
+    });
+  });
 });
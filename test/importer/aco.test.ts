@@ -0,0 +1,106 @@
+import { Color } from '@internal/color';
+import { exportACO } from '@internal/exporter';
+import { importACO } from '@internal/importer';
+import type { NamedSwatch } from '@internal/swatch';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+const swatches: NamedSwatch[] = [
+  { name: 'Red', color: Color.fromString('#F42222'), position: { x: 107, y: 15 }, population: 3529 },
+  { name: 'SeaGreen', color: Color.fromString('#007944'), position: { x: 65, y: 53 }, population: 5147 },
+  { name: 'Navy', color: Color.fromString('#00158F'), position: { x: 107, y: 90 }, population: 3528 },
+];
+
+function createACO(space: number, values: number[]): Uint8Array {
+  const bytes = new Uint8Array(4 + 10);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, 1);
+  view.setUint16(2, 1);
+  view.setUint16(4, space);
+  values.forEach((value: number, index: number) => view.setUint16(6 + index * 2, value & 0xffff));
+  return bytes;
+}
+
+describe('importACO', () => {
+  it('should import the swatches with the names from the version 2 section', () => {
+    // Act
+    const actual = importACO(exportACO(swatches));
+
+    // Assert
+    expect(actual).toBeArrayOfSize(3);
+    expect(actual.map(({ name, color }) => [name, color.toString()])).toEqual([
+      ['Red', '#F42222'],
+      ['SeaGreen', '#007944'],
+      ['Navy', '#00158F'],
+    ]);
+    expect(actual).toSatisfyAll(
+      (swatch: NamedSwatch) => swatch.population === 1 && swatch.position.x === 0 && swatch.position.y === 0,
+    );
+  });
+
+  it('should import the swatches named by the hexadecimal strings from the version 1 section', () => {
+    // Arrange
+    const bytes = exportACO(swatches).subarray(0, 4 + 3 * 10);
+
+    // Act
+    const actual = importACO(bytes);
+
+    // Assert
+    expect(actual.map(({ name }) => name)).toEqual(['#F42222', '#007944', '#00158F']);
+  });
+
+  it.each([
+    [0, [0xffff, 0, 0], '#FF0000'],
+    [1, [0, 0xffff, 0xffff], '#FF0000'],
+    [1, [0x5555, 0xffff, 0x8000], '#008000'],
+    [2, [0xffff, 0, 0, 0xffff], '#FF0000'],
+    [7, [10000, 0, 0], '#FFFFFF'],
+    [7, [5323, 8011, 6722], '#FF0000'],
+    [8, [0], '#FFFFFF'],
+    [8, [10000], '#000000'],
+  ])('should import the color in the color space %d(%o)', (space, values, expected) => {
+    // Act
+    const actual = importACO(createACO(space, values));
+
+    // Assert
+    expect(actual).toBeArrayOfSize(1);
+    expect(actual[0].color.toString()).toBe(expected);
+  });
+
+  it('should throw an AssertionError if the color space is not supported', () => {
+    // Act & Assert
+    expect(() => importACO(createACO(3, [0, 0, 0]))).toThrowError(
+      new AssertionError('Unsupported color space 3 in the color 0 of the version 1 section at offset 4'),
+    );
+  });
+
+  it('should throw an AssertionError if the version is not supported', () => {
+    // Arrange
+    const bytes = createACO(0, [0, 0, 0]);
+    bytes[1] = 3;
+
+    // Act & Assert
+    expect(() => importACO(bytes)).toThrowError(new AssertionError('Unsupported ACO version 3 at offset 0'));
+  });
+
+  it('should throw an AssertionError if the file is truncated', () => {
+    // Arrange
+    const bytes = exportACO(swatches).subarray(0, 4 + 2 * 10 + 5);
+
+    // Act & Assert
+    expect(() => importACO(bytes)).toThrowError(
+      new AssertionError('Unexpected end of the ACO file in the color 2 of the version 1 section at offset 24'),
+    );
+  });
+
+  it('should throw an AssertionError if the name is too long', () => {
+    // Arrange
+    const bytes = exportACO(swatches.slice(0, 1));
+    new DataView(bytes.buffer).setUint32(4 + 10 + 4 + 10, 100);
+
+    // Act & Assert
+    expect(() => importACO(bytes)).toThrowError(
+      new AssertionError('The name is too long in the color 0 of the version 2 section at offset 18: 100 characters'),
+    );
+  });
+});
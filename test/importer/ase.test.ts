@@ -0,0 +1,114 @@
+import { Color } from '@internal/color';
+import { exportASE } from '@internal/exporter';
+import { importASE } from '@internal/importer';
+import type { NamedSwatch } from '@internal/swatch';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+const swatches: NamedSwatch[] = [
+  { name: 'Red', color: Color.fromString('#F42222'), position: { x: 107, y: 15 }, population: 3529 },
+  { name: 'SeaGreen', color: Color.fromString('#007944'), position: { x: 65, y: 53 }, population: 5147 },
+  { name: 'Navy', color: Color.fromString('#00158F'), position: { x: 107, y: 90 }, population: 3528 },
+];
+
+function createASE(model: string, values: number[]): Uint8Array {
+  const name = 'Ink\0';
+  const length = 2 + name.length * 2 + 4 + values.length * 4 + 2;
+  const bytes = new Uint8Array(12 + 6 + length);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x41, 0x53, 0x45, 0x46], 0);
+  view.setUint16(4, 1);
+  view.setUint32(8, 1);
+  view.setUint16(12, 0x0001);
+  view.setUint32(14, length);
+  view.setUint16(18, name.length);
+  [...name].forEach((char: string, index: number) => view.setUint16(20 + index * 2, char.charCodeAt(0)));
+  const offset = 20 + name.length * 2;
+  [...model].forEach((char: string, index: number) => view.setUint8(offset + index, char.charCodeAt(0)));
+  values.forEach((value: number, index: number) => view.setFloat32(offset + 4 + index * 4, value));
+  return bytes;
+}
+
+describe('importASE', () => {
+  it('should import the swatches exported to the ASE format', () => {
+    // Act
+    const actual = importASE(exportASE(swatches, { name: 'Flag' }));
+
+    // Assert
+    expect(actual).toBeArrayOfSize(3);
+    expect(actual.map(({ name, color }) => [name, color.toString()])).toEqual([
+      ['Red', '#F42222'],
+      ['SeaGreen', '#007944'],
+      ['Navy', '#00158F'],
+    ]);
+    expect(actual).toSatisfyAll(
+      (swatch: NamedSwatch) => swatch.population === 1 && swatch.position.x === 0 && swatch.position.y === 0,
+    );
+  });
+
+  it('should import the swatches from the ArrayBuffer', () => {
+    // Act
+    const actual = importASE(exportASE(swatches).buffer);
+
+    // Assert
+    expect(actual).toBeArrayOfSize(3);
+  });
+
+  it.each([
+    ['RGB ', [1, 0, 0], '#FF0000'],
+    ['CMYK', [0, 1, 1, 0], '#FF0000'],
+    ['CMYK', [0, 0, 0, 1], '#000000'],
+    ['LAB ', [1, 0, 0], '#FFFFFF'],
+    ['Gray', [0.5], '#808080'],
+  ])('should import the color in the %s model(%o)', (model, values, expected) => {
+    // Act
+    const actual = importASE(createASE(model, values));
+
+    // Assert
+    expect(actual).toBeArrayOfSize(1);
+    expect(actual[0].name).toBe('Ink');
+    expect(actual[0].color.toString()).toBe(expected);
+  });
+
+  it('should throw an AssertionError if the signature is invalid', () => {
+    // Arrange
+    const bytes = createASE('RGB ', [1, 0, 0]);
+    bytes[0] = 0x58;
+
+    // Act & Assert
+    expect(() => importASE(bytes)).toThrowError(new AssertionError("The ASE file must start with 'ASEF': 'XSEF'"));
+  });
+
+  it('should throw an AssertionError if the file is too short', () => {
+    // Act & Assert
+    expect(() => importASE(new Uint8Array(8))).toThrowError(new AssertionError('The ASE file is too short: 8 bytes'));
+  });
+
+  it('should throw an AssertionError if the color model is not supported', () => {
+    // Act & Assert
+    expect(() => importASE(createASE('HSV ', [0, 0, 0]))).toThrowError(
+      new AssertionError("Unsupported color model 'HSV ' in the color block 0 at offset 12"),
+    );
+  });
+
+  it('should throw an AssertionError if the block exceeds the end of the file', () => {
+    // Arrange
+    const bytes = createASE('RGB ', [1, 0, 0]).subarray(0, 40);
+
+    // Act & Assert
+    expect(() => importASE(bytes)).toThrowError(
+      new AssertionError('The block 0 at offset 12 exceeds the end of the ASE file'),
+    );
+  });
+
+  it('should throw an AssertionError if the block type is unknown', () => {
+    // Arrange
+    const bytes = createASE('RGB ', [1, 0, 0]);
+    new DataView(bytes.buffer).setUint16(12, 0x0003);
+
+    // Act & Assert
+    expect(() => importASE(bytes)).toThrowError(
+      new AssertionError('Unknown block type 0x3 of the block 0 at offset 12'),
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { Color } from '@internal/color';
+import { exportGPL } from '@internal/exporter';
+import { importGPL } from '@internal/importer';
+import type { NamedSwatch } from '@internal/swatch';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+const swatches: NamedSwatch[] = [
+  { name: 'Red', color: Color.fromString('#F42222'), position: { x: 107, y: 15 }, population: 3529 },
+  { name: 'SeaGreen', color: Color.fromString('#007944'), position: { x: 65, y: 53 }, population: 5147 },
+  { name: 'Navy', color: Color.fromString('#00158F'), position: { x: 107, y: 90 }, population: 3528 },
+];
+
+describe('importGPL', () => {
+  it('should import the swatches exported to the GPL format', () => {
+    // Act
+    const actual = importGPL(exportGPL(swatches));
+
+    // Assert
+    expect(actual).toBeArrayOfSize(3);
+    expect(actual.map(({ name, color }) => [name, color.toString()])).toEqual([
+      ['Red', '#F42222'],
+      ['SeaGreen', '#007944'],
+      ['Navy', '#00158F'],
+    ]);
+    expect(actual).toSatisfyAll(
+      (swatch: NamedSwatch) => swatch.population === 1 && swatch.position.x === 0 && swatch.position.y === 0,
+    );
+  });
+
+  it('should import the entries without names and ignore the comments and the blank lines', () => {
+    // Arrange
+    const text = 'GIMP Palette\r\nName: Flag\r\n# Comment\r\n\r\n255 255 255\r\n  0   0   0  Black  Ink \r\n';
+
+    // Act
+    const actual = importGPL(text);
+
+    // Assert
+    expect(actual.map(({ name }) => name)).toEqual(['#FFFFFF', 'Black  Ink']);
+  });
+
+  it('should throw an AssertionError if the header is missing', () => {
+    // Act & Assert
+    expect(() => importGPL('255 0 0 Red')).toThrowError(
+      new AssertionError("The GPL file must start with 'GIMP Palette': '255 0 0 Red'"),
+    );
+  });
+
+  it.each([
+    ['255 0 Red', "The line 3 of the GPL file must be 'R G B [name]': '255 0 Red'"],
+    ['256 0 0 Red', "The line 3 of the GPL file has a component out of the range of [0, 255]: '256 0 0 Red'"],
+  ])('should throw an AssertionError if the line is malformed(%s)', (line, expected) => {
+    // Arrange
+    const text = `GIMP Palette\nName: Flag\n${line}\n`;
+
+    // Act & Assert
+    expect(() => importGPL(text)).toThrowError(new AssertionError(expected));
+  });
+});
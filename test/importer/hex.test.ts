@@ -0,0 +1,38 @@
+import { importHexList } from '@internal/importer';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+describe('importHexList', () => {
+  it('should import the swatches from the hexadecimal colors', () => {
+    // Arrange
+    const text = ['; Brand colors', '#F42222 Primary Red', '007944', '', '// Short form', '#00f'].join('\n');
+
+    // Act
+    const actual = importHexList(text);
+
+    // Assert
+    expect(actual.map(({ name, color }) => [name, color.toString()])).toEqual([
+      ['Primary Red', '#F42222'],
+      ['#007944', '#007944'],
+      ['#0000FF', '#0000FF'],
+    ]);
+    expect(actual).toSatisfyAll((swatch) => swatch.population === 1);
+  });
+
+  it('should return an empty array if the text has no colors', () => {
+    // Act
+    const actual = importHexList('; Empty\n\n');
+
+    // Assert
+    expect(actual).toBeEmpty();
+  });
+
+  it.each([
+    ['#F4222', "The line 2 is not a hexadecimal color: '#F4222'"],
+    ['red', "The line 2 is not a hexadecimal color: 'red'"],
+    ['#F42222FF', "The line 2 is not a hexadecimal color: '#F42222FF'"],
+  ])('should throw an AssertionError if the line is not a hexadecimal color(%s)', (line, expected) => {
+    // Act & Assert
+    expect(() => importHexList(`#FFFFFF\n${line}`)).toThrowError(new AssertionError(expected));
+  });
+});
@@ -45,7 +45,7 @@ describe('.toBeSimilarColor', () => {
       // Act
       const actual = Color.fromString('#FF0000');
       expect(actual).toBeSimilarColor('invalid');
-    }).toThrowError('The value(invalid) is not a valid hexadecimal color string');
+    }).toThrowError('The value(invalid) is not a valid CSS color string');
   });
 });
 
@@ -86,6 +86,6 @@ describe('.not.toBeSimilarColor', () => {
       // Act
       const actual = Color.fromString('#FF0000');
       expect(actual).toBeSimilarColor('invalid');
-    }).toThrowError('The value(invalid) is not a valid hexadecimal color string');
+    }).toThrowError('The value(invalid) is not a valid CSS color string');
   });
 });
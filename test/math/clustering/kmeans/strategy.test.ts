@@ -1,4 +1,4 @@
-import { KmeansPlusPlusInitializer, type Point2, euclidean } from '@internal/math';
+import { KmeansPlusPlusInitializer, type Point2, type Point3, WuInitializer, euclidean } from '@internal/math';
 import { AssertionError } from '@internal/utils';
 import { describe, expect, it } from 'vitest';
 
@@ -39,3 +39,55 @@ describe('KmeansPlusPlusInitializer', () => {
     }).toThrowError(AssertionError);
   });
 });
+
+describe('WuInitializer', () => {
+  const colors: Point3[] = [
+    [0.1, 0.1, 0.1],
+    [0.1, 0.1, 0.15],
+    [0.5, 0.5, 0.5],
+    [0.55, 0.5, 0.5],
+    [0.9, 0.1, 0.9],
+    [0.9, 0.15, 0.9],
+  ];
+
+  it('should choose the centers of the Wu quantization', () => {
+    // Act
+    const initializer = new WuInitializer<Point3>();
+    const actual = initializer.initialize(colors, 3);
+
+    // Assert
+    expect(actual).toBeArrayOfSize(3);
+    expect(actual.map(([r, g, b]) => [r.toFixed(3), g.toFixed(3), b.toFixed(3)])).toIncludeSameMembers([
+      ['0.100', '0.100', '0.125'],
+      ['0.525', '0.500', '0.500'],
+      ['0.900', '0.125', '0.900'],
+    ]);
+  });
+
+  it('should choose the same centers for the same points', () => {
+    // Arrange
+    const initializer = new WuInitializer<Point3>();
+
+    // Act
+    const actual = initializer.initialize(colors, 2);
+
+    // Assert
+    expect(initializer.initialize(colors, 2)).toEqual(actual);
+  });
+
+  it('should return all the points if the number of points is not greater than k', () => {
+    // Act
+    const actual = new WuInitializer<Point3>().initialize(colors, 6);
+
+    // Assert
+    expect(actual).toEqual(colors);
+  });
+
+  it.each([{ k: 0 }, { k: Number.NaN }])('should throw an AssertionError if k($k) is invalid', ({ k }) => {
+    // Assert
+    expect(() => {
+      // Act
+      new WuInitializer<Point3>().initialize(colors, k);
+    }).toThrowError(AssertionError);
+  });
+});
@@ -0,0 +1,92 @@
+import { MedianCut, type Point5 } from '@internal/math';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+const points: Point5[] = [
+  [0.1, 0.1, 0.1, 0.0, 0.0],
+  [0.1, 0.2, 0.1, 0.9, 0.9],
+  [0.5, 0.5, 0.5, 0.2, 0.2],
+  [0.5, 0.5, 0.6, 0.8, 0.8],
+  [0.9, 0.9, 0.9, 0.4, 0.4],
+  [0.9, 0.8, 0.9, 0.6, 0.6],
+];
+
+describe('MedianCut', () => {
+  describe('constructor', () => {
+    it('should create a new MedianCut instance', () => {
+      // Act
+      const actual = new MedianCut(16, 3);
+
+      // Assert
+      expect(actual).toBeDefined();
+    });
+
+    it.each([
+      { maxColors: 0, dimensions: 3 },
+      { maxColors: 1.5, dimensions: 3 },
+      { maxColors: Number.NaN, dimensions: 3 },
+      { maxColors: 16, dimensions: 0 },
+    ])('should throw an AssertionError if the parameters(%o) are invalid', ({ maxColors, dimensions }) => {
+      // Assert
+      expect(() => {
+        // Act
+        new MedianCut(maxColors, dimensions);
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('fit', () => {
+    it.each([
+      { maxColors: 1, expected: 1 },
+      { maxColors: 3, expected: 3 },
+      { maxColors: 6, expected: 6 },
+      { maxColors: 10, expected: 6 },
+    ])('should return $expected clusters if the maximum number of colors is $maxColors', ({ maxColors, expected }) => {
+      // Act
+      const actual = new MedianCut(maxColors, 3).fit(points);
+
+      // Assert
+      expect(actual).toHaveLength(expected);
+      expect(actual.reduce((total, cluster) => total + cluster.size, 0)).toBe(points.length);
+    });
+
+    it('should split the points by the leading components only', () => {
+      // Act
+      const actual = new MedianCut(2, 3).fit(points);
+
+      // Assert
+      const memberships = actual.map((cluster) => [...cluster.getMemberships()].sort());
+      expect(memberships).toContainAllValues([
+        [0, 1, 2],
+        [3, 4, 5],
+      ]);
+      const centroid = actual.find((cluster) => cluster.getMemberships().has(0))?.getCentroid();
+      expect(centroid?.[0]).toBeCloseTo(0.2333);
+      expect(centroid?.[1]).toBeCloseTo(0.2667);
+      expect(centroid?.[3]).toBeCloseTo(0.3667);
+    });
+
+    it('should not split the box of the identical points', () => {
+      // Arrange
+      const identical: Point5[] = [
+        [0.5, 0.5, 0.5, 0.0, 0.0],
+        [0.5, 0.5, 0.5, 1.0, 1.0],
+      ];
+
+      // Act
+      const actual = new MedianCut(4, 3).fit(identical);
+
+      // Assert
+      expect(actual).toHaveLength(1);
+      expect(actual[0].size).toBe(2);
+    });
+
+    it('should throw an AssertionError if the points array is empty', () => {
+      // Assert
+      expect(() => {
+        // Act
+        new MedianCut(4, 3).fit([]);
+      }).toThrowError(AssertionError);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { Octree, type Point5 } from '@internal/math';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+const points: Point5[] = [
+  [0.1, 0.1, 0.1, 0.0, 0.0],
+  [0.1, 0.11, 0.1, 0.9, 0.9],
+  [0.1, 0.1, 0.11, 0.1, 0.1],
+  [0.6, 0.6, 0.6, 0.2, 0.2],
+  [0.6, 0.61, 0.6, 0.8, 0.8],
+  [0.9, 0.1, 0.9, 0.4, 0.4],
+];
+
+describe('Octree', () => {
+  describe('constructor', () => {
+    it('should create a new Octree instance', () => {
+      // Act
+      const actual = new Octree(16);
+
+      // Assert
+      expect(actual).toBeDefined();
+    });
+
+    it.each([
+      { maxColors: 0, maxDepth: 8 },
+      { maxColors: Number.NaN, maxDepth: 8 },
+      { maxColors: 16, maxDepth: 0 },
+      { maxColors: 16, maxDepth: 2.5 },
+    ])('should throw an AssertionError if the parameters(%o) are invalid', ({ maxColors, maxDepth }) => {
+      // Assert
+      expect(() => {
+        // Act
+        new Octree(maxColors, maxDepth);
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('fit', () => {
+    it('should return a cluster for each leaf if the leaves do not exceed the maximum number of colors', () => {
+      // Act
+      const actual = new Octree(16).fit(points);
+
+      // Assert
+      expect(actual).toHaveLength(6);
+      expect(actual.reduce((total, cluster) => total + cluster.size, 0)).toBe(points.length);
+    });
+
+    it('should merge the leaves of the similar colors', () => {
+      // Act
+      const actual = new Octree(3).fit(points);
+
+      // Assert
+      expect(actual).toHaveLength(3);
+      const memberships = actual.map((cluster) => [...cluster.getMemberships()].sort());
+      expect(memberships).toContainAllValues([[0, 1, 2], [3, 4], [5]]);
+      const centroid = actual.find((cluster) => cluster.getMemberships().has(3))?.getCentroid();
+      expect(centroid?.[1]).toBeCloseTo(0.605);
+      expect(centroid?.[4]).toBeCloseTo(0.5);
+    });
+
+    it('should merge all the points into a cluster if the maximum number of colors is 1', () => {
+      // Act
+      const actual = new Octree(1).fit(points);
+
+      // Assert
+      expect(actual).toHaveLength(1);
+      expect(actual[0].size).toBe(points.length);
+    });
+
+    it('should group the points by the coarse levels with the shallow octree', () => {
+      // Act
+      const actual = new Octree(16, 1).fit(points);
+
+      // Assert
+      const memberships = actual.map((cluster) => [...cluster.getMemberships()].sort());
+      expect(memberships).toContainAllValues([[0, 1, 2], [3, 4], [5]]);
+    });
+
+    it.each([
+      { points: [], description: 'empty' },
+      { points: [[0.1, 0.1]], description: 'less than 3 components' },
+    ])('should throw an AssertionError if the points are $description', ({ points }) => {
+      // Assert
+      expect(() => {
+        // Act
+        new Octree(4).fit(points as Point5[]);
+      }).toThrowError(AssertionError);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { type Point5, Wu } from '@internal/math';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+const points: Point5[] = [
+  [0.1, 0.1, 0.1, 0.0, 0.0],
+  [0.1, 0.1, 0.15, 0.9, 0.9],
+  [0.1, 0.15, 0.1, 0.1, 0.1],
+  [0.5, 0.5, 0.5, 0.2, 0.2],
+  [0.55, 0.5, 0.5, 0.8, 0.8],
+  [0.9, 0.1, 0.9, 0.4, 0.4],
+];
+
+describe('Wu', () => {
+  describe('constructor', () => {
+    it('should create a new Wu instance', () => {
+      // Act
+      const actual = new Wu(16);
+
+      // Assert
+      expect(actual).toBeDefined();
+    });
+
+    it.each([0, 1.5, Number.NaN])(
+      'should throw an AssertionError if the maximum number of colors(%d) is invalid',
+      (maxColors) => {
+        // Assert
+        expect(() => {
+          // Act
+          new Wu(maxColors);
+        }).toThrowError(AssertionError);
+      },
+    );
+  });
+
+  describe('fit', () => {
+    it.each([
+      { maxColors: 1, expected: 1 },
+      { maxColors: 2, expected: 2 },
+      { maxColors: 3, expected: 3 },
+    ])('should return $expected clusters if the maximum number of colors is $maxColors', ({ maxColors, expected }) => {
+      // Act
+      const actual = new Wu(maxColors).fit(points);
+
+      // Assert
+      expect(actual).toHaveLength(expected);
+      expect(actual.reduce((total, cluster) => total + cluster.size, 0)).toBe(points.length);
+    });
+
+    it('should cut the boxes to minimize the variances of the colors', () => {
+      // Act
+      const actual = new Wu(3).fit(points);
+
+      // Assert
+      const memberships = actual.map((cluster) => [...cluster.getMemberships()].sort());
+      expect(memberships).toIncludeSameMembers([[0, 1, 2], [3, 4], [5]]);
+      const centroid = actual.find((cluster) => cluster.getMemberships().has(3))?.getCentroid();
+      expect(centroid?.[0]).toBeCloseTo(0.525);
+      expect(centroid?.[3]).toBeCloseTo(0.5);
+    });
+
+    it('should not cut the boxes beyond the distinct colors', () => {
+      // Act
+      const actual = new Wu(32).fit(points);
+
+      // Assert
+      expect(actual.length).toBeLessThanOrEqual(points.length);
+      expect(actual.reduce((total, cluster) => total + cluster.size, 0)).toBe(points.length);
+    });
+
+    it('should return a cluster if all the points are identical', () => {
+      // Arrange
+      const identical: Point5[] = [
+        [0.5, 0.5, 0.5, 0.0, 0.0],
+        [0.5, 0.5, 0.5, 1.0, 1.0],
+      ];
+
+      // Act
+      const actual = new Wu(4).fit(identical);
+
+      // Assert
+      expect(actual).toHaveLength(1);
+      expect(actual[0].size).toBe(2);
+    });
+
+    it.each([
+      { points: [], description: 'empty' },
+      { points: [[0.1, 0.1]], description: 'less than 3 components' },
+    ])('should throw an AssertionError if the points are $description', ({ points }) => {
+      // Assert
+      expect(() => {
+        // Act
+        new Wu(4).fit(points as Point5[]);
+      }).toThrowError(AssertionError);
+    });
+  });
+});
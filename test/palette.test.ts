@@ -1,8 +1,24 @@
-import { Color, type Options, Palette, type Theme, luminanceFilter, opacityFilter } from 'auto-palette';
-import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  Cluster,
+  type ClusteringAlgorithm,
+  Color,
+  type Options,
+  Palette,
+  type Point5,
+  type RGB,
+  type Theme,
+  WorkerPool,
+  luminanceFilter,
+  opacityFilter,
+  registerAlgorithm,
+  unregisterAlgorithm,
+} from 'auto-palette';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
 
-import type { NamedSwatch } from '@internal/swatch';
+import type { AccessiblePair, NamedSwatch } from '@internal/swatch';
 import { AssertionError } from '@internal/utils';
+import { handleRequest } from '@internal/worker/handler';
+import type { ExtractionResponse } from '@internal/worker/message';
 import fixtures from './fixtures';
 import { loadImageData } from './utils';
 
@@ -105,6 +121,62 @@ describe('Palette', () => {
       expect(actual).toContainAllValues(swatches);
     });
 
+    it('should reject the swatches indistinguishable for the given deficiencies', () => {
+      // Arrange
+      const palette = new Palette([
+        { color: Color.fromString('#D62728'), population: 100, position: { x: 0, y: 0 } },
+        { color: Color.fromString('#2CA02C'), population: 90, position: { x: 1, y: 0 } },
+        { color: Color.fromString('#1F77B4'), population: 80, position: { x: 2, y: 0 } },
+      ]);
+
+      // Act
+      const actual = palette.findSwatches(3, 'basic', { deficiencies: ['deuteranopia'] });
+
+      // Assert
+      expect(actual.map(({ color }) => color.toString())).toEqual(['#D62728', '#1F77B4']);
+    });
+
+    it.each([3, 6])('should find the swatches distinguishable for all deficiencies(n=%d)', (n) => {
+      // Arrange
+      const palette = new Palette(swatches);
+      const deficiencies = ['protanopia', 'deuteranopia', 'tritanopia'] as const;
+
+      // Act
+      const actual = palette.findSwatches(n, 'basic', { deficiencies: [...deficiencies], minDifference: 15 });
+
+      // Assert
+      expect(actual.length).toBeGreaterThanOrEqual(2);
+      expect(actual.length).toBeLessThan(n);
+      for (const deficiency of deficiencies) {
+        for (let i = 0; i < actual.length; i++) {
+          for (let j = i + 1; j < actual.length; j++) {
+            const color1 = actual[i].color.simulateDeficiency(deficiency);
+            const color2 = actual[j].color.simulateDeficiency(deficiency);
+            expect(color1.differenceTo(color2)).toBeGreaterThanOrEqual(15);
+          }
+        }
+      }
+    });
+
+    it.each([
+      { severity: -0.1, minDifference: 10 },
+      { severity: 1.1, minDifference: 10 },
+      { severity: 1.0, minDifference: -1 },
+      { severity: 1.0, minDifference: Number.NaN },
+    ])(
+      'should throw an AssertionError if the severity($severity) or the minimum difference($minDifference) is invalid',
+      ({ severity, minDifference }) => {
+        // Arrange
+        const palette = new Palette(swatches);
+
+        // Assert
+        expect(() => {
+          // Act
+          palette.findSwatches(3, 'basic', { deficiencies: ['protanopia'], severity, minDifference });
+        }).toThrowError(AssertionError);
+      },
+    );
+
     it.each([Number.POSITIVE_INFINITY, Number.NaN, -1, 0])(
       'should throw an AssertionError if the specified number(%d) is not an integer or less than 0',
       (n) => {
@@ -120,6 +192,317 @@ describe('Palette', () => {
     );
   });
 
+  describe('toScale', () => {
+    it('should create the scale from the best swatches ordered from dark to light', () => {
+      // Arrange
+      const palette = new Palette(swatches);
+
+      // Act
+      const actual = palette.toScale(7);
+
+      // Assert
+      expect(actual).toBeArrayOfSize(7);
+      expect(actual[0].lightness()).toBeLessThan(actual[6].lightness());
+      const anchors = palette.findSwatches(3).map(({ color }) => color.toString());
+      expect(anchors).toContain(actual[0].toString());
+      expect(anchors).toContain(actual[6].toString());
+    });
+
+    it('should create the scale with the given options', () => {
+      // Arrange
+      const palette = new Palette(swatches);
+
+      // Act
+      const actual = palette.toScale(5, 'vivid', { space: 'oklab', interpolation: 'bezier' });
+
+      // Assert
+      expect(actual).toBeArrayOfSize(5);
+    });
+
+    it('should return an empty array if less than 2 swatches are found', () => {
+      // Arrange
+      const palette = new Palette(swatches.slice(0, 1));
+
+      // Act
+      const actual = palette.toScale(5);
+
+      // Assert
+      expect(actual).toBeEmpty();
+    });
+  });
+
+  describe('harmonize', () => {
+    it('should snap the colors of the scheme to the closest swatches', () => {
+      // Arrange
+      const palette = new Palette(swatches);
+
+      // Act
+      const actual = palette.harmonize('monochromatic');
+
+      // Assert
+      expect(actual).toBeArrayOfSize(5);
+      // The swatch with the largest population is the base color.
+      expect(actual[0].name).toBe('seagreen');
+      expect(actual[0].color).toBeSimilarColor('#007944');
+      for (const swatch of actual) {
+        expect(swatches.map(({ color }) => color.toString())).toContain(swatch.color.toString());
+      }
+    });
+
+    it('should use the given base color', () => {
+      // Arrange
+      const palette = new Palette(swatches);
+
+      // Act
+      const actual = palette.harmonize('complementary', Color.fromString('#0022AA'));
+
+      // Assert
+      expect(actual.map(({ name }) => name)).toEqual(['navy', 'seagreen']);
+    });
+
+    it('should return an empty array if the palette is empty', () => {
+      // Act
+      const actual = new Palette([]).harmonize('triadic');
+
+      // Assert
+      expect(actual).toBeEmpty();
+    });
+  });
+
+  describe('findReadableSwatches', () => {
+    it('should find the swatches with the readable text colors', () => {
+      // Arrange
+      const palette = new Palette(swatches);
+
+      // Act
+      const actual = palette.findReadableSwatches(6);
+
+      // Assert
+      expect(actual).toBeArrayOfSize(6);
+      for (const { color, onColor } of actual) {
+        expect(onColor.title.contrastRatio(color)).toBeGreaterThanOrEqual(3.0);
+        expect(onColor.body.contrastRatio(color)).toBeGreaterThanOrEqual(4.5);
+        expect(onColor.body.alpha()).toBe(1.0);
+      }
+    });
+
+    it('should return an empty array if the palette is empty', () => {
+      // Act
+      const actual = new Palette([]).findReadableSwatches(4);
+
+      // Assert
+      expect(actual).toBeEmpty();
+    });
+  });
+
+  describe('findAccessiblePairs', () => {
+    it('should find the pairs meeting the level AA by default', () => {
+      // Arrange
+      const palette = new Palette(swatches);
+
+      // Act
+      const actual = palette.findAccessiblePairs();
+
+      // Assert
+      expect(actual).toBeArrayOfSize(6);
+      expect(actual).toSatisfyAll((pair: AccessiblePair): boolean => pair.contrastRatio >= 4.5);
+      expect(actual).toSatisfyAll(
+        (pair: AccessiblePair): boolean => pair.background.population >= pair.foreground.population,
+      );
+      expect(actual[0]).toMatchObject({
+        foreground: { name: 'white' },
+        background: { name: 'navy' },
+      });
+      expect(actual[0].apcaContrast).toBeLessThan(0);
+      for (let i = 1; i < actual.length; i++) {
+        expect(actual[i - 1].score).toBeGreaterThanOrEqual(actual[i].score);
+      }
+    });
+
+    it('should find the pairs meeting the level AAA', () => {
+      // Arrange
+      const palette = new Palette(swatches);
+
+      // Act
+      const actual = palette.findAccessiblePairs({ level: 'AAA' });
+
+      // Assert
+      expect(actual).toBeArrayOfSize(4);
+      expect(actual).toSatisfyAll((pair: AccessiblePair): boolean => pair.contrastRatio >= 7.0);
+    });
+
+    it('should find the pairs meeting the given minimum contrast ratio', () => {
+      // Arrange
+      const palette = new Palette(swatches);
+
+      // Act
+      const actual = palette.findAccessiblePairs({ minRatio: 20, level: 'AA' });
+
+      // Assert
+      expect(actual).toBeArrayOfSize(1);
+      expect(actual[0]).toMatchObject({
+        foreground: { name: 'black' },
+        background: { name: 'white' },
+        contrastRatio: 21,
+      });
+    });
+
+    it('should return an empty array if the palette is empty', () => {
+      // Act
+      const actual = new Palette([]).findAccessiblePairs();
+
+      // Assert
+      expect(actual).toBeEmpty();
+    });
+
+    it.each([0.5, 21.5, Number.NaN])('should throw an AssertionError if the minRatio(%d) is invalid', (minRatio) => {
+      // Arrange
+      const palette = new Palette(swatches);
+
+      // Assert
+      expect(() => {
+        // Act
+        palette.findAccessiblePairs({ minRatio });
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('toJSON', () => {
+    it('should serialize the palette without the metadata', () => {
+      // Arrange
+      const palette = new Palette(swatches);
+
+      // Act
+      const actual = palette.toJSON();
+
+      // Assert
+      expect(actual.version).toBe(1);
+      expect(actual.source).toBeNull();
+      expect(actual.options).toBeNull();
+      expect(actual.swatches).toBeArrayOfSize(6);
+      expect(actual.swatches[0]).toEqual({
+        color: { ...swatches[0].color.toLAB(), alpha: 1, hex: '#F42222' },
+        position: { x: 107, y: 15 },
+        population: 3529,
+      });
+    });
+
+    it('should serialize the source dimensions and the options of the extracted palette', async () => {
+      // Arrange
+      const image = await loadImageData(fixtures.flags.za);
+      const palette = Palette.extract(image, { samplingRate: 0.5, maxSwatches: 4 });
+
+      // Act
+      const actual = palette.toJSON();
+
+      // Assert
+      expect(actual.source).toEqual({ width: 160, height: 107 });
+      expect(actual.options).toEqual({
+        algorithm: 'dbscan',
+        samplingRate: 0.5,
+        maxSwatches: 4,
+        clusteringSpace: 'lab',
+        colorSpace: 'srgb',
+      });
+      expect(actual.swatches).toBeArrayOfSize(palette.size());
+    });
+  });
+
+  describe('fromJSON', () => {
+    it('should deserialize the palette serialized by toJSON', () => {
+      // Arrange
+      const palette = new Palette(swatches, {
+        source: { width: 160, height: 107 },
+        options: {
+          algorithm: 'kmeans',
+          samplingRate: 1.0,
+          maxSwatches: 8,
+          clusteringSpace: 'oklab',
+          colorSpace: 'display-p3',
+        },
+      });
+      const json = JSON.stringify(palette);
+
+      // Act
+      const actual = Palette.fromJSON(json);
+
+      // Assert
+      expect(actual.size()).toBe(6);
+      expect(actual.toJSON()).toEqual(palette.toJSON());
+      expect(actual.findSwatches(6).map(({ color }) => color.toString())).toContainAllValues(
+        swatches.map(({ color }) => color.toString()),
+      );
+    });
+
+    it('should deserialize the illuminant of the palette', () => {
+      // Arrange
+      const palette = new Palette(swatches, {
+        source: { width: 160, height: 107 },
+        options: {
+          algorithm: 'dbscan',
+          samplingRate: 1.0,
+          maxSwatches: 8,
+          clusteringSpace: 'lab',
+          colorSpace: 'srgb',
+        },
+        illuminant: { x: 1.0985, y: 1.0, z: 0.35585 },
+      });
+
+      // Act
+      const actual = Palette.fromJSON(JSON.stringify(palette));
+
+      // Assert
+      expect(actual.illuminant()).toEqual({ x: 1.0985, y: 1.0, z: 0.35585 });
+      expect(actual.toJSON()).toEqual(palette.toJSON());
+    });
+
+    it('should deserialize the palette from the parsed object', () => {
+      // Arrange
+      const json = new Palette(swatches).toJSON();
+
+      // Act
+      const actual = Palette.fromJSON(json);
+
+      // Assert
+      expect(actual.toJSON()).toEqual(json);
+    });
+
+    it('should fill the default clustering space and color space if the options do not have them', () => {
+      // Arrange
+      const json = {
+        version: 1,
+        source: { width: 160, height: 107 },
+        options: { algorithm: 'dbscan', samplingRate: 1.0, maxSwatches: 256 },
+        swatches: [],
+      };
+
+      // Act
+      const actual = Palette.fromJSON(JSON.stringify(json));
+
+      // Assert
+      expect(actual.toJSON().options).toEqual({ ...json.options, clusteringSpace: 'lab', colorSpace: 'srgb' });
+    });
+
+    it('should throw a SyntaxError if the string is not valid JSON', () => {
+      // Assert
+      expect(() => {
+        // Act
+        Palette.fromJSON('{');
+      }).toThrowError(SyntaxError);
+    });
+
+    it('should throw an AssertionError if the JSON does not conform to the schema', () => {
+      // Arrange
+      const json = { ...new Palette(swatches).toJSON(), version: 2 };
+
+      // Assert
+      expect(() => {
+        // Act
+        Palette.fromJSON(JSON.stringify(json));
+      }).toThrowError(AssertionError);
+    });
+  });
+
   describe('extract', () => {
     let image: ImageData;
     beforeAll(async () => {
@@ -155,6 +538,9 @@ describe('Palette', () => {
           algorithm: 'kmeans',
           samplingRate: 0.5,
           maxSwatches: 16,
+          clusteringSpace: 'oklab',
+          background: '#FFFFFF',
+          colorSpace: 'srgb',
           filters: [opacityFilter(), luminanceFilter()],
         };
         const actual = Palette.extract(image, options);
@@ -178,6 +564,200 @@ describe('Palette', () => {
       { retry: 3, timeout: 20000 },
     );
 
+    it('should report the average opacity of the semi-transparent pixels', () => {
+      // Arrange
+      const translucent = createTranslucentImage(64, 64);
+
+      // Act
+      const actual = Palette.extract(translucent, { filters: [opacityFilter(0.1)] });
+
+      // Assert
+      expect(actual.size()).toBe(1);
+      const [swatch] = actual.findSwatches(1);
+      expect(swatch.color.toString()).toBe('#FF000080');
+    });
+
+    it('should composite the semi-transparent pixels over the background', () => {
+      // Arrange
+      const translucent = createTranslucentImage(64, 64);
+
+      // Act
+      const actual = Palette.extract(translucent, { filters: [opacityFilter(0.1)], background: 'white' });
+
+      // Assert
+      expect(actual.size()).toBe(1);
+      const [swatch] = actual.findSwatches(1);
+      expect(swatch.color.toString()).toBe('#FF7F7F');
+      expect(actual.toJSON().options).not.toHaveProperty('background');
+    });
+
+    it('should convert the pixels from the color space of the image data', () => {
+      // Arrange
+      const p3 = createSolidImage(64, 64, 'display-p3');
+
+      // Act
+      const actual = Palette.extract(p3);
+
+      // Assert
+      expect(actual.size()).toBe(1);
+      const [swatch] = actual.findSwatches(1);
+      expect(swatch.color.isInGamut('srgb')).toBeFalsy();
+      expect(swatch.color.toRGB('display-p3')).toEqual({ r: 255, g: 0, b: 0 });
+      expect(actual.toJSON().options).toHaveProperty('colorSpace', 'display-p3');
+    });
+
+    it.each([
+      { colorSpace: 'srgb', expected: '#FF0000' },
+      { colorSpace: 'rec2020', expected: 'color(rec2020 1 0 0)' },
+    ] as const)(
+      'should convert the pixels from the color space($colorSpace) of the options',
+      ({ colorSpace, expected }) => {
+        // Arrange
+        const p3 = createSolidImage(64, 64, 'display-p3');
+
+        // Act
+        const actual = Palette.extract(p3, { colorSpace });
+
+        // Assert
+        const [swatch] = actual.findSwatches(1);
+        expect(swatch.color.format(colorSpace === 'srgb' ? 'hex' : colorSpace)).toBe(expected);
+        expect(actual.toJSON().options).toHaveProperty('colorSpace', colorSpace);
+      },
+    );
+
+    it('should adapt the pixels from the white point to D65', () => {
+      // Arrange
+      const tinted = Color.fromString('#808080').adapt('D65', 'A').toRGB();
+      const image = createSolidImage(64, 64, 'srgb', tinted);
+
+      // Act
+      const actual = Palette.extract(image, { whitePoint: 'A' });
+
+      // Assert
+      expect(actual.size()).toBe(1);
+      expect(actual.findSwatches(1)[0].color).toBeSimilarColor('#808080');
+      expect(actual.toJSON().options).not.toHaveProperty('whitePoint');
+      expect(actual.illuminant()).toEqual({ x: 1.0985, y: 1.0, z: 0.35585 });
+    });
+
+    it.each(['gray-world', 'white-patch', 'shades-of-gray'] as const)(
+      'should estimate the illuminant and adapt the pixels to D65 with the white balance(%s)',
+      (whiteBalance) => {
+        // Arrange
+        const tinted = Color.fromString('#808080').adapt('D65', 'A').toRGB();
+        const image = createSolidImage(64, 64, 'srgb', tinted);
+
+        // Act
+        const actual = Palette.extract(image, { whiteBalance });
+
+        // Assert
+        expect(actual.size()).toBe(1);
+        expect(actual.findSwatches(1)[0].color).toBeSimilarColor('#808080');
+        const illuminant = actual.illuminant();
+        expect(illuminant?.x).toBeCloseTo(1.0985, 2);
+        expect(illuminant?.z).toBeCloseTo(0.35585, 2);
+        expect(actual.toJSON().options).not.toHaveProperty('whiteBalance');
+      },
+    );
+
+    it('should return null from illuminant if neither the white point nor the white balance is given', () => {
+      // Act
+      const actual = Palette.extract(image);
+
+      // Assert
+      expect(actual.illuminant()).toBeNull();
+      expect(actual.toJSON()).not.toHaveProperty('illuminant');
+    });
+
+    it('should extract a Palette with the parameters of the algorithm', () => {
+      // Act
+      const actual = Palette.extract(image, { algorithm: { name: 'kmeans', params: { k: 4 } }, samplingRate: 0.25 });
+
+      // Assert
+      expect(actual.size()).toBeGreaterThan(0);
+      expect(actual.size()).toBeLessThanOrEqual(4);
+      expect(actual.toJSON().options).toHaveProperty('algorithm', 'kmeans');
+    });
+
+    it.each(['median-cut', 'octree', 'wu', 'celebi'] as const)(
+      'should extract a Palette with the quantization algorithm(%s)',
+      async (algorithm) => {
+        // Arrange
+        const flag = await loadImageData(fixtures.flags.za);
+
+        // Act
+        const actual = Palette.extract(flag, { algorithm });
+
+        // Assert
+        expect(actual.size()).toBeGreaterThanOrEqual(6);
+        const swatches = actual.findSwatches(actual.size());
+        expect(swatches.map((swatch) => swatch.color.toString())).toIncludeAllMembers([
+          '#007944',
+          '#F42222',
+          '#00158F',
+        ]);
+        const population = swatches.reduce((total, swatch) => total + swatch.population, 0);
+        expect(population).toBeLessThanOrEqual(flag.width * flag.height);
+        expect(actual.toJSON().options).toHaveProperty('algorithm', algorithm);
+      },
+    );
+
+    it('should extract a Palette with the instance of the clustering algorithm', () => {
+      // Arrange
+      const solid = createSolidImage(16, 16, 'srgb');
+      const algorithm = new SingleClusterAlgorithm();
+
+      // Act
+      const actual = Palette.extract(solid, { algorithm });
+
+      // Assert
+      expect(algorithm.calls).toBe(1);
+      expect(actual.size()).toBe(1);
+      expect(actual.findSwatches(1)[0].color.toString()).toBe('#FF0000');
+      expect(actual.toJSON().options).toHaveProperty('algorithm', 'custom');
+    });
+
+    it('should extract a Palette with the registered algorithm', () => {
+      // Arrange
+      const solid = createSolidImage(16, 16, 'srgb');
+      registerAlgorithm('single', () => new SingleClusterAlgorithm());
+
+      try {
+        // Act
+        const actual = Palette.extract(solid, { algorithm: 'single' });
+
+        // Assert
+        expect(actual.size()).toBe(1);
+        expect(actual.toJSON().options).toHaveProperty('algorithm', 'single');
+      } finally {
+        unregisterAlgorithm('single');
+      }
+    });
+
+    it('should throw an AssertionError if the algorithm is unknown', () => {
+      // Assert
+      expect(() => {
+        // Act
+        Palette.extract(image, { algorithm: 'unknown' });
+      }).toThrowError(AssertionError);
+    });
+
+    it('should throw an AssertionError if both the white point and the white balance are given', () => {
+      // Assert
+      expect(() => {
+        // Act
+        Palette.extract(image, { whitePoint: 'A', whiteBalance: 'gray-world' });
+      }).toThrowError(AssertionError);
+    });
+
+    it('should throw an AssertionError if the background is not a valid CSS color string', () => {
+      // Assert
+      expect(() => {
+        // Act
+        Palette.extract(image, { background: 'invalid' });
+      }).toThrowError(AssertionError);
+    });
+
     it.each([
       { samplingRate: 0.0 },
       { samplingRate: 1.1 },
@@ -195,4 +775,213 @@ describe('Palette', () => {
       }).toThrowError(AssertionError);
     });
   }, 3000);
+
+  describe('extractAsync', () => {
+    let image: ImageData;
+    beforeAll(async () => {
+      image = await loadImageData(fixtures.flags.za);
+    }, 1000);
+
+    // The pool runs the worker handler on the current thread, since the worker script is not bundled in tests.
+    const createPool = () =>
+      new WorkerPool(1, async () => {
+        let onMessage: (response: ExtractionResponse) => void = () => {};
+        return {
+          postMessage: (request) => setTimeout(() => onMessage(handleRequest(request)), 0),
+          listen: (listener) => {
+            onMessage = listener;
+          },
+          terminate: () => {},
+        };
+      });
+
+    it('should extract a Palette from the provided image in a worker', async () => {
+      // Act
+      const actual = await Palette.extractAsync(image, { pool: createPool() });
+
+      // Assert
+      expect(actual.size()).toBe(6);
+      const swatches = actual.findSwatches(6);
+      expect(swatches.map((swatch) => swatch.color)).toSatisfyAny((color: Color) => color.toString() === '#FFFFFF');
+    });
+
+    it('should apply the color filters before transferring the pixels', async () => {
+      // Act
+      const actual = await Palette.extractAsync(image, {
+        pool: createPool(),
+        filters: [luminanceFilter(0.0, 0.5)],
+      });
+
+      // Assert
+      expect(actual.isEmpty()).toBeFalsy();
+      expect(actual.findSwatches(actual.size())).toSatisfyAll(({ color }) => color.toString() !== '#FFFFFF');
+    });
+
+    it('should preserve the opacity of the pixels accepted by the color filters', async () => {
+      // Arrange
+      const translucent = createTranslucentImage(64, 64);
+
+      // Act
+      const actual = await Palette.extractAsync(translucent, { pool: createPool(), filters: [opacityFilter(0.1)] });
+
+      // Assert
+      expect(actual.size()).toBe(1);
+      expect(actual.findSwatches(1)[0].color.toString()).toBe('#FF000080');
+    });
+
+    it('should composite the pixels over the background in a worker', async () => {
+      // Arrange
+      const translucent = createTranslucentImage(64, 64);
+
+      // Act
+      const actual = await Palette.extractAsync(translucent, {
+        pool: createPool(),
+        filters: [opacityFilter(0.1)],
+        background: Color.fromString('#FFFFFF'),
+      });
+
+      // Assert
+      expect(actual.size()).toBe(1);
+      expect(actual.findSwatches(1)[0].color.toString()).toBe('#FF7F7F');
+    });
+
+    it('should convert the pixels from the color space of the image data in a worker', async () => {
+      // Arrange
+      const p3 = createSolidImage(64, 64, 'display-p3');
+
+      // Act
+      const actual = await Palette.extractAsync(p3, { pool: createPool() });
+
+      // Assert
+      expect(actual.size()).toBe(1);
+      expect(actual.findSwatches(1)[0].color.toRGB('display-p3')).toEqual({ r: 255, g: 0, b: 0 });
+      expect(actual.toJSON().options).toHaveProperty('colorSpace', 'display-p3');
+    });
+
+    it('should adapt the pixels from the white point to D65 in a worker', async () => {
+      // Arrange
+      const tinted = Color.fromString('#808080').adapt('D65', 'F11').toRGB();
+      const image = createSolidImage(64, 64, 'srgb', tinted);
+
+      // Act
+      const actual = await Palette.extractAsync(image, { pool: createPool(), whitePoint: 'F11' });
+
+      // Assert
+      expect(actual.size()).toBe(1);
+      expect(actual.findSwatches(1)[0].color).toBeSimilarColor('#808080');
+    });
+
+    it('should estimate the illuminant before applying the color filters', async () => {
+      // Arrange
+      const tinted = Color.fromString('#808080').adapt('D65', 'F11').toRGB();
+      const image = createSolidImage(64, 64, 'srgb', tinted);
+
+      // Act
+      const actual = await Palette.extractAsync(image, { pool: createPool(), whiteBalance: 'gray-world' });
+
+      // Assert
+      expect(actual.size()).toBe(1);
+      expect(actual.findSwatches(1)[0].color).toBeSimilarColor('#808080');
+      expect(actual.illuminant()?.x).toBeCloseTo(1.00966, 2);
+      expect(actual.illuminant()?.z).toBeCloseTo(0.6437, 2);
+    });
+
+    it('should extract a Palette with the parameters of the algorithm in a worker', async () => {
+      // Act
+      const actual = await Palette.extractAsync(image, {
+        pool: createPool(),
+        algorithm: { name: 'kmeans', params: { k: 2 } },
+      });
+
+      // Assert
+      expect(actual.size()).toBeGreaterThan(0);
+      expect(actual.size()).toBeLessThanOrEqual(2);
+    });
+
+    it('should reject with an AssertionError if the algorithm is an instance of the clustering algorithm', async () => {
+      // Act & Assert
+      await expect(
+        Palette.extractAsync(image, { pool: createPool(), algorithm: new SingleClusterAlgorithm() }),
+      ).rejects.toThrowError(AssertionError);
+    });
+
+    it('should reject with an AssertionError if the algorithm is registered', async () => {
+      // Arrange
+      registerAlgorithm('single', () => new SingleClusterAlgorithm());
+      const pool = createPool();
+      const run = vi.spyOn(pool, 'run');
+
+      try {
+        // Act & Assert
+        await expect(Palette.extractAsync(image, { pool, algorithm: 'single' })).rejects.toThrowError(AssertionError);
+        expect(run).not.toHaveBeenCalled();
+      } finally {
+        unregisterAlgorithm('single');
+      }
+    });
+
+    it('should not modify the pixels of the provided image', async () => {
+      // Arrange
+      const data = Uint8ClampedArray.from(image.data);
+
+      // Act
+      await Palette.extractAsync(image, { pool: createPool() });
+
+      // Assert
+      expect(image.data.every((value, index) => value === data[index])).toBeTruthy();
+    });
+
+    it('should reject if the signal has already been aborted', async () => {
+      // Arrange
+      const controller = new AbortController();
+      controller.abort(new Error('Aborted'));
+
+      // Act & Assert
+      await expect(Palette.extractAsync(image, { pool: createPool(), signal: controller.signal })).rejects.toThrowError(
+        'Aborted',
+      );
+    });
+
+    it.each([{ samplingRate: 0.0 }, { maxSwatches: 0 }])(
+      'should reject with an AssertionError if the options(%o) are invalid',
+      async (options) => {
+        // Act & Assert
+        await expect(Palette.extractAsync(image, { pool: createPool(), ...options })).rejects.toThrowError(
+          AssertionError,
+        );
+      },
+    );
+  });
 });
+
+class SingleClusterAlgorithm implements ClusteringAlgorithm<Point5> {
+  calls = 0;
+
+  fit(points: Point5[]): Cluster<Point5>[] {
+    this.calls++;
+    const cluster = new Cluster<Point5>(points[0]);
+    points.forEach((point, index) => cluster.addMember(index, point));
+    return [cluster];
+  }
+}
+
+function createTranslucentImage(width: number, height: number): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set([255, 0, 0, 128], i);
+  }
+  return { colorSpace: 'srgb', width, height, data };
+}
+
+function createSolidImage(
+  width: number,
+  height: number,
+  colorSpace: PredefinedColorSpace,
+  { r, g, b }: RGB = { r: 255, g: 0, b: 0 },
+): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set([r, g, b, 255], i);
+  }
+  return { colorSpace, width, height, data };
+}
@@ -0,0 +1,46 @@
+import { ease } from '@internal/scale/easing';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+describe('easing', () => {
+  describe('ease', () => {
+    it.each([
+      { easing: 'linear', t: 0.25, expected: 0.25 },
+      { easing: 'ease-in', t: 0.5, expected: 0.25 },
+      { easing: 'ease-out', t: 0.5, expected: 0.75 },
+      { easing: 'ease-in-out', t: 0.25, expected: 0.125 },
+      { easing: 'ease-in-out', t: 0.75, expected: 0.875 },
+    ] as const)('should ease the position($t) with $easing', ({ easing, t, expected }) => {
+      // Act
+      const actual = ease(easing, t);
+
+      // Assert
+      expect(actual).toBeCloseTo(expected);
+    });
+
+    it.each(['linear', 'ease-in', 'ease-out', 'ease-in-out'] as const)(
+      'should keep the ends of the range with %s',
+      (easing) => {
+        // Assert
+        expect(ease(easing, 0)).toBe(0);
+        expect(ease(easing, 1)).toBe(1);
+      },
+    );
+
+    it('should clamp the position eased by the custom function', () => {
+      // Act
+      const actual = ease((t: number): number => t * 2, 0.75);
+
+      // Assert
+      expect(actual).toBe(1);
+    });
+
+    it('should throw an AssertionError if the custom function returns a non-finite number', () => {
+      // Assert
+      expect(() => {
+        // Act
+        ease((): number => Number.NaN, 0.5);
+      }).toThrowError(AssertionError);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { AssertionError } from '@internal/utils';
+import { Color, ColorScale, type Swatch } from 'auto-palette';
+import { describe, expect, it } from 'vitest';
+
+const black = Color.fromString('#000000');
+const red = Color.fromString('#FF0000');
+const white = Color.fromString('#FFFFFF');
+
+describe('ColorScale', () => {
+  describe('constructor', () => {
+    it('should create a new ColorScale instance from the swatches', () => {
+      // Arrange
+      const swatches: Swatch[] = [
+        { color: black, position: { x: 0, y: 0 }, population: 1 },
+        { color: white, position: { x: 0, y: 0 }, population: 1 },
+      ];
+
+      // Act
+      const actual = new ColorScale(swatches);
+
+      // Assert
+      expect(actual.at(0).toString()).toBe('#000000');
+      expect(actual.at(1).toString()).toBe('#FFFFFF');
+    });
+
+    it.each([[], [red]])('should throw an AssertionError if less than 2 anchors are given: %o', (...anchors) => {
+      // Assert
+      expect(() => {
+        // Act
+        new ColorScale(anchors);
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('at', () => {
+    it('should pass through all the anchors with the linear interpolation', () => {
+      // Arrange
+      const scale = new ColorScale([black, red, white]);
+
+      // Act
+      const actual = [scale.at(0), scale.at(0.5), scale.at(1)];
+
+      // Assert
+      expect(actual.map((color) => color.toString())).toEqual(['#000000', '#FF0000', '#FFFFFF']);
+    });
+
+    it('should not pass through the middle anchor with the bezier interpolation', () => {
+      // Arrange
+      const scale = new ColorScale([black, red, white], { interpolation: 'bezier' });
+
+      // Act
+      const actual = scale.at(0.5);
+
+      // Assert
+      expect(actual.differenceTo(red)).toBeGreaterThan(10);
+      expect(scale.at(0).toString()).toBe('#000000');
+      expect(scale.at(1).toString()).toBe('#FFFFFF');
+    });
+
+    it.each([
+      { hue: 'shorter', expected: 10 },
+      { hue: 'longer', expected: 190 },
+    ] as const)('should interpolate the hue along the $hue path in lch', ({ hue, expected }) => {
+      // Arrange
+      const from = Color.fromLCH({ l: 50, c: 40, h: 350 });
+      const to = Color.fromLCH({ l: 50, c: 40, h: 30 });
+      const scale = new ColorScale([from, to], { space: 'lch', hue });
+
+      // Act
+      const actual = scale.at(0.5);
+
+      // Assert
+      expect(actual.toLCH().h).toBeCloseTo(expected, 4);
+    });
+
+    it('should ease the position', () => {
+      // Arrange
+      const scale = new ColorScale([black, white], { easing: 'ease-in' });
+
+      // Act
+      const actual = scale.at(0.5);
+
+      // Assert
+      expect(actual.lightness()).toBeCloseTo(25, 4);
+    });
+
+    it('should interpolate the alpha', () => {
+      // Arrange
+      const scale = new ColorScale([red.withAlpha(0), red]);
+
+      // Act
+      const actual = scale.at(0.25);
+
+      // Assert
+      expect(actual.alpha()).toBeCloseTo(0.25);
+    });
+
+    it.each([-0.1, 1.1, Number.NaN])('should throw an AssertionError if the position(%d) is invalid', (t) => {
+      // Arrange
+      const scale = new ColorScale([black, white]);
+
+      // Assert
+      expect(() => {
+        // Act
+        scale.at(t);
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('steps', () => {
+    it.each(['lab', 'oklab', 'lch', 'srgb'] as const)('should return the evenly spaced colors in %s', (space) => {
+      // Arrange
+      const scale = new ColorScale([black, white], { space });
+
+      // Act
+      const actual = scale.steps(5);
+
+      // Assert
+      expect(actual).toBeArrayOfSize(5);
+      expect(actual[0].toString()).toBe('#000000');
+      expect(actual[4].toString()).toBe('#FFFFFF');
+      for (let i = 1; i < actual.length; i++) {
+        expect(actual[i].lightness()).toBeGreaterThan(actual[i - 1].lightness());
+      }
+    });
+
+    it('should return the first anchor if the number of colors is 1', () => {
+      // Act
+      const actual = new ColorScale([black, white]).steps(1);
+
+      // Assert
+      expect(actual.map((color) => color.toString())).toEqual(['#000000']);
+    });
+
+    it.each([0, -1, 1.5])('should throw an AssertionError if the number of colors(%d) is invalid', (n) => {
+      // Arrange
+      const scale = new ColorScale([black, white]);
+
+      // Assert
+      expect(() => {
+        // Act
+        scale.steps(n);
+      }).toThrowError(AssertionError);
+    });
+  });
+});
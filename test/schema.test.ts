@@ -0,0 +1,139 @@
+import { Color } from '@internal/color';
+import { type PaletteJSON, assertPaletteJSON, deserializeSwatch, serializeSwatch } from '@internal/schema';
+import type { Swatch } from '@internal/swatch';
+import { AssertionError } from '@internal/utils';
+import { describe, expect, it } from 'vitest';
+
+const swatch: Swatch = {
+  color: Color.fromString('#007944'),
+  position: { x: 65, y: 53 },
+  population: 5147,
+};
+
+const json: PaletteJSON = {
+  version: 1,
+  source: { width: 160, height: 107 },
+  options: { algorithm: 'dbscan', samplingRate: 1.0, maxSwatches: 256, clusteringSpace: 'lab', colorSpace: 'srgb' },
+  swatches: [serializeSwatch(swatch)],
+};
+
+describe('schema', () => {
+  describe('serializeSwatch', () => {
+    it('should serialize the swatch with the LAB color and the hex color', () => {
+      // Act
+      const actual = serializeSwatch(swatch);
+
+      // Assert
+      expect(actual).toEqual({
+        color: { ...swatch.color.toLAB(), alpha: 1, hex: '#007944' },
+        position: { x: 65, y: 53 },
+        population: 5147,
+      });
+    });
+
+    it('should serialize the swatch with the alpha of the color', () => {
+      // Arrange
+      const translucent: Swatch = { ...swatch, color: Color.fromString('#00794480') };
+
+      // Act
+      const actual = serializeSwatch(translucent);
+
+      // Assert
+      expect(actual.color).toMatchObject({ alpha: 128 / 255, hex: '#00794480' });
+    });
+  });
+
+  describe('deserializeSwatch', () => {
+    it('should deserialize the swatch from the LAB color', () => {
+      // Act
+      const actual = deserializeSwatch(serializeSwatch(swatch));
+
+      // Assert
+      expect(actual).toEqual(swatch);
+    });
+
+    it('should deserialize the swatch as fully opaque if the alpha is missing', () => {
+      // Arrange
+      const { alpha: _, ...color } = serializeSwatch(swatch).color;
+
+      // Act
+      const actual = deserializeSwatch({ ...serializeSwatch(swatch), color });
+
+      // Assert
+      expect(actual.color.alpha()).toBe(1.0);
+    });
+  });
+
+  describe('assertPaletteJSON', () => {
+    it('should not throw if the value conforms to the schema', () => {
+      // Assert
+      expect(() => assertPaletteJSON(json)).not.toThrowError();
+      expect(() => assertPaletteJSON({ ...json, source: null, options: null })).not.toThrowError();
+      expect(() =>
+        assertPaletteJSON({ ...json, options: { ...json.options, algorithm: 'custom' } }),
+      ).not.toThrowError();
+      expect(() => assertPaletteJSON({ ...json, illuminant: { x: 1.0985, y: 1.0, z: 0.35585 } })).not.toThrowError();
+    });
+
+    it('should not throw if the clustering space and the color space are missing in the options', () => {
+      // Arrange
+      const { clusteringSpace: _, colorSpace: __, ...options } = json.options ?? {};
+
+      // Assert
+      expect(() => assertPaletteJSON({ ...json, options })).not.toThrowError();
+    });
+
+    const [swatchJSON] = json.swatches;
+    it.each([
+      { value: null, message: /palette must be an object/ },
+      { value: [], message: /palette must be an object/ },
+      { value: { ...json, version: 2 }, message: /version must be 1/ },
+      { value: { ...json, source: { width: 0, height: 107 } }, message: /source\.width/ },
+      { value: { ...json, source: undefined }, message: /source must be an object/ },
+      { value: { ...json, options: { ...json.options, algorithm: '' } }, message: /options\.algorithm/ },
+      { value: { ...json, options: { ...json.options, algorithm: 1 } }, message: /options\.algorithm/ },
+      { value: { ...json, options: { ...json.options, samplingRate: 0 } }, message: /options\.samplingRate/ },
+      { value: { ...json, options: { ...json.options, maxSwatches: 1.5 } }, message: /options\.maxSwatches/ },
+      { value: { ...json, options: { ...json.options, clusteringSpace: 'xyz' } }, message: /options\.clusteringSpace/ },
+      { value: { ...json, options: { ...json.options, colorSpace: 'prophoto-rgb' } }, message: /options\.colorSpace/ },
+      { value: { ...json, options: null }, message: /both null/ },
+      { value: { ...json, illuminant: null }, message: /illuminant must be an object/ },
+      { value: { ...json, illuminant: { x: 0, y: 1, z: 1 } }, message: /illuminant\.x/ },
+      { value: { ...json, illuminant: { x: 1, y: 1, z: Number.NaN } }, message: /illuminant\.z/ },
+      {
+        value: { ...json, source: null, options: null, illuminant: { x: 1, y: 1, z: 1 } },
+        message: /illuminant must be omitted/,
+      },
+      { value: { ...json, swatches: {} }, message: /swatches must be an array/ },
+      { value: { ...json, swatches: [null] }, message: /swatches\[0\] must be an object/ },
+      {
+        value: { ...json, swatches: [{ ...swatchJSON, color: { ...swatchJSON.color, l: 101 } }] },
+        message: /swatches\[0\]\.color\.l/,
+      },
+      {
+        value: { ...json, swatches: [{ ...swatchJSON, color: { ...swatchJSON.color, a: '0' } }] },
+        message: /swatches\[0\]\.color\.a/,
+      },
+      {
+        value: { ...json, swatches: [{ ...swatchJSON, color: { ...swatchJSON.color, alpha: 1.5 } }] },
+        message: /swatches\[0\]\.color\.alpha/,
+      },
+      {
+        value: { ...json, swatches: [{ ...swatchJSON, color: { ...swatchJSON.color, hex: 'red' } }] },
+        message: /swatches\[0\]\.color\.hex/,
+      },
+      {
+        value: { ...json, swatches: [{ ...swatchJSON, position: { x: Number.NaN, y: 0 } }] },
+        message: /swatches\[0\]\.position\.x/,
+      },
+      { value: { ...json, swatches: [{ ...swatchJSON, population: -1 }] }, message: /swatches\[0\]\.population/ },
+    ])('should throw an AssertionError matching $message', ({ value, message }) => {
+      // Assert
+      expect(() => {
+        // Act
+        assertPaletteJSON(value);
+      }).toThrowError(AssertionError);
+      expect(() => assertPaletteJSON(value)).toThrowError(message);
+    });
+  });
+});
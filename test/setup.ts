@@ -2,7 +2,7 @@ import 'jest-extended';
 import 'jest-extended/all';
 
 import { ImageData } from 'canvas';
-import { vi } from 'vitest';
 import './matchers';
 
-vi.stubGlobal('ImageData', ImageData);
+// The global is assigned directly, so that vi.unstubAllGlobals() in the tests does not remove it.
+Object.assign(globalThis, { ImageData });
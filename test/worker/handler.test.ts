@@ -0,0 +1,93 @@
+import { Color } from '@internal/color';
+import { Palette } from '@internal/palette';
+import { handleRequest } from '@internal/worker/handler';
+import { describe, expect, it, vi } from 'vitest';
+
+import fixtures from '../fixtures';
+import { loadImageData } from '../utils';
+
+describe('handler', () => {
+  describe('handleRequest', () => {
+    it('should extract swatches from the given request', async () => {
+      // Arrange
+      const { width, height, data } = await loadImageData(fixtures.flags.de);
+
+      // Act
+      const actual = handleRequest({
+        id: 1,
+        width,
+        height,
+        data,
+        algorithm: 'dbscan',
+        samplingRate: 1.0,
+        clusteringSpace: 'lab',
+        colorSpace: 'srgb',
+        whitePoint: null,
+        background: null,
+      });
+
+      // Assert
+      expect(actual).toMatchObject({ type: 'success', id: 1 });
+      if (actual.type === 'success') {
+        expect(actual.swatches).toBeArrayOfSize(3);
+        const colors = actual.swatches.map((swatch) => Color.fromLAB(swatch.color));
+        expect(colors).toSatisfyAny((color: Color) => color.differenceTo(Color.fromString('#DD0000')) < 10.0);
+        expect(actual.swatches).toSatisfyAll((swatch) => swatch.alpha === 1.0);
+      }
+    });
+
+    it('should composite the pixels over the background of the given request', () => {
+      // Arrange
+      const data = new Uint8ClampedArray(64 * 64 * 4);
+      for (let i = 0; i < data.length; i += 4) {
+        data.set([255, 0, 0, 128], i);
+      }
+
+      // Act
+      const actual = handleRequest({
+        id: 3,
+        width: 64,
+        height: 64,
+        data,
+        algorithm: 'dbscan',
+        samplingRate: 1.0,
+        clusteringSpace: 'lab',
+        colorSpace: 'srgb',
+        whitePoint: null,
+        background: { r: 255, g: 255, b: 255 },
+      });
+
+      // Assert
+      expect(actual).toMatchObject({ type: 'success', id: 3 });
+      if (actual.type === 'success') {
+        expect(actual.swatches).toBeArrayOfSize(1);
+        expect(Color.fromLAB(actual.swatches[0].color)).toBeSimilarColor('#FF7F7F');
+        expect(actual.swatches[0].alpha).toBe(1.0);
+      }
+    });
+
+    it('should return a failure response if the extraction fails', () => {
+      // Arrange
+      vi.spyOn(Palette, 'createExtractor').mockImplementationOnce(() => {
+        throw new Error('Failed to create the extractor');
+      });
+
+      // Act
+      const actual = handleRequest({
+        id: 2,
+        width: 1,
+        height: 1,
+        data: new Uint8ClampedArray([255, 0, 0, 255]),
+        algorithm: 'dbscan',
+        samplingRate: 1.0,
+        clusteringSpace: 'lab',
+        colorSpace: 'srgb',
+        whitePoint: null,
+        background: null,
+      });
+
+      // Assert
+      expect(actual).toEqual({ type: 'failure', id: 2, message: 'Failed to create the extractor' });
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { AssertionError } from '@internal/utils';
+import { handleRequest } from '@internal/worker/handler';
+import type { ExtractionRequest, ExtractionResponse } from '@internal/worker/message';
+import { type WorkerHandle, WorkerPool } from '@internal/worker/pool';
+import { describe, expect, it, vi } from 'vitest';
+
+/**
+ * Create a fake worker that handles requests on the current thread asynchronously.
+ */
+function createFakeWorker(
+  handler: (request: ExtractionRequest) => ExtractionResponse | null = handleRequest,
+): WorkerHandle {
+  let onMessage: (response: ExtractionResponse) => void = () => {};
+  return {
+    postMessage: vi.fn((request: ExtractionRequest) => {
+      setTimeout(() => {
+        const response = handler(request);
+        if (response) {
+          onMessage(response);
+        }
+      }, 0);
+    }),
+    listen: vi.fn((listener) => {
+      onMessage = listener;
+    }),
+    terminate: vi.fn(),
+  };
+}
+
+function createRequest() {
+  const data = new Uint8ClampedArray(4 * 4 * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set([255, 0, 0, 255], i);
+  }
+  return {
+    width: 4,
+    height: 4,
+    data,
+    algorithm: 'kmeans' as const,
+    samplingRate: 1.0,
+    clusteringSpace: 'lab' as const,
+    background: null,
+    colorSpace: 'srgb' as const,
+    whitePoint: null,
+  };
+}
+
+describe('WorkerPool', () => {
+  describe('constructor', () => {
+    it.each([0, -1, 1.5, Number.NaN])('should throw an AssertionError if the maxWorkers(%d) is invalid', (n) => {
+      // Assert
+      expect(() => {
+        // Act
+        new WorkerPool(n, async () => createFakeWorker());
+      }).toThrowError(AssertionError);
+    });
+  });
+
+  describe('run', () => {
+    it('should run the request on a worker', async () => {
+      // Arrange
+      const pool = new WorkerPool(1, async () => createFakeWorker());
+
+      // Act
+      const actual = await pool.run(createRequest());
+
+      // Assert
+      expect(actual).toBeArrayOfSize(1);
+      expect(actual[0]).toMatchObject({ population: 16 });
+    });
+
+    it('should reuse the workers for subsequent requests', async () => {
+      // Arrange
+      const factory = vi.fn(async () => createFakeWorker());
+      const pool = new WorkerPool(2, factory);
+
+      // Act
+      await pool.run(createRequest());
+      await pool.run(createRequest());
+      await Promise.all([pool.run(createRequest()), pool.run(createRequest()), pool.run(createRequest())]);
+
+      // Assert
+      expect(factory).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject if the signal has already been aborted', async () => {
+      // Arrange
+      const factory = vi.fn(async () => createFakeWorker());
+      const pool = new WorkerPool(1, factory);
+      const controller = new AbortController();
+      controller.abort(new Error('Aborted'));
+
+      // Act & Assert
+      await expect(pool.run(createRequest(), controller.signal)).rejects.toThrowError('Aborted');
+      expect(factory).not.toHaveBeenCalled();
+    });
+
+    it('should terminate the worker if the request is aborted while running', async () => {
+      // Arrange
+      const worker = createFakeWorker(() => null);
+      const pool = new WorkerPool(1, async () => worker);
+      const controller = new AbortController();
+
+      // Act
+      const promise = pool.run(createRequest(), controller.signal);
+      await vi.waitFor(() => expect(worker.postMessage).toHaveBeenCalled());
+      controller.abort(new Error('Aborted'));
+
+      // Assert
+      await expect(promise).rejects.toThrowError('Aborted');
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    it('should remove the abort listener when the request is settled', async () => {
+      // Arrange
+      const pool = new WorkerPool(1, async () => createFakeWorker());
+      const controller = new AbortController();
+      const addEventListener = vi.spyOn(controller.signal, 'addEventListener');
+      const removeEventListener = vi.spyOn(controller.signal, 'removeEventListener');
+
+      // Act
+      await pool.run(createRequest(), controller.signal);
+
+      // Assert
+      const listeners = addEventListener.mock.calls.map(([, listener]) => listener);
+      const removed = removeEventListener.mock.calls.map(([, listener]) => listener);
+      expect(listeners).toBeArrayOfSize(2);
+      expect(removed).toEqual(expect.arrayContaining(listeners));
+    });
+
+    it('should reject if the worker fails to handle the request', async () => {
+      // Arrange
+      const pool = new WorkerPool(1, async () =>
+        createFakeWorker(({ id }) => ({ type: 'failure', id, message: 'Failed to extract' })),
+      );
+
+      // Act & Assert
+      await expect(pool.run(createRequest())).rejects.toThrowError('Failed to extract');
+    });
+
+    it('should reject if the worker exits while running the request', async () => {
+      // Arrange
+      const worker = createFakeWorker(() => null);
+      vi.mocked(worker.postMessage).mockImplementation(() => {
+        const [, onError] = vi.mocked(worker.listen).mock.lastCall ?? [];
+        setTimeout(() => onError?.(new Error('The worker exited with the code 1')), 0);
+      });
+      const factory = vi.fn(async () => createFakeWorker());
+      factory.mockResolvedValueOnce(worker);
+      const pool = new WorkerPool(1, factory);
+
+      // Act
+      const actual = pool.run(createRequest());
+
+      // Assert
+      await expect(actual).rejects.toThrowError('The worker exited with the code 1');
+      expect(worker.terminate).toHaveBeenCalled();
+      await expect(pool.run(createRequest())).resolves.toBeArrayOfSize(1);
+      expect(factory).toHaveBeenCalledTimes(2);
+    });
+
+    it('should remove the idle worker from the pool if it exits', async () => {
+      // Arrange
+      const worker = createFakeWorker();
+      const factory = vi.fn(async () => createFakeWorker());
+      factory.mockResolvedValueOnce(worker);
+      const pool = new WorkerPool(1, factory);
+      await pool.run(createRequest());
+
+      // Act
+      const [, onError] = vi.mocked(worker.listen).mock.lastCall ?? [];
+      onError?.(new Error('The worker exited with the code 1'));
+      onError?.(new Error('The worker exited with the code 1'));
+      const actual = await Promise.all([pool.run(createRequest()), pool.run(createRequest())]);
+
+      // Assert
+      expect(actual).toBeArrayOfSize(2);
+      expect(worker.terminate).toHaveBeenCalledOnce();
+      expect(worker.postMessage).toHaveBeenCalledOnce();
+      expect(factory).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject if the worker cannot be created', async () => {
+      // Arrange
+      const pool = new WorkerPool(1, () => Promise.reject(new Error('Unsupported')));
+
+      // Act & Assert
+      await expect(pool.run(createRequest())).rejects.toThrowError('Unsupported');
+    });
+
+    it('should reject all the queued requests if the worker cannot be created', async () => {
+      // Arrange
+      const factory = vi.fn(() => Promise.reject(new Error('Unsupported')));
+      const pool = new WorkerPool(1, factory);
+
+      // Act
+      const actual = await Promise.allSettled([
+        pool.run(createRequest()),
+        pool.run(createRequest()),
+        pool.run(createRequest()),
+      ]);
+
+      // Assert
+      expect(actual).toEqual([
+        { status: 'rejected', reason: new Error('Unsupported') },
+        { status: 'rejected', reason: new Error('Unsupported') },
+        { status: 'rejected', reason: new Error('Unsupported') },
+      ]);
+      expect(factory).toHaveBeenCalledOnce();
+    });
+
+    it('should reject if the pool has been terminated', async () => {
+      // Arrange
+      const pool = new WorkerPool(1, async () => createFakeWorker());
+      pool.terminate();
+
+      // Act & Assert
+      await expect(pool.run(createRequest())).rejects.toThrowError(Error);
+    });
+  });
+
+  describe('terminate', () => {
+    it('should terminate the workers and reject running tasks', async () => {
+      // Arrange
+      const worker = createFakeWorker();
+      const pool = new WorkerPool(1, async () => worker);
+      await pool.run(createRequest());
+
+      // Act
+      const pending = pool.run(createRequest());
+      pool.terminate();
+
+      // Assert
+      await expect(pending).rejects.toThrowError(Error);
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+  });
+});
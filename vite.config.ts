@@ -6,19 +6,27 @@ import { defineConfig } from 'vitest/config';
 export default defineConfig({
   build: {
     lib: {
-      entry: resolve(__dirname, 'src/index.ts'),
+      entry: {
+        index: resolve(__dirname, 'src/index.ts'),
+        // The worker script is loaded at runtime by the WorkerPool.
+        'palette.worker': resolve(__dirname, 'src/worker/main.ts'),
+      },
       name: 'AutoPalette',
       formats: ['cjs', 'es'],
-      fileName: (format) => {
+      fileName: (format, entryName) => {
         if (format === 'cjs') {
-          return 'index.cjs';
+          return `${entryName}.cjs`;
         }
         if (format === 'es') {
-          return 'index.mjs';
+          return `${entryName}.mjs`;
         }
-        return `index.${format}.js`;
+        return `${entryName}.${format}.js`;
       },
     },
+    rollupOptions: {
+      // Node.js built-in modules are imported dynamically only when running on Node.js.
+      external: [/^node:/],
+    },
     sourcemap: true,
   },
   plugins: [